@@ -0,0 +1,151 @@
+import { spawn } from 'child_process';
+
+/** @typedef {import('../src/types/blender').BlendFileMetadata} BlendFileMetadata */
+
+const PROBE_TIMEOUT_MS = 60000;
+
+// Blender prints its own banner and warnings to stdout; the JSON line is tagged
+const METADATA_MARKER = 'RFP_METADATA:';
+
+const PROBE_SCRIPT = `
+import bpy, json, os
+
+def samples(scene):
+    if scene.render.engine == 'CYCLES':
+        return scene.cycles.samples
+    if scene.render.engine.startswith('BLENDER_EEVEE'):
+        return scene.eevee.taa_render_samples
+    return None
+
+def cycles(scene):
+    settings = scene.cycles
+    return {
+        'device': settings.device,
+        'denoiser': settings.denoiser if settings.use_denoising else 'NONE',
+        'denoisingInput': settings.denoising_input_passes,
+        'adaptiveThreshold': settings.adaptive_threshold if settings.use_adaptive_sampling else 0,
+        'timeLimit': getattr(settings, 'time_limit', 0),
+        'tileSize': settings.tile_size if getattr(settings, 'use_auto_tile', False) else 0,
+        'persistentData': scene.render.use_persistent_data,
+    }
+
+def describe(scene):
+    render = scene.render
+    info = {
+        'name': scene.name,
+        'camera': scene.camera.name if scene.camera else None,
+        'cameras': [obj.name for obj in scene.objects if obj.type == 'CAMERA'],
+        'viewLayers': [layer.name for layer in scene.view_layers],
+        'frameStart': scene.frame_start,
+        'frameEnd': scene.frame_end,
+        'frameStep': scene.frame_step,
+        'fps': render.fps / render.fps_base,
+        'engine': render.engine,
+        'resolution': [render.resolution_x, render.resolution_y],
+        'resolutionPercentage': render.resolution_percentage,
+        'samples': samples(scene),
+        'outputPath': bpy.path.abspath(render.filepath),
+        'format': render.image_settings.file_format,
+    }
+    if hasattr(scene, 'cycles'):
+        info['cycles'] = cycles(scene)
+    return info
+
+path = bpy.data.filepath
+print('${METADATA_MARKER}' + json.dumps({
+    'blenderVersion': bpy.app.version_string,
+    'fileVersion': '.'.join(str(part) for part in bpy.data.version),
+    'fileSize': os.path.getsize(path),
+    'modifiedTime': os.path.getmtime(path) * 1000,
+    'activeScene': bpy.context.scene.name,
+    'scenes': [describe(scene) for scene in bpy.data.scenes],
+}))
+`;
+
+/**
+ * Pull the JSON line tagged with `marker` out of Blender's stdout.
+ * @param {string} output
+ * @param {string} [marker]
+ * @returns {any} null when there is no such line
+ */
+export function parseProbeOutput(output, marker = METADATA_MARKER) {
+  const line = output.split(/\r?\n/).find(candidate => candidate.startsWith(marker));
+  return line ? JSON.parse(line.slice(marker.length)) : null;
+}
+
+/**
+ * Open a blend file in background Blender, run `script` and resolve with
+ * the JSON it printed after `marker`. Addons are skipped
+ * (`--factory-startup`) so probing stays fast and has no side effects.
+ * @param {string} blenderPath
+ * @param {string | null} blendFile Null to run the script without opening a file
+ * @param {string} script
+ * @param {string} marker
+ * @param {string} what Description of the result for error messages
+ * @returns {Promise<any>}
+ */
+export function runProbeScript(blenderPath, blendFile, script, marker, what) {
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let child;
+    const source = blendFile ?? blenderPath;
+
+    try {
+      child = spawn(
+        blenderPath,
+        ['-b', '--factory-startup', ...(blendFile ? [blendFile] : []), '--python-exit-code', '1', '--python-expr', script],
+        { stdio: ['ignore', 'pipe', 'pipe'] }
+      );
+    } catch (error) {
+      reject(error);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`Timed out reading ${what} from ${source}`));
+    }, PROBE_TIMEOUT_MS);
+
+    child.stdout.on('data', chunk => {
+      stdout += chunk.toString();
+    });
+
+    child.stderr.on('data', chunk => {
+      stderr += chunk.toString();
+    });
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    child.on('close', code => {
+      clearTimeout(timer);
+
+      let result = null;
+      try {
+        result = parseProbeOutput(stdout, marker);
+      } catch {
+        // Truncated output, reported below
+      }
+
+      if (code === 0 && result) {
+        resolve(result);
+      } else {
+        const detail = stderr.trim().split('\n').slice(-3).join('\n');
+        reject(new Error(`Could not read ${what} from ${source}${detail ? `:\n${detail}` : ''}`));
+      }
+    });
+  });
+}
+
+/**
+ * Read the scenes, cameras, view layers and render settings of a blend file.
+ * @param {string} blenderPath
+ * @param {string} blendFile
+ * @returns {Promise<BlendFileMetadata>}
+ */
+export function probeBlendFile(blenderPath, blendFile) {
+  return runProbeScript(blenderPath, blendFile, PROBE_SCRIPT, METADATA_MARKER, 'scene information');
+}
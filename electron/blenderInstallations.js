@@ -0,0 +1,172 @@
+import { existsSync } from 'fs';
+import { readdir, realpath } from 'fs/promises';
+import { homedir } from 'os';
+import { delimiter, join } from 'path';
+import { DEFAULT_BLENDER_PATHS } from './blenderManager.js';
+
+/** @typedef {import('../src/types/blender').BlenderInstallation} BlenderInstallation */
+/** @typedef {import('./blenderManager.js').BlenderManager} BlenderManager */
+/** @typedef {ReturnType<typeof import('./settings.js').createSettingsStore>} SettingsStore */
+
+const SETTINGS_KEY = 'blenderInstallations';
+
+/**
+ * Executables in subdirectories of `parent` whose names match `pattern`,
+ * e.g. every `/opt/blender-*` with a `blender` binary inside.
+ * @param {string} parent
+ * @param {RegExp} pattern
+ * @param {string} executable Path of the binary relative to the matched directory
+ * @returns {Promise<string[]>}
+ */
+async function findInSubdirectories(parent, pattern, executable) {
+  try {
+    const entries = await readdir(parent);
+    return entries
+      .filter(entry => pattern.test(entry))
+      .map(entry => join(parent, entry, executable));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Find Blender executables in the platform's usual install locations and
+ * on `PATH`. Symlinks to the same binary are reported once.
+ * @returns {Promise<string[]>}
+ */
+export async function discoverBlenderPaths() {
+  const platform = process.platform;
+  const candidates = [...(DEFAULT_BLENDER_PATHS[platform] || [])];
+
+  if (platform === 'win32') {
+    const programFiles = process.env.ProgramFiles || 'C:\\Program Files';
+    candidates.push(...await findInSubdirectories(join(programFiles, 'Blender Foundation'), /^Blender/i, 'blender.exe'));
+  } else if (platform === 'darwin') {
+    candidates.push(...await findInSubdirectories('/Applications', /^Blender.*\.app$/i, 'Contents/MacOS/Blender'));
+  } else {
+    candidates.push(...await findInSubdirectories('/opt', /^blender/i, 'blender'));
+    candidates.push(...await findInSubdirectories(homedir(), /^blender/i, 'blender'));
+  }
+
+  const executable = platform === 'win32' ? 'blender.exe' : 'blender';
+  (process.env.PATH || '').split(delimiter).filter(Boolean).forEach(dir => {
+    candidates.push(join(dir, executable));
+  });
+
+  const seen = new Set();
+  const found = [];
+  for (const candidate of candidates) {
+    if (!existsSync(candidate)) continue;
+    const resolved = await realpath(candidate).catch(() => candidate);
+    if (seen.has(resolved)) continue;
+    seen.add(resolved);
+    found.push(candidate);
+  }
+  return found;
+}
+
+/**
+ * Named Blender installations persisted in the settings store. Versions
+ * are detected when an installation is added and on validation.
+ */
+export class BlenderInstallations {
+  /**
+   * @param {SettingsStore} settings
+   * @param {BlenderManager} blenderManager Used to run `blender --version`
+   */
+  constructor(settings, blenderManager) {
+    this.settings = settings;
+    this.blenderManager = blenderManager;
+  }
+
+  /** @returns {BlenderInstallation[]} */
+  list() {
+    return this.settings.get(SETTINGS_KEY, []);
+  }
+
+  /** @param {BlenderInstallation[]} installations */
+  save(installations) {
+    this.settings.set(SETTINGS_KEY, installations);
+  }
+
+  /**
+   * Register an executable. Rejects when it does not report a Blender
+   * version; adding a registered path again returns the existing entry.
+   * @param {string} path
+   * @param {string} [name]
+   * @param {'manual' | 'discovered'} [source]
+   * @returns {Promise<BlenderInstallation>}
+   */
+  async add(path, name, source = 'manual') {
+    const existing = this.list().find(installation => installation.path === path);
+    if (existing) return existing;
+
+    let version;
+    try {
+      version = await this.blenderManager.getBlenderVersion(path);
+    } catch {
+      throw new Error(`${path} is not a working Blender executable`);
+    }
+
+    /** @type {BlenderInstallation} */
+    const installation = {
+      id: `blender-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: name || `Blender ${version}`,
+      path,
+      version,
+      available: true,
+      source
+    };
+    this.save([...this.list(), installation]);
+    return installation;
+  }
+
+  /** @param {string} id */
+  remove(id) {
+    this.save(this.list().filter(installation => installation.id !== id));
+  }
+
+  /**
+   * Re-detect an installation's version, e.g. after Blender was updated in place.
+   * @param {string} id
+   * @returns {Promise<BlenderInstallation>}
+   */
+  async validate(id) {
+    const installation = this.list().find(candidate => candidate.id === id);
+    if (!installation) {
+      throw new Error(`Unknown Blender installation: ${id}`);
+    }
+
+    const version = await this.blenderManager.getBlenderVersion(installation.path).catch(() => undefined);
+    const updated = { ...installation, version, available: version !== undefined };
+    this.save(this.list().map(candidate => (candidate.id === id ? updated : candidate)));
+    return updated;
+  }
+
+  /**
+   * Register every Blender found by `discoverBlenderPaths` that is not
+   * registered yet. Executables that fail to report a version are skipped.
+   * @returns {Promise<BlenderInstallation[]>} The full registry
+   */
+  async discover() {
+    const paths = await discoverBlenderPaths();
+    for (const path of paths) {
+      await this.add(path, undefined, 'discovered').catch(() => undefined);
+    }
+    return this.list();
+  }
+
+  /**
+   * Executable for an installation id, or undefined for the default Blender.
+   * @param {string} [id]
+   * @returns {string | undefined}
+   */
+  resolvePath(id) {
+    if (!id) return undefined;
+    const installation = this.list().find(candidate => candidate.id === id);
+    if (!installation) {
+      throw new Error(`Blender installation ${id} is no longer registered`);
+    }
+    return installation.path;
+  }
+}
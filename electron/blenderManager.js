@@ -0,0 +1,534 @@
+import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { probeBlendFile } from './blendProbe.js';
+import { BlenderOutputParser } from './blenderOutputParser.js';
+import { scanDependencies } from './dependencyScanner.js';
+import { formatFrameList, scanOutputFrames } from './frameScanner.js';
+import { resolveOutputPattern } from './outputPaths.js';
+import { buildPathRemapScript, mapPath, resolvePathMappings } from './pathMapping.js';
+import { buildOverrideScript, validateOverrides } from './propertyOverrides.js';
+import { buildCyclesArgs, buildCyclesScript, listCyclesDevices } from './cyclesOptions.js';
+import { buildVideoScript } from './videoOutput.js';
+
+/** @typedef {import('../src/types/blender').BlenderRenderOptions} BlenderRenderOptions */
+/** @typedef {import('../src/types/blender').RenderProgress} RenderProgress */
+/** @typedef {import('../src/types/blender').BlendFileMetadata} BlendFileMetadata */
+/** @typedef {import('../src/types/blender').AssetDependency} AssetDependency */
+/** @typedef {import('../src/types/blender').PathMappingRule} PathMappingRule */
+/** @typedef {import('../src/types/blender').PropertyOverride} PropertyOverride */
+/** @typedef {import('../src/types/blender').OverrideProblem} OverrideProblem */
+/** @typedef {import('../src/types/blender').CyclesDevice} CyclesDevice */
+
+/**
+ * @typedef {Object} ActiveRender
+ * @property {string} blendFile
+ * @property {import('child_process').ChildProcess | null} process Null while the output directory is scanned
+ * @property {boolean} cancelled
+ */
+
+// Well-known install locations, checked in order when no path is configured
+export const DEFAULT_BLENDER_PATHS = {
+  win32: [
+    'C:\\Program Files\\Blender Foundation\\Blender\\blender.exe',
+    'C:\\Program Files\\Blender Foundation\\Blender 4.2\\blender.exe',
+    'C:\\Program Files\\Blender Foundation\\Blender 3.6\\blender.exe'
+  ],
+  darwin: [
+    '/Applications/Blender.app/Contents/MacOS/Blender'
+  ],
+  linux: [
+    '/usr/bin/blender',
+    '/usr/local/bin/blender',
+    '/snap/bin/blender'
+  ]
+};
+
+const ENGINE_IDS = {
+  CYCLES: 'CYCLES',
+  EEVEE: 'BLENDER_EEVEE',
+  WORKBENCH: 'BLENDER_WORKBENCH'
+};
+
+const VERSION_TIMEOUT_MS = 15000;
+
+/**
+ * Resolve the Blender executable to use when the user has not configured one.
+ * `BLENDER_PATH` wins so tests and headless setups can point at a stand-in.
+ * @returns {string}
+ */
+export function findDefaultBlenderPath() {
+  if (process.env.BLENDER_PATH) {
+    return process.env.BLENDER_PATH;
+  }
+
+  const candidates = DEFAULT_BLENDER_PATHS[process.platform] || [];
+  return candidates.find(candidate => existsSync(candidate)) || 'blender';
+}
+
+/**
+ * Python run inside Blender before rendering, for settings that have no
+ * command line flag.
+ * @param {BlenderRenderOptions} options
+ * @returns {string}
+ */
+export function buildPythonOverrides(options) {
+  const lines = ['import bpy', 'scene = bpy.context.scene'];
+
+  if (options.scene || options.camera || options.viewLayer) {
+    // Blender carries on with the active scene when --scene names no scene;
+    // rendering the wrong target would be worse than failing
+    lines.push(
+      'import sys',
+      'def missing_target(message):',
+      "    print('Error: Render target not found: ' + message, flush=True)",
+      '    sys.exit(1)'
+    );
+  }
+
+  if (options.scene) {
+    lines.push(`if scene.name != ${JSON.stringify(options.scene)}: missing_target(${JSON.stringify(`scene "${options.scene}"`)})`);
+  }
+
+  if (options.camera) {
+    lines.push(
+      `camera = bpy.data.objects.get(${JSON.stringify(options.camera)})`,
+      `if camera is None or camera.type != 'CAMERA': missing_target(${JSON.stringify(`camera "${options.camera}"`)})`,
+      'scene.camera = camera'
+    );
+  }
+
+  if (options.viewLayer) {
+    lines.push(
+      `view_layer = ${JSON.stringify(options.viewLayer)}`,
+      `if view_layer not in scene.view_layers: missing_target(${JSON.stringify(`view layer "${options.viewLayer}"`)})`,
+      'for layer in scene.view_layers: layer.use = layer.name == view_layer'
+    );
+  }
+
+  if (options.engine) {
+    // EEVEE is registered as BLENDER_EEVEE_NEXT in Blender 4.2 - 4.x
+    lines.push(
+      `engine = ${JSON.stringify(ENGINE_IDS[options.engine])}`,
+      "engines = {item.identifier for item in bpy.types.RenderSettings.bl_rna.properties['engine'].enum_items}",
+      "if engine not in engines and engine + '_NEXT' in engines: engine += '_NEXT'",
+      'scene.render.engine = engine'
+    );
+  }
+
+  if (options.samples !== undefined) {
+    lines.push(
+      `if scene.render.engine == 'CYCLES': scene.cycles.samples = ${Math.round(options.samples)}`,
+      `elif hasattr(scene, 'eevee'): scene.eevee.taa_render_samples = ${Math.round(options.samples)}`
+    );
+  }
+
+  if (options.resolution) {
+    lines.push(
+      `scene.render.resolution_x = ${Math.round(options.resolution[0])}`,
+      `scene.render.resolution_y = ${Math.round(options.resolution[1])}`,
+      'scene.render.resolution_percentage = 100'
+    );
+  }
+
+  if (options.skipExistingFrames) {
+    // Zero-byte frames are re-rendered, so they must not be skipped by Blender itself
+    lines.push('scene.render.use_overwrite = True');
+  }
+
+  if (options.quality !== undefined) {
+    lines.push(`scene.render.image_settings.quality = ${Math.round(options.quality)}`);
+  }
+
+  lines.push(...buildPathRemapScript(options.pathRemaps ?? []));
+
+  if (options.cycles) {
+    lines.push(...buildCyclesScript(options.cycles));
+  }
+
+  if (options.video && options.format === 'FFMPEG') {
+    lines.push(...buildVideoScript(options.video));
+  }
+
+  // Last, so they win over everything above
+  lines.push(...buildOverrideScript(options.propertyOverrides ?? []));
+
+  return lines.join('\n');
+}
+
+/**
+ * Build the background render command line. Blender applies arguments in
+ * order, so everything must come before `-a`; only the Cycles arguments
+ * Blender hands on after `--` follow it.
+ * @param {BlenderRenderOptions} options
+ * @returns {string[]}
+ */
+export function buildRenderArgs(options) {
+  const args = ['-b', options.blendFile];
+
+  if (options.scene) {
+    args.push('--scene', options.scene);
+  }
+
+  args.push('--python-expr', buildPythonOverrides(options));
+
+  if (options.pythonScripts?.length) {
+    // Only applies to the scripts after it: a failing user script fails the render
+    args.push('--python-exit-code', '1');
+    options.pythonScripts.forEach(script => args.push('--python', script));
+  }
+  args.push('-o', resolveOutputPattern(options));
+
+  if (options.format) {
+    args.push('-F', options.format);
+  }
+
+  if (options.threads) {
+    args.push('-t', String(options.threads));
+  }
+
+  if (options.frames) {
+    args.push('-f', formatFrameList(options.frames));
+  } else {
+    if (options.startFrame !== undefined) {
+      args.push('-s', String(options.startFrame));
+    }
+
+    if (options.endFrame !== undefined) {
+      args.push('-e', String(options.endFrame));
+    }
+
+    args.push('-a');
+  }
+
+  if (options.cycles) {
+    args.push(...buildCyclesArgs(options.cycles));
+  }
+  return args;
+}
+
+/**
+ * Runs and tracks background Blender processes. Has no Electron dependency
+ * so it can be driven from the main process, a CLI or a test harness.
+ */
+export class BlenderManager {
+  /**
+   * @param {{ blenderPath?: string, pathMappings?: PathMappingRule[] }} [config]
+   */
+  constructor(config = {}) {
+    this.blenderPath = config.blenderPath || findDefaultBlenderPath();
+    /** @type {PathMappingRule[]} */
+    this.pathMappings = config.pathMappings ?? [];
+    /** @type {Map<string, ActiveRender>} Keyed by job id */
+    this.activeRenders = new Map();
+  }
+
+  /** @param {string} path */
+  setBlenderPath(path) {
+    this.blenderPath = path || findDefaultBlenderPath();
+  }
+
+  getBlenderPath() {
+    return this.blenderPath;
+  }
+
+  /**
+   * Shared-storage locations that are the same on every machine; applied to
+   * blend file, output and asset paths before probing or rendering.
+   * @param {PathMappingRule[]} rules
+   */
+  setPathMappings(rules) {
+    this.pathMappings = rules ?? [];
+  }
+
+  /**
+   * @param {PathMappingRule[]} [extraRules]
+   */
+  resolvePathRemaps(extraRules = []) {
+    return resolvePathMappings([...extraRules, ...this.pathMappings]);
+  }
+
+  async isBlenderAvailable() {
+    try {
+      await this.getBlenderVersion();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * @param {string} [blenderPath] Another installation to check; defaults to the configured one
+   * @returns {Promise<string>}
+   */
+  getBlenderVersion(blenderPath = this.blenderPath) {
+    return new Promise((resolve, reject) => {
+      let output = '';
+      let child;
+
+      try {
+        child = spawn(blenderPath, ['--version'], { stdio: ['ignore', 'pipe', 'pipe'] });
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new Error('Timed out waiting for Blender to report its version'));
+      }, VERSION_TIMEOUT_MS);
+
+      child.stdout.on('data', chunk => {
+        output += chunk.toString();
+      });
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+
+      child.on('close', code => {
+        clearTimeout(timer);
+        const match = output.match(/Blender\s+(\d+\.\d+(?:\.\d+)?)/);
+        if (code === 0 && match) {
+          resolve(match[1]);
+        } else {
+          reject(new Error(`Could not determine Blender version from ${blenderPath}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Read scene information from a blend file without rendering it.
+   * @param {string} blendFile
+   * @param {string} [blenderPath]
+   * @returns {Promise<BlendFileMetadata>}
+   */
+  probeFile(blendFile, blenderPath = this.blenderPath) {
+    const localFile = mapPath(blendFile, this.resolvePathRemaps());
+    if (!existsSync(localFile)) {
+      return Promise.reject(new Error(`Blend file not found: ${localFile}`));
+    }
+    return probeBlendFile(blenderPath, localFile);
+  }
+
+  /**
+   * Cycles devices of this machine as seen by a Blender installation.
+   * @param {string} [blenderPath]
+   * @returns {Promise<CyclesDevice[]>}
+   */
+  listDevices(blenderPath = this.blenderPath) {
+    return listCyclesDevices(blenderPath);
+  }
+
+  /**
+   * List the external files a blend file references and flag missing ones.
+   * @param {string} blendFile
+   * @param {string} [blenderPath]
+   * @returns {Promise<AssetDependency[]>}
+   */
+  scanDependencies(blendFile, blenderPath = this.blenderPath) {
+    const remaps = this.resolvePathRemaps();
+    const localFile = mapPath(blendFile, remaps);
+    if (!existsSync(localFile)) {
+      return Promise.reject(new Error(`Blend file not found: ${localFile}`));
+    }
+    return scanDependencies(blenderPath, localFile, remaps);
+  }
+
+  /**
+   * Check property overrides against a blend file without rendering.
+   * @param {string} blendFile
+   * @param {PropertyOverride[]} overrides
+   * @param {string[]} [scenes] Scenes the overrides will be applied to; the active scene when empty
+   * @param {string} [blenderPath]
+   * @returns {Promise<OverrideProblem[]>}
+   */
+  validateOverrides(blendFile, overrides, scenes = [], blenderPath = this.blenderPath) {
+    const localFile = mapPath(blendFile, this.resolvePathRemaps());
+    if (!existsSync(localFile)) {
+      return Promise.reject(new Error(`Blend file not found: ${localFile}`));
+    }
+    return validateOverrides(blenderPath, localFile, overrides, scenes);
+  }
+
+  /**
+   * Render a blend file. Resolves once Blender exits successfully or the
+   * render is cancelled, rejects with Blender's error output otherwise.
+   * @param {BlenderRenderOptions} options
+   * @param {(progress: RenderProgress) => void} [onProgress]
+   * @returns {Promise<void>}
+   */
+  async renderFile(options, onProgress = () => {}) {
+    const jobId = options.jobId || options.blendFile;
+
+    const pathRemaps = this.resolvePathRemaps(options.pathMappings);
+    if (pathRemaps.length > 0) {
+      options = {
+        ...options,
+        jobId,
+        blendFile: mapPath(options.blendFile, pathRemaps),
+        outputPath: mapPath(options.outputPath, pathRemaps),
+        pythonScripts: options.pythonScripts?.map(script => mapPath(script, pathRemaps)),
+        pathRemaps
+      };
+    }
+
+    if (this.activeRenders.has(jobId)) {
+      throw new Error(`Render ${jobId} is already running`);
+    }
+
+    if (!options.skipExistingFrames || options.format === 'FFMPEG') {
+      return this.spawnRender(options, onProgress);
+    }
+
+    // Registered before the scan so a cancel during it stops the render
+    /** @type {ActiveRender} */
+    const scanning = { blendFile: options.blendFile, process: null, cancelled: false };
+    this.activeRenders.set(jobId, scanning);
+    let scan;
+    try {
+      scan = await scanOutputFrames(options);
+    } finally {
+      this.activeRenders.delete(jobId);
+    }
+
+    const { existing, missing } = scan;
+    const parserOptions = {
+      blendFile: options.blendFile,
+      startFrame: missing[0] ?? options.startFrame,
+      endFrame: options.endFrame,
+      totalFrames: existing.length + missing.length,
+      skippedFrames: existing.length
+    };
+
+    if (scanning.cancelled) {
+      onProgress(new BlenderOutputParser(parserOptions).toProgress('cancelled', 'Render cancelled'));
+      return;
+    }
+    if (missing.length === 0) {
+      onProgress(new BlenderOutputParser(parserOptions).toProgress('completed', 'All frames already rendered'));
+      return;
+    }
+
+    return this.spawnRender({ ...options, frames: missing }, onProgress, parserOptions);
+  }
+
+  /**
+   * @param {BlenderRenderOptions} options
+   * @param {(progress: RenderProgress) => void} onProgress
+   * @param {ConstructorParameters<typeof BlenderOutputParser>[0]} [parserOptions]
+   * @returns {Promise<void>}
+   */
+  spawnRender(options, onProgress, parserOptions) {
+    const { blendFile } = options;
+    const jobId = options.jobId || blendFile;
+
+    if (this.activeRenders.has(jobId)) {
+      return Promise.reject(new Error(`Render ${jobId} is already running`));
+    }
+
+    return new Promise((resolve, reject) => {
+      let child;
+
+      try {
+        child = spawn(options.blenderPath || this.blenderPath, buildRenderArgs(options), { stdio: ['ignore', 'pipe', 'pipe'] });
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      /** @type {ActiveRender} */
+      const render = { blendFile, process: child, cancelled: false };
+      this.activeRenders.set(jobId, render);
+
+      const parser = new BlenderOutputParser(parserOptions ?? {
+        blendFile,
+        startFrame: options.frames?.[0] ?? options.startFrame,
+        endFrame: options.endFrame,
+        totalFrames: options.frames?.length
+      });
+      const stderr = [];
+
+      child.stdout.on('data', chunk => {
+        const events = parser.write(chunk.toString());
+        if (events.some(event => event.type === 'status' || event.type === 'saved' || event.type === 'appended')) {
+          onProgress(parser.toProgress('rendering'));
+        }
+      });
+
+      child.stderr.on('data', chunk => {
+        stderr.push(...chunk.toString().split(/\r?\n/).filter(Boolean));
+      });
+
+      child.on('error', error => {
+        this.activeRenders.delete(jobId);
+        reject(error);
+      });
+
+      child.on('close', (code, signal) => {
+        parser.end();
+        this.activeRenders.delete(jobId);
+
+        // Blender exits 0 on most failures, so errors without any finished
+        // frame count as a failed render as well
+        const failed = code !== 0 || (parser.errors.length > 0 && parser.frameStats.length === 0);
+
+        if (render.cancelled) {
+          onProgress(parser.toProgress('cancelled', 'Render cancelled'));
+          resolve();
+        } else if (!failed) {
+          onProgress(parser.toProgress('completed'));
+          resolve();
+        } else {
+          const errors = parser.errors.length > 0 ? parser.errors : stderr;
+          const message = errors.length > 0
+            ? errors.slice(-5).join('\n')
+            : signal
+              ? `Blender was terminated by signal ${signal}`
+              : `Blender exited with code ${code}`;
+          onProgress(parser.toProgress('error', message));
+          reject(new Error(message));
+        }
+      });
+    });
+  }
+
+  /**
+   * Cancel a render by job id, or every render of a blend file.
+   * @param {string} jobIdOrBlendFile
+   */
+  cancelRender(jobIdOrBlendFile) {
+    const matches = this.findRenders(jobIdOrBlendFile);
+    matches.forEach(render => {
+      render.cancelled = true;
+      render.process?.kill();
+    });
+    return matches.length > 0;
+  }
+
+  cancelAllRenders() {
+    [...this.activeRenders.keys()].forEach(jobId => this.cancelRender(jobId));
+  }
+
+  /** @returns {string[]} Blend files currently rendering */
+  getActiveRenders() {
+    return [...new Set([...this.activeRenders.values()].map(render => render.blendFile))];
+  }
+
+  /** @param {string} jobIdOrBlendFile */
+  isRenderActive(jobIdOrBlendFile) {
+    return this.findRenders(jobIdOrBlendFile).length > 0;
+  }
+
+  /**
+   * @param {string} jobIdOrBlendFile
+   * @returns {ActiveRender[]}
+   */
+  findRenders(jobIdOrBlendFile) {
+    const byId = this.activeRenders.get(jobIdOrBlendFile);
+    if (byId) return [byId];
+
+    return [...this.activeRenders.values()].filter(render => render.blendFile === jobIdOrBlendFile);
+  }
+}
@@ -0,0 +1,359 @@
+/** @typedef {import('../src/types/blender').RenderProgress} RenderProgress */
+/** @typedef {import('../src/types/blender').FrameStat} FrameStat */
+
+/**
+ * @typedef {Object} ParsedStatusLine
+ * @property {'status'} type
+ * @property {number} frame
+ * @property {number} [elapsed] Seconds spent on the current frame
+ * @property {number} [remaining] Blender's own estimate for the current frame, in seconds
+ * @property {number} [memory] Scene memory in MB
+ * @property {number} [peakMemory] Peak memory in MB
+ * @property {number} [sample]
+ * @property {number} [totalSamples]
+ */
+
+/**
+ * @typedef {Object} ParsedSavedLine
+ * @property {'saved'} type
+ * @property {string} path
+ */
+
+/**
+ * @typedef {Object} ParsedAppendedLine
+ * @property {'appended'} type
+ * @property {number} frame Frame added to the video file of an FFMPEG render
+ */
+
+/**
+ * @typedef {Object} ParsedErrorLine
+ * @property {'error'} type
+ * @property {string} message
+ */
+
+/**
+ * @typedef {Object} ParsedFrameTimeLine
+ * @property {'frameTime'} type
+ * @property {number} seconds Total time of the frame that was just saved or appended
+ */
+
+/** @typedef {ParsedStatusLine | ParsedSavedLine | ParsedAppendedLine | ParsedFrameTimeLine | ParsedErrorLine} ParsedLine */
+
+const STATUS_LINE = /^Fra:(\d+)\s/;
+const TIME_FIELD = /\|\s*Time:\s*([\d:.]+)/;
+const REMAINING_FIELD = /\|\s*Remaining:\s*([\d:.]+)/;
+const MEMORY_FIELD = /\bMem:\s*([\d.]+)([KMG])/;
+const PEAK_FIELD = /\bPeak[:\s]\s*([\d.]+)([KMG])/;
+// Cycles: "Sample 64/128" (also "Path Tracing Sample 64/128" in 3.x, and
+// "Rendered 3/40 Tiles, Sample 64/128" in 2.9x)
+const CYCLES_SAMPLES = /\bSample (\d+)\/(\d+)/;
+// EEVEE and Workbench: "Rendering 12 / 64 samples"
+const RASTER_SAMPLES = /\bRendering (\d+) \/ (\d+) samples/;
+const SAVED_LINE = /^Saved:\s*'(.+)'/;
+// FFMPEG outputs print this instead of "Saved:" for every frame
+const APPENDED_LINE = /^Append frame (\d+)/;
+// Printed right after "Saved:" or "Append frame", e.g. " Time: 00:02.21 (Saving: 00:00.01)"
+const FRAME_TIME_LINE = /^\s*Time:\s*([\d:.]+)\s*\(Saving/;
+const ERROR_LINE = /^Error:\s*(.*)$/;
+const TRACEBACK_START = /^Traceback \(most recent call last\):/;
+
+const MEMORY_UNITS = { K: 1 / 1024, M: 1, G: 1024 };
+
+/**
+ * Convert Blender's "MM:SS.cc" or "HH:MM:SS.cc" durations to seconds.
+ * @param {string} value
+ * @returns {number}
+ */
+export function parseBlenderTime(value) {
+  return value
+    .split(':')
+    .map(part => parseFloat(part) || 0)
+    .reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * @param {number} seconds
+ * @returns {string}
+ */
+export function formatDuration(seconds) {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = value => String(value).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(secs)}`
+    : `${pad(minutes)}:${pad(secs)}`;
+}
+
+const toMegabytes = (amount, unit) => parseFloat(amount) * MEMORY_UNITS[unit];
+
+/**
+ * Parse one line of Blender console output. Lines that carry no render
+ * information return null. Tracebacks span several lines, so they are
+ * handled by {@link BlenderOutputParser} instead.
+ * @param {string} line
+ * @returns {ParsedLine | null}
+ */
+export function parseBlenderLine(line) {
+  const statusMatch = line.match(STATUS_LINE);
+  if (statusMatch) {
+    /** @type {ParsedStatusLine} */
+    const status = { type: 'status', frame: parseInt(statusMatch[1], 10) };
+
+    const time = line.match(TIME_FIELD);
+    if (time) status.elapsed = parseBlenderTime(time[1]);
+
+    const remaining = line.match(REMAINING_FIELD);
+    if (remaining) status.remaining = parseBlenderTime(remaining[1]);
+
+    const memory = line.match(MEMORY_FIELD);
+    if (memory) status.memory = toMegabytes(memory[1], memory[2]);
+
+    const peak = line.match(PEAK_FIELD);
+    if (peak) status.peakMemory = toMegabytes(peak[1], peak[2]);
+
+    const samples = line.match(CYCLES_SAMPLES) || line.match(RASTER_SAMPLES);
+    if (samples) {
+      status.sample = parseInt(samples[1], 10);
+      status.totalSamples = parseInt(samples[2], 10);
+    }
+
+    return status;
+  }
+
+  const savedMatch = line.match(SAVED_LINE);
+  if (savedMatch) {
+    return { type: 'saved', path: savedMatch[1] };
+  }
+
+  const appendedMatch = line.match(APPENDED_LINE);
+  if (appendedMatch) {
+    return { type: 'appended', frame: parseInt(appendedMatch[1], 10) };
+  }
+
+  const frameTimeMatch = line.match(FRAME_TIME_LINE);
+  if (frameTimeMatch) {
+    return { type: 'frameTime', seconds: parseBlenderTime(frameTimeMatch[1]) };
+  }
+
+  const errorMatch = line.match(ERROR_LINE);
+  if (errorMatch) {
+    return { type: 'error', message: errorMatch[1].trim() || 'Unknown Blender error' };
+  }
+
+  return null;
+}
+
+/**
+ * Stateful parser for the console output of one `blender -b ... -a` run.
+ * Feed it raw stdout chunks and read back a {@link RenderProgress}.
+ */
+export class BlenderOutputParser {
+  /**
+   * @param {Object} options
+   * @param {string} options.blendFile
+   * @param {number} [options.startFrame]
+   * @param {number} [options.endFrame]
+   * @param {number} [options.totalFrames] Defaults to the size of the frame range
+   * @param {number} [options.skippedFrames] Frames already on disk, counted as done
+   */
+  constructor({ blendFile, startFrame = 1, endFrame = startFrame, totalFrames, skippedFrames = 0 }) {
+    this.blendFile = blendFile;
+    this.startFrame = startFrame;
+    this.totalFrames = Math.max(1, totalFrames ?? endFrame - startFrame + 1);
+    this.currentFrame = startFrame;
+    this.skippedFrames = skippedFrames;
+    this.framesDone = skippedFrames;
+    this.sample = 0;
+    this.totalSamples = 0;
+    this.frameElapsed = 0;
+    this.frameRemaining = undefined;
+    this.peakMemory = 0;
+    this.framePeakMemory = 0;
+    /** @type {number[]} Seconds spent on each saved frame */
+    this.frameTimes = [];
+    /** @type {FrameStat[]} */
+    this.frameStats = [];
+    /** @type {string[]} */
+    this.savedFiles = [];
+    /** @type {string[]} */
+    this.errors = [];
+
+    this.buffer = '';
+    /** @type {string[] | null} */
+    this.traceback = null;
+  }
+
+  /**
+   * Feed a raw output chunk; complete lines are parsed immediately.
+   * @param {string} chunk
+   * @returns {ParsedLine[]}
+   */
+  write(chunk) {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+    return lines.flatMap(line => this.parseLine(line));
+  }
+
+  /**
+   * Flush whatever is left in the buffer once the process has exited.
+   * @returns {ParsedLine[]}
+   */
+  end() {
+    const events = this.buffer ? this.parseLine(this.buffer) : [];
+    this.buffer = '';
+    return events.concat(this.flushTraceback());
+  }
+
+  /**
+   * @param {string} line
+   * @returns {ParsedLine[]}
+   */
+  parseLine(line) {
+    if (this.traceback) {
+      // Traceback frames are indented; the first flush-left line is the exception
+      if (/^\s/.test(line)) {
+        this.traceback.push(line);
+        return [];
+      }
+      this.traceback.push(line);
+      return this.flushTraceback();
+    }
+
+    if (TRACEBACK_START.test(line)) {
+      this.traceback = [line];
+      return [];
+    }
+
+    const parsed = parseBlenderLine(line);
+    if (!parsed) return [];
+
+    if (parsed.type === 'status') {
+      if (parsed.frame !== this.currentFrame) {
+        this.sample = 0;
+        this.totalSamples = 0;
+        this.frameRemaining = undefined;
+      }
+      this.currentFrame = parsed.frame;
+      if (parsed.elapsed !== undefined) this.frameElapsed = parsed.elapsed;
+      if (parsed.remaining !== undefined) this.frameRemaining = parsed.remaining;
+      if (parsed.sample !== undefined) {
+        this.sample = parsed.sample;
+        this.totalSamples = parsed.totalSamples ?? 0;
+      }
+      this.framePeakMemory = Math.max(this.framePeakMemory, parsed.peakMemory ?? 0, parsed.memory ?? 0);
+      this.peakMemory = Math.max(this.peakMemory, this.framePeakMemory);
+    } else if (parsed.type === 'saved') {
+      this.savedFiles.push(parsed.path);
+      this.finishFrame(this.currentFrame, parsed.path);
+    } else if (parsed.type === 'appended') {
+      this.finishFrame(parsed.frame);
+    } else if (parsed.type === 'frameTime') {
+      if (this.frameTimes.length > 0) {
+        this.frameTimes[this.frameTimes.length - 1] = parsed.seconds;
+        this.frameStats[this.frameStats.length - 1].seconds = parsed.seconds;
+      }
+    } else {
+      this.errors.push(parsed.message);
+    }
+
+    return [parsed];
+  }
+
+  /**
+   * @param {number} frame
+   * @param {string} [path] Not known for frames appended to a video
+   */
+  finishFrame(frame, path) {
+    this.framesDone = Math.min(this.totalFrames, this.framesDone + 1);
+    this.frameTimes.push(this.frameElapsed);
+    this.frameStats.push({
+      frame,
+      seconds: this.frameElapsed,
+      peakMemory: this.framePeakMemory || undefined,
+      path
+    });
+    this.framePeakMemory = 0;
+    this.sample = 0;
+    this.totalSamples = 0;
+    this.frameElapsed = 0;
+    this.frameRemaining = undefined;
+  }
+
+  /** @returns {ParsedLine[]} */
+  flushTraceback() {
+    if (!this.traceback) return [];
+
+    const lines = this.traceback;
+    this.traceback = null;
+    const message = lines[lines.length - 1].trim() || 'Python traceback';
+    this.errors.push(message);
+    return [{ type: 'error', message }];
+  }
+
+  /** Fraction of the current frame done, from sample counts */
+  getFrameFraction() {
+    return this.totalSamples > 0 ? Math.min(1, this.sample / this.totalSamples) : 0;
+  }
+
+  getPercentage() {
+    const done = this.framesDone + (this.framesDone < this.totalFrames ? this.getFrameFraction() : 0);
+    return Math.min(100, Math.round((done / this.totalFrames) * 1000) / 10);
+  }
+
+  /**
+   * Remaining time for the whole run, combining Blender's estimate for the
+   * current frame with the average time of finished frames.
+   * @returns {number | undefined} seconds
+   */
+  getSecondsRemaining() {
+    const framesLeft = this.totalFrames - this.framesDone;
+    if (framesLeft <= 0) return 0;
+
+    const average = this.getAverageFrameSeconds();
+
+    let current = this.frameRemaining;
+    if (current === undefined && average !== undefined) {
+      current = Math.max(0, average - this.frameElapsed);
+    }
+    if (current === undefined) return undefined;
+
+    return current + (average ?? this.frameElapsed + current) * (framesLeft - 1);
+  }
+
+  /** @returns {number | undefined} Mean time of the frames saved so far, in seconds */
+  getAverageFrameSeconds() {
+    return this.frameTimes.length > 0
+      ? this.frameTimes.reduce((sum, time) => sum + time, 0) / this.frameTimes.length
+      : undefined;
+  }
+
+  /**
+   * @param {RenderProgress['status']} status
+   * @param {string} [message]
+   * @returns {RenderProgress}
+   */
+  toProgress(status, message) {
+    const secondsRemaining = status === 'rendering' ? this.getSecondsRemaining() : undefined;
+
+    return {
+      frame: this.currentFrame,
+      totalFrames: this.totalFrames,
+      percentage: status === 'completed' ? 100 : this.getPercentage(),
+      timeRemaining: secondsRemaining !== undefined ? formatDuration(secondsRemaining) : undefined,
+      secondsRemaining,
+      averageFrameSeconds: this.getAverageFrameSeconds(),
+      currentFile: this.blendFile,
+      skippedFrames: this.skippedFrames || undefined,
+      sample: this.sample || undefined,
+      totalSamples: this.totalSamples || undefined,
+      peakMemory: this.peakMemory || undefined,
+      frameStats: status === 'rendering' ? undefined : this.frameStats,
+      status,
+      message
+    };
+  }
+}
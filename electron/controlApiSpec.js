@@ -0,0 +1,518 @@
+// OpenAPI description of the control API served by controlServer.js,
+// published at /api/openapi.json
+
+const itemIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  description: 'Queue item id; for remove and retry also the parent id of a render split into chunks',
+  schema: { type: 'string' }
+};
+
+const nodeIdParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  description: 'Node id returned by registration',
+  schema: { type: 'string' }
+};
+
+const jobIdParameter = {
+  name: 'itemId',
+  in: 'path',
+  required: true,
+  description: 'Id of the queue item the node claimed',
+  schema: { type: 'string' }
+};
+
+const errorResponse = description => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+});
+
+const okResponse = {
+  description: 'Done',
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Ok' } } }
+};
+
+/**
+ * @param {string} description
+ * @param {string} [operationId]
+ */
+const queueAction = (description, operationId) => ({
+  post: {
+    operationId,
+    summary: description,
+    responses: { 200: okResponse, 401: errorResponse('Missing or invalid token') }
+  }
+});
+
+/**
+ * @param {string} description
+ * @param {string} operationId
+ */
+const itemAction = (description, operationId) => ({
+  post: {
+    operationId,
+    summary: description,
+    parameters: [itemIdParameter],
+    responses: {
+      200: okResponse,
+      401: errorResponse('Missing or invalid token'),
+      404: errorResponse('No such item'),
+      409: errorResponse('The item is in a state that does not allow this')
+    }
+  }
+});
+
+/**
+ * @param {string} schema
+ * @param {string} [description]
+ */
+const jsonResponse = (schema, description = 'Done') => ({
+  description,
+  content: { 'application/json': { schema: { $ref: `#/components/schemas/${schema}` } } }
+});
+
+/**
+ * @param {string} schema
+ */
+const jsonBody = schema => ({
+  required: true,
+  content: { 'application/json': { schema: { $ref: `#/components/schemas/${schema}` } } }
+});
+
+const unknownNodeResponse = errorResponse('Unknown node; the coordinator restarted or dropped it, so register again');
+
+/**
+ * @param {string} serverUrl
+ */
+export function buildOpenApiDocument(serverUrl) {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Blender Render Farm control API',
+      version: '1.0.0',
+      description:
+        'Queue renders and follow their progress. Every endpoint except this document needs ' +
+        '`Authorization: Bearer <token>` with the token shown in the app. Progress is streamed over ' +
+        'a WebSocket at /api/events (pass the token as `?token=` when headers cannot be set); each ' +
+        'message is a JSON object with `type` "queue" (the whole queue), "progress" (one item) or ' +
+        '"nodes" (every farm node). Render farm workers use the /api/nodes endpoints: register, then ' +
+        'claim items, report progress and completion, and send a heartbeat every `heartbeatSeconds`.'
+    },
+    servers: serverUrl ? [{ url: serverUrl }] : [],
+    security: [{ bearerAuth: [] }],
+    paths: {
+      '/api/queue': {
+        get: {
+          operationId: 'getQueue',
+          summary: 'List every queue item in order',
+          responses: {
+            200: {
+              description: 'The queue',
+              content: {
+                'application/json': {
+                  schema: { type: 'array', items: { $ref: '#/components/schemas/QueueItem' } }
+                }
+              }
+            },
+            401: errorResponse('Missing or invalid token')
+          }
+        },
+        post: {
+          operationId: 'addToQueue',
+          summary: 'Add a render; settings not given come from the open project',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/AddRequest' } } }
+          },
+          responses: {
+            200: {
+              description: 'Item id, or the parent id when the render was split into chunks',
+              content: {
+                'application/json': {
+                  schema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] }
+                }
+              }
+            },
+            400: errorResponse('Invalid request body'),
+            401: errorResponse('Missing or invalid token')
+          }
+        }
+      },
+      '/api/queue/stats': {
+        get: {
+          operationId: 'getQueueStats',
+          summary: 'Item counts by status and whether the queue is running',
+          responses: {
+            200: {
+              description: 'Queue statistics',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/QueueStats' } } }
+            },
+            401: errorResponse('Missing or invalid token')
+          }
+        }
+      },
+      '/api/queue/start': queueAction('Start or resume rendering the queue', 'startQueue'),
+      '/api/queue/pause': queueAction('Finish running items but start no new ones', 'pauseQueue'),
+      '/api/queue/stop': queueAction('Cancel running items and pause the queue', 'stopQueue'),
+      '/api/queue/{id}': {
+        delete: {
+          operationId: 'removeFromQueue',
+          summary: 'Remove an item, cancelling it if it is rendering',
+          parameters: [itemIdParameter],
+          responses: {
+            200: okResponse,
+            401: errorResponse('Missing or invalid token'),
+            404: errorResponse('No such item')
+          }
+        }
+      },
+      '/api/queue/{id}/retry': itemAction('Render a failed, cancelled or interrupted item again', 'retryItem'),
+      '/api/queue/{id}/move-up': itemAction('Move an item one place up', 'moveItemUp'),
+      '/api/queue/{id}/move-down': itemAction('Move an item one place down', 'moveItemDown'),
+      '/api/nodes': {
+        get: {
+          operationId: 'getNodes',
+          summary: 'List the render farm nodes, including offline ones',
+          responses: {
+            200: {
+              description: 'The nodes',
+              content: {
+                'application/json': {
+                  schema: { type: 'array', items: { $ref: '#/components/schemas/FarmNode' } }
+                }
+              }
+            },
+            401: errorResponse('Missing or invalid token')
+          }
+        },
+        post: {
+          operationId: 'registerNode',
+          summary: 'Register a worker node',
+          requestBody: jsonBody('FarmNodeInfo'),
+          responses: {
+            200: jsonResponse('FarmRegistration', 'Node id and heartbeat interval'),
+            400: errorResponse('Invalid request body'),
+            401: errorResponse('Missing or invalid token')
+          }
+        }
+      },
+      '/api/nodes/{id}': {
+        delete: {
+          operationId: 'unregisterNode',
+          summary: 'Leave the farm; items the node was rendering are queued again',
+          parameters: [nodeIdParameter],
+          responses: { 200: okResponse, 401: errorResponse('Missing or invalid token'), 404: unknownNodeResponse }
+        }
+      },
+      '/api/nodes/{id}/heartbeat': {
+        post: {
+          operationId: 'nodeHeartbeat',
+          summary: 'Tell the coordinator the node is alive',
+          parameters: [nodeIdParameter],
+          requestBody: {
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: { running: { type: 'array', items: { type: 'string' }, description: 'Ids of the items being rendered' } }
+                }
+              }
+            }
+          },
+          responses: {
+            200: {
+              description: 'Items the node should stop rendering',
+              content: {
+                'application/json': {
+                  schema: { type: 'object', properties: { cancel: { type: 'array', items: { type: 'string' } } } }
+                }
+              }
+            },
+            401: errorResponse('Missing or invalid token'),
+            404: unknownNodeResponse
+          }
+        }
+      },
+      '/api/nodes/{id}/claim': {
+        post: {
+          operationId: 'claimJob',
+          summary: 'Take the next pending item, if the node has a free slot',
+          parameters: [nodeIdParameter],
+          responses: {
+            200: {
+              description: '`job` is null when there is nothing to render yet; an item whose pre-render hooks are running comes with a later claim',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: { job: { allOf: [{ $ref: '#/components/schemas/FarmJob' }], nullable: true } }
+                  }
+                }
+              }
+            },
+            401: errorResponse('Missing or invalid token'),
+            404: unknownNodeResponse
+          }
+        }
+      },
+      '/api/nodes/{id}/jobs/{itemId}/progress': {
+        post: {
+          operationId: 'reportJobProgress',
+          summary: 'Report the progress of a claimed item',
+          parameters: [nodeIdParameter, jobIdParameter],
+          requestBody: jsonBody('FarmProgressReport'),
+          responses: {
+            200: {
+              description: 'Whether the node should stop rendering the item',
+              content: {
+                'application/json': {
+                  schema: { type: 'object', properties: { cancel: { type: 'boolean' } } }
+                }
+              }
+            },
+            400: errorResponse('Invalid request body'),
+            401: errorResponse('Missing or invalid token'),
+            404: unknownNodeResponse
+          }
+        }
+      },
+      '/api/nodes/{id}/jobs/{itemId}/complete': {
+        post: {
+          operationId: 'completeJob',
+          summary: 'Report how a claimed item ended; "cancelled" hands it to another node',
+          parameters: [nodeIdParameter, jobIdParameter],
+          requestBody: jsonBody('FarmJobResult'),
+          responses: {
+            200: okResponse,
+            400: errorResponse('Invalid request body'),
+            401: errorResponse('Missing or invalid token'),
+            404: unknownNodeResponse
+          }
+        }
+      }
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' }
+      },
+      schemas: {
+        Ok: {
+          type: 'object',
+          properties: { ok: { type: 'boolean' } }
+        },
+        Error: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+          required: ['error']
+        },
+        RenderOptions: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            startFrame: { type: 'integer' },
+            endFrame: { type: 'integer' },
+            frames: {
+              type: 'array',
+              items: { type: 'integer' },
+              description: 'Frames to render instead of the range; must be consecutive when the project encodes videos'
+            },
+            engine: { type: 'string', enum: ['CYCLES', 'EEVEE', 'WORKBENCH'] },
+            samples: { type: 'integer', minimum: 1 },
+            resolution: { type: 'array', items: { type: 'integer', minimum: 1 }, minItems: 2, maxItems: 2 },
+            format: { type: 'string', enum: ['PNG', 'JPEG', 'TIFF', 'EXR', 'FFMPEG'] },
+            quality: { type: 'integer', minimum: 0, maximum: 100 },
+            threads: { type: 'integer', minimum: 1 },
+            cycles: {
+              type: 'object',
+              additionalProperties: false,
+              description: "Cycles settings; fields left out come from the open project",
+              properties: {
+                deviceType: { type: 'string', enum: ['CPU', 'GPU', 'CUDA', 'OPTIX', 'HIP', 'METAL', 'ONEAPI'], description: 'GPU uses the first GPU backend the machine has' },
+                devices: { type: 'array', items: { type: 'string' }, description: 'Device names to render on; all of the type when empty' },
+                denoiser: { type: 'string', enum: ['NONE', 'OPENIMAGEDENOISE', 'OPTIX'] },
+                denoisingInput: { type: 'string', enum: ['RGB', 'RGB_ALBEDO', 'RGB_ALBEDO_NORMAL'] },
+                adaptiveThreshold: { type: 'number', minimum: 0, description: '0 disables adaptive sampling' },
+                timeLimit: { type: 'number', minimum: 0, description: 'Seconds per frame; 0 for no limit' },
+                tileSize: { type: 'integer', minimum: 0, description: '0 renders each frame as one tile' },
+                persistentData: { type: 'boolean' }
+              }
+            },
+            skipExistingFrames: { type: 'boolean' },
+            installationId: { type: 'string' },
+            scene: { type: 'string', description: 'Scene to render instead of the active one' },
+            camera: { type: 'string', description: 'Camera object to render through' },
+            viewLayer: { type: 'string', description: 'Only render this view layer' }
+          }
+        },
+        RetryPolicy: {
+          type: 'object',
+          description: "Automatic retries of this item's transient failures; fields left out follow the project",
+          properties: {
+            maxAttempts: { type: 'integer', minimum: 1, description: 'Attempts including the first; 1 disables retrying' },
+            backoffSeconds: { type: 'number', minimum: 0, description: 'Delay before the first retry' },
+            backoffMultiplier: { type: 'number', minimum: 1, description: 'Growth of the delay for each further retry' },
+            fallbackToCPU: { type: 'boolean', description: 'Retry GPU out-of-memory failures on the CPU' }
+          },
+          additionalProperties: false
+        },
+        AddRequest: {
+          type: 'object',
+          properties: {
+            blendFile: { type: 'string', description: 'Absolute path on the rendering machine' },
+            outputPath: { type: 'string', description: "Output directory, filled with the project's file name template; a path with # frame padding is used as it is. Defaults like a newly added file" },
+            options: { $ref: '#/components/schemas/RenderOptions' },
+            chunkSize: { type: 'integer', minimum: 1, description: 'Split the frame range into items of this many frames' },
+            retryPolicy: { $ref: '#/components/schemas/RetryPolicy' }
+          },
+          required: ['blendFile']
+        },
+        QueueItem: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            blendFile: { type: 'string' },
+            outputPath: { type: 'string' },
+            options: { $ref: '#/components/schemas/RenderOptions' },
+            status: { type: 'string', enum: ['pending', 'rendering', 'completed', 'error', 'cancelled', 'interrupted'] },
+            progress: { type: 'number', description: 'Percent done' },
+            startTime: { type: 'string', format: 'date-time' },
+            endTime: { type: 'string', format: 'date-time' },
+            error: { type: 'string' },
+            currentFrame: { type: 'integer' },
+            totalFrames: { type: 'integer' },
+            secondsRemaining: { type: 'number' },
+            parentId: { type: 'string' },
+            chunkIndex: { type: 'integer' },
+            chunkCount: { type: 'integer' },
+            retryPolicy: { $ref: '#/components/schemas/RetryPolicy' },
+            nextRetryAt: { type: 'string', format: 'date-time' },
+            node: { type: 'string', description: 'Farm node rendering or last to render the item; absent for the coordinator' },
+            encoding: {
+              type: 'object',
+              description: 'Video encoded from the rendered frames; on the last chunk of a split render to complete',
+              properties: {
+                status: { type: 'string', enum: ['encoding', 'completed', 'error', 'cancelled'] },
+                progress: { type: 'number', description: 'Percent done' },
+                error: { type: 'string' }
+              }
+            },
+            hookResults: {
+              type: 'array',
+              description: "The project's pre-render hooks of the latest run, then its post-render hooks; those on the last chunk of a split render to settle",
+              items: {
+                type: 'object',
+                properties: {
+                  hookId: { type: 'string' },
+                  name: { type: 'string' },
+                  stage: { type: 'string', enum: ['pre', 'post'] },
+                  status: { type: 'string', enum: ['pending', 'running', 'completed', 'error', 'skipped'] },
+                  startTime: { type: 'string', format: 'date-time' },
+                  endTime: { type: 'string', format: 'date-time' },
+                  log: { type: 'string', description: 'Last lines the hook wrote' },
+                  error: { type: 'string' }
+                }
+              }
+            }
+          },
+          required: ['id', 'blendFile', 'outputPath', 'options', 'status', 'progress']
+        },
+        QueueStats: {
+          type: 'object',
+          properties: {
+            total: { type: 'integer' },
+            pending: { type: 'integer' },
+            rendering: { type: 'integer' },
+            completed: { type: 'integer' },
+            failed: { type: 'integer' },
+            cancelled: { type: 'integer' },
+            interrupted: { type: 'integer' },
+            isProcessing: { type: 'boolean' },
+            isPaused: { type: 'boolean' },
+            maxConcurrent: { type: 'integer' },
+            currentItems: { type: 'array', items: { $ref: '#/components/schemas/QueueItem' } }
+          }
+        },
+        FarmNodeInfo: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            platform: { type: 'string' },
+            cores: { type: 'integer', minimum: 1 },
+            gpus: { type: 'array', items: { type: 'string' } },
+            blenderVersions: { type: 'array', items: { type: 'string' } },
+            slots: { type: 'integer', minimum: 1, description: 'Items rendered side by side; default 1' }
+          },
+          required: ['name', 'platform', 'cores', 'gpus', 'blenderVersions']
+        },
+        FarmNode: {
+          allOf: [
+            { $ref: '#/components/schemas/FarmNodeInfo' },
+            {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                address: { type: 'string' },
+                status: { type: 'string', enum: ['idle', 'busy', 'offline'] },
+                registeredAt: { type: 'string', format: 'date-time' },
+                lastSeen: { type: 'string', format: 'date-time' },
+                jobs: { type: 'array', items: { type: 'string' } },
+                completedJobs: { type: 'integer' },
+                failedJobs: { type: 'integer' }
+              }
+            }
+          ]
+        },
+        FarmRegistration: {
+          type: 'object',
+          properties: {
+            nodeId: { type: 'string' },
+            heartbeatSeconds: { type: 'integer' }
+          },
+          required: ['nodeId', 'heartbeatSeconds']
+        },
+        FarmJob: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            blendFile: { type: 'string' },
+            outputPath: { type: 'string' },
+            options: {
+              allOf: [{ $ref: '#/components/schemas/RenderOptions' }],
+              description: 'Also carries jobId, blendFile and outputPath; threads and installationId are left to the node'
+            },
+            blenderVersion: {
+              type: 'string',
+              description: 'Version of the Blender installation the item is pinned to; only sent to nodes that registered it'
+            }
+          },
+          required: ['id', 'blendFile', 'outputPath', 'options']
+        },
+        FarmProgressReport: {
+          type: 'object',
+          properties: {
+            frame: { type: 'integer' },
+            totalFrames: { type: 'integer' },
+            percentage: { type: 'number' },
+            secondsRemaining: { type: 'number' },
+            averageFrameSeconds: { type: 'number' },
+            skippedFrames: { type: 'integer' },
+            sample: { type: 'integer' },
+            totalSamples: { type: 'integer' }
+          },
+          required: ['frame', 'totalFrames', 'percentage']
+        },
+        FarmJobResult: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: ['completed', 'error', 'cancelled'] },
+            error: { type: 'string' }
+          },
+          required: ['status']
+        }
+      }
+    }
+  };
+}
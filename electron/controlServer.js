@@ -0,0 +1,300 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { createServer } from 'http';
+import { buildOpenApiDocument } from './controlApiSpec.js';
+import { acceptWebSocket } from './webSocket.js';
+
+/** @typedef {import('./webSocket.js').WebSocketConnection} WebSocketConnection */
+
+/**
+ * @typedef {Object} ControlServerConfig
+ * @property {boolean} enabled
+ * @property {string} host Address to bind; 127.0.0.1 keeps the API local, 0.0.0.0 opens it to the LAN
+ * @property {number} port
+ * @property {string} token
+ * @property {boolean} renderLocally Render queue items on this computer as well as on farm nodes
+ */
+
+/**
+ * Runs a queue action in whatever owns the render queue and resolves with
+ * its JSON-serializable result. Rejections may carry an HTTP `status`.
+ * @typedef {(action: string, params: Record<string, string>, body?: unknown) => Promise<unknown>} ControlDispatcher
+ */
+
+export const DEFAULT_CONTROL_PORT = 8765;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export const createControlToken = () => randomBytes(24).toString('hex');
+
+/**
+ * `clientAddress` routes also get the caller's address as a parameter.
+ * @type {{ method: string, pattern: RegExp, action: string, params?: string[], hasBody?: boolean, clientAddress?: boolean }[]}
+ */
+const ROUTES = [
+  { method: 'GET', pattern: /^\/api\/queue$/, action: 'getQueue' },
+  { method: 'POST', pattern: /^\/api\/queue$/, action: 'addToQueue', hasBody: true },
+  { method: 'GET', pattern: /^\/api\/queue\/stats$/, action: 'getQueueStats' },
+  { method: 'POST', pattern: /^\/api\/queue\/start$/, action: 'startQueue' },
+  { method: 'POST', pattern: /^\/api\/queue\/pause$/, action: 'pauseQueue' },
+  { method: 'POST', pattern: /^\/api\/queue\/stop$/, action: 'stopQueue' },
+  { method: 'DELETE', pattern: /^\/api\/queue\/([^/]+)$/, action: 'removeFromQueue', params: ['id'] },
+  { method: 'POST', pattern: /^\/api\/queue\/([^/]+)\/retry$/, action: 'retryItem', params: ['id'] },
+  { method: 'POST', pattern: /^\/api\/queue\/([^/]+)\/move-up$/, action: 'moveItemUp', params: ['id'] },
+  { method: 'POST', pattern: /^\/api\/queue\/([^/]+)\/move-down$/, action: 'moveItemDown', params: ['id'] },
+  // Render farm workers
+  { method: 'GET', pattern: /^\/api\/nodes$/, action: 'getNodes' },
+  { method: 'POST', pattern: /^\/api\/nodes$/, action: 'registerNode', hasBody: true, clientAddress: true },
+  { method: 'DELETE', pattern: /^\/api\/nodes\/([^/]+)$/, action: 'unregisterNode', params: ['id'] },
+  { method: 'POST', pattern: /^\/api\/nodes\/([^/]+)\/heartbeat$/, action: 'nodeHeartbeat', params: ['id'], hasBody: true },
+  { method: 'POST', pattern: /^\/api\/nodes\/([^/]+)\/claim$/, action: 'claimJob', params: ['id'] },
+  {
+    method: 'POST',
+    pattern: /^\/api\/nodes\/([^/]+)\/jobs\/([^/]+)\/progress$/,
+    action: 'reportJobProgress',
+    params: ['id', 'itemId'],
+    hasBody: true
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/nodes\/([^/]+)\/jobs\/([^/]+)\/complete$/,
+    action: 'completeJob',
+    params: ['id', 'itemId'],
+    hasBody: true
+  }
+];
+
+/**
+ * Error with the HTTP status to answer with.
+ * @param {number} status
+ * @param {string} message
+ */
+export function controlError(status, message) {
+  return Object.assign(new Error(message), { status });
+}
+
+/**
+ * @param {string | undefined} presented
+ * @param {string} token
+ */
+function tokenMatches(presented, token) {
+  if (!presented || !token) return false;
+  const a = Buffer.from(presented);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Bearer token from the Authorization header, or the `token` query
+ * parameter for WebSocket clients that cannot set headers.
+ * @param {import('http').IncomingMessage} request
+ * @param {URL} url
+ */
+function presentedToken(request, url) {
+  const header = request.headers.authorization;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : url.searchParams.get('token') ?? undefined;
+}
+
+/**
+ * @param {import('http').IncomingMessage} request
+ * @returns {Promise<unknown>}
+ */
+function readJsonBody(request) {
+  return new Promise((resolve, reject) => {
+    /** @type {Buffer[]} */
+    const chunks = [];
+    let size = 0;
+
+    request.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(controlError(413, 'Request body too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text.trim()) {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(text));
+      } catch {
+        reject(controlError(400, 'Request body is not valid JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+/**
+ * @param {import('http').ServerResponse} response
+ * @param {number} status
+ * @param {unknown} [body]
+ */
+function sendJson(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+/**
+ * REST and WebSocket control API for the render queue. Queue actions are
+ * handed to a dispatcher, so the server has no Electron dependency and can
+ * be exercised with any HTTP client.
+ */
+export class ControlServer {
+  /** @param {ControlDispatcher} dispatch */
+  constructor(dispatch) {
+    this.dispatch = dispatch;
+    /** @type {import('http').Server | null} */
+    this.server = null;
+    /** @type {ControlServerConfig | null} */
+    this.config = null;
+    /** @type {Set<WebSocketConnection>} */
+    this.clients = new Set();
+  }
+
+  /**
+   * (Re)start listening with `config`. Resolves once the port is bound.
+   * @param {ControlServerConfig} config
+   */
+  async start(config) {
+    await this.stop();
+
+    const server = createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => {
+        sendJson(response, error.status ?? 500, { error: error.message });
+      });
+    });
+    server.on('upgrade', (request, socket) => this.handleUpgrade(request, socket));
+
+    await new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(config.port, config.host, () => {
+        server.off('error', reject);
+        resolve(undefined);
+      });
+    });
+
+    this.server = server;
+    this.config = config;
+  }
+
+  async stop() {
+    const server = this.server;
+    this.server = null;
+    this.config = null;
+    this.clients.forEach(client => client.close());
+    this.clients.clear();
+
+    if (server) {
+      await new Promise(resolve => server.close(resolve));
+    }
+  }
+
+  isRunning() {
+    return this.server !== null;
+  }
+
+  /** Base URL clients should use, or null when stopped */
+  getUrl() {
+    if (!this.server || !this.config) return null;
+    const address = this.server.address();
+    const port = typeof address === 'object' && address ? address.port : this.config.port;
+    const host = this.config.host === '0.0.0.0' || this.config.host === '::' ? 'localhost' : this.config.host;
+    return `http://${host.includes(':') ? `[${host}]` : host}:${port}`;
+  }
+
+  /**
+   * Send an event to every connected WebSocket client.
+   * @param {{ type: string } & Record<string, unknown>} event
+   */
+  broadcast(event) {
+    if (this.clients.size === 0) return;
+    const message = JSON.stringify(event);
+    this.clients.forEach(client => client.send(message));
+  }
+
+  /**
+   * @param {import('http').IncomingMessage} request
+   * @param {import('http').ServerResponse} response
+   */
+  async handleRequest(request, response) {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (request.method === 'GET' && url.pathname === '/api/openapi.json') {
+      sendJson(response, 200, buildOpenApiDocument(this.getUrl() ?? ''));
+      return;
+    }
+
+    if (!tokenMatches(presentedToken(request, url), this.config?.token ?? '')) {
+      sendJson(response, 401, { error: 'Missing or invalid token' });
+      return;
+    }
+
+    const matching = ROUTES.filter(route => route.pattern.test(url.pathname));
+    const route = matching.find(candidate => candidate.method === request.method);
+    if (!route) {
+      sendJson(response, matching.length > 0 ? 405 : 404, {
+        error: matching.length > 0 ? `Method ${request.method} not allowed` : 'Not found'
+      });
+      return;
+    }
+
+    const values = url.pathname.match(route.pattern)?.slice(1) ?? [];
+    /** @type {Record<string, string>} */
+    const params = {};
+    try {
+      (route.params ?? []).forEach((name, index) => {
+        params[name] = decodeURIComponent(values[index]);
+      });
+    } catch {
+      // Malformed escapes such as %E0 make decodeURIComponent throw a URIError
+      sendJson(response, 400, { error: 'Malformed path' });
+      return;
+    }
+    if (route.clientAddress && request.socket.remoteAddress) {
+      params.clientAddress = request.socket.remoteAddress.replace(/^::ffff:/, '');
+    }
+    const body = route.hasBody ? await readJsonBody(request) : undefined;
+
+    const result = await this.dispatch(route.action, params, body);
+    sendJson(response, 200, result === undefined ? { ok: true } : result);
+  }
+
+  /**
+   * @param {import('http').IncomingMessage} request
+   * @param {import('stream').Duplex} socket
+   */
+  handleUpgrade(request, socket) {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const reject = (status, reason) => {
+      socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+    };
+
+    if (url.pathname !== '/api/events') {
+      reject(404, 'Not Found');
+      return;
+    }
+    if (!tokenMatches(presentedToken(request, url), this.config?.token ?? '')) {
+      reject(401, 'Unauthorized');
+      return;
+    }
+
+    const client = acceptWebSocket(request, socket);
+    if (!client) {
+      reject(400, 'Bad Request');
+      return;
+    }
+
+    this.clients.add(client);
+    client.onClose(() => this.clients.delete(client));
+
+    // Start every client off with the current queue
+    this.dispatch('getQueue', {})
+      .then(queue => client.send(JSON.stringify({ type: 'queue', queue })))
+      .catch(() => {});
+  }
+}
@@ -0,0 +1,119 @@
+import { runProbeScript } from './blendProbe.js';
+
+/** @typedef {import('../src/types/blender').CyclesOptions} CyclesOptions */
+/** @typedef {import('../src/types/blender').CyclesDevice} CyclesDevice */
+
+const DEVICES_MARKER = 'RFP_DEVICES:';
+
+// Backends tried in order for the GPU device type
+const GPU_BACKENDS = ['OPTIX', 'CUDA', 'HIP', 'METAL', 'ONEAPI'];
+
+const LIST_DEVICES_SCRIPT = `
+import bpy, json
+
+prefs = bpy.context.preferences.addons['cycles'].preferences
+device_types = [item.identifier for item in prefs.bl_rna.properties['compute_device_type'].enum_items if item.identifier != 'NONE']
+devices = {}
+for device_type in device_types:
+    for device in prefs.get_devices_for_type(device_type):
+        devices[(device.type, device.id)] = {'id': device.id, 'name': device.name, 'type': device.type}
+print('${DEVICES_MARKER}' + json.dumps(list(devices.values())))
+`;
+
+/**
+ * Select the compute backend and devices. A render asking for hardware the
+ * machine does not have fails instead of quietly falling back to the CPU.
+ * @param {CyclesOptions} cycles
+ * @returns {string[]}
+ */
+function deviceLines(cycles) {
+  if (cycles.deviceType === 'CPU') {
+    return ["scene.cycles.device = 'CPU'"];
+  }
+
+  const backends = cycles.deviceType === 'GPU' ? GPU_BACKENDS : [cycles.deviceType];
+  const unavailable = cycles.deviceType === 'GPU'
+    ? 'No Cycles GPU backend is available'
+    : `Cycles device type ${cycles.deviceType} is not available`;
+  return [
+    "prefs = bpy.context.preferences.addons['cycles'].preferences",
+    `for device_type in ${JSON.stringify(backends)}:`,
+    '    try:',
+    '        prefs.compute_device_type = device_type',
+    '    except TypeError:',
+    '        continue',
+    '    if any(device.type == device_type for device in prefs.get_devices_for_type(device_type)): break',
+    'else:',
+    `    print(${JSON.stringify(`Error: ${unavailable}`)}, flush=True)`,
+    '    sys.exit(1)',
+    `wanted = json.loads(${JSON.stringify(JSON.stringify(cycles.devices))})`,
+    'devices = prefs.get_devices_for_type(prefs.compute_device_type)',
+    'missing = [name for name in wanted if name not in {device.name for device in devices}]',
+    'if missing:',
+    "    print('Error: Cycles devices not found: ' + ', '.join(missing), flush=True)",
+    '    sys.exit(1)',
+    'for device in devices: device.use = not wanted or device.name in wanted',
+    "scene.cycles.device = 'GPU'"
+  ];
+}
+
+/**
+ * Render prelude lines applying Cycles options to `scene`. Scenes that
+ * render with another engine are left alone.
+ * @param {CyclesOptions} cycles
+ * @returns {string[]}
+ */
+export function buildCyclesScript(cycles) {
+  const lines = [...deviceLines(cycles)];
+
+  if (cycles.denoiser === 'NONE') {
+    lines.push('scene.cycles.use_denoising = False');
+  } else {
+    lines.push(
+      'scene.cycles.use_denoising = True',
+      `scene.cycles.denoiser = ${JSON.stringify(cycles.denoiser)}`,
+      `scene.cycles.denoising_input_passes = ${JSON.stringify(cycles.denoisingInput)}`
+    );
+  }
+
+  if (cycles.adaptiveThreshold > 0) {
+    lines.push('scene.cycles.use_adaptive_sampling = True', `scene.cycles.adaptive_threshold = ${cycles.adaptiveThreshold}`);
+  } else {
+    lines.push('scene.cycles.use_adaptive_sampling = False');
+  }
+
+  // Time limits and automatic tiling arrived in Blender 3.0
+  lines.push(`if hasattr(scene.cycles, 'time_limit'): scene.cycles.time_limit = ${cycles.timeLimit}`);
+  if (cycles.tileSize > 0) {
+    lines.push(`if hasattr(scene.cycles, 'tile_size'): scene.cycles.use_auto_tile = True; scene.cycles.tile_size = ${Math.round(cycles.tileSize)}`);
+  } else {
+    lines.push("if hasattr(scene.cycles, 'use_auto_tile'): scene.cycles.use_auto_tile = False");
+  }
+
+  lines.push(`scene.render.use_persistent_data = ${cycles.persistentData ? 'True' : 'False'}`);
+
+  return [
+    'import json, sys',
+    "if scene.render.engine == 'CYCLES':",
+    ...lines.map(line => `    ${line}`)
+  ];
+}
+
+/**
+ * Arguments for Cycles itself, which Blender only passes on after `--`;
+ * they must come last on the command line.
+ * @param {CyclesOptions} cycles
+ * @returns {string[]}
+ */
+export function buildCyclesArgs(cycles) {
+  return cycles.deviceType === 'GPU' ? [] : ['--', '--cycles-device', cycles.deviceType];
+}
+
+/**
+ * Cycles devices Blender finds on this machine, for every backend it supports.
+ * @param {string} blenderPath
+ * @returns {Promise<CyclesDevice[]>}
+ */
+export function listCyclesDevices(blenderPath) {
+  return runProbeScript(blenderPath, null, LIST_DEVICES_SCRIPT, DEVICES_MARKER, 'Cycles devices');
+}
@@ -0,0 +1,91 @@
+import { existsSync, readdirSync } from 'fs';
+import { basename, dirname } from 'path';
+import { runProbeScript } from './blendProbe.js';
+import { mapPath } from './pathMapping.js';
+
+/** @typedef {import('../src/types/blender').AssetDependency} AssetDependency */
+/** @typedef {import('../src/types/blender').PathRemap} PathRemap */
+
+const DEPENDENCIES_MARKER = 'RFP_DEPENDENCIES:';
+
+// Packed files and generated images are inside the blend file and not listed
+const DEPENDENCY_SCRIPT = `
+import bpy, json, os
+
+hdris = set()
+for world in bpy.data.worlds:
+    if world.node_tree:
+        for node in world.node_tree.nodes:
+            if node.type == 'TEX_ENVIRONMENT' and node.image:
+                hdris.add(node.image.name)
+
+assets = []
+
+def add(kind, block):
+    path = block.filepath
+    if not path or getattr(block, 'packed_file', None):
+        return
+    library = getattr(block, 'library', None)
+    assets.append({
+        'kind': kind,
+        'name': block.name,
+        'path': path,
+        'absolutePath': os.path.normpath(bpy.path.abspath(path, library=library)),
+    })
+
+for image in bpy.data.images:
+    if image.source in {'FILE', 'SEQUENCE', 'MOVIE', 'TILED'}:
+        add('hdri' if image.name in hdris else 'image', image)
+for library in bpy.data.libraries:
+    add('library', library)
+for sound in bpy.data.sounds:
+    add('sound', sound)
+for clip in bpy.data.movieclips:
+    add('movie', clip)
+for font in bpy.data.fonts:
+    if font.filepath != '<builtin>':
+        add('font', font)
+for volume in bpy.data.volumes:
+    add('volume', volume)
+for cache in bpy.data.cache_files:
+    add('cache', cache)
+
+print('${DEPENDENCIES_MARKER}' + json.dumps(assets))
+`;
+
+// UDIM tiles are stored as one path with a tile token
+const TILE_TOKENS = /<UDIM>|<UVTILE>/;
+
+/**
+ * @param {string} path
+ */
+function assetExists(path) {
+  if (!TILE_TOKENS.test(path)) return existsSync(path);
+
+  const escaped = basename(path).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`^${escaped.replace(/<UDIM>/g, '\\d{4}').replace(/<UVTILE>/g, 'u\\d+_v\\d+')}$`);
+  try {
+    return readdirSync(dirname(path)).some(name => pattern.test(name));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List the external files (textures, HDRIs, linked libraries, caches, ...)
+ * a blend file references, with their paths on this machine after `remaps`
+ * and whether they are missing.
+ * @param {string} blenderPath
+ * @param {string} blendFile
+ * @param {PathRemap[]} [remaps]
+ * @returns {Promise<AssetDependency[]>}
+ */
+export async function scanDependencies(blenderPath, blendFile, remaps = []) {
+  /** @type {{ kind: AssetDependency['kind'], name: string, path: string, absolutePath: string }[]} */
+  const assets = await runProbeScript(blenderPath, blendFile, DEPENDENCY_SCRIPT, DEPENDENCIES_MARKER, 'dependencies');
+
+  return assets.map(({ absolutePath, ...asset }) => {
+    const resolvedPath = mapPath(absolutePath, remaps);
+    return { ...asset, resolvedPath, missing: !assetExists(resolvedPath) };
+  });
+}
@@ -0,0 +1,217 @@
+import { inflateSync } from 'zlib';
+
+/**
+ * @typedef {Object} FloatImage
+ * @property {number} width
+ * @property {number} height
+ * @property {Float32Array} pixels Linear RGBA, row-major, top row first
+ */
+
+const MAGIC = 20000630;
+const TILED_FLAG = 0x200;
+const MULTIPART_FLAG = 0x1000;
+
+const PIXEL_HALF = 1;
+const PIXEL_FLOAT = 2;
+// Bytes per sample, indexed by pixel type (UINT, HALF, FLOAT)
+const PIXEL_SIZES = [4, 2, 4];
+
+// Compression id -> scanlines per chunk, for the codecs decoded here
+const SCANLINES_PER_CHUNK = { 0: 1, 1: 1, 2: 1, 3: 16 };
+const COMPRESSION_NAMES = ['NONE', 'RLE', 'ZIPS', 'ZIP', 'PIZ', 'PXR24', 'B44', 'B44A', 'DWAA', 'DWAB'];
+
+/** @param {number} bits */
+function halfToFloat(bits) {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const mantissa = bits & 0x3ff;
+
+  if (exponent === 0) return sign * 2 ** -14 * (mantissa / 1024);
+  if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024);
+}
+
+/**
+ * Read the null-terminated attribute list of a single-part header.
+ * @param {Buffer} buffer
+ * @param {number} offset
+ */
+function readHeader(buffer, offset) {
+  /** @type {Record<string, { type: string, value: Buffer }>} */
+  const attributes = {};
+  const readString = () => {
+    const end = buffer.indexOf(0, offset);
+    const text = buffer.toString('latin1', offset, end);
+    offset = end + 1;
+    return text;
+  };
+
+  for (;;) {
+    const name = readString();
+    if (!name) break;
+    const type = readString();
+    const size = buffer.readInt32LE(offset);
+    offset += 4;
+    attributes[name] = { type, value: buffer.subarray(offset, offset + size) };
+    offset += size;
+  }
+
+  return { attributes, offset };
+}
+
+/** @param {Buffer} value */
+function readChannels(value) {
+  const channels = [];
+  let offset = 0;
+  while (value[offset] !== 0) {
+    const end = value.indexOf(0, offset);
+    const name = value.toString('latin1', offset, end);
+    offset = end + 1;
+    channels.push({
+      name,
+      pixelType: value.readInt32LE(offset),
+      xSampling: value.readInt32LE(offset + 8),
+      ySampling: value.readInt32LE(offset + 12)
+    });
+    offset += 16;
+  }
+  return channels;
+}
+
+// ZIP and RLE store bytes delta-encoded and split into two interleaved halves
+/** @param {Buffer} data */
+function undoPredictorAndInterleave(data) {
+  for (let i = 1; i < data.length; i++) {
+    data[i] = (data[i - 1] + data[i] - 128) & 0xff;
+  }
+
+  const output = Buffer.alloc(data.length);
+  const half = Math.ceil(data.length / 2);
+  for (let i = 0, first = 0, second = half; i < data.length; i++) {
+    output[i] = i % 2 === 0 ? data[first++] : data[second++];
+  }
+  return output;
+}
+
+/** @param {Buffer} data */
+function decodeRunLength(data) {
+  const output = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const count = data.readInt8(offset++);
+    if (count < 0) {
+      for (let i = 0; i < -count; i++) output.push(data[offset++]);
+    } else {
+      const value = data[offset++];
+      for (let i = 0; i <= count; i++) output.push(value);
+    }
+  }
+  return Buffer.from(output);
+}
+
+/**
+ * Pick the channels to display: plain R/G/B/A, or the Combined/Composite
+ * pass of a multilayer file (`ViewLayer.Combined.R`).
+ * @param {{ name: string }[]} channels
+ */
+function selectRgbaPrefix(channels) {
+  const names = new Set(channels.map(channel => channel.name));
+  const prefixes = channels
+    .filter(channel => channel.name === 'R' || channel.name.endsWith('.R'))
+    .map(channel => channel.name.slice(0, -1))
+    .filter(prefix => names.has(`${prefix}G`) && names.has(`${prefix}B`));
+
+  return prefixes.find(prefix => prefix === '') ??
+    prefixes.find(prefix => /Combined\.$|Composite\.$/.test(prefix)) ??
+    prefixes[0];
+}
+
+/**
+ * Decode a single-part scanline OpenEXR file compressed with NONE, RLE,
+ * ZIPS or ZIP (Blender's default). Tiled, deep, multipart files and the
+ * lossy/wavelet codecs are rejected with an error naming the codec.
+ * @param {Buffer} buffer
+ * @returns {FloatImage}
+ */
+export function decodeExr(buffer) {
+  if (buffer.readInt32LE(0) !== MAGIC) {
+    throw new Error('Not an OpenEXR file');
+  }
+  const flags = buffer.readInt32LE(4);
+  if (flags & (TILED_FLAG | MULTIPART_FLAG)) {
+    throw new Error('Tiled and multipart EXR files cannot be previewed');
+  }
+
+  const { attributes, offset: headerEnd } = readHeader(buffer, 8);
+  const compression = attributes.compression.value[0];
+  const linesPerChunk = SCANLINES_PER_CHUNK[compression];
+  if (!linesPerChunk) {
+    throw new Error(`EXR compression ${COMPRESSION_NAMES[compression] ?? compression} cannot be previewed`);
+  }
+
+  const window = attributes.dataWindow.value;
+  const xMin = window.readInt32LE(0);
+  const yMin = window.readInt32LE(4);
+  const width = window.readInt32LE(8) - xMin + 1;
+  const height = window.readInt32LE(12) - yMin + 1;
+
+  const channels = readChannels(attributes.channels.value);
+  if (channels.some(channel => channel.xSampling !== 1 || channel.ySampling !== 1)) {
+    throw new Error('Subsampled EXR channels cannot be previewed');
+  }
+  const prefix = selectRgbaPrefix(channels);
+  const targets = { [`${prefix}R`]: 0, [`${prefix}G`]: 1, [`${prefix}B`]: 2, [`${prefix}A`]: 3 };
+  // Black and white renders store a single luminance (Y) or value (V) channel
+  const singleChannel = prefix === undefined
+    ? channels.find(channel => channel.name.endsWith('Y') || channel.name.endsWith('V'))
+    : undefined;
+  if (prefix === undefined && !singleChannel) {
+    throw new Error('EXR file has no color or luminance channels to preview');
+  }
+
+  const pixels = new Float32Array(width * height * 4);
+  for (let i = 3; i < pixels.length; i += 4) pixels[i] = 1;
+
+  const chunkCount = Math.ceil(height / linesPerChunk);
+  for (let chunk = 0; chunk < chunkCount; chunk++) {
+    const chunkOffset = Number(buffer.readBigUInt64LE(headerEnd + chunk * 8));
+    const y = buffer.readInt32LE(chunkOffset) - yMin;
+    const size = buffer.readInt32LE(chunkOffset + 4);
+    const packed = buffer.subarray(chunkOffset + 8, chunkOffset + 8 + size);
+    const lines = Math.min(linesPerChunk, height - y);
+    const expected = lines * width * channels.reduce((sum, channel) => sum + PIXEL_SIZES[channel.pixelType], 0);
+
+    let data = packed;
+    if (size < expected) {
+      data = compression === 1
+        ? undoPredictorAndInterleave(decodeRunLength(packed))
+        : undoPredictorAndInterleave(inflateSync(packed));
+    }
+
+    let offset = 0;
+    for (let line = 0; line < lines; line++) {
+      const row = (y + line) * width;
+      for (const channel of channels) {
+        const target = singleChannel ? (channel === singleChannel ? -1 : undefined) : targets[channel.name];
+        for (let x = 0; x < width; x++) {
+          if (target !== undefined) {
+            const value = channel.pixelType === PIXEL_HALF
+              ? halfToFloat(data.readUInt16LE(offset))
+              : channel.pixelType === PIXEL_FLOAT
+                ? data.readFloatLE(offset)
+                : data.readUInt32LE(offset);
+            const index = (row + x) * 4;
+            if (target === -1) {
+              pixels[index] = pixels[index + 1] = pixels[index + 2] = value;
+            } else {
+              pixels[index + target] = value;
+            }
+          }
+          offset += PIXEL_SIZES[channel.pixelType];
+        }
+      }
+    }
+  }
+
+  return { width, height, pixels };
+}
@@ -0,0 +1,120 @@
+import { watch } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname, extname } from 'path';
+import { decodeExr } from './exrDecoder.js';
+import { listRenderedFrames } from './frameScanner.js';
+import { resolveOutputPattern } from './outputPaths.js';
+import { decodeTiff } from './tiffDecoder.js';
+
+/** @typedef {import('../src/types/blender').BlenderRenderOptions} BlenderRenderOptions */
+/** @typedef {import('./frameScanner.js').RenderedFrame} RenderedFrame */
+
+const WATCH_DEBOUNCE_MS = 250;
+// Used until the output directory exists and can be watched
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Formats Chromium cannot display and that are decoded here instead.
+ * @param {string} path
+ */
+export function needsDecoding(path) {
+  return ['.exr', '.tif', '.tiff'].includes(extname(path).toLowerCase());
+}
+
+/** @param {number} value Linear light */
+function linearToSrgb(value) {
+  const clamped = Math.min(Math.max(value, 0), 1);
+  const encoded = clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * clamped ** (1 / 2.4) - 0.055;
+  return Math.round(encoded * 255);
+}
+
+/**
+ * Decode an EXR or TIFF frame and scale it down to at most `maxWidth`.
+ * Linear data gets Blender's "Standard" view transform (clip, sRGB
+ * encode); alpha is dropped so transparent renders show on black.
+ * @param {string} path
+ * @param {number} maxWidth
+ * @returns {Promise<{ width: number, height: number, bitmap: Buffer }>} BGRA pixels
+ */
+export async function decodeFrameBitmap(path, maxWidth) {
+  const buffer = await readFile(path);
+  const image = extname(path).toLowerCase() === '.exr'
+    ? { ...decodeExr(buffer), linear: true }
+    : decodeTiff(buffer);
+
+  const scale = Math.min(1, maxWidth / image.width);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const toByte = image.linear ? linearToSrgb : value => Math.round(Math.min(Math.max(value, 0), 1) * 255);
+
+  const bitmap = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sourceRow = Math.min(image.height - 1, Math.floor(y / scale)) * image.width;
+    for (let x = 0; x < width; x++) {
+      const source = (sourceRow + Math.min(image.width - 1, Math.floor(x / scale))) * 4;
+      const target = (y * width + x) * 4;
+      bitmap[target] = toByte(image.pixels[source + 2]);
+      bitmap[target + 1] = toByte(image.pixels[source + 1]);
+      bitmap[target + 2] = toByte(image.pixels[source]);
+      bitmap[target + 3] = 255;
+    }
+  }
+
+  return { width, height, bitmap };
+}
+
+/**
+ * Report the render's rendered frames now and whenever its output
+ * directory changes. Returns a function that stops watching.
+ * @param {BlenderRenderOptions} options
+ * @param {(frames: RenderedFrame[]) => void} onChange
+ * @returns {() => void}
+ */
+export function watchRenderedFrames(options, onChange) {
+  const directory = dirname(resolveOutputPattern(options));
+  let stopped = false;
+  let debounce = null;
+  let watcher = null;
+  let poll = null;
+
+  const report = async () => {
+    const frames = await listRenderedFrames(options);
+    if (!stopped) onChange(frames);
+  };
+
+  const scheduleReport = () => {
+    clearTimeout(debounce);
+    debounce = setTimeout(() => {
+      report().catch(error => console.error('Failed to list rendered frames:', error));
+    }, WATCH_DEBOUNCE_MS);
+  };
+
+  const startWatching = () => {
+    try {
+      watcher = watch(directory, scheduleReport);
+      watcher.on('error', () => {
+        watcher?.close();
+        watcher = null;
+      });
+      clearInterval(poll);
+      poll = null;
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  if (!startWatching()) {
+    poll = setInterval(() => {
+      if (startWatching()) scheduleReport();
+    }, POLL_INTERVAL_MS);
+  }
+  scheduleReport();
+
+  return () => {
+    stopped = true;
+    clearTimeout(debounce);
+    clearInterval(poll);
+    watcher?.close();
+  };
+}
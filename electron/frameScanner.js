@@ -0,0 +1,113 @@
+import { readdir, stat } from 'fs/promises';
+import { basename, dirname, extname, join } from 'path';
+import { FORMAT_EXTENSIONS, frameFileStem, resolveOutputPattern } from './outputPaths.js';
+
+/** @typedef {import('../src/types/blender').BlenderRenderOptions} BlenderRenderOptions */
+
+/**
+ * Collapse a frame list into Blender's `-f` syntax, e.g. `1..10,15,20..22`.
+ * @param {number[]} frames
+ * @returns {string}
+ */
+export function formatFrameList(frames) {
+  const sorted = [...new Set(frames)].sort((a, b) => a - b);
+  const ranges = [];
+
+  sorted.forEach(frame => {
+    const last = ranges[ranges.length - 1];
+    if (last && frame === last[1] + 1) {
+      last[1] = frame;
+    } else {
+      ranges.push([frame, frame]);
+    }
+  });
+
+  return ranges
+    .map(([start, end]) => (start === end ? String(start) : `${start}..${end}`))
+    .join(',');
+}
+
+/**
+ * @typedef {Object} RenderedFrame
+ * @property {number} frame
+ * @property {string} path
+ * @property {number} modifiedTime
+ */
+
+/** @param {BlenderRenderOptions} options */
+function frameRange(options) {
+  const startFrame = options.startFrame ?? 1;
+  const endFrame = options.endFrame ?? startFrame;
+  return options.frames ?? Array.from({ length: endFrame - startFrame + 1 }, (_, i) => startFrame + i);
+}
+
+/**
+ * Non-empty files of the render's format in its output directory, keyed
+ * by file name without extension.
+ * @param {string} directory
+ * @param {BlenderRenderOptions['format']} format
+ * @returns {Promise<Map<string, { path: string, modifiedTime: number }>>}
+ */
+async function readWrittenFiles(directory, format) {
+  const extensions = format ? FORMAT_EXTENSIONS[format] : undefined;
+
+  /** @type {Map<string, { path: string, modifiedTime: number }>} */
+  const written = new Map();
+  let entries = [];
+  try {
+    entries = await readdir(directory);
+  } catch {
+    // Output directory does not exist yet: nothing rendered
+  }
+
+  await Promise.all(entries.map(async entry => {
+    const extension = extname(entry).toLowerCase();
+    if (extensions && !extensions.includes(extension)) return;
+
+    const path = join(directory, entry);
+    try {
+      const info = await stat(path);
+      if (info.isFile() && info.size > 0) {
+        written.set(entry.slice(0, entry.length - extension.length), { path, modifiedTime: info.mtimeMs });
+      }
+    } catch {
+      // Removed while scanning
+    }
+  }));
+
+  return written;
+}
+
+/**
+ * Frames of a render's range that exist in its output directory, in frame order.
+ * @param {BlenderRenderOptions} options
+ * @returns {Promise<RenderedFrame[]>}
+ */
+export async function listRenderedFrames(options) {
+  const pattern = resolveOutputPattern(options);
+  const written = await readWrittenFiles(dirname(pattern), options.format);
+
+  return frameRange(options).flatMap(frame => {
+    const file = written.get(basename(frameFileStem(pattern, frame)));
+    return file ? [{ frame, ...file }] : [];
+  });
+}
+
+/**
+ * Split a render's frame range into frames already written to the output
+ * directory and frames still to render. Zero-byte files (placeholders or
+ * renders killed mid-write) count as missing.
+ * @param {BlenderRenderOptions} options
+ * @returns {Promise<{ existing: number[], missing: number[] }>}
+ */
+export async function scanOutputFrames(options) {
+  const rendered = new Set((await listRenderedFrames(options)).map(({ frame }) => frame));
+
+  const existing = [];
+  const missing = [];
+  frameRange(options).forEach(frame => {
+    (rendered.has(frame) ? existing : missing).push(frame);
+  });
+
+  return { existing, missing };
+}
@@ -1,7 +1,17 @@
-import { app, BrowserWindow, Menu, dialog, ipcMain, shell } from 'electron';
+import { app, BrowserWindow, Menu, dialog, ipcMain, nativeImage, shell } from 'electron';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { existsSync } from 'fs';
+import { open, readFile, rename, writeFile } from 'fs/promises';
+import { BlenderManager } from './blenderManager.js';
+import { BlenderInstallations } from './blenderInstallations.js';
+import { VideoEncoder } from './videoEncoder.js';
+import { runRenderHook } from './renderHooks.js';
+import { createSettingsStore } from './settings.js';
+import { listRenderedFrames } from './frameScanner.js';
+import { decodeFrameBitmap, needsDecoding, watchRenderedFrames } from './framePreview.js';
+import { createRenderHistory, renderWithHistory } from './renderHistory.js';
+import { ControlServer, controlError, createControlToken, DEFAULT_CONTROL_PORT } from './controlServer.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -12,6 +22,24 @@ let mainWindow;
 const isDev = process.env.NODE_ENV === 'development';
 const isMac = process.platform === 'darwin';
 
+const settings = createSettingsStore(join(app.getPath('userData'), 'settings.json'));
+const blenderManager = new BlenderManager({
+  blenderPath: settings.get('blenderPath'),
+  pathMappings: settings.get('pathMappings', [])
+});
+const blenderInstallations = new BlenderInstallations(settings, blenderManager);
+const videoEncoder = new VideoEncoder({ ffmpegPath: settings.get('ffmpegPath') });
+const queueJournalPath = join(app.getPath('userData'), 'render-queue.json');
+const renderHistory = createRenderHistory(join(app.getPath('userData'), 'render-history.jsonl'));
+// Output directory watchers of open preview panes, keyed by watch id
+const previewWatchers = new Map();
+// Control API requests waiting for the renderer, keyed by request id
+const pendingControlRequests = new Map();
+let nextControlRequestId = 1;
+const CONTROL_REQUEST_TIMEOUT_MS = 15000;
+const controlServer = new ControlServer(dispatchControlRequest);
+let controlStatus = { running: false };
+
 function createWindow() {
   // Create the browser window
   mainWindow = new BrowserWindow({
@@ -294,6 +322,17 @@ ipcMain.handle('show-item-in-folder', async (event, path) => {
   shell.showItemInFolder(path);
 });
 
+ipcMain.handle('read-file-range', async (event, path, offset, length) => {
+  const handle = await open(path, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, offset);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+});
+
 ipcMain.handle('get-app-version', () => {
   return app.getVersion();
 });
@@ -302,10 +341,319 @@ ipcMain.handle('get-platform', () => {
   return process.platform;
 });
 
+// Blender IPC handlers
+ipcMain.handle('blender-is-available', () => {
+  return blenderManager.isBlenderAvailable();
+});
+
+ipcMain.handle('blender-get-version', () => {
+  return blenderManager.getBlenderVersion();
+});
+
+ipcMain.handle('blender-set-path', (event, path) => {
+  blenderManager.setBlenderPath(path);
+  if (path) {
+    settings.set('blenderPath', path);
+  } else {
+    settings.delete('blenderPath');
+  }
+});
+
+ipcMain.handle('blender-get-path', () => {
+  return blenderManager.getBlenderPath();
+});
+
+ipcMain.handle('blender-list-installations', () => {
+  return blenderInstallations.list();
+});
+
+ipcMain.handle('blender-add-installation', (event, path, name) => {
+  return blenderInstallations.add(path, name);
+});
+
+ipcMain.handle('blender-remove-installation', (event, id) => {
+  blenderInstallations.remove(id);
+});
+
+ipcMain.handle('blender-validate-installation', (event, id) => {
+  return blenderInstallations.validate(id);
+});
+
+ipcMain.handle('blender-discover-installations', () => {
+  return blenderInstallations.discover();
+});
+
+ipcMain.handle('blender-probe-file', (event, blendFile, installationId) => {
+  return blenderManager.probeFile(blendFile, blenderInstallations.resolvePath(installationId));
+});
+
+ipcMain.handle('blender-scan-dependencies', (event, blendFile, installationId) => {
+  return blenderManager.scanDependencies(blendFile, blenderInstallations.resolvePath(installationId));
+});
+
+ipcMain.handle('blender-list-devices', (event, installationId) => {
+  return blenderManager.listDevices(blenderInstallations.resolvePath(installationId));
+});
+
+ipcMain.handle('blender-validate-overrides', (event, blendFile, overrides, scenes, installationId) => {
+  return blenderManager.validateOverrides(blendFile, overrides, scenes, blenderInstallations.resolvePath(installationId));
+});
+
+ipcMain.handle('blender-get-path-mappings', () => {
+  return settings.get('pathMappings', []);
+});
+
+ipcMain.handle('blender-set-path-mappings', (event, rules) => {
+  settings.set('pathMappings', rules);
+  blenderManager.setPathMappings(rules);
+});
+
+ipcMain.handle('blender-render-file', (event, options, progressId) => {
+  const blenderPath = blenderInstallations.resolvePath(options.installationId);
+  return renderWithHistory(renderHistory, blenderManager, { ...options, blenderPath }, (progress) => {
+    if (!event.sender.isDestroyed()) {
+      event.sender.send('blender-progress', progressId, progress);
+    }
+  });
+});
+
+ipcMain.handle('blender-cancel-render', (event, jobId) => {
+  blenderManager.cancelRender(jobId);
+});
+
+ipcMain.handle('blender-cancel-all-renders', () => {
+  blenderManager.cancelAllRenders();
+});
+
+ipcMain.handle('blender-get-active-renders', () => {
+  return blenderManager.getActiveRenders();
+});
+
+ipcMain.handle('blender-is-render-active', (event, jobId) => {
+  return blenderManager.isRenderActive(jobId);
+});
+
+ipcMain.handle('blender-encode-video', (event, request, progressId) => {
+  return videoEncoder.encode(request, (progress) => {
+    if (!event.sender.isDestroyed()) {
+      event.sender.send('blender-encode-progress', progressId, progress);
+    }
+  }, blenderManager.resolvePathRemaps());
+});
+
+ipcMain.handle('blender-cancel-encode', (event, jobId) => {
+  videoEncoder.cancel(jobId);
+});
+
+ipcMain.handle('blender-set-ffmpeg-path', (event, path) => {
+  videoEncoder.setFFmpegPath(path);
+  if (path) {
+    settings.set('ffmpegPath', path);
+  } else {
+    settings.delete('ffmpegPath');
+  }
+});
+
+ipcMain.handle('blender-get-ffmpeg-path', () => {
+  return videoEncoder.getFFmpegPath();
+});
+
+// Render preview IPC handlers
+ipcMain.handle('preview-list-frames', (event, options) => {
+  return listRenderedFrames(options);
+});
+
+ipcMain.handle('preview-get-frame', async (event, path, maxWidth) => {
+  let image;
+  if (needsDecoding(path)) {
+    const { width, height, bitmap } = await decodeFrameBitmap(path, maxWidth);
+    image = nativeImage.createFromBitmap(bitmap, { width, height });
+  } else {
+    image = nativeImage.createFromPath(path);
+    if (image.isEmpty()) {
+      throw new Error(`Could not read image ${path}`);
+    }
+    if (image.getSize().width > maxWidth) {
+      image = image.resize({ width: maxWidth });
+    }
+  }
+  return image.toDataURL();
+});
+
+ipcMain.handle('preview-watch', (event, watchId, options) => {
+  previewWatchers.get(watchId)?.();
+  const stop = watchRenderedFrames(options, (frames) => {
+    if (!event.sender.isDestroyed()) {
+      event.sender.send('preview-frames', watchId, frames);
+    }
+  });
+  previewWatchers.set(watchId, stop);
+});
+
+ipcMain.handle('preview-unwatch', (event, watchId) => {
+  previewWatchers.get(watchId)?.();
+  previewWatchers.delete(watchId);
+});
+
+// Project file IPC handlers
+// Write next to the target first so a failed or interrupted write never
+// truncates the existing file
+async function writeFileAtomic(filePath, contents) {
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, contents, 'utf8');
+  await rename(tempPath, filePath);
+}
+
+ipcMain.handle('project-save', (event, filePath, contents) => {
+  return writeFileAtomic(filePath, contents);
+});
+
+ipcMain.handle('project-load', (event, filePath) => {
+  return readFile(filePath, 'utf8');
+});
+
+ipcMain.handle('project-find-missing-files', (event, filePaths) => {
+  return filePaths.filter(filePath => !existsSync(filePath));
+});
+
+// Render queue journal IPC handlers
+ipcMain.handle('queue-save-journal', (event, contents) => {
+  return writeFileAtomic(queueJournalPath, contents);
+});
+
+ipcMain.handle('queue-load-journal', async () => {
+  return existsSync(queueJournalPath) ? readFile(queueJournalPath, 'utf8') : null;
+});
+
+// Render history IPC handlers
+ipcMain.handle('history-list', (event, filter) => {
+  return renderHistory.list(filter);
+});
+
+ipcMain.handle('history-export-csv', (event, filePath, filter) => {
+  return renderHistory.exportCsv(filePath, filter);
+});
+
+ipcMain.handle('history-clear', () => {
+  return renderHistory.clear();
+});
+
+// Render hook IPC handlers
+ipcMain.handle('hooks-run', (event, hook, context) => {
+  return runRenderHook(hook, context, {
+    ffmpegPath: videoEncoder.getFFmpegPath(),
+    pathRemaps: blenderManager.resolvePathRemaps()
+  });
+});
+
+// Render preset IPC handlers
+ipcMain.handle('presets-load', () => {
+  return settings.get('renderPresets', null);
+});
+
+ipcMain.handle('presets-save', (event, library) => {
+  settings.set('renderPresets', library);
+});
+
+ipcMain.handle('presets-export', (event, filePath, contents) => {
+  return writeFileAtomic(filePath, contents);
+});
+
+ipcMain.handle('presets-import', (event, filePath) => {
+  return readFile(filePath, 'utf8');
+});
+
+// Control API
+// The render queue lives in the renderer; requests are forwarded there
+function dispatchControlRequest(action, params, body) {
+  if (!mainWindow || mainWindow.webContents.isDestroyed()) {
+    return Promise.reject(controlError(503, 'The app window is not open'));
+  }
+
+  const requestId = nextControlRequestId++;
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pendingControlRequests.delete(requestId);
+      reject(controlError(504, 'The app did not answer in time'));
+    }, CONTROL_REQUEST_TIMEOUT_MS);
+
+    pendingControlRequests.set(requestId, { resolve, reject, timer });
+    mainWindow.webContents.send('control-request', requestId, action, params, body);
+  });
+}
+
+function getControlConfig() {
+  const config = {
+    enabled: false,
+    host: '127.0.0.1',
+    port: DEFAULT_CONTROL_PORT,
+    renderLocally: true,
+    ...settings.get('controlServer')
+  };
+  if (!config.token) {
+    config.token = createControlToken();
+    settings.set('controlServer', config);
+  }
+  return config;
+}
+
+async function applyControlConfig() {
+  const config = getControlConfig();
+  try {
+    if (config.enabled) {
+      await controlServer.start(config);
+      controlStatus = { running: true, url: controlServer.getUrl() };
+    } else {
+      await controlServer.stop();
+      controlStatus = { running: false };
+    }
+  } catch (error) {
+    controlStatus = { running: false, error: `Could not listen on ${config.host}:${config.port}: ${error.message}` };
+  }
+  return controlStatus;
+}
+
+ipcMain.on('control-response', (event, requestId, response) => {
+  const request = pendingControlRequests.get(requestId);
+  if (!request) return;
+
+  pendingControlRequests.delete(requestId);
+  clearTimeout(request.timer);
+  if (response.ok) {
+    request.resolve(response.result);
+  } else {
+    request.reject(controlError(response.status, response.message));
+  }
+});
+
+ipcMain.on('control-publish', (event, message) => {
+  controlServer.broadcast(message);
+});
+
+ipcMain.handle('control-get-config', () => {
+  return getControlConfig();
+});
+
+ipcMain.handle('control-get-status', () => {
+  return controlStatus;
+});
+
+ipcMain.handle('control-set-config', (event, changes) => {
+  settings.set('controlServer', { ...getControlConfig(), ...changes });
+  return applyControlConfig();
+});
+
+ipcMain.handle('control-regenerate-token', async () => {
+  settings.set('controlServer', { ...getControlConfig(), token: createControlToken() });
+  await applyControlConfig();
+  return getControlConfig().token;
+});
+
 // App event handlers
 app.whenReady().then(() => {
   createWindow();
   createMenu();
+  applyControlConfig();
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
@@ -314,6 +662,12 @@ app.whenReady().then(() => {
   });
 });
 
+app.on('before-quit', () => {
+  blenderManager.cancelAllRenders();
+  videoEncoder.cancelAll();
+  controlServer.stop();
+});
+
 app.on('window-all-closed', () => {
   if (!isMac) {
     app.quit();
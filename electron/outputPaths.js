@@ -0,0 +1,43 @@
+import { basename, join } from 'path';
+
+/** @typedef {import('../src/types/blender').BlenderRenderOptions} BlenderRenderOptions */
+
+// File extensions Blender writes for each output format
+export const FORMAT_EXTENSIONS = {
+  PNG: ['.png'],
+  JPEG: ['.jpg', '.jpeg'],
+  TIFF: ['.tif', '.tiff'],
+  EXR: ['.exr']
+};
+
+/**
+ * Blender's `-o` takes a file pattern with `#` frame padding. A plain
+ * directory gets `<blend name>_####` appended.
+ * @param {BlenderRenderOptions} options
+ * @returns {string}
+ */
+export function resolveOutputPattern(options) {
+  if (options.outputPath.includes('#')) {
+    return options.outputPath;
+  }
+
+  const name = basename(options.blendFile).replace(/\.blend$/i, '');
+  return join(options.outputPath, `${name}_####`);
+}
+
+/**
+ * Expand a `-o` pattern to the file name (without extension) Blender uses
+ * for a frame. The last run of `#` is replaced by the zero-padded frame.
+ * @param {string} pattern
+ * @param {number} frame
+ * @returns {string}
+ */
+export function frameFileStem(pattern, frame) {
+  const match = pattern.match(/#+(?!.*#)/);
+  if (!match || match.index === undefined) {
+    return `${pattern}${String(frame).padStart(4, '0')}`;
+  }
+
+  const padded = String(frame).padStart(match[0].length, '0');
+  return pattern.slice(0, match.index) + padded + pattern.slice(match.index + match[0].length);
+}
@@ -0,0 +1,104 @@
+import { existsSync } from 'fs';
+
+/** @typedef {import('../src/types/blender').PathMappingRule} PathMappingRule */
+/** @typedef {import('../src/types/blender').PathRemap} PathRemap */
+
+/**
+ * Drive letter or UNC share
+ * @param {string} path
+ */
+const isWindowsPath = path => /^[A-Za-z]:/.test(path) || path.startsWith('\\\\');
+
+/**
+ * @param {string} path
+ */
+const trimSeparators = path => (path.length > 1 ? path.replace(/[\\/]+$/, '') : path);
+
+/**
+ * Turn mapping rules into prefix replacements for this machine. Every
+ * location of a rule maps to the first one of its locations that exists
+ * here; rules with no location on this machine are skipped.
+ * @param {PathMappingRule[]} rules
+ * @param {(path: string) => boolean} [exists]
+ * @returns {PathRemap[]} longest prefix first
+ */
+export function resolvePathMappings(rules, exists = existsSync) {
+  /** @type {PathRemap[]} */
+  const remaps = [];
+
+  rules.forEach(rule => {
+    const locations = rule.paths.map(path => path.trim()).filter(Boolean).map(trimSeparators);
+    const local = locations.find(path => exists(path));
+    if (!local) return;
+
+    locations
+      .filter(path => path !== local)
+      .forEach(from => remaps.push({ from, to: local }));
+  });
+
+  return remaps.sort((a, b) => b.from.length - a.from.length);
+}
+
+/**
+ * Rewrite `path` with the first matching remap. Windows prefixes match
+ * case-insensitively; the rest of the path takes the separators of the
+ * target location. Blend-relative (`//`) paths are returned unchanged.
+ * @param {string} path
+ * @param {PathRemap[]} remaps
+ * @returns {string}
+ */
+export function mapPath(path, remaps) {
+  if (!path || path.startsWith('//')) return path;
+
+  const normalized = path.replace(/\\/g, '/');
+  for (const { from, to } of remaps) {
+    const prefix = from.replace(/\\/g, '/');
+    const head = normalized.slice(0, prefix.length);
+    const matches = isWindowsPath(from) ? head.toLowerCase() === prefix.toLowerCase() : head === prefix;
+    const boundary = normalized.length === prefix.length || normalized[prefix.length] === '/' || prefix.endsWith('/');
+    if (!matches || !boundary) continue;
+
+    const rest = normalized.slice(prefix.length);
+    return to + (isWindowsPath(to) ? rest.replace(/\//g, '\\') : rest);
+  }
+  return path;
+}
+
+/**
+ * Python that applies `remaps` to the external files a blend file
+ * references, so absolute paths saved on another machine resolve here.
+ * Blend-relative paths already follow the (mapped) blend file.
+ * @param {PathRemap[]} remaps
+ * @returns {string[]}
+ */
+export function buildPathRemapScript(remaps) {
+  if (remaps.length === 0) return [];
+
+  return [
+    'import re',
+    `path_remaps = ${JSON.stringify(remaps.map(({ from, to }) => [from, to]))}`,
+    'def remap_path(path):',
+    "    if not path or path.startswith('//'): return None",
+    "    normalized = path.replace('\\\\', '/')",
+    '    for source, target in path_remaps:',
+    "        prefix = source.replace('\\\\', '/')",
+    '        head = normalized[:len(prefix)]',
+    "        windows = re.match(r'^[A-Za-z]:', source) or source.startswith('\\\\\\\\')",
+    '        if (head.lower() == prefix.lower()) if windows else (head == prefix):',
+    "            if len(normalized) == len(prefix) or normalized[len(prefix)] == '/' or prefix.endswith('/'):",
+    '                rest = normalized[len(prefix):]',
+    "                if re.match(r'^[A-Za-z]:', target) or target.startswith('\\\\\\\\'): rest = rest.replace('/', '\\\\')",
+    '                return target + rest',
+    '    return None',
+    'for library in bpy.data.libraries:',
+    '    mapped = remap_path(library.filepath)',
+    '    if mapped:',
+    '        library.filepath = mapped',
+    '        library.reload()',
+    'for blocks in (bpy.data.images, bpy.data.sounds, bpy.data.movieclips, bpy.data.fonts, bpy.data.volumes, bpy.data.cache_files):',
+    '    for block in blocks:',
+    "        if getattr(block, 'packed_file', None): continue",
+    '        mapped = remap_path(block.filepath)',
+    '        if mapped: block.filepath = mapped'
+  ];
+}
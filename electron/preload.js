@@ -1,5 +1,8 @@
 import { contextBridge, ipcRenderer } from 'electron';
 
+// Removes the 'preview-frames' listener of each active preview watch
+const previewListeners = new Map();
+
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -13,6 +16,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // External operations
   openExternal: (url) => ipcRenderer.invoke('open-external', url),
   showItemInFolder: (path) => ipcRenderer.invoke('show-item-in-folder', path),
+  readFileRange: (path, offset, length) => ipcRenderer.invoke('read-file-range', path, offset, length),
   
   // App info
   getAppVersion: () => ipcRenderer.invoke('get-app-version'),
@@ -36,6 +40,17 @@ contextBridge.exposeInMainWorld('electronAPI', {
     getBlenderVersion: () => ipcRenderer.invoke('blender-get-version'),
     setBlenderPath: (path) => ipcRenderer.invoke('blender-set-path', path),
     getBlenderPath: () => ipcRenderer.invoke('blender-get-path'),
+    listInstallations: () => ipcRenderer.invoke('blender-list-installations'),
+    addInstallation: (path, name) => ipcRenderer.invoke('blender-add-installation', path, name),
+    removeInstallation: (id) => ipcRenderer.invoke('blender-remove-installation', id),
+    validateInstallation: (id) => ipcRenderer.invoke('blender-validate-installation', id),
+    discoverInstallations: () => ipcRenderer.invoke('blender-discover-installations'),
+    probeFile: (blendFile, installationId) => ipcRenderer.invoke('blender-probe-file', blendFile, installationId),
+    scanDependencies: (blendFile, installationId) => ipcRenderer.invoke('blender-scan-dependencies', blendFile, installationId),
+    listDevices: (installationId) => ipcRenderer.invoke('blender-list-devices', installationId),
+    validateOverrides: (blendFile, overrides, scenes, installationId) => ipcRenderer.invoke('blender-validate-overrides', blendFile, overrides, scenes, installationId),
+    getPathMappings: () => ipcRenderer.invoke('blender-get-path-mappings'),
+    setPathMappings: (rules) => ipcRenderer.invoke('blender-set-path-mappings', rules),
     renderFile: (options, onProgress) => {
       const progressId = `progress-${Date.now()}-${Math.random()}`;
       
@@ -59,10 +74,110 @@ contextBridge.exposeInMainWorld('electronAPI', {
       
       return ipcRenderer.invoke('blender-render-file', options, progressId);
     },
-    cancelRender: (blendFile) => ipcRenderer.invoke('blender-cancel-render', blendFile),
+    cancelRender: (jobId) => ipcRenderer.invoke('blender-cancel-render', jobId),
     cancelAllRenders: () => ipcRenderer.invoke('blender-cancel-all-renders'),
     getActiveRenders: () => ipcRenderer.invoke('blender-get-active-renders'),
-    isRenderActive: (blendFile) => ipcRenderer.invoke('blender-is-render-active', blendFile)
+    isRenderActive: (jobId) => ipcRenderer.invoke('blender-is-render-active', jobId),
+    encodeVideo: (request, onProgress) => {
+      const progressId = `encode-${Date.now()}-${Math.random()}`;
+      if (!onProgress) {
+        return ipcRenderer.invoke('blender-encode-video', request, progressId);
+      }
+
+      const progressHandler = (event, id, progress) => {
+        if (id === progressId) {
+          onProgress(progress);
+        }
+      };
+      ipcRenderer.on('blender-encode-progress', progressHandler);
+      return ipcRenderer.invoke('blender-encode-video', request, progressId)
+        .finally(() => ipcRenderer.removeListener('blender-encode-progress', progressHandler));
+    },
+    cancelEncode: (jobId) => ipcRenderer.invoke('blender-cancel-encode', jobId),
+    setFFmpegPath: (path) => ipcRenderer.invoke('blender-set-ffmpeg-path', path),
+    getFFmpegPath: () => ipcRenderer.invoke('blender-get-ffmpeg-path')
+  },
+
+  // Project files
+  project: {
+    save: (filePath, contents) => ipcRenderer.invoke('project-save', filePath, contents),
+    load: (filePath) => ipcRenderer.invoke('project-load', filePath),
+    findMissingFiles: (filePaths) => ipcRenderer.invoke('project-find-missing-files', filePaths)
+  },
+
+  // Render output preview
+  preview: {
+    listFrames: (options) => ipcRenderer.invoke('preview-list-frames', options),
+    getFrame: (path, maxWidth) => ipcRenderer.invoke('preview-get-frame', path, maxWidth),
+    watch: (watchId, options, onFrames) => {
+      const framesHandler = (event, id, frames) => {
+        if (id === watchId) {
+          onFrames(frames);
+        }
+      };
+      previewListeners.get(watchId)?.();
+      ipcRenderer.on('preview-frames', framesHandler);
+      previewListeners.set(watchId, () => ipcRenderer.removeListener('preview-frames', framesHandler));
+      return ipcRenderer.invoke('preview-watch', watchId, options);
+    },
+    unwatch: (watchId) => {
+      previewListeners.get(watchId)?.();
+      previewListeners.delete(watchId);
+      return ipcRenderer.invoke('preview-unwatch', watchId);
+    }
+  },
+
+  // Render queue journal
+  queue: {
+    saveJournal: (contents) => ipcRenderer.invoke('queue-save-journal', contents),
+    loadJournal: () => ipcRenderer.invoke('queue-load-journal')
+  },
+
+  // LAN control API; the renderer answers requests against its render queue
+  control: {
+    getConfig: () => ipcRenderer.invoke('control-get-config'),
+    getStatus: () => ipcRenderer.invoke('control-get-status'),
+    setConfig: (changes) => ipcRenderer.invoke('control-set-config', changes),
+    regenerateToken: () => ipcRenderer.invoke('control-regenerate-token'),
+    onRequest: (handler) => {
+      ipcRenderer.removeAllListeners('control-request');
+      ipcRenderer.on('control-request', async (event, requestId, action, params, body) => {
+        try {
+          const result = await handler(action, params, body);
+          ipcRenderer.send('control-response', requestId, { ok: true, result });
+        } catch (error) {
+          ipcRenderer.send('control-response', requestId, {
+            ok: false,
+            status: error.status ?? 500,
+            message: error.message ?? String(error)
+          });
+        }
+      });
+    },
+    removeRequestHandler: () => {
+      ipcRenderer.removeAllListeners('control-request');
+    },
+    publish: (message) => ipcRenderer.send('control-publish', message)
+  },
+
+  // Render settings presets
+  presets: {
+    load: () => ipcRenderer.invoke('presets-load'),
+    save: (library) => ipcRenderer.invoke('presets-save', library),
+    exportFile: (filePath, contents) => ipcRenderer.invoke('presets-export', filePath, contents),
+    importFile: (filePath) => ipcRenderer.invoke('presets-import', filePath)
+  },
+
+  // Render history
+  history: {
+    list: (filter) => ipcRenderer.invoke('history-list', filter),
+    exportCsv: (filePath, filter) => ipcRenderer.invoke('history-export-csv', filePath, filter),
+    clear: () => ipcRenderer.invoke('history-clear')
+  },
+
+  // Pre- and post-render hooks
+  hooks: {
+    run: (hook, context) => ipcRenderer.invoke('hooks-run', hook, context)
   }
 });
 
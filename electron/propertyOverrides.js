@@ -0,0 +1,89 @@
+import { runProbeScript } from './blendProbe.js';
+
+/** @typedef {import('../src/types/blender').PropertyOverride} PropertyOverride */
+/** @typedef {import('../src/types/blender').OverrideProblem} OverrideProblem */
+
+const OVERRIDES_MARKER = 'RFP_OVERRIDES:';
+
+// Attribute and index access only, so a data path can be assigned to as it is:
+// scene.cycles.use_denoising, bpy.data.objects["Cube"].hide_render, scene["my_prop"]
+export const DATA_PATH_PATTERN = /^(scene|bpy\.data|bpy\.context)(\.[A-Za-z_]\w*|\[(\d+|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')\])+$/;
+
+/**
+ * @param {PropertyOverride[]} overrides
+ */
+function assertDataPaths(overrides) {
+  const invalid = overrides.filter(override => !DATA_PATH_PATTERN.test(override.dataPath));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid property data path: ${invalid.map(override => override.dataPath).join(', ')}`);
+  }
+}
+
+/**
+ * Python defining `overrides` and `apply_override(scene, override)`.
+ * Values travel as JSON rather than as code.
+ * @param {PropertyOverride[]} overrides
+ * @returns {string[]}
+ */
+function overrideDefinitions(overrides) {
+  assertDataPaths(overrides);
+  const data = overrides.map(({ dataPath, value }) => ({ dataPath, value }));
+  return [
+    'import json',
+    `overrides = json.loads(${JSON.stringify(JSON.stringify(data))})`,
+    'def apply_override(scene, override):',
+    "    exec(override['dataPath'] + ' = value', {'bpy': bpy, 'scene': scene, 'value': override['value']})"
+  ];
+}
+
+/**
+ * Render prelude lines that set each property. The render fails on the
+ * first override Blender refuses rather than rendering without it.
+ * @param {PropertyOverride[]} overrides
+ * @returns {string[]}
+ */
+export function buildOverrideScript(overrides) {
+  if (overrides.length === 0) return [];
+
+  return [
+    ...overrideDefinitions(overrides),
+    'import sys',
+    'for override in overrides:',
+    '    try:',
+    '        apply_override(scene, override)',
+    '    except Exception as error:',
+    "        print('Error: Property override ' + override['dataPath'] + ' failed: ' + str(error), flush=True)",
+    '        sys.exit(1)'
+  ];
+}
+
+/**
+ * Try every override on each of `scenes` (the active scene when empty)
+ * without rendering and report the ones Blender refuses.
+ * @param {string} blenderPath
+ * @param {string} blendFile
+ * @param {PropertyOverride[]} overrides
+ * @param {string[]} scenes
+ * @returns {Promise<OverrideProblem[]>}
+ */
+export function validateOverrides(blenderPath, blendFile, overrides, scenes) {
+  const script = [
+    'import bpy',
+    ...overrideDefinitions(overrides),
+    `scene_names = json.loads(${JSON.stringify(JSON.stringify(scenes))}) or [bpy.context.scene.name]`,
+    'problems = []',
+    'for name in scene_names:',
+    '    scene = bpy.data.scenes.get(name)',
+    '    if scene is None:',
+    "        problems.append({'dataPath': '', 'scene': name, 'error': 'Scene not found'})",
+    '        continue',
+    '    for override in overrides:',
+    '        try:',
+    '            apply_override(scene, override)',
+    '        except Exception as error:',
+    "            problems.append({'dataPath': override['dataPath'], 'scene': name, 'error': str(error)})",
+    `print('${OVERRIDES_MARKER}' + json.dumps(problems))`
+  ].join('\n');
+
+  return runProbeScript(blenderPath, blendFile, script, OVERRIDES_MARKER, 'property overrides');
+}
@@ -0,0 +1,174 @@
+import { existsSync, mkdirSync } from 'fs';
+import { appendFile, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+/** @typedef {import('../src/types/blender').BlenderRenderOptions} BlenderRenderOptions */
+/** @typedef {import('../src/types/blender').RenderProgress} RenderProgress */
+/** @typedef {import('../src/types/history').RenderHistoryRecord} RenderHistoryRecord */
+/** @typedef {import('../src/types/history').RenderHistoryFilter} RenderHistoryFilter */
+/** @typedef {import('./blenderManager.js').BlenderManager} BlenderManager */
+
+const CSV_COLUMNS = [
+  'startTime', 'endTime', 'durationSeconds', 'outcome', 'blendFile', 'outputPath', 'engine', 'samples',
+  'resolution', 'format', 'gpu', 'blenderVersion', 'framesRendered', 'skippedFrames', 'averageFrameSeconds',
+  'peakMemory', 'error'
+];
+
+/**
+ * @param {RenderHistoryRecord[]} records
+ * @param {RenderHistoryFilter} [filter]
+ * @returns {RenderHistoryRecord[]}
+ */
+export function filterHistory(records, filter = {}) {
+  const search = filter.search?.toLowerCase();
+  return records.filter(record =>
+    (!search || record.blendFile.toLowerCase().includes(search)) &&
+    (!filter.outcome || record.outcome === filter.outcome) &&
+    (!filter.engine || record.engine === filter.engine) &&
+    (!filter.blenderVersion || record.blenderVersion === filter.blenderVersion) &&
+    (!filter.from || record.startTime >= filter.from) &&
+    (!filter.to || record.startTime <= filter.to)
+  );
+}
+
+/** @param {unknown} value */
+function csvField(value) {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per Blender run, with the average frame time in place of the
+ * per-frame list.
+ * @param {RenderHistoryRecord[]} records
+ * @returns {string}
+ */
+export function historyToCsv(records) {
+  const rows = records.map(record => {
+    const total = record.frames.reduce((sum, frame) => sum + frame.seconds, 0);
+    const values = {
+      ...record,
+      resolution: record.resolution ? record.resolution.join('x') : undefined,
+      averageFrameSeconds: record.frames.length > 0 ? (total / record.frames.length).toFixed(2) : undefined
+    };
+    return CSV_COLUMNS.map(column => csvField(values[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Append-only JSON Lines log of finished renders. A truncated last line
+ * (crash mid-write) is skipped on read rather than failing the history.
+ * @param {string} filePath
+ */
+export function createRenderHistory(filePath) {
+  /** @returns {Promise<RenderHistoryRecord[]>} */
+  const readAll = async () => {
+    if (!existsSync(filePath)) return [];
+
+    const contents = await readFile(filePath, 'utf8');
+    return contents.split('\n').filter(Boolean).flatMap(line => {
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        console.warn('Skipping unreadable render history entry');
+        return [];
+      }
+    });
+  };
+
+  return {
+    /** @param {RenderHistoryRecord} record */
+    async append(record) {
+      mkdirSync(dirname(filePath), { recursive: true });
+      await appendFile(filePath, JSON.stringify(record) + '\n');
+    },
+
+    /**
+     * Newest first.
+     * @param {RenderHistoryFilter} [filter]
+     */
+    async list(filter) {
+      return filterHistory(await readAll(), filter).reverse();
+    },
+
+    /**
+     * @param {string} csvPath
+     * @param {RenderHistoryFilter} [filter]
+     */
+    async exportCsv(csvPath, filter) {
+      await writeFile(csvPath, historyToCsv(filterHistory(await readAll(), filter)));
+    },
+
+    async clear() {
+      await writeFile(filePath, '');
+    }
+  };
+}
+
+/** @type {Map<string, Promise<string | undefined>>} */
+const blenderVersions = new Map();
+
+/**
+ * Render through the manager and append the outcome, timings and memory
+ * use to the history. Resolves and rejects like `renderFile`.
+ * @param {ReturnType<typeof createRenderHistory>} history
+ * @param {BlenderManager} blenderManager
+ * @param {BlenderRenderOptions} options
+ * @param {(progress: RenderProgress) => void} onProgress
+ */
+export async function renderWithHistory(history, blenderManager, options, onProgress) {
+  const blenderPath = options.blenderPath || blenderManager.getBlenderPath();
+  if (!blenderVersions.has(blenderPath)) {
+    blenderVersions.set(blenderPath, blenderManager.getBlenderVersion(blenderPath).catch(() => undefined));
+  }
+
+  const startTime = new Date();
+  /** @type {RenderProgress | undefined} */
+  let last;
+  /** @type {unknown} */
+  let failure;
+
+  try {
+    await blenderManager.renderFile(options, progress => {
+      last = progress;
+      onProgress(progress);
+    });
+  } catch (error) {
+    failure = error;
+  }
+
+  const endTime = new Date();
+  const frames = last?.frameStats ?? [];
+  /** @type {RenderHistoryRecord} */
+  const record = {
+    id: `${startTime.getTime()}-${Math.random().toString(36).substr(2, 9)}`,
+    jobId: options.jobId || options.blendFile,
+    blendFile: options.blendFile,
+    outputPath: options.outputPath,
+    startTime: startTime.toISOString(),
+    endTime: endTime.toISOString(),
+    durationSeconds: Math.round((endTime.getTime() - startTime.getTime()) / 100) / 10,
+    outcome: failure ? 'error' : last?.status === 'cancelled' ? 'cancelled' : 'completed',
+    error: failure ? (failure instanceof Error ? failure.message : String(failure)) : undefined,
+    engine: options.engine,
+    samples: options.samples,
+    resolution: options.resolution,
+    format: options.format,
+    gpu: options.cycles ? options.cycles.deviceType !== 'CPU' : undefined,
+    blenderVersion: await blenderVersions.get(blenderPath),
+    framesRendered: frames.length,
+    skippedFrames: last?.skippedFrames ?? 0,
+    peakMemory: last?.peakMemory,
+    frames
+  };
+
+  try {
+    await history.append(record);
+  } catch (error) {
+    console.error('Failed to write render history:', error);
+  }
+
+  if (failure) throw failure;
+}
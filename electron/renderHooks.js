@@ -0,0 +1,391 @@
+import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { copyFile, mkdir, mkdtemp, rename, rm, stat, unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, dirname, extname, join } from 'path';
+import { listRenderedFrames } from './frameScanner.js';
+import { resolveOutputPattern } from './outputPaths.js';
+import { mapPath } from './pathMapping.js';
+
+/** @typedef {import('../src/types/hooks').RenderHook} RenderHook */
+/** @typedef {import('../src/types/hooks').HookContext} HookContext */
+/** @typedef {import('../src/types/hooks').HookRunResult} HookRunResult */
+
+/**
+ * @typedef {Object} HookEnvironment
+ * @property {string} ffmpegPath Used for contact sheets
+ * @property {import('./pathMapping.js').PathRemap[]} [pathRemaps] Applied to the render's paths
+ */
+
+const DEFAULT_TIMEOUT_SECONDS = 600;
+// Lines of command output kept in the log
+const LOG_LINES = 40;
+
+/**
+ * Values of the `{variables}` hooks may use. Keep in step with
+ * HOOK_VARIABLES in src/utils/renderHooks.ts.
+ * @param {HookContext} context
+ * @returns {Record<string, string>}
+ */
+export function hookVariables(context) {
+  const { source } = context;
+  const pattern = resolveOutputPattern(source);
+
+  return {
+    item_id: context.itemId,
+    blend_file: source.blendFile,
+    blend_name: basename(source.blendFile).replace(/\.blend$/i, ''),
+    blend_dir: dirname(source.blendFile),
+    output_dir: dirname(pattern),
+    output_pattern: pattern,
+    video: context.videoFile ?? '',
+    status: context.status,
+    error: context.error ?? '',
+    frame_start: source.startFrame !== undefined ? String(source.startFrame) : '',
+    frame_end: source.endFrame !== undefined ? String(source.endFrame) : '',
+    scene: source.scene ?? '',
+    camera: source.camera ?? '',
+    view_layer: source.viewLayer ?? '',
+    date: new Date().toISOString().slice(0, 10)
+  };
+}
+
+/**
+ * Quote a value as one shell word. cmd.exe expands `%VAR%` even inside
+ * double quotes, so each `%` is escaped with a caret between closed quotes.
+ * @param {string} value
+ * @returns {string}
+ */
+export function shellQuote(value) {
+  if (process.platform === 'win32') {
+    return `"${value.replace(/"/g, '""').replace(/%/g, '"^%"')}"`;
+  }
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Replace `{name}` with its variable, passed through `quote`. Unknown names
+ * are left as they are.
+ * @param {string} template
+ * @param {Record<string, string>} variables
+ * @param {(value: string) => string} [quote]
+ * @returns {string}
+ */
+export function expandTemplate(template, variables, quote = value => value) {
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? quote(variables[name]) : match
+  );
+}
+
+/** @param {string[]} lines */
+const lastLines = lines => lines.slice(-LOG_LINES).join('\n');
+
+/**
+ * Collect a process's output until it exits, killing it once it ran for
+ * `timeoutSeconds`.
+ * @param {() => import('child_process').ChildProcess} start
+ * @param {string} name What the errors call the process
+ * @param {number} timeoutSeconds
+ * @returns {Promise<HookRunResult>}
+ */
+function runProcess(start, name, timeoutSeconds) {
+  return new Promise(resolve => {
+    /** @type {string[]} */
+    const output = [];
+    let timedOut = false;
+    let child;
+
+    try {
+      child = start();
+    } catch (error) {
+      resolve({ status: 'error', log: '', error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    /** @param {Buffer} chunk */
+    const collect = chunk => {
+      output.push(...chunk.toString().split(/\r?\n/).filter(Boolean));
+      output.splice(0, Math.max(0, output.length - LOG_LINES));
+    };
+    child.stdout?.on('data', collect);
+    child.stderr?.on('data', collect);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill();
+    }, timeoutSeconds * 1000);
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      const message = /** @type {NodeJS.ErrnoException} */ (error).code === 'ENOENT'
+        ? `${name} not found`
+        : error.message;
+      resolve({ status: 'error', log: lastLines(output), error: message });
+    });
+
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        resolve({ status: 'error', log: lastLines(output), error: `${name} timed out after ${timeoutSeconds}s` });
+      } else if (code === 0) {
+        resolve({ status: 'completed', log: lastLines(output) });
+      } else {
+        resolve({
+          status: 'error',
+          log: lastLines(output),
+          error: signal ? `${name} was terminated by signal ${signal}` : `${name} exited with code ${code}`
+        });
+      }
+    });
+  });
+}
+
+/**
+ * Run a shell command with its variables quoted in place and also set as
+ * `RFP_<NAME>` environment variables.
+ * @param {string} command
+ * @param {Record<string, string>} variables
+ * @param {number} timeoutSeconds
+ * @returns {Promise<HookRunResult>}
+ */
+function runCommand(command, variables, timeoutSeconds) {
+  const env = { ...process.env };
+  Object.entries(variables).forEach(([name, value]) => {
+    env[`RFP_${name.toUpperCase()}`] = value;
+  });
+
+  return runProcess(() => spawn(expandTemplate(command, variables, shellQuote), {
+    shell: true,
+    cwd: existsSync(variables.blend_dir) ? variables.blend_dir : undefined,
+    env,
+    stdio: ['ignore', 'pipe', 'pipe']
+  }), 'Command', timeoutSeconds);
+}
+
+/**
+ * Move a file, copying it when the destination is on another device.
+ * @param {string} from
+ * @param {string} to
+ */
+async function moveFile(from, to) {
+  try {
+    await rename(from, to);
+  } catch (error) {
+    if (/** @type {NodeJS.ErrnoException} */ (error).code !== 'EXDEV') throw error;
+    await copyFile(from, to);
+    await unlink(from);
+  }
+}
+
+/**
+ * @param {HookContext} context
+ * @param {string} destination
+ * @param {boolean} move
+ * @returns {Promise<string>} Log line
+ */
+async function copyOutputs(context, destination, move) {
+  const files = (await listRenderedFrames(context.source)).map(frame => frame.path);
+  if (context.videoFile && existsSync(context.videoFile)) {
+    files.push(context.videoFile);
+  }
+  if (files.length === 0) {
+    throw new Error('No rendered files to copy');
+  }
+
+  await mkdir(destination, { recursive: true });
+  for (const file of files) {
+    const target = join(destination, basename(file));
+    if (move) {
+      await moveFile(file, target);
+    } else {
+      await copyFile(file, target);
+    }
+  }
+  return `${move ? 'Moved' : 'Copied'} ${files.length} file(s) to ${destination}`;
+}
+
+/**
+ * Evenly spread picks of at most `count` items, keeping the first and last.
+ * @template T
+ * @param {T[]} items
+ * @param {number} count
+ * @returns {T[]}
+ */
+function sample(items, count) {
+  if (items.length <= count) return items;
+  if (count === 1) return [items[0]];
+  return Array.from({ length: count }, (_, i) => items[Math.round((i * (items.length - 1)) / (count - 1))]);
+}
+
+/**
+ * Tile the rendered frames into one image with ffmpeg.
+ * @param {HookContext} context
+ * @param {Extract<RenderHook['action'], { type: 'contactSheet' }>} action
+ * @param {string} outputFile
+ * @param {string} ffmpegPath
+ * @param {number} timeoutSeconds
+ * @returns {Promise<HookRunResult>}
+ */
+async function writeContactSheet(context, action, outputFile, ffmpegPath, timeoutSeconds) {
+  const frames = sample(await listRenderedFrames(context.source), action.maxFrames);
+  if (frames.length === 0) {
+    throw new Error('No rendered frames for the contact sheet');
+  }
+
+  const columns = Math.min(action.columns, frames.length);
+  const rows = Math.ceil(frames.length / columns);
+  const listDirectory = await mkdtemp(join(tmpdir(), 'contact-sheet-'));
+  const listFile = join(listDirectory, 'frames.txt');
+  await writeFile(
+    listFile,
+    frames.map(frame => `file '${frame.path.replace(/'/g, `'\\''`)}'`).join('\n') + '\n',
+    'utf8'
+  );
+  await mkdir(dirname(outputFile), { recursive: true });
+
+  const args = [
+    '-hide_banner',
+    '-nostdin',
+    '-y',
+    // EXR frames are linear; tile them with the sRGB curve the other formats have
+    ...(extname(frames[0].path).toLowerCase() === '.exr' ? ['-apply_trc', 'iec61966_2_1'] : []),
+    '-f', 'concat',
+    '-safe', '0',
+    '-i', listFile,
+    '-vf', `scale=${action.thumbnailWidth}:-2,tile=${columns}x${rows}`,
+    '-frames:v', '1',
+    '-update', '1',
+    outputFile
+  ];
+
+  try {
+    const result = await runProcess(() => spawn(ffmpegPath, args, { stdio: ['ignore', 'pipe', 'pipe'] }), 'ffmpeg', timeoutSeconds);
+    return result.status === 'completed'
+      ? { status: 'completed', log: `Contact sheet of ${frames.length} frame(s) written to ${outputFile}` }
+      : result;
+  } finally {
+    await rm(listDirectory, { recursive: true, force: true });
+  }
+}
+
+/**
+ * @param {HookContext} context
+ * @param {Record<string, string>} variables
+ * @param {string} outputFile
+ * @returns {Promise<string>} Log line
+ */
+async function writeManifest(context, variables, outputFile) {
+  const frames = context.stage === 'post' ? await listRenderedFrames(context.source) : [];
+  const manifest = {
+    itemId: context.itemId,
+    blendFile: context.source.blendFile,
+    outputPattern: variables.output_pattern,
+    scene: context.source.scene,
+    camera: context.source.camera,
+    viewLayer: context.source.viewLayer,
+    status: context.status,
+    error: context.error,
+    startTime: context.startTime,
+    endTime: context.endTime,
+    startFrame: context.source.startFrame,
+    endFrame: context.source.endFrame,
+    video: context.videoFile,
+    frames: await Promise.all(frames.map(async frame => ({
+      frame: frame.frame,
+      path: frame.path,
+      size: (await stat(frame.path)).size
+    })))
+  };
+
+  await mkdir(dirname(outputFile), { recursive: true });
+  await writeFile(outputFile, JSON.stringify(manifest, null, 2), 'utf8');
+  return `Manifest of ${frames.length} frame(s) written to ${outputFile}`;
+}
+
+/**
+ * @param {HookContext} context
+ * @param {Record<string, string>} variables
+ * @param {string} url
+ * @param {number} timeoutSeconds
+ * @returns {Promise<HookRunResult>}
+ */
+async function postWebhook(context, variables, url, timeoutSeconds) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ event: `render.${context.stage}`, ...variables }),
+      signal: controller.signal
+    });
+    const body = (await response.text()).slice(0, 2000);
+    const log = `POST ${url}: ${response.status} ${response.statusText}${body ? `\n${body}` : ''}`;
+    return response.ok
+      ? { status: 'completed', log }
+      : { status: 'error', log, error: `Webhook answered ${response.status} ${response.statusText}` };
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `Webhook timed out after ${timeoutSeconds}s`
+      : error instanceof Error ? error.message : String(error);
+    return { status: 'error', log: '', error: message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run one pre- or post-render hook. Never rejects: failures come back as
+ * an error result with whatever the hook logged.
+ * @param {RenderHook} hook
+ * @param {HookContext} context
+ * @param {HookEnvironment} environment
+ * @returns {Promise<HookRunResult>}
+ */
+export async function runRenderHook(hook, context, environment) {
+  const remaps = environment.pathRemaps ?? [];
+  if (remaps.length > 0) {
+    context = {
+      ...context,
+      source: {
+        ...context.source,
+        blendFile: mapPath(context.source.blendFile, remaps),
+        outputPath: mapPath(context.source.outputPath, remaps)
+      },
+      videoFile: context.videoFile && mapPath(context.videoFile, remaps)
+    };
+  }
+
+  const variables = hookVariables(context);
+  const timeoutSeconds = hook.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS;
+  const { action } = hook;
+
+  try {
+    switch (action.type) {
+      case 'command':
+        return await runCommand(action.command, variables, timeoutSeconds);
+      case 'copy':
+        return {
+          status: 'completed',
+          log: await copyOutputs(context, expandTemplate(action.destination, variables), action.move)
+        };
+      case 'contactSheet':
+        return await writeContactSheet(
+          context,
+          action,
+          expandTemplate(action.outputFile, variables),
+          environment.ffmpegPath,
+          timeoutSeconds
+        );
+      case 'manifest':
+        return { status: 'completed', log: await writeManifest(context, variables, expandTemplate(action.outputFile, variables)) };
+      case 'webhook':
+        return await postWebhook(context, variables, expandTemplate(action.url, variables, encodeURIComponent), timeoutSeconds);
+      default:
+        return { status: 'error', log: '', error: `Unknown hook action ${/** @type {{ type: string }} */ (action).type}` };
+    }
+  } catch (error) {
+    return { status: 'error', log: '', error: error instanceof Error ? error.message : String(error) };
+  }
+}
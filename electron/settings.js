@@ -0,0 +1,41 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+// Small JSON-backed key/value store for user settings that must survive
+// restarts (Blender path, ...). Reads are served from memory; every write
+// is flushed to disk synchronously so a crash never loses a change.
+export function createSettingsStore(filePath) {
+  let data = {};
+
+  if (existsSync(filePath)) {
+    try {
+      data = JSON.parse(readFileSync(filePath, 'utf8')) || {};
+    } catch (error) {
+      console.error('Failed to read settings, using defaults:', error);
+      data = {};
+    }
+  }
+
+  const flush = () => {
+    try {
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error('Failed to write settings:', error);
+    }
+  };
+
+  return {
+    get(key, fallback) {
+      return key in data ? data[key] : fallback;
+    },
+    set(key, value) {
+      data[key] = value;
+      flush();
+    },
+    delete(key) {
+      delete data[key];
+      flush();
+    }
+  };
+}
@@ -0,0 +1,247 @@
+import { inflateSync } from 'zlib';
+
+/** @typedef {import('./exrDecoder.js').FloatImage} FloatImage */
+
+const TAGS = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfiguration: 284,
+  predictor: 317,
+  tileWidth: 322,
+  sampleFormat: 339
+};
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_ADOBE_DEFLATE = 32946;
+const COMPRESSION_PACKBITS = 32773;
+
+const SAMPLE_FORMAT_FLOAT = 3;
+
+// Field type -> byte size (BYTE, ASCII, SHORT, LONG, RATIONAL, ...)
+const TYPE_SIZES = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+/**
+ * @param {Buffer} buffer
+ * @param {boolean} littleEndian
+ */
+function createReader(buffer, littleEndian) {
+  return {
+    u16: offset => (littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset)),
+    u32: offset => (littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset))
+  };
+}
+
+/**
+ * Read the first image directory into tag id -> numeric values.
+ * @param {Buffer} buffer
+ * @param {ReturnType<typeof createReader>} read
+ */
+function readDirectory(buffer, read) {
+  const offset = read.u32(4);
+  const count = read.u16(offset);
+  /** @type {Map<number, number[]>} */
+  const tags = new Map();
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = read.u16(entry);
+    const type = read.u16(entry + 2);
+    const valueCount = read.u32(entry + 4);
+    const size = (TYPE_SIZES[type] || 1) * valueCount;
+    const valueOffset = size <= 4 ? entry + 8 : read.u32(entry + 8);
+
+    const values = [];
+    for (let v = 0; v < valueCount; v++) {
+      if (type === 3) values.push(read.u16(valueOffset + v * 2));
+      else if (type === 4) values.push(read.u32(valueOffset + v * 4));
+      else if (type === 1) values.push(buffer[valueOffset + v]);
+    }
+    tags.set(tag, values);
+  }
+
+  return tags;
+}
+
+/** @param {Buffer} data */
+function decodePackBits(data) {
+  const output = [];
+  let offset = 0;
+  while (offset < data.length) {
+    const header = data.readInt8(offset++);
+    if (header >= 0) {
+      for (let i = 0; i <= header; i++) output.push(data[offset++]);
+    } else if (header !== -128) {
+      const value = data[offset++];
+      for (let i = 0; i < 1 - header; i++) output.push(value);
+    }
+  }
+  return Buffer.from(output);
+}
+
+/**
+ * TIFF's MSB-first LZW with early code-width change.
+ * @param {Buffer} data
+ */
+function decodeLzw(data) {
+  const output = [];
+  /** @type {number[][]} */
+  let table = [];
+  let codeWidth = 9;
+  let bitPosition = 0;
+  /** @type {number[] | null} */
+  let previous = null;
+
+  const resetTable = () => {
+    table = Array.from({ length: 258 }, (_, i) => [i]);
+    codeWidth = 9;
+    previous = null;
+  };
+
+  const readCode = () => {
+    let code = 0;
+    for (let i = 0; i < codeWidth; i++) {
+      const byte = data[(bitPosition + i) >> 3];
+      if (byte === undefined) return 257;
+      code = (code << 1) | ((byte >> (7 - ((bitPosition + i) & 7))) & 1);
+    }
+    bitPosition += codeWidth;
+    return code;
+  };
+
+  resetTable();
+  for (;;) {
+    const code = readCode();
+    if (code === 257) break;
+    if (code === 256) {
+      resetTable();
+      continue;
+    }
+
+    let entry;
+    if (code < table.length) {
+      entry = table[code];
+      if (previous) table.push([...previous, entry[0]]);
+    } else if (previous) {
+      entry = [...previous, previous[0]];
+      table.push(entry);
+    } else {
+      throw new Error('Corrupt LZW data in TIFF');
+    }
+
+    output.push(...entry);
+    previous = entry;
+    if (table.length + 1 >= 1 << codeWidth && codeWidth < 12) codeWidth++;
+  }
+
+  return Buffer.from(output);
+}
+
+/**
+ * Decode a strip-based, interleaved TIFF with 8/16-bit integer or 32-bit
+ * float samples, as written by Blender. Supports no compression, LZW,
+ * Deflate and PackBits, with the horizontal-differencing predictor.
+ * @param {Buffer} buffer
+ * @returns {FloatImage & { linear: boolean }}
+ */
+export function decodeTiff(buffer) {
+  const byteOrder = buffer.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    throw new Error('Not a TIFF file');
+  }
+  const read = createReader(buffer, byteOrder === 'II');
+  const tags = readDirectory(buffer, read);
+  const tag = (id, fallback) => tags.get(id)?.[0] ?? fallback;
+
+  if (tags.has(TAGS.tileWidth)) {
+    throw new Error('Tiled TIFF files cannot be previewed');
+  }
+  if (tag(TAGS.planarConfiguration, 1) !== 1) {
+    throw new Error('Planar TIFF files cannot be previewed');
+  }
+
+  const width = tag(TAGS.width);
+  const height = tag(TAGS.height);
+  const samplesPerPixel = tag(TAGS.samplesPerPixel, 1);
+  const bitsPerSample = tag(TAGS.bitsPerSample, 1);
+  const isFloat = tag(TAGS.sampleFormat, 1) === SAMPLE_FORMAT_FLOAT;
+  const compression = tag(TAGS.compression, COMPRESSION_NONE);
+  const predictor = tag(TAGS.predictor, 1);
+  const photometric = tag(TAGS.photometric, 2);
+  const rowsPerStrip = tag(TAGS.rowsPerStrip, height);
+  const stripOffsets = tags.get(TAGS.stripOffsets) || [];
+  const stripByteCounts = tags.get(TAGS.stripByteCounts) || [];
+
+  if (![8, 16, 32].includes(bitsPerSample) || (bitsPerSample === 32 && !isFloat)) {
+    throw new Error(`${bitsPerSample}-bit TIFF files cannot be previewed`);
+  }
+  if (predictor === 3) {
+    throw new Error('TIFF files with the floating point predictor cannot be previewed');
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const rowBytes = width * samplesPerPixel * bytesPerSample;
+  const maxValue = 2 ** bitsPerSample - 1;
+  const pixels = new Float32Array(width * height * 4);
+
+  stripOffsets.forEach((stripOffset, strip) => {
+    const packed = buffer.subarray(stripOffset, stripOffset + stripByteCounts[strip]);
+    let data;
+    switch (compression) {
+      case COMPRESSION_NONE: data = packed; break;
+      case COMPRESSION_LZW: data = decodeLzw(packed); break;
+      case COMPRESSION_DEFLATE:
+      case COMPRESSION_ADOBE_DEFLATE: data = inflateSync(packed); break;
+      case COMPRESSION_PACKBITS: data = decodePackBits(packed); break;
+      default: throw new Error(`TIFF compression ${compression} cannot be previewed`);
+    }
+
+    const firstRow = strip * rowsPerStrip;
+    const rows = Math.min(rowsPerStrip, height - firstRow);
+    for (let row = 0; row < rows; row++) {
+      const rowStart = row * rowBytes;
+      /** @type {number[]} */
+      const previous = new Array(samplesPerPixel).fill(0);
+
+      for (let x = 0; x < width; x++) {
+        const index = ((firstRow + row) * width + x) * 4;
+        for (let sample = 0; sample < samplesPerPixel; sample++) {
+          const offset = rowStart + (x * samplesPerPixel + sample) * bytesPerSample;
+          let value;
+          if (isFloat) {
+            value = byteOrder === 'II' ? data.readFloatLE(offset) : data.readFloatBE(offset);
+          } else {
+            value = bitsPerSample === 8
+              ? data[offset]
+              : (byteOrder === 'II' ? data.readUInt16LE(offset) : data.readUInt16BE(offset));
+            if (predictor === 2) {
+              value = (value + previous[sample]) & maxValue;
+              previous[sample] = value;
+            }
+            value /= maxValue;
+          }
+
+          if (samplesPerPixel >= 3) {
+            if (sample < 4) pixels[index + sample] = value;
+          } else if (sample === 0) {
+            const gray = photometric === 0 ? 1 - value : value;
+            pixels[index] = pixels[index + 1] = pixels[index + 2] = gray;
+          } else {
+            pixels[index + 3] = value;
+          }
+        }
+        if (samplesPerPixel === 1 || samplesPerPixel === 3) pixels[index + 3] = 1;
+      }
+    }
+  });
+
+  return { width, height, pixels, linear: isFloat };
+}
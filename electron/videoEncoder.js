@@ -0,0 +1,281 @@
+import { spawn } from 'child_process';
+import { mkdir } from 'fs/promises';
+import { dirname, extname } from 'path';
+import { formatFrameList, listRenderedFrames } from './frameScanner.js';
+import { resolveOutputPattern } from './outputPaths.js';
+import { mapPath } from './pathMapping.js';
+
+/** @typedef {import('../src/types/blender').EncodeRequest} EncodeRequest */
+/** @typedef {import('../src/types/blender').EncodeProgress} EncodeProgress */
+/** @typedef {import('../src/types/blender').VideoOptions} VideoOptions */
+
+/**
+ * @typedef {Object} ActiveEncode
+ * @property {import('child_process').ChildProcess} process
+ * @property {boolean} cancelled
+ */
+
+const MUXERS = {
+  MPEG4: 'mp4',
+  QUICKTIME: 'mov',
+  WEBM: 'webm',
+  MKV: 'matroska'
+};
+
+// 4:2:0 chroma needs even dimensions; odd renders lose a pixel row or column
+const EVEN_SIZE = ['-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2', '-pix_fmt', 'yuv420p'];
+
+/**
+ * Resolve the ffmpeg executable when none is configured. `FFMPEG_PATH`
+ * wins so tests and headless setups can point at a stand-in; otherwise
+ * ffmpeg is looked up on the PATH.
+ * @returns {string}
+ */
+export function findDefaultFFmpegPath() {
+  return process.env.FFMPEG_PATH || 'ffmpeg';
+}
+
+/**
+ * @param {VideoOptions} video
+ * @returns {string[]}
+ */
+function rateArgs(video) {
+  if (video.rateControl === 'BITRATE') {
+    return ['-b:v', `${Math.round(video.bitrate)}k`];
+  }
+  // VP9 only treats the CRF as a target quality without a bitrate cap
+  return video.codec === 'VP9'
+    ? ['-crf', String(Math.round(video.crf)), '-b:v', '0']
+    : ['-crf', String(Math.round(video.crf))];
+}
+
+/**
+ * @param {VideoOptions} video
+ * @returns {string[]}
+ */
+function codecArgs(video) {
+  switch (video.codec) {
+    case 'H264':
+      return ['-c:v', 'libx264', ...EVEN_SIZE, ...rateArgs(video)];
+    case 'H265':
+      // The hvc1 tag lets QuickTime and browsers play it
+      return ['-c:v', 'libx265', '-tag:v', 'hvc1', ...EVEN_SIZE, ...rateArgs(video)];
+    case 'PRORES':
+      return ['-c:v', 'prores_ks', '-profile:v', '3', '-pix_fmt', 'yuv422p10le'];
+    case 'VP9':
+      return ['-c:v', 'libvpx-vp9', ...EVEN_SIZE, ...rateArgs(video)];
+    case 'AV1':
+      return ['-c:v', 'libsvtav1', ...EVEN_SIZE, ...rateArgs(video)];
+    default:
+      throw new Error(`Unknown video codec ${video.codec}`);
+  }
+}
+
+/**
+ * ffmpeg's image sequence pattern for a render: the last `#` run becomes a
+ * zero-padded `%d` and literal `%` signs are doubled.
+ * @param {string} pattern Blender `-o` pattern
+ * @param {string} extension Extension of the written frames
+ * @returns {string}
+ */
+export function sequencePattern(pattern, extension) {
+  const escaped = pattern.replace(/%/g, '%%');
+  const match = escaped.match(/#+(?!.*#)/);
+  if (!match || match.index === undefined) {
+    return `${escaped}%04d${extension}`;
+  }
+  return `${escaped.slice(0, match.index)}%0${match[0].length}d${escaped.slice(match.index + match[0].length)}${extension}`;
+}
+
+/**
+ * Build the ffmpeg command line encoding a finished image sequence. Fails
+ * when frames of the range or list are missing, or the list skips frames,
+ * since ffmpeg stops at the first gap.
+ * @param {EncodeRequest} request
+ * @returns {Promise<{ args: string[], totalFrames: number }>}
+ */
+export async function buildEncodeArgs(request) {
+  const { source, video } = request;
+  const frames = await listRenderedFrames(source);
+  if (frames.length === 0) {
+    throw new Error('No rendered frames to encode');
+  }
+
+  // Frames are unique and within the range or list, so a full count means no gaps
+  const expected = source.frames
+    ? new Set(source.frames).size
+    : (source.endFrame ?? frames[frames.length - 1].frame) - (source.startFrame ?? frames[0].frame) + 1;
+  const missing = expected - frames.length;
+  if (missing > 0) {
+    throw new Error(`Cannot encode the sequence: ${missing} frame(s) missing`);
+  }
+  if (frames[frames.length - 1].frame - frames[0].frame + 1 > frames.length) {
+    throw new Error(`Cannot encode frames ${formatFrameList(frames.map(({ frame }) => frame))}: a video needs consecutive frames`);
+  }
+
+  const extension = extname(frames[0].path);
+  const args = [
+    '-hide_banner',
+    '-nostdin',
+    '-y',
+    '-framerate', String(video.fps > 0 ? video.fps : request.sceneFps),
+    '-start_number', String(frames[0].frame),
+    // EXR frames are linear; encode them with the sRGB curve the other formats have
+    ...(extension.toLowerCase() === '.exr' ? ['-apply_trc', 'iec61966_2_1'] : []),
+    '-i', sequencePattern(resolveOutputPattern(source), extension),
+    '-frames:v', String(frames.length),
+    ...codecArgs(video),
+    ...(video.container === 'MPEG4' || video.container === 'QUICKTIME' ? ['-movflags', '+faststart'] : []),
+    // Image sequences carry no sound
+    '-an',
+    '-progress', 'pipe:1',
+    '-nostats',
+    '-f', MUXERS[video.container],
+    request.outputFile
+  ];
+
+  return { args, totalFrames: frames.length };
+}
+
+/**
+ * Turns rendered image sequences into video files with ffmpeg. Has no
+ * Electron dependency so it can be driven from the main process or a CLI.
+ */
+export class VideoEncoder {
+  /**
+   * @param {{ ffmpegPath?: string }} [config]
+   */
+  constructor(config = {}) {
+    this.ffmpegPath = config.ffmpegPath || findDefaultFFmpegPath();
+    /** @type {Map<string, ActiveEncode>} Keyed by job id */
+    this.activeEncodes = new Map();
+  }
+
+  /** @param {string} path */
+  setFFmpegPath(path) {
+    this.ffmpegPath = path || findDefaultFFmpegPath();
+  }
+
+  getFFmpegPath() {
+    return this.ffmpegPath;
+  }
+
+  /**
+   * Encode a finished render's frames. Resolves once ffmpeg exits
+   * successfully or the encode is cancelled, rejects with ffmpeg's error
+   * output otherwise.
+   * @param {EncodeRequest} request
+   * @param {(progress: EncodeProgress) => void} [onProgress]
+   * @param {import('./pathMapping.js').PathRemap[]} [pathRemaps] Applied to the frame and video paths
+   * @returns {Promise<void>}
+   */
+  async encode(request, onProgress = () => {}, pathRemaps = []) {
+    const { jobId } = request;
+    if (this.activeEncodes.has(jobId)) {
+      throw new Error(`Encode ${jobId} is already running`);
+    }
+
+    if (pathRemaps.length > 0) {
+      request = {
+        ...request,
+        source: {
+          ...request.source,
+          blendFile: mapPath(request.source.blendFile, pathRemaps),
+          outputPath: mapPath(request.source.outputPath, pathRemaps)
+        },
+        outputFile: mapPath(request.outputFile, pathRemaps)
+      };
+    }
+
+    const { args, totalFrames } = await buildEncodeArgs(request);
+    await mkdir(dirname(request.outputFile), { recursive: true });
+
+    /** @param {EncodeProgress['status']} status @param {number} frame @param {string} [message] */
+    const report = (status, frame, message) => onProgress({
+      frame,
+      totalFrames,
+      percentage: Math.min(100, Math.round((frame / totalFrames) * 100)),
+      status,
+      ...(message && { message })
+    });
+
+    return new Promise((resolve, reject) => {
+      let child;
+
+      try {
+        child = spawn(this.ffmpegPath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      /** @type {ActiveEncode} */
+      const encode = { process: child, cancelled: false };
+      this.activeEncodes.set(jobId, encode);
+
+      let frame = 0;
+      let pending = '';
+      const stderr = [];
+      report('encoding', 0);
+
+      child.stdout.on('data', chunk => {
+        const lines = (pending + chunk.toString()).split(/\r?\n/);
+        pending = lines.pop() ?? '';
+        lines.forEach(line => {
+          const match = line.match(/^frame=\s*(\d+)/);
+          if (match && Number(match[1]) !== frame) {
+            frame = Number(match[1]);
+            report('encoding', frame);
+          }
+        });
+      });
+
+      child.stderr.on('data', chunk => {
+        stderr.push(...chunk.toString().split(/\r?\n/).filter(Boolean));
+        stderr.splice(0, Math.max(0, stderr.length - 20));
+      });
+
+      child.on('error', error => {
+        this.activeEncodes.delete(jobId);
+        const message = /** @type {NodeJS.ErrnoException} */ (error).code === 'ENOENT'
+          ? `ffmpeg not found at ${this.ffmpegPath}; set its location in the video settings`
+          : error.message;
+        report('error', frame, message);
+        reject(new Error(message));
+      });
+
+      child.on('close', (code, signal) => {
+        this.activeEncodes.delete(jobId);
+
+        if (encode.cancelled) {
+          report('cancelled', frame, 'Encoding cancelled');
+          resolve();
+        } else if (code === 0) {
+          report('completed', totalFrames);
+          resolve();
+        } else {
+          const message = stderr.length > 0
+            ? stderr.slice(-5).join('\n')
+            : signal
+              ? `ffmpeg was terminated by signal ${signal}`
+              : `ffmpeg exited with code ${code}`;
+          report('error', frame, message);
+          reject(new Error(message));
+        }
+      });
+    });
+  }
+
+  /** @param {string} jobId */
+  cancel(jobId) {
+    const encode = this.activeEncodes.get(jobId);
+    if (!encode) return false;
+    encode.cancelled = true;
+    encode.process.kill();
+    return true;
+  }
+
+  cancelAll() {
+    [...this.activeEncodes.keys()].forEach(jobId => this.cancel(jobId));
+  }
+}
@@ -0,0 +1,89 @@
+/** @typedef {import('../src/types/blender').VideoOptions} VideoOptions */
+
+// Blender only offers named quality levels, each standing for a CRF
+const CRF_PRESETS = [
+  ['LOSSLESS', 0],
+  ['PERC_LOSSLESS', 17],
+  ['HIGH', 20],
+  ['MEDIUM', 23],
+  ['LOW', 26],
+  ['VERYLOW', 29],
+  ['LOWEST', 32]
+];
+
+// Blender's name for VP9 is its container's
+const BLENDER_CODECS = {
+  H264: 'H264',
+  H265: 'H265',
+  PRORES: 'PRORES',
+  VP9: 'WEBM',
+  AV1: 'AV1'
+};
+
+/**
+ * The Blender quality level closest to a CRF.
+ * @param {number} crf
+ * @returns {string}
+ */
+export function nearestCrfPreset(crf) {
+  return CRF_PRESETS.reduce((best, preset) =>
+    Math.abs(preset[1] - crf) < Math.abs(best[1] - crf) ? preset : best
+  )[0];
+}
+
+/**
+ * Blender stores frame rates as a whole number divided by a base, so
+ * 23.976 becomes 24 / 1.001.
+ * @param {number} fps
+ * @returns {{ fps: number, base: number }}
+ */
+export function splitFrameRate(fps) {
+  const whole = Math.ceil(fps);
+  return { fps: whole, base: whole / fps };
+}
+
+/**
+ * Render prelude lines applying video options to a scene rendering to
+ * FFMPEG. A codec this Blender build lacks fails the render instead of
+ * writing something else.
+ * @param {VideoOptions} video
+ * @returns {string[]}
+ */
+export function buildVideoScript(video) {
+  const codec = BLENDER_CODECS[video.codec];
+  const lines = [
+    'import sys',
+    // Before -F on the command line, which then keeps the codec set here
+    "scene.render.image_settings.file_format = 'FFMPEG'",
+    'ffmpeg = scene.render.ffmpeg',
+    `ffmpeg.format = ${JSON.stringify(video.container)}`,
+    "codecs = {item.identifier for item in ffmpeg.bl_rna.properties['codec'].enum_items}",
+    `if ${JSON.stringify(codec)} not in codecs:`,
+    `    print(${JSON.stringify(`Error: Video codec ${video.codec} is not available in this Blender`)}, flush=True)`,
+    '    sys.exit(1)',
+    `ffmpeg.codec = ${JSON.stringify(codec)}`
+  ];
+
+  if (video.codec === 'PRORES') {
+    lines.push("if hasattr(ffmpeg, 'ffmpeg_prores_profile'): ffmpeg.ffmpeg_prores_profile = 'HQ'");
+  } else if (video.rateControl === 'CRF') {
+    lines.push(`ffmpeg.constant_rate_factor = ${JSON.stringify(nearestCrfPreset(video.crf))}`);
+  } else {
+    lines.push(
+      "ffmpeg.constant_rate_factor = 'NONE'",
+      `ffmpeg.video_bitrate = ${Math.round(video.bitrate)}`
+    );
+  }
+
+  lines.push(`ffmpeg.audio_codec = ${JSON.stringify(video.audioCodec)}`);
+  if (video.audioCodec !== 'NONE') {
+    lines.push(`ffmpeg.audio_bitrate = ${Math.round(video.audioBitrate)}`);
+  }
+
+  if (video.fps > 0) {
+    const { fps, base } = splitFrameRate(video.fps);
+    lines.push(`scene.render.fps = ${fps}`, `scene.render.fps_base = ${base}`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,153 @@
+import { createHash } from 'crypto';
+
+// RFC 6455 handshake constant
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// Clients only send control frames; anything bigger is not a client of ours
+const MAX_INCOMING_FRAME = 64 * 1024;
+
+/**
+ * @typedef {Object} WebSocketConnection
+ * @property {(text: string) => void} send
+ * @property {() => void} close
+ * @property {(callback: () => void) => void} onClose
+ */
+
+/**
+ * @param {number} opcode
+ * @param {Buffer} payload
+ */
+function encodeFrame(opcode, payload) {
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Parse one complete (masked) client frame from the start of `buffer`.
+ * @param {Buffer} buffer
+ * @returns {{ opcode: number, payload: Buffer, length: number } | null} null until the frame is complete
+ */
+function decodeFrame(buffer) {
+  if (buffer.length < 2) return null;
+
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  if (length > MAX_INCOMING_FRAME) {
+    throw new Error('WebSocket frame too large');
+  }
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+  }
+
+  return { opcode, payload, length: offset + length };
+}
+
+/**
+ * Complete the upgrade handshake of an HTTP `upgrade` event. The server
+ * only pushes text messages; client pings are answered and anything else
+ * the client sends is ignored.
+ * @param {import('http').IncomingMessage} request
+ * @param {import('stream').Duplex} socket
+ * @returns {WebSocketConnection | null} null when the request is not a valid WebSocket upgrade
+ */
+export function acceptWebSocket(request, socket) {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  /** @type {(() => void)[]} */
+  const closeCallbacks = [];
+  let closed = false;
+  let pending = Buffer.alloc(0);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    if (!socket.destroyed) {
+      socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+    }
+    closeCallbacks.forEach(callback => callback());
+  };
+
+  socket.on('data', chunk => {
+    pending = Buffer.concat([pending, chunk]);
+    try {
+      let frame;
+      while ((frame = decodeFrame(pending))) {
+        pending = pending.subarray(frame.length);
+        if (frame.opcode === OPCODE_CLOSE) {
+          close();
+          return;
+        }
+        if (frame.opcode === OPCODE_PING) {
+          socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+        }
+      }
+    } catch {
+      socket.destroy();
+    }
+  });
+  socket.on('close', close);
+  socket.on('error', close);
+
+  return {
+    send(text) {
+      if (!closed && !socket.destroyed) {
+        socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+      }
+    },
+    close,
+    onClose(callback) {
+      closeCallbacks.push(callback);
+    }
+  };
+}
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { 
   Play, 
   Pause, 
@@ -22,76 +22,175 @@ import {
 import { useElectron } from './hooks/useElectron';
 import { useBlenderService } from './hooks/useBlenderService';
 import { useRenderQueue } from './hooks/useRenderQueue';
-import { renderQueue } from './services/RenderQueue';
+import { useQueueEstimate } from './hooks/useQueueEstimate';
+import { DEFAULT_RETRY_POLICY, EncodingState, RetryPolicy, renderQueue, summarizeChunks } from './services/RenderQueue';
 import { blenderService } from './services/BlenderService';
 import { ElectronMenuHandler } from './components/ElectronMenuHandler';
 import { DragDropHandler } from './components/DragDropHandler';
 import { BlenderPathSettings } from './components/BlenderPathSettings';
+import { RenderPreview } from './components/RenderPreview';
+import { RenderHistory } from './components/RenderHistory';
+import { projectService, createBlendFile, createRenderJobs, applyProjectSettings, describeRenderTarget, expandRenderTargets, DEFAULT_PROJECT_SETTINGS } from './services/ProjectService';
+import { ElectronQueueJournal } from './services/QueueJournal';
+import { ElectronHookRunner } from './services/HookRunner';
+import { applyPreset, newProjectSettings, presetService } from './services/PresetService';
+import { connectControlBridge } from './services/ControlBridge';
+import { workerPool } from './services/WorkerPool';
+import { ControlServerSettings } from './components/ControlServerSettings';
+import { FarmNodes } from './components/FarmNodes';
+import { PathMappingSettings } from './components/PathMappingSettings';
+import { AssetDependencies } from './components/AssetDependencies';
+import { OutputTemplateField } from './components/OutputTemplateField';
+import { RenderTargetPicker } from './components/RenderTargetPicker';
+import { JobOverrides } from './components/JobOverrides';
+import { RetryOverride } from './components/RetryOverride';
+import { RenderPresets } from './components/RenderPresets';
+import { CyclesSettings } from './components/CyclesSettings';
+import { VideoSettings } from './components/VideoSettings';
+import { EncodingProgress } from './components/EncodingProgress';
+import { RenderHooks } from './components/RenderHooks';
+import { HookResults } from './components/HookResults';
+import { BlendFile, ProjectSettings } from './types/project';
+import { BlenderRenderOptions } from './types/blender';
+import { HookResult } from './types/hooks';
+import { PresetLibrary, RenderPreset } from './types/preset';
+import { applySceneSettings, describeVersionMismatch, formatFileSize, getActiveScene, getSavedVersion, isSavedWithNewerBlender } from './utils/blendMetadata';
+import { BlendFileInfo } from './utils/blendFileReader';
+import { suggestInstallation } from './utils/blenderInstallations';
+import { formatDuration } from './utils/renderHistory';
+import { validateOutputTemplate } from './utils/outputTemplate';
+import { validateFileOverrides } from './utils/propertyOverrides';
+import { validateVideoOptions } from './utils/videoOptions';
+import { validateHooks } from './utils/renderHooks';
 
-interface BlendFile {
-  id: string;
-  path: string;
-  name: string;
-  size: string;
-  dateModified: string;
-  outputPath: string;
-  frameStart: number;
-  frameEnd: number;
-  engine: 'CYCLES' | 'EEVEE' | 'WORKBENCH';
-  samples: number;
-  resolution: [number, number];
-  format: 'PNG' | 'JPEG' | 'TIFF' | 'EXR' | 'FFMPEG';
-  quality: number;
-  useGPU: boolean;
-}
+// File name of a queue item, with the scene, camera or view layer it renders
+const queueItemName = (blendFile: string, options: BlenderRenderOptions) => {
+  const target = describeRenderTarget(options);
+  return (blendFile.split(/[/\\]/).pop() || blendFile) + (target ? ` (${target})` : '');
+};
 
-interface ProjectSettings {
-  name: string;
-  outputDirectory: string;
-  globalFrameStart: number;
-  globalFrameEnd: number;
-  globalEngine: 'CYCLES' | 'EEVEE' | 'WORKBENCH';
-  globalSamples: number;
-  globalResolution: [number, number];
-  globalFormat: 'PNG' | 'JPEG' | 'TIFF' | 'EXR' | 'FFMPEG';
-  globalQuality: number;
-  globalUseGPU: boolean;
-  threads: number;
-}
+const formatClockTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Only the video failed; retrying encodes the rendered frames again
+const canRetryEncoding = (encoding?: EncodingState) => encoding?.status === 'error' || encoding?.status === 'cancelled';
+
+// Only post-render hooks failed; retrying runs them again
+const canRetryHooks = (hookResults?: HookResult[]) =>
+  Boolean(hookResults?.some(result => result.stage === 'post' && result.status === 'error'));
 
 function App() {
   const { isElectron, electronAPI } = useElectron();
-  const { isBlenderAvailable, blenderVersion } = useBlenderService();
-  const { queue, stats, addToQueue, removeFromQueue, clearQueue, startQueue, pauseQueue, stopQueue, moveItemUp, moveItemDown, retryItem } = useRenderQueue();
+  const { isBlenderAvailable, blenderVersion, installations, refreshInstallations } = useBlenderService();
+  const { queue, stats, addToQueue, removeFromQueue, clearQueue, startQueue, pauseQueue, stopQueue, moveItemUp, moveItemDown, retryItem, resumeItem } = useRenderQueue();
+  const queueEstimate = useQueueEstimate(queue, stats.maxConcurrent);
   
   const [blendFiles, setBlendFiles] = useState<BlendFile[]>([]);
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
-  const [projectSettings, setProjectSettings] = useState<ProjectSettings>({
-    name: 'Untitled Project',
-    outputDirectory: '',
-    globalFrameStart: 1,
-    globalFrameEnd: 250,
-    globalEngine: 'CYCLES',
-    globalSamples: 128,
-    globalResolution: [1920, 1080],
-    globalFormat: 'PNG',
-    globalQuality: 90,
-    globalUseGPU: false,
-    threads: 4
-  });
+  const [projectSettings, setProjectSettings] = useState<ProjectSettings>(DEFAULT_PROJECT_SETTINGS);
   const [showSettings, setShowSettings] = useState(false);
   const [currentProject, setCurrentProject] = useState<string | null>(null);
+  const [presetLibrary, setPresetLibrary] = useState<PresetLibrary | null>(null);
+  const [previewTarget, setPreviewTarget] = useState<{ watchId: string; title: string; options: BlenderRenderOptions } | null>(null);
 
   // Initialize Blender service with render queue
   useEffect(() => {
     if (electronAPI) {
       blenderService.setElectronAPI(electronAPI);
       renderQueue.setBlenderAPI(blenderService);
+      projectService.setElectronAPI(electronAPI);
+      presetService.setElectronAPI(electronAPI);
+      presetService.loadLibrary().then(library => {
+        setPresetLibrary(library);
+        // The untouched project opened at startup is a new project too
+        setProjectSettings(prev => (prev === DEFAULT_PROJECT_SETTINGS ? newProjectSettings(library) : prev));
+      }).catch(error => {
+        console.error('Failed to load render presets:', error);
+      });
+      renderQueue.setJournal(new ElectronQueueJournal(electronAPI));
+      renderQueue.setHookRunner(new ElectronHookRunner(electronAPI));
+      renderQueue.restoreQueue().catch(error => {
+        console.error('Failed to restore render queue:', error);
+      });
     }
   }, [electronAPI]);
 
+  // Renders added through the control API default to the open project's settings
+  const projectSettingsRef = useRef(projectSettings);
+  projectSettingsRef.current = projectSettings;
+
+  useEffect(() => {
+    if (!electronAPI) return;
+
+    workerPool.attach(renderQueue);
+    blenderService.getPathMappings().then(rules => workerPool.setPathMappings(rules));
+    electronAPI.control?.getConfig().then(config => renderQueue.setLocalRendering(config.renderLocally));
+    const disconnect = connectControlBridge(electronAPI, renderQueue, workerPool, () => projectSettingsRef.current);
+    return () => {
+      disconnect();
+      workerPool.detach();
+    };
+  }, [electronAPI]);
+
+  useEffect(() => {
+    workerPool.setInstallations(installations);
+  }, [installations]);
+
+  const describeQueueItem = useCallback((id: string) => {
+    const item = queue.find(candidate => candidate.id === id);
+    if (!item) return id;
+    const name = queueItemName(item.blendFile, item.options);
+    const frames = item.status === 'rendering' && item.currentFrame ? ` (frame ${item.currentFrame}/${item.totalFrames})` : '';
+    return item.parentId ? `${name} chunk ${(item.chunkIndex ?? 0) + 1}/${item.chunkCount}${frames}` : `${name}${frames}`;
+  }, [queue]);
+
+  useEffect(() => {
+    renderQueue.setConcurrency(projectSettings.maxConcurrent, projectSettings.threads);
+  }, [projectSettings.maxConcurrent, projectSettings.threads]);
+
+  const projectRetryPolicy = useMemo<RetryPolicy>(() => ({
+    ...DEFAULT_RETRY_POLICY,
+    maxAttempts: projectSettings.maxRenderAttempts,
+    backoffSeconds: projectSettings.retryBackoffSeconds,
+    fallbackToCPU: projectSettings.retryOnCPUAfterGPUOutOfMemory
+  }), [projectSettings.maxRenderAttempts, projectSettings.retryBackoffSeconds, projectSettings.retryOnCPUAfterGPUOutOfMemory]);
+
+  useEffect(() => {
+    renderQueue.setRetryPolicy(projectRetryPolicy);
+  }, [projectRetryPolicy]);
+
+  // Version of the Blender a file will be rendered with
+  const getRenderVersion = useCallback((file: BlendFile) => {
+    const installation = installations.find(candidate => candidate.id === file.installationId);
+    return installation ? installation.version : blenderVersion;
+  }, [installations, blenderVersion]);
+
+  const getVersionMismatch = useCallback((file: BlendFile) => {
+    const savedVersion = getSavedVersion(file);
+    const renderVersion = getRenderVersion(file);
+    return savedVersion && renderVersion
+      ? describeVersionMismatch(savedVersion, renderVersion)
+      : null;
+  }, [getRenderVersion]);
+
+  const warnAboutNewerFiles = useCallback((files: BlendFile[]) => {
+    const newerFiles = files.filter(file => {
+      const savedVersion = getSavedVersion(file);
+      const renderVersion = getRenderVersion(file);
+      return savedVersion && renderVersion && isSavedWithNewerBlender(savedVersion, renderVersion);
+    });
+    if (newerFiles.length > 0 && electronAPI) {
+      electronAPI.showMessageBox({
+        type: 'warning',
+        title: 'Newer Blender Files',
+        message: 'These files were saved with a newer Blender than the one that will render them and may not render correctly:\n' +
+          newerFiles.map(file => `${file.name} (Blender ${getSavedVersion(file)}, rendering with ${getRenderVersion(file)})`).join('\n'),
+        buttons: ['OK']
+      });
+    }
+  }, [electronAPI, getRenderVersion]);
+
   // File operations
-  const handleAddBlendFiles = useCallback(async (filePaths?: string[]) => {
+  const handleAddBlendFiles = useCallback(async (filePaths?: string[], fileInfos: Record<string, BlendFileInfo> = {}) => {
     let paths = filePaths;
     
     if (!paths && electronAPI) {
@@ -99,29 +198,78 @@ function App() {
     }
     
     if (paths && paths.length > 0) {
+      const infos = { ...fileInfos };
+      if (electronAPI) {
+        await Promise.all(paths.filter(path => !infos[path]).map(async path => {
+          try {
+            infos[path] = await blenderService.inspectFile(path);
+          } catch (error) {
+            console.warn(`Could not read header of ${path}:`, error);
+          }
+        }));
+      }
+
       const newFiles: BlendFile[] = paths.map(path => {
-        const name = path.split(/[/\\]/).pop() || path;
+        const fileVersion = infos[path]?.version;
         return {
-          id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          path,
-          name,
-          size: 'Unknown',
-          dateModified: new Date().toLocaleDateString(),
-          outputPath: projectSettings.outputDirectory || path.replace(/\.blend$/, '_render'),
-          frameStart: projectSettings.globalFrameStart,
-          frameEnd: projectSettings.globalFrameEnd,
-          engine: projectSettings.globalEngine,
-          samples: projectSettings.globalSamples,
-          resolution: projectSettings.globalResolution,
-          format: projectSettings.globalFormat,
-          quality: projectSettings.globalQuality,
-          useGPU: projectSettings.globalUseGPU
+          ...createBlendFile(path, projectSettings),
+          fileInfo: infos[path],
+          installationId: fileVersion ? suggestInstallation(installations, fileVersion)?.id : undefined
         };
       });
       
       setBlendFiles(prev => [...prev, ...newFiles]);
+      warnAboutNewerFiles(newFiles);
+
+      if (!isBlenderAvailable) return;
+
+      // Files whose header could not be read learn their version from the probe
+      const probedVersions: BlendFile[] = [];
+
+      // One Blender at a time: probing opens the whole file
+      for (const newFile of newFiles) {
+        try {
+          const metadata = await blenderService.probeFile(newFile.path, newFile.installationId);
+          const savedVersion = newFile.fileInfo?.version ? undefined : getSavedVersion({ ...newFile, metadata });
+          const installationId = newFile.installationId ??
+            (savedVersion ? suggestInstallation(installations, savedVersion)?.id : undefined);
+          if (savedVersion) probedVersions.push({ ...newFile, metadata, installationId });
+
+          setBlendFiles(prev => prev.map(file => {
+            if (file.id !== newFile.id) return file;
+            const probed: BlendFile = {
+              ...file,
+              metadata,
+              installationId: file.installationId ?? installationId,
+              probeError: undefined,
+              size: formatFileSize(metadata.fileSize),
+              dateModified: new Date(metadata.modifiedTime).toLocaleDateString()
+            };
+            return projectSettings.preferFileSettings ? applySceneSettings(probed, metadata) : probed;
+          }));
+        } catch (error) {
+          const probeError = error instanceof Error ? error.message : String(error);
+          setBlendFiles(prev => prev.map(file => (file.id === newFile.id ? { ...file, probeError } : file)));
+        }
+      }
+      warnAboutNewerFiles(probedVersions);
     }
-  }, [electronAPI, projectSettings]);
+  }, [electronAPI, projectSettings, isBlenderAvailable, installations, warnAboutNewerFiles]);
+
+  // Switch a file between its scene's own settings and the project's
+  const handleToggleSettingsSource = useCallback((fileId: string) => {
+    setBlendFiles(prev => prev.map(file => {
+      if (file.id !== fileId) return file;
+      if (file.settingsSource === 'file') return applyProjectSettings(file, projectSettings);
+      return file.metadata ? applySceneSettings(file, file.metadata) : file;
+    }));
+  }, [projectSettings]);
+
+  const handleScanDependencies = useCallback(async (file: BlendFile) => {
+    const assets = await blenderService.scanDependencies(file.path, file.installationId);
+    const dependencies = { scannedAt: new Date().toISOString(), assets };
+    setBlendFiles(prev => prev.map(candidate => (candidate.id === file.id ? { ...candidate, dependencies } : candidate)));
+  }, []);
 
   const handleSelectOutputDirectory = useCallback(async () => {
     if (!electronAPI) return;
@@ -144,7 +292,7 @@ function App() {
   }, [clearQueue]);
 
   // Render operations
-  const handleStartRender = useCallback(() => {
+  const handleStartRender = useCallback(async () => {
     if (!isBlenderAvailable) {
       if (electronAPI) {
         electronAPI.showMessageBox({
@@ -173,23 +321,67 @@ function App() {
       return;
     }
 
-    // Add files to render queue
-    filesToRender.forEach(file => {
-      addToQueue(file.path, file.outputPath, {
-        startFrame: file.frameStart,
-        endFrame: file.frameEnd,
-        engine: file.engine,
-        samples: file.samples,
-        resolution: file.resolution,
-        format: file.format,
-        quality: file.quality,
-        threads: projectSettings.threads,
-        gpu: file.useGPU
+    const templateProblems = validateOutputTemplate(projectSettings.outputTemplate);
+    if (templateProblems.length > 0) {
+      electronAPI?.showMessageBox({
+        type: 'error',
+        title: 'Invalid File Names',
+        message: `The output file name template cannot be used:\n${templateProblems.join('\n')}`,
+        buttons: ['OK']
+      });
+      return;
+    }
+
+    const videoProblems = projectSettings.encodeSequence || filesToRender.some(file => file.format === 'FFMPEG')
+      ? validateVideoOptions(projectSettings.video)
+      : [];
+    if (videoProblems.length > 0) {
+      electronAPI?.showMessageBox({
+        type: 'error',
+        title: 'Invalid Video Settings',
+        message: `The video settings cannot be encoded:\n${videoProblems.join('\n')}`,
+        buttons: ['OK']
       });
+      return;
+    }
+
+    const hookProblems = validateHooks(projectSettings.hooks);
+    if (hookProblems.length > 0) {
+      electronAPI?.showMessageBox({
+        type: 'error',
+        title: 'Invalid Render Hooks',
+        message: `Fix these render hooks before rendering:\n${hookProblems.join('\n')}`,
+        buttons: ['OK']
+      });
+      return;
+    }
+
+    // Overrides naming properties a file does not have would fail every frame
+    const overrideProblems: string[] = [];
+    for (const file of filesToRender) {
+      if (!file.propertyOverrides?.length && !file.pythonScripts?.length) continue;
+      const problems = await validateFileOverrides(file, blenderService, paths => (
+        electronAPI ? electronAPI.project.findMissingFiles(paths) : Promise.resolve([])
+      ));
+      if (problems.length > 0) overrideProblems.push(`${file.name}:\n  ${problems.join('\n  ')}`);
+    }
+    if (overrideProblems.length > 0) {
+      electronAPI?.showMessageBox({
+        type: 'error',
+        title: 'Invalid Overrides',
+        message: `Fix these overrides before rendering:\n${overrideProblems.join('\n')}`,
+        buttons: ['OK']
+      });
+      return;
+    }
+
+    // Add files to render queue
+    filesToRender.flatMap(file => createRenderJobs(file, projectSettings)).forEach(job => {
+      addToQueue(job.blendFile, job.outputPath, job.options, job.chunkSize, job.encode, job.hooks, job.retryPolicy);
     });
 
     startQueue();
-  }, [isBlenderAvailable, blendFiles, selectedFiles, addToQueue, startQueue, projectSettings.threads, electronAPI]);
+  }, [isBlenderAvailable, blendFiles, selectedFiles, addToQueue, startQueue, projectSettings, electronAPI]);
 
   const handleStopRender = useCallback(() => {
     stopQueue();
@@ -208,32 +400,14 @@ function App() {
     setBlendFiles([]);
     setSelectedFiles([]);
     clearQueue();
-    setProjectSettings({
-      name: 'Untitled Project',
-      outputDirectory: '',
-      globalFrameStart: 1,
-      globalFrameEnd: 250,
-      globalEngine: 'CYCLES',
-      globalSamples: 128,
-      globalResolution: [1920, 1080],
-      globalFormat: 'PNG',
-      globalQuality: 90,
-      globalUseGPU: false,
-      threads: 4
-    });
+    setProjectSettings(newProjectSettings(presetLibrary));
     setCurrentProject(null);
-  }, [clearQueue]);
+  }, [clearQueue, presetLibrary]);
 
-  const handleSaveProject = useCallback(async () => {
+  const handleSaveProject = useCallback(async (saveAsPath?: string) => {
     if (!electronAPI) return;
 
-    const projectData = {
-      settings: projectSettings,
-      files: blendFiles,
-      version: '1.0.0'
-    };
-
-    let filePath = currentProject;
+    let filePath = saveAsPath || currentProject;
     
     if (!filePath) {
       const result = await electronAPI.showSaveDialog({
@@ -241,13 +415,12 @@ function App() {
         defaultPath: `${projectSettings.name}.rfp`
       });
       
-      if (result.canceled) return;
-      filePath = result.filePath;
+      if (result.canceled || !result.filePath) return;
+      filePath = result.filePath as string;
     }
 
     try {
-      // In a real implementation, you would save to file system
-      // For now, we'll just simulate it
+      await projectService.saveProject(filePath, projectSettings, blendFiles);
       setCurrentProject(filePath);
       
       await electronAPI.showMessageBox({
@@ -260,12 +433,16 @@ function App() {
       await electronAPI.showMessageBox({
         type: 'error',
         title: 'Save Error',
-        message: `Failed to save project: ${error}`,
+        message: `Failed to save project: ${error instanceof Error ? error.message : error}`,
         buttons: ['OK']
       });
     }
   }, [electronAPI, projectSettings, blendFiles, currentProject]);
 
+  const handleSaveProjectAs = useCallback((filePath: string) => {
+    handleSaveProject(filePath);
+  }, [handleSaveProject]);
+
   const handleOpenProject = useCallback(async (filePath?: string) => {
     if (!electronAPI) return;
 
@@ -278,25 +455,31 @@ function App() {
       });
       
       if (result.canceled) return;
-      path = result.filePaths[0];
+      path = result.filePaths[0] as string;
     }
 
     try {
-      // In a real implementation, you would load from file system
-      // For now, we'll just simulate it
+      const { project, missingFiles } = await projectService.loadProject(path);
+
+      setProjectSettings(project.settings);
+      setBlendFiles(project.files);
+      setSelectedFiles([]);
       setCurrentProject(path);
-      
-      await electronAPI.showMessageBox({
-        type: 'info',
-        title: 'Project Loaded',
-        message: `Project loaded successfully from ${path}`,
-        buttons: ['OK']
-      });
+
+      if (missingFiles.length > 0) {
+        await electronAPI.showMessageBox({
+          type: 'warning',
+          title: 'Missing Blend Files',
+          message: `${missingFiles.length} blend file(s) referenced by this project could not be found.`,
+          detail: missingFiles.join('\n'),
+          buttons: ['OK']
+        });
+      }
     } catch (error) {
       await electronAPI.showMessageBox({
         type: 'error',
         title: 'Load Error',
-        message: `Failed to load project: ${error}`,
+        message: `Failed to load project: ${error instanceof Error ? error.message : error}`,
         buttons: ['OK']
       });
     }
@@ -337,27 +520,26 @@ function App() {
   }, []);
 
   // Apply global settings to selected files
-  const applyGlobalSettings = useCallback(() => {
+  const applyGlobalSettings = useCallback((settings: ProjectSettings = projectSettings) => {
     const filesToUpdate = selectedFiles.length > 0 ? selectedFiles : blendFiles.map(f => f.id);
     
     setBlendFiles(prev => prev.map(file => 
-      filesToUpdate.includes(file.id) ? {
-        ...file,
-        frameStart: projectSettings.globalFrameStart,
-        frameEnd: projectSettings.globalFrameEnd,
-        engine: projectSettings.globalEngine,
-        samples: projectSettings.globalSamples,
-        resolution: projectSettings.globalResolution,
-        format: projectSettings.globalFormat,
-        quality: projectSettings.globalQuality,
-        useGPU: projectSettings.globalUseGPU,
-        outputPath: projectSettings.outputDirectory ? 
-          `${projectSettings.outputDirectory}/${file.name.replace('.blend', '')}` : 
-          file.outputPath
-      } : file
+      filesToUpdate.includes(file.id) ? applyProjectSettings(file, settings) : file
     ));
   }, [selectedFiles, blendFiles, projectSettings]);
 
+  // A preset becomes the global settings and is applied like them
+  const handleApplyPreset = useCallback((preset: RenderPreset) => {
+    const settings = applyPreset(projectSettings, preset);
+    setProjectSettings(settings);
+    applyGlobalSettings(settings);
+  }, [projectSettings, applyGlobalSettings]);
+
+  const handlePresetLibraryChange = useCallback(async (library: PresetLibrary) => {
+    await presetService.saveLibrary(library);
+    setPresetLibrary(library);
+  }, []);
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending': return <Clock className="w-4 h-4 text-yellow-500" />;
@@ -365,6 +547,7 @@ function App() {
       case 'completed': return <CheckCircle className="w-4 h-4 text-green-500" />;
       case 'error': return <XCircle className="w-4 h-4 text-red-500" />;
       case 'cancelled': return <AlertCircle className="w-4 h-4 text-gray-500" />;
+      case 'interrupted': return <AlertCircle className="w-4 h-4 text-orange-500" />;
       default: return <Clock className="w-4 h-4 text-gray-400" />;
     }
   };
@@ -378,10 +561,7 @@ function App() {
             onNewProject={handleNewProject}
             onOpenProject={handleOpenProject}
             onSaveProject={handleSaveProject}
-            onSaveProjectAs={() => {
-              setCurrentProject(null);
-              handleSaveProject();
-            }}
+            onSaveProjectAs={handleSaveProjectAs}
             onAddBlendFiles={handleAddBlendFiles}
             onClearQueue={handleClearAll}
             onStartRender={handleStartRender}
@@ -422,7 +602,28 @@ function App() {
                 </span>
               </div>
               
-              <BlenderPathSettings />
+              {queueEstimate.finishesAt && (
+                <div
+                  className="flex items-center space-x-2 px-3 py-1 bg-slate-100 rounded-lg"
+                  title={queueEstimate.unestimated > 0
+                    ? `${queueEstimate.unestimated} item(s) have no timing data yet, or wait for a render without any, and are not included`
+                    : undefined}
+                >
+                  <Clock className="w-4 h-4 text-slate-500" />
+                  <span className="text-sm font-medium">
+                    Queue finishes around {formatClockTime(queueEstimate.finishesAt)}
+                    {queueEstimate.unestimated > 0 && '+'}
+                  </span>
+                </div>
+              )}
+
+              <BlenderPathSettings onInstallationsChange={refreshInstallations} />
+
+              <RenderHistory />
+
+              <PathMappingSettings onMappingsChange={rules => workerPool.setPathMappings(rules)} />
+
+              <ControlServerSettings onConfigChange={config => renderQueue.setLocalRendering(config.renderLocally)} />
               
               <button
                 onClick={() => setShowSettings(!showSettings)}
@@ -552,6 +753,17 @@ function App() {
                             <div className="flex items-center justify-between">
                               <p className="text-sm font-medium text-slate-900 truncate">{file.name}</p>
                               <div className="flex items-center space-x-2 text-xs text-slate-500">
+                                {getSavedVersion(file) && (
+                                  <>
+                                    <span
+                                      className={getVersionMismatch(file) ? 'text-amber-600' : undefined}
+                                      title={getVersionMismatch(file) ?? undefined}
+                                    >
+                                      Blender {getSavedVersion(file)}
+                                    </span>
+                                    <span>•</span>
+                                  </>
+                                )}
                                 <span>{file.engine}</span>
                                 <span>•</span>
                                 <span>{file.frameStart}-{file.frameEnd}</span>
@@ -559,7 +771,78 @@ function App() {
                                 <span>{file.resolution[0]}×{file.resolution[1]}</span>
                               </div>
                             </div>
-                            <p className="text-xs text-slate-500 truncate">{file.path}</p>
+                            <div className="flex items-center justify-between">
+                              <p className="text-xs text-slate-500 truncate">{file.path}</p>
+                              {installations.length > 0 && (
+                                <select
+                                  value={file.installationId ?? ''}
+                                  onChange={(e) => setBlendFiles(prev => prev.map(candidate =>
+                                    candidate.id === file.id ? { ...candidate, installationId: e.target.value || undefined } : candidate
+                                  ))}
+                                  className="ml-2 shrink-0 text-xs border border-slate-300 rounded px-1 py-0.5"
+                                >
+                                  <option value="">Default Blender{blenderVersion ? ` (${blenderVersion})` : ''}</option>
+                                  {installations.map(installation => (
+                                    <option key={installation.id} value={installation.id} disabled={!installation.available}>
+                                      {installation.name}{installation.version ? ` (${installation.version})` : ''}
+                                    </option>
+                                  ))}
+                                </select>
+                              )}
+                            </div>
+                            {file.metadata && (
+                              <div className="flex items-center justify-between mt-1 text-xs text-slate-500">
+                                <span className="truncate">
+                                  {[
+                                    `Scene ${file.metadata.activeScene}`,
+                                    `Camera ${getActiveScene(file.metadata)?.camera ?? 'none'}`,
+                                    `${getActiveScene(file.metadata)?.fps.toFixed(2).replace(/\.?0+$/, '')} fps`,
+                                    `${file.metadata.scenes.length} scene(s)`,
+                                    file.size
+                                  ].join(' • ')}
+                                </span>
+                                <button
+                                  onClick={() => handleToggleSettingsSource(file.id)}
+                                  className="ml-2 shrink-0 text-blue-600 hover:text-blue-700"
+                                >
+                                  {file.settingsSource === 'file' ? 'Using file settings' : 'Using project settings'}
+                                </button>
+                              </div>
+                            )}
+                            {file.probeError && (
+                              <p className="mt-1 text-xs text-amber-600 truncate" title={file.probeError}>
+                                Could not read scene settings; using project settings
+                              </p>
+                            )}
+                            {file.metadata && (
+                              <RenderTargetPicker
+                                metadata={file.metadata}
+                                targets={file.targets ?? []}
+                                targetCount={expandRenderTargets(file).length}
+                                onChange={targets => setBlendFiles(prev => prev.map(candidate => (
+                                  candidate.id === file.id ? { ...candidate, targets } : candidate
+                                )))}
+                              />
+                            )}
+                            <JobOverrides
+                              fileId={file.id}
+                              overrides={file.propertyOverrides ?? []}
+                              scripts={file.pythonScripts ?? []}
+                              onChange={(propertyOverrides, pythonScripts) => setBlendFiles(prev => prev.map(candidate => (
+                                candidate.id === file.id ? { ...candidate, propertyOverrides, pythonScripts } : candidate
+                              )))}
+                            />
+                            <RetryOverride
+                              policy={file.retryPolicy}
+                              projectPolicy={projectRetryPolicy}
+                              onChange={retryPolicy => setBlendFiles(prev => prev.map(candidate => (
+                                candidate.id === file.id ? { ...candidate, retryPolicy } : candidate
+                              )))}
+                            />
+                            <AssetDependencies
+                              dependencies={file.dependencies}
+                              onScan={() => handleScanDependencies(file)}
+                            />
                           </div>
                         </div>
                       </div>
@@ -593,84 +876,228 @@ function App() {
                   </div>
                 ) : (
                   <div className="divide-y divide-slate-100">
-                    {queue.map((item, index) => (
-                      <div key={item.id} className="p-4">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center space-x-3">
-                            {getStatusIcon(item.status)}
-                            <div>
-                              <p className="text-sm font-medium text-slate-900">
-                                {item.blendFile.split(/[/\\]/).pop()}
-                              </p>
-                              <p className="text-xs text-slate-500">
-                                {item.status === 'rendering' && item.currentFrame && item.totalFrames
-                                  ? `Frame ${item.currentFrame}/${item.totalFrames} (${item.progress}%)`
-                                  : item.status.charAt(0).toUpperCase() + item.status.slice(1)
-                                }
-                              </p>
+                    {queue.map((item, index) => {
+                      const estimate = queueEstimate.items.get(item.id);
+                      const isFirstChunk = item.parentId !== undefined &&
+                        queue.findIndex(other => other.parentId === item.parentId) === index;
+                      const group = isFirstChunk && item.parentId
+                        ? summarizeChunks(queue.filter(other => other.parentId === item.parentId))
+                        : null;
+                      const groupFinishesAt = group
+                        ? queue
+                          .filter(other => other.parentId === item.parentId)
+                          .map(other => queueEstimate.items.get(other.id)?.finishesAt)
+                          .reduce<Date | undefined>((latest, date) => (date && (!latest || date > latest) ? date : latest), undefined)
+                        : undefined;
+
+                      return (
+                        <React.Fragment key={item.id}>
+                          {group && (
+                            <div className="p-4 bg-slate-50">
+                              <div className="flex items-center justify-between">
+                                <div
+                                  className="flex items-center space-x-3 cursor-pointer"
+                                  title="Preview frames"
+                                  onClick={() => setPreviewTarget({
+                                    watchId: group.parentId,
+                                    title: queueItemName(group.blendFile, item.options),
+                                    options: { ...item.options, startFrame: group.startFrame, endFrame: group.endFrame }
+                                  })}
+                                >
+                                  {getStatusIcon(group.status)}
+                                  <div>
+                                    <p className="text-sm font-medium text-slate-900">
+                                      {queueItemName(group.blendFile, item.options)}
+                                    </p>
+                                    <p className="text-xs text-slate-500">
+                                      Frames {group.startFrame}-{group.endFrame} • {group.completed}/{group.total} chunks done ({group.progress}%)
+                                      {group.failed > 0 && `, ${group.failed} failed`}
+                                      {groupFinishesAt && ` • ETA ${formatClockTime(groupFinishesAt)}`}
+                                    </p>
+                                    {group.encoding && <EncodingProgress encoding={group.encoding} />}
+                                    {group.hookResults && (
+                                      <HookResults results={group.hookResults.filter(result => result.stage === 'post')} />
+                                    )}
+                                  </div>
+                                </div>
+
+                                <div className="flex items-center space-x-2">
+                                  <div className="w-24 bg-slate-200 rounded-full h-2">
+                                    <div 
+                                      className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                                      style={{ width: `${group.progress}%` }}
+                                    ></div>
+                                  </div>
+
+                                  <div className="flex items-center space-x-1">
+                                    {(group.failed > 0 || canRetryEncoding(group.encoding) || canRetryHooks(group.hookResults)) && (
+                                      <button
+                                        onClick={() => retryItem(group.parentId)}
+                                        className="p-1 text-blue-600 hover:text-blue-700"
+                                        title={group.failed > 0
+                                          ? 'Retry failed chunks'
+                                          : canRetryEncoding(group.encoding) ? 'Encode video again' : 'Run post-render hooks again'}
+                                      >
+                                        <RotateCcw className="w-4 h-4" />
+                                      </button>
+                                    )}
+                                    <button
+                                      onClick={() => removeFromQueue(group.parentId)}
+                                      disabled={group.status === 'rendering'}
+                                      className="p-1 text-red-600 hover:text-red-700 disabled:opacity-50"
+                                      title="Remove all chunks"
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </button>
+                                  </div>
+                                </div>
+                              </div>
                             </div>
-                          </div>
-                          
-                          <div className="flex items-center space-x-2">
-                            {item.status === 'rendering' && (
-                              <div className="w-24 bg-slate-200 rounded-full h-2">
-                                <div 
-                                  className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                                  style={{ width: `${item.progress}%` }}
-                                ></div>
+                          )}
+                          <div className={item.parentId ? 'py-2 pr-4 pl-10' : 'p-4'}>
+                            <div className="flex items-center justify-between">
+                              <div
+                                className="flex items-center space-x-3 cursor-pointer"
+                                title="Preview frames"
+                                onClick={() => setPreviewTarget({
+                                  watchId: item.id,
+                                  title: queueItemName(item.blendFile, item.options),
+                                  options: item.options
+                                })}
+                              >
+                                {getStatusIcon(item.status)}
+                                <div>
+                                  <p className="text-sm font-medium text-slate-900">
+                                    {item.parentId
+                                      ? `Chunk ${(item.chunkIndex ?? 0) + 1}/${item.chunkCount}: frames ${item.options.startFrame}-${item.options.endFrame}`
+                                      : queueItemName(item.blendFile, item.options)
+                                    }
+                                  </p>
+                                  <p className="text-xs text-slate-500">
+                                    {item.status === 'rendering' && item.currentFrame && item.totalFrames
+                                      ? `Frame ${item.currentFrame}/${item.totalFrames} (${item.progress}%)`
+                                      : item.status === 'interrupted' && item.resumeFromFrame !== undefined
+                                        ? `Interrupted - resumable from frame ${item.resumeFromFrame}`
+                                        : item.status === 'pending' && item.nextRetryAt
+                                          ? `Retrying at ${item.nextRetryAt.toLocaleTimeString()} (attempt ${(item.attempts?.length ?? 0) + 1})`
+                                          : item.status.charAt(0).toUpperCase() + item.status.slice(1)
+                                    }
+                                    {item.skippedFrames !== undefined && item.totalFrames !== undefined &&
+                                      ` • ${item.skippedFrames} of ${item.totalFrames} frames already present`
+                                    }
+                                    {item.node && item.status !== 'pending' && ` • on ${item.node}`}
+                                    {estimate &&
+                                      ` • ETA ${formatClockTime(estimate.finishesAt)} (${formatDuration(estimate.secondsRemaining)} left)`
+                                    }
+                                  </p>
+                                  {item.encoding && !item.parentId && <EncodingProgress encoding={item.encoding} />}
+                                  {item.hookResults && (
+                                    // Post-render hooks of a chunk belong to its whole render, shown above
+                                    <HookResults results={item.parentId ? item.hookResults.filter(result => result.stage === 'pre') : item.hookResults} />
+                                  )}
+                                </div>
                               </div>
-                            )}
+                          
+                              <div className="flex items-center space-x-2">
+                                {item.status === 'rendering' && (
+                                  <div className="w-24 bg-slate-200 rounded-full h-2">
+                                    <div 
+                                      className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                                      style={{ width: `${item.progress}%` }}
+                                    ></div>
+                                  </div>
+                                )}
                             
-                            <div className="flex items-center space-x-1">
-                              <button
-                                onClick={() => moveItemUp(item.id)}
-                                disabled={index === 0 || item.status === 'rendering'}
-                                className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-50"
-                              >
-                                <ChevronUp className="w-4 h-4" />
-                              </button>
-                              <button
-                                onClick={() => moveItemDown(item.id)}
-                                disabled={index === queue.length - 1 || item.status === 'rendering'}
-                                className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-50"
-                              >
-                                <ChevronDown className="w-4 h-4" />
-                              </button>
-                              {(item.status === 'error' || item.status === 'cancelled') && (
-                                <button
-                                  onClick={() => retryItem(item.id)}
-                                  className="p-1 text-blue-600 hover:text-blue-700"
-                                  title="Retry"
-                                >
-                                  <RotateCcw className="w-4 h-4" />
-                                </button>
-                              )}
-                              <button
-                                onClick={() => removeFromQueue(item.id)}
-                                disabled={item.status === 'rendering'}
-                                className="p-1 text-red-600 hover:text-red-700 disabled:opacity-50"
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </button>
+                                <div className="flex items-center space-x-1">
+                                  {!item.parentId && (
+                                    <>
+                                      <button
+                                        onClick={() => moveItemUp(item.id)}
+                                        disabled={index === 0 || item.status === 'rendering'}
+                                        className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-50"
+                                      >
+                                        <ChevronUp className="w-4 h-4" />
+                                      </button>
+                                      <button
+                                        onClick={() => moveItemDown(item.id)}
+                                        disabled={index === queue.length - 1 || item.status === 'rendering'}
+                                        className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-50"
+                                      >
+                                        <ChevronDown className="w-4 h-4" />
+                                      </button>
+                                    </>
+                                  )}
+                                  {item.status === 'interrupted' && (
+                                    <button
+                                      onClick={() => resumeItem(item.id)}
+                                      className="p-1 text-green-600 hover:text-green-700"
+                                      title="Resume"
+                                    >
+                                      <Play className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                  {(item.status === 'error' || item.status === 'cancelled' || item.status === 'interrupted' ||
+                                    (!item.parentId && (canRetryEncoding(item.encoding) || canRetryHooks(item.hookResults)))) && (
+                                    <button
+                                      onClick={() => retryItem(item.id)}
+                                      className="p-1 text-blue-600 hover:text-blue-700"
+                                      title={item.status !== 'completed'
+                                        ? 'Retry'
+                                        : canRetryEncoding(item.encoding) ? 'Encode video again' : 'Run post-render hooks again'}
+                                    >
+                                      <RotateCcw className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => removeFromQueue(item.id)}
+                                    disabled={item.status === 'rendering'}
+                                    className="p-1 text-red-600 hover:text-red-700 disabled:opacity-50"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </button>
+                                </div>
+                              </div>
                             </div>
-                          </div>
-                        </div>
                         
-                        {item.error && (
-                          <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
-                            {item.error}
+                            {item.error && (
+                              <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+                                {item.error}
+                              </div>
+                            )}
+
+                            {item.attempts && item.attempts.length > 1 && (
+                              <div className="mt-1 text-xs text-slate-500">
+                                {item.attempts.map(attempt => (
+                                  `#${attempt.number} ${attempt.device}${attempt.node ? ` on ${attempt.node}` : ''} ${attempt.status}` +
+                                  (attempt.failureReason ? ` (${attempt.failureReason})` : '')
+                                )).join(' • ')}
+                              </div>
+                            )}
                           </div>
-                        )}
-                      </div>
-                    ))}
+                        </React.Fragment>
+                      );
+                    })}
                   </div>
                 )}
               </div>
             </div>
+
+            {/* Render Preview */}
+            {previewTarget && (
+              <RenderPreview
+                key={previewTarget.watchId}
+                watchId={previewTarget.watchId}
+                title={previewTarget.title}
+                options={previewTarget.options}
+                onClose={() => setPreviewTarget(null)}
+              />
+            )}
           </div>
 
           {/* Settings Panel */}
           <div className="space-y-6">
+            <FarmNodes describeItem={describeQueueItem} />
+
             {/* Project Settings */}
             <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
               <h3 className="text-lg font-semibold text-slate-900 mb-4">Project Settings</h3>
@@ -704,6 +1131,12 @@ function App() {
                     </button>
                   </div>
                 </div>
+
+                <OutputTemplateField
+                  settings={projectSettings}
+                  previewFile={blendFiles.find(file => selectedFiles.includes(file.id)) ?? blendFiles[0]}
+                  onChange={outputTemplate => setProjectSettings(prev => ({ ...prev, outputTemplate }))}
+                />
               </div>
             </div>
 
@@ -712,7 +1145,7 @@ function App() {
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-lg font-semibold text-slate-900">Global Render Settings</h3>
                 <button
-                  onClick={applyGlobalSettings}
+                  onClick={() => applyGlobalSettings()}
                   className="text-sm text-blue-600 hover:text-blue-700"
                 >
                   Apply to {selectedFiles.length > 0 ? 'Selected' : 'All'}
@@ -720,6 +1153,15 @@ function App() {
               </div>
               
               <div className="space-y-4">
+                {presetLibrary && (
+                  <RenderPresets
+                    library={presetLibrary}
+                    settings={projectSettings}
+                    onApply={handleApplyPreset}
+                    onLibraryChange={handlePresetLibraryChange}
+                  />
+                )}
+
                 <div className="grid grid-cols-2 gap-3">
                   <div>
                     <label className="block text-sm font-medium text-slate-700 mb-1">Start Frame</label>
@@ -754,15 +1196,24 @@ function App() {
                   </select>
                 </div>
                 
-                <div>
-                  <label className="block text-sm font-medium text-slate-700 mb-1">Samples</label>
-                  <input
-                    type="number"
-                    value={projectSettings.globalSamples}
-                    onChange={(e) => setProjectSettings(prev => ({ ...prev, globalSamples: parseInt(e.target.value) || 128 }))}
-                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                {projectSettings.globalEngine !== 'WORKBENCH' && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Samples</label>
+                    <input
+                      type="number"
+                      value={projectSettings.globalSamples}
+                      onChange={(e) => setProjectSettings(prev => ({ ...prev, globalSamples: parseInt(e.target.value) || 128 }))}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                {projectSettings.globalEngine === 'CYCLES' && (
+                  <CyclesSettings
+                    cycles={projectSettings.globalCycles}
+                    onChange={globalCycles => setProjectSettings(prev => ({ ...prev, globalCycles }))}
                   />
-                </div>
+                )}
                 
                 <div className="grid grid-cols-2 gap-3">
                   <div>
@@ -805,6 +1256,13 @@ function App() {
                     <option value="FFMPEG">Video (FFmpeg)</option>
                   </select>
                 </div>
+
+                <VideoSettings
+                  video={projectSettings.video}
+                  encodeSequence={projectSettings.encodeSequence}
+                  rendersVideo={projectSettings.globalFormat === 'FFMPEG'}
+                  onChange={(video, encodeSequence) => setProjectSettings(prev => ({ ...prev, video, encodeSequence }))}
+                />
                 
                 <div>
                   <label className="block text-sm font-medium text-slate-700 mb-1">Threads</label>
@@ -818,18 +1276,103 @@ function App() {
                   />
                 </div>
                 
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Parallel Renders</label>
+                  <input
+                    type="number"
+                    value={projectSettings.maxConcurrent}
+                    onChange={(e) => setProjectSettings(prev => ({ ...prev, maxConcurrent: Math.max(1, parseInt(e.target.value) || 1) }))}
+                    min="1"
+                    max="16"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="mt-1 text-xs text-slate-500">
+                    Threads are split between renders running at the same time
+                  </p>
+                </div>
+                
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Frames per Chunk</label>
+                  <input
+                    type="number"
+                    value={projectSettings.chunkSize}
+                    onChange={(e) => setProjectSettings(prev => ({ ...prev, chunkSize: Math.max(0, parseInt(e.target.value) || 0) }))}
+                    min="0"
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="mt-1 text-xs text-slate-500">
+                    Split each file into separately retried jobs; 0 renders the whole range as one job
+                  </p>
+                </div>
+                
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Max Attempts</label>
+                    <input
+                      type="number"
+                      value={projectSettings.maxRenderAttempts}
+                      onChange={(e) => setProjectSettings(prev => ({ ...prev, maxRenderAttempts: Math.max(1, parseInt(e.target.value) || 1) }))}
+                      min="1"
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Retry Delay (s)</label>
+                    <input
+                      type="number"
+                      value={projectSettings.retryBackoffSeconds}
+                      onChange={(e) => setProjectSettings(prev => ({ ...prev, retryBackoffSeconds: Math.max(0, parseInt(e.target.value) || 0) }))}
+                      min="0"
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+                
+                {projectSettings.globalEngine === 'CYCLES' && projectSettings.globalCycles.deviceType !== 'CPU' && (
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="retryOnCPU"
+                      checked={projectSettings.retryOnCPUAfterGPUOutOfMemory}
+                      onChange={(e) => setProjectSettings(prev => ({ ...prev, retryOnCPUAfterGPUOutOfMemory: e.target.checked }))}
+                      className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                    />
+                    <label htmlFor="retryOnCPU" className="text-sm font-medium text-slate-700">
+                      Retry on CPU After GPU Out of Memory
+                    </label>
+                  </div>
+                )}
+                
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="preferFileSettings"
+                    checked={projectSettings.preferFileSettings}
+                    onChange={(e) => setProjectSettings(prev => ({ ...prev, preferFileSettings: e.target.checked }))}
+                    className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                  />
+                  <label htmlFor="preferFileSettings" className="text-sm font-medium text-slate-700">
+                    Keep Scene Settings of Added Files
+                  </label>
+                </div>
+                
                 <div className="flex items-center space-x-2">
                   <input
                     type="checkbox"
-                    id="useGPU"
-                    checked={projectSettings.globalUseGPU}
-                    onChange={(e) => setProjectSettings(prev => ({ ...prev, globalUseGPU: e.target.checked }))}
+                    id="skipExistingFrames"
+                    checked={projectSettings.skipExistingFrames}
+                    onChange={(e) => setProjectSettings(prev => ({ ...prev, skipExistingFrames: e.target.checked }))}
                     className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
                   />
-                  <label htmlFor="useGPU" className="text-sm font-medium text-slate-700">
-                    Use GPU Rendering
+                  <label htmlFor="skipExistingFrames" className="text-sm font-medium text-slate-700">
+                    Skip Frames Already Rendered
                   </label>
                 </div>
+
+                <RenderHooks
+                  hooks={projectSettings.hooks}
+                  onChange={(hooks) => setProjectSettings(prev => ({ ...prev, hooks }))}
+                />
               </div>
             </div>
 
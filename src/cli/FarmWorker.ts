@@ -0,0 +1,304 @@
+import { BlenderAPI } from '../services/BlenderService';
+import { describeRenderTarget } from '../services/ProjectService';
+import { RenderProgress } from '../types/blender';
+import { FarmJob, FarmJobResult, FarmNodeInfo, FarmProgressReport, FarmRegistration } from '../types/farm';
+
+// How often an idle worker asks for work
+const CLAIM_INTERVAL_MS = 2000;
+const RECONNECT_INTERVAL_MS = 5000;
+// Sample-only progress is sent at most this often; new frames are sent right away
+const PROGRESS_INTERVAL_MS = 2000;
+
+export class CoordinatorError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'CoordinatorError';
+  }
+}
+
+export interface FarmWorkerOptions {
+  // Base URL of the coordinator's control API, e.g. http://render-host:8765
+  coordinator: string;
+  token: string;
+  info: FarmNodeInfo;
+  blenderAPI: BlenderAPI;
+  // Threads per render; Blender's own default when unset
+  threads?: number;
+  log?: (message: string) => void;
+}
+
+interface RunningJob {
+  job: FarmJob;
+  // Set when the coordinator no longer wants the result
+  cancelled: boolean;
+  lastFrame?: number;
+  lastSent: number;
+}
+
+const jobLabel = (job: FarmJob) => {
+  const target = describeRenderTarget(job.options);
+  const name = (job.blendFile.split(/[/\\]/).pop() || job.blendFile) + (target ? ` (${target})` : '');
+  const { startFrame, endFrame, frames } = job.options;
+  return frames ? `${name} (${frames.length} frames)` : `${name} (frames ${startFrame}-${endFrame})`;
+};
+
+/**
+ * Render farm worker: registers with a coordinator, pulls queue items while
+ * it has free slots, renders them with the local Blender and reports back.
+ * Heartbeats keep its claim on the items; if the coordinator forgets the
+ * worker (e.g. it restarted) the worker drops its renders and registers
+ * again.
+ */
+export class FarmWorker {
+  private nodeId: string | null = null;
+  private heartbeatSeconds = 5;
+  private running = new Map<string, RunningJob>();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private claimTimer: ReturnType<typeof setTimeout> | null = null;
+  private isClaiming = false;
+  private stopped = false;
+  private unreachable = false;
+  private defaultVersion: Promise<string> | null = null;
+  private log: (message: string) => void;
+
+  constructor(private options: FarmWorkerOptions) {
+    this.log = options.log ?? (message => console.log(`[${new Date().toTimeString().slice(0, 8)}] ${message}`));
+  }
+
+  public async start(): Promise<void> {
+    this.stopped = false;
+    await this.register();
+  }
+
+  /**
+   * Cancel running renders and leave the farm; the coordinator hands
+   * unfinished items to other nodes.
+   */
+  public async stop(): Promise<void> {
+    this.stopped = true;
+    this.clearTimers();
+    await Promise.all([...this.running.keys()].map(id => this.options.blenderAPI.cancelRender(id)));
+
+    if (this.nodeId) {
+      const nodeId = this.nodeId;
+      this.nodeId = null;
+      await this.request('DELETE', `/api/nodes/${encodeURIComponent(nodeId)}`).catch(() => {});
+    }
+  }
+
+  private async register(): Promise<void> {
+    while (!this.stopped) {
+      try {
+        const registration = await this.request<FarmRegistration>('POST', '/api/nodes', this.options.info);
+        this.nodeId = registration.nodeId;
+        this.heartbeatSeconds = registration.heartbeatSeconds;
+        this.unreachable = false;
+        this.log(`Registered with ${this.options.coordinator} as ${this.options.info.name}`);
+        break;
+      } catch (error) {
+        // A wrong token will not fix itself
+        if (error instanceof CoordinatorError && (error.status === 401 || error.status === 400)) throw error;
+        this.reportUnreachable(error);
+        await new Promise(resolve => setTimeout(resolve, RECONNECT_INTERVAL_MS));
+      }
+    }
+    if (this.stopped) return;
+
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), this.heartbeatSeconds * 1000);
+    this.scheduleClaim(0);
+  }
+
+  // The coordinator no longer knows this node: its items were taken back
+  private async reregister(): Promise<void> {
+    this.log('The coordinator dropped this node; registering again');
+    this.clearTimers();
+    this.nodeId = null;
+    this.running.forEach(running => {
+      running.cancelled = true;
+    });
+    await Promise.all([...this.running.keys()].map(id => this.options.blenderAPI.cancelRender(id)));
+    await this.register();
+  }
+
+  private async heartbeat(): Promise<void> {
+    if (!this.nodeId) return;
+
+    try {
+      const { cancel } = await this.request<{ cancel: string[] }>(
+        'POST',
+        `/api/nodes/${encodeURIComponent(this.nodeId)}/heartbeat`,
+        { running: [...this.running.keys()] }
+      );
+      this.unreachable = false;
+      cancel.forEach(id => this.cancelJob(id));
+    } catch (error) {
+      this.handleRequestError(error);
+    }
+  }
+
+  private scheduleClaim(delay = CLAIM_INTERVAL_MS): void {
+    if (this.stopped || this.claimTimer) return;
+    this.claimTimer = setTimeout(() => {
+      this.claimTimer = null;
+      this.claim();
+    }, delay);
+  }
+
+  private async claim(): Promise<void> {
+    if (this.isClaiming) return;
+    this.isClaiming = true;
+
+    try {
+      while (!this.stopped && this.nodeId && this.running.size < this.options.info.slots) {
+        const { job } = await this.request<{ job: FarmJob | null }>(
+          'POST',
+          `/api/nodes/${encodeURIComponent(this.nodeId)}/claim`
+        );
+        this.unreachable = false;
+        if (!job) break;
+        this.runJob(job);
+      }
+    } catch (error) {
+      this.handleRequestError(error);
+    } finally {
+      this.isClaiming = false;
+      this.scheduleClaim();
+    }
+  }
+
+  private async runJob(job: FarmJob): Promise<void> {
+    const running: RunningJob = { job, cancelled: false, lastSent: 0 };
+    this.running.set(job.id, running);
+    this.log(`Rendering ${jobLabel(job)}`);
+
+    let result: FarmJobResult = { status: 'completed' };
+
+    try {
+      const installationId = await this.resolveInstallation(job.blenderVersion);
+      const options = { ...job.options, jobId: job.id, threads: this.options.threads, installationId };
+      await this.options.blenderAPI.renderFile(options, progress => {
+        if (progress.status === 'cancelled') {
+          result = { status: 'cancelled' };
+        } else if (progress.status === 'rendering') {
+          this.sendProgress(running, progress);
+        }
+      });
+    } catch (error) {
+      result = { status: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+
+    this.running.delete(job.id);
+    // Nobody is waiting for items taken away from this node, or when leaving the farm
+    if (!running.cancelled && !this.stopped && this.nodeId) {
+      this.log(`${jobLabel(job)}: ${result.status}${result.error ? `: ${result.error}` : ''}`);
+      try {
+        await this.request('POST', `/api/nodes/${encodeURIComponent(this.nodeId)}/jobs/${encodeURIComponent(job.id)}/complete`, result);
+      } catch (error) {
+        this.handleRequestError(error);
+      }
+    }
+    this.scheduleClaim(0);
+  }
+
+  /**
+   * Installation to render a job pinned to `version` with: undefined for
+   * the default Blender. Throws when this node has no Blender of that version.
+   */
+  private async resolveInstallation(version?: string): Promise<string | undefined> {
+    if (!version) return undefined;
+
+    if (!this.defaultVersion) {
+      this.defaultVersion = this.options.blenderAPI.getBlenderVersion();
+    }
+    if (await this.defaultVersion.catch(() => undefined) === version) return undefined;
+
+    const installation = (await this.options.blenderAPI.listInstallations())
+      .find(candidate => candidate.available && candidate.version === version);
+    if (!installation) throw new Error(`Blender ${version} is not installed on ${this.options.info.name}`);
+    return installation.id;
+  }
+
+  private async sendProgress(running: RunningJob, progress: RenderProgress): Promise<void> {
+    const now = Date.now();
+    if (progress.frame === running.lastFrame && now - running.lastSent < PROGRESS_INTERVAL_MS) return;
+    if (!this.nodeId || running.cancelled) return;
+    running.lastFrame = progress.frame;
+    running.lastSent = now;
+
+    const report: FarmProgressReport = {
+      frame: progress.frame,
+      totalFrames: progress.totalFrames,
+      percentage: progress.percentage,
+      secondsRemaining: progress.secondsRemaining,
+      averageFrameSeconds: progress.averageFrameSeconds,
+      skippedFrames: progress.skippedFrames,
+      sample: progress.sample,
+      totalSamples: progress.totalSamples
+    };
+
+    try {
+      const { cancel } = await this.request<{ cancel: boolean }>(
+        'POST',
+        `/api/nodes/${encodeURIComponent(this.nodeId)}/jobs/${encodeURIComponent(running.job.id)}/progress`,
+        report
+      );
+      if (cancel) this.cancelJob(running.job.id);
+    } catch (error) {
+      this.handleRequestError(error);
+    }
+  }
+
+  private cancelJob(id: string): void {
+    const running = this.running.get(id);
+    if (!running || running.cancelled) return;
+
+    running.cancelled = true;
+    this.log(`${jobLabel(running.job)}: cancelled by the coordinator`);
+    this.options.blenderAPI.cancelRender(id);
+  }
+
+  private handleRequestError(error: unknown): void {
+    if (error instanceof CoordinatorError && error.status === 404 && this.nodeId && !this.stopped) {
+      this.reregister().catch(registerError => this.reportUnreachable(registerError));
+      return;
+    }
+    this.reportUnreachable(error);
+  }
+
+  // Logged once per outage rather than on every retry
+  private reportUnreachable(error: unknown): void {
+    if (this.unreachable) return;
+    this.unreachable = true;
+    this.log(`Cannot reach the coordinator: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  private clearTimers(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.claimTimer) {
+      clearTimeout(this.claimTimer);
+      this.claimTimer = null;
+    }
+  }
+
+  private async request<T = unknown>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(new URL(path, this.options.coordinator), {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.options.token}`,
+        ...(body !== undefined && { 'Content-Type': 'application/json' })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(30000)
+    });
+
+    const text = await response.text();
+    const data = text ? JSON.parse(text) : undefined;
+    if (!response.ok) {
+      throw new CoordinatorError(response.status, data?.error ?? `${response.status} ${response.statusText}`);
+    }
+    return data as T;
+  }
+}
@@ -0,0 +1,23 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { QueueItem, QueueJournal } from '../services/RenderQueue';
+import { parseJournal, serializeJournal } from '../services/QueueJournal';
+
+// Journal file shared by every `bbr` invocation on this machine. Writes are
+// synchronous so `bbr status` never sees a half-written file and nothing is
+// lost when the process exits right after the last update.
+export class FileQueueJournal implements QueueJournal {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<QueueItem[]> {
+    if (!existsSync(this.filePath)) return [];
+    return parseJournal(readFileSync(this.filePath, 'utf8'));
+  }
+
+  async save(items: QueueItem[]): Promise<void> {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    writeFileSync(tempPath, serializeJournal(items), 'utf8');
+    renameSync(tempPath, this.filePath);
+  }
+}
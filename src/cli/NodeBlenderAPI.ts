@@ -0,0 +1,152 @@
+import { BlenderManager } from '../../electron/blenderManager.js';
+import { BlenderInstallations } from '../../electron/blenderInstallations.js';
+import { renderWithHistory, createRenderHistory } from '../../electron/renderHistory.js';
+import { createSettingsStore } from '../../electron/settings.js';
+import { VideoEncoder } from '../../electron/videoEncoder.js';
+import { runRenderHook } from '../../electron/renderHooks.js';
+import { BlenderAPI } from '../services/BlenderService';
+import { HookRunner } from '../services/RenderQueue';
+import {
+  AssetDependency,
+  BlendFileMetadata,
+  BlenderInstallation,
+  BlenderRenderOptions,
+  CyclesDevice,
+  EncodeProgress,
+  EncodeRequest,
+  OverrideProblem,
+  PathMappingRule,
+  PropertyOverride,
+  RenderProgress
+} from '../types/blender';
+import { HookContext, HookRunResult, RenderHook } from '../types/hooks';
+
+/**
+ * BlenderAPI backed directly by the main process modules, for running the
+ * render queue without Electron. Mirrors the IPC handlers in main.js,
+ * render hooks included.
+ */
+export class NodeBlenderAPI implements BlenderAPI, HookRunner {
+  private blenderManager: BlenderManager;
+  private installations: BlenderInstallations;
+  private history: ReturnType<typeof createRenderHistory>;
+  private settings: ReturnType<typeof createSettingsStore>;
+  private videoEncoder: VideoEncoder;
+
+  constructor(settingsPath: string, historyPath: string, blenderPath?: string, ffmpegPath?: string) {
+    const settings = createSettingsStore(settingsPath);
+    this.settings = settings;
+    this.blenderManager = new BlenderManager({
+      blenderPath: blenderPath || settings.get('blenderPath'),
+      pathMappings: settings.get('pathMappings', [])
+    });
+    this.installations = new BlenderInstallations(settings, this.blenderManager);
+    this.history = createRenderHistory(historyPath);
+    this.videoEncoder = new VideoEncoder({ ffmpegPath: ffmpegPath || settings.get('ffmpegPath') });
+  }
+
+  isBlenderAvailable(): Promise<boolean> {
+    return this.blenderManager.isBlenderAvailable();
+  }
+
+  getBlenderVersion(): Promise<string> {
+    return this.blenderManager.getBlenderVersion();
+  }
+
+  async setBlenderPath(path: string): Promise<void> {
+    this.blenderManager.setBlenderPath(path);
+  }
+
+  async getBlenderPath(): Promise<string> {
+    return this.blenderManager.getBlenderPath();
+  }
+
+  async listInstallations(): Promise<BlenderInstallation[]> {
+    return this.installations.list();
+  }
+
+  addInstallation(path: string, name?: string): Promise<BlenderInstallation> {
+    return this.installations.add(path, name);
+  }
+
+  async removeInstallation(id: string): Promise<void> {
+    this.installations.remove(id);
+  }
+
+  validateInstallation(id: string): Promise<BlenderInstallation> {
+    return this.installations.validate(id);
+  }
+
+  discoverInstallations(): Promise<BlenderInstallation[]> {
+    return this.installations.discover();
+  }
+
+  probeFile(blendFile: string, installationId?: string): Promise<BlendFileMetadata> {
+    return this.blenderManager.probeFile(blendFile, this.installations.resolvePath(installationId));
+  }
+
+  scanDependencies(blendFile: string, installationId?: string): Promise<AssetDependency[]> {
+    return this.blenderManager.scanDependencies(blendFile, this.installations.resolvePath(installationId));
+  }
+
+  listDevices(installationId?: string): Promise<CyclesDevice[]> {
+    return this.blenderManager.listDevices(this.installations.resolvePath(installationId));
+  }
+
+  validateOverrides(blendFile: string, overrides: PropertyOverride[], scenes: string[] = [], installationId?: string): Promise<OverrideProblem[]> {
+    return this.blenderManager.validateOverrides(blendFile, overrides, scenes, this.installations.resolvePath(installationId));
+  }
+
+  async getPathMappings(): Promise<PathMappingRule[]> {
+    return this.settings.get('pathMappings', []);
+  }
+
+  async setPathMappings(rules: PathMappingRule[]): Promise<void> {
+    this.settings.set('pathMappings', rules);
+    this.blenderManager.setPathMappings(rules);
+  }
+
+  renderFile(options: BlenderRenderOptions, onProgress: (progress: RenderProgress) => void = () => {}): Promise<void> {
+    const blenderPath = this.installations.resolvePath(options.installationId);
+    return renderWithHistory(this.history, this.blenderManager, { ...options, blenderPath }, onProgress);
+  }
+
+  async cancelRender(jobId: string): Promise<void> {
+    this.blenderManager.cancelRender(jobId);
+  }
+
+  async cancelAllRenders(): Promise<void> {
+    this.blenderManager.cancelAllRenders();
+  }
+
+  async getActiveRenders(): Promise<string[]> {
+    return this.blenderManager.getActiveRenders();
+  }
+
+  async isRenderActive(jobId: string): Promise<boolean> {
+    return this.blenderManager.isRenderActive(jobId);
+  }
+
+  encodeVideo(request: EncodeRequest, onProgress: (progress: EncodeProgress) => void = () => {}): Promise<void> {
+    return this.videoEncoder.encode(request, onProgress, this.blenderManager.resolvePathRemaps());
+  }
+
+  async cancelEncode(jobId: string): Promise<void> {
+    this.videoEncoder.cancel(jobId);
+  }
+
+  async setFFmpegPath(path: string): Promise<void> {
+    this.videoEncoder.setFFmpegPath(path);
+  }
+
+  async getFFmpegPath(): Promise<string> {
+    return this.videoEncoder.getFFmpegPath();
+  }
+
+  runHook(hook: RenderHook, context: HookContext): Promise<HookRunResult> {
+    return runRenderHook(hook, context, {
+      ffmpegPath: this.videoEncoder.getFFmpegPath(),
+      pathRemaps: this.blenderManager.resolvePathRemaps()
+    });
+  }
+}
@@ -0,0 +1,161 @@
+import { describeRenderTarget } from '../services/ProjectService';
+import { EncodingState, QueueItem } from '../services/RenderQueue';
+import { HookResult } from '../types/hooks';
+import { formatDuration } from '../utils/renderHistory';
+
+const itemLabel = (item: QueueItem): string => {
+  const target = describeRenderTarget(item.options);
+  const name = (item.blendFile.split(/[/\\]/).pop() || item.blendFile) + (target ? ` (${target})` : '');
+  return item.parentId ? `${name} [chunk ${(item.chunkIndex ?? 0) + 1}/${item.chunkCount}]` : name;
+};
+
+const timestamp = () => new Date().toTimeString().slice(0, 8);
+
+/**
+ * Prints queue progress as plain lines (one per frame, so logs from cron
+ * stay readable) or as JSON Lines for scripts.
+ */
+export class ProgressReporter {
+  // Last printed "status:frame" per item, to skip sample-only updates
+  private lastReported = new Map<string, string>();
+  // Last printed status per item and hook
+  private lastHookStatus = new Map<string, HookResult['status']>();
+
+  constructor(private json: boolean) {}
+
+  report(item: QueueItem): void {
+    item.hookResults?.forEach(result => this.reportHook(item, result));
+
+    const key = `${item.status}:${item.currentFrame ?? ''}:${item.nextRetryAt?.getTime() ?? ''}:` +
+      `${item.encoding?.status ?? ''}:${item.encoding?.progress ?? ''}`;
+    const previous = this.lastReported.get(item.id);
+    if (previous === key) return;
+    this.lastReported.set(item.id, key);
+    const wasRendering = previous?.startsWith('rendering:') ?? false;
+
+    if (this.json) {
+      console.log(JSON.stringify({
+        event: 'progress',
+        id: item.id,
+        blendFile: item.blendFile,
+        status: item.status,
+        frame: item.currentFrame,
+        totalFrames: item.totalFrames,
+        percentage: item.progress,
+        secondsRemaining: item.secondsRemaining,
+        error: item.error,
+        nextRetryAt: item.nextRetryAt?.toISOString(),
+        encoding: item.encoding
+      }));
+      return;
+    }
+
+    const label = `[${timestamp()}] ${itemLabel(item)}`;
+    switch (item.status) {
+      case 'rendering': {
+        // Resumed items still carry the frame of their previous run
+        if (!wasRendering || item.currentFrame === undefined || item.totalFrames === undefined) {
+          console.log(`${label}: started`);
+          break;
+        }
+        const eta = item.secondsRemaining !== undefined ? `, ${formatDuration(item.secondsRemaining)} left` : '';
+        console.log(`${label}: frame ${item.currentFrame} (${item.progress}% of ${item.totalFrames} frames${eta})`);
+        break;
+      }
+      case 'completed':
+        if (item.encoding) {
+          this.reportEncoding(label, item.encoding);
+        } else {
+          console.log(`${label}: completed`);
+        }
+        break;
+      case 'pending':
+        if (item.nextRetryAt) {
+          console.log(`${label}: failed, retrying at ${item.nextRetryAt.toLocaleTimeString()}`);
+        }
+        break;
+      case 'error':
+        console.error(`${label}: failed: ${item.error ?? 'unknown error'}`);
+        break;
+      default:
+        console.log(`${label}: ${item.status}`);
+    }
+  }
+
+  // The render itself completed; its frames are being encoded to a video
+  private reportEncoding(label: string, encoding: EncodingState): void {
+    switch (encoding.status) {
+      case 'encoding':
+        console.log(encoding.progress === 0 ? `${label}: completed, encoding video` : `${label}: encoding video (${encoding.progress}%)`);
+        break;
+      case 'completed':
+        console.log(`${label}: video encoded`);
+        break;
+      case 'error':
+        console.error(`${label}: video encoding failed: ${encoding.error ?? 'unknown error'}`);
+        break;
+      default:
+        console.log(`${label}: video encoding ${encoding.status}`);
+    }
+  }
+
+  private reportHook(item: QueueItem, result: HookResult): void {
+    const key = `${item.id}:${result.stage}:${result.hookId}`;
+    if (this.lastHookStatus.get(key) === result.status) return;
+    this.lastHookStatus.set(key, result.status);
+    if (result.status === 'pending' || result.status === 'skipped') return;
+
+    if (this.json) {
+      console.log(JSON.stringify({
+        event: 'hook',
+        id: item.id,
+        hookId: result.hookId,
+        name: result.name,
+        stage: result.stage,
+        status: result.status,
+        error: result.error,
+        log: result.log
+      }));
+      return;
+    }
+
+    const label = `[${timestamp()}] ${itemLabel(item)}: ${result.stage}-render hook "${result.name}"`;
+    switch (result.status) {
+      case 'running':
+        console.log(`${label} started`);
+        break;
+      case 'completed':
+        console.log(`${label} done`);
+        break;
+      case 'error':
+        console.error(`${label} failed: ${result.error ?? 'unknown error'}`);
+        result.log?.split('\n').forEach(line => console.error(`    ${line}`));
+        break;
+    }
+  }
+
+  summary(items: QueueItem[], seconds: number): void {
+    const count = (status: QueueItem['status']) => items.filter(item => item.status === status).length;
+    const encodeFailures = items.filter(item => item.encoding?.status === 'error').length;
+    const hookFailures = items.flatMap(item => item.hookResults ?? []).filter(result => result.status === 'error').length;
+
+    if (this.json) {
+      console.log(JSON.stringify({
+        event: 'summary',
+        completed: count('completed'),
+        failed: count('error'),
+        cancelled: count('cancelled'),
+        encodeFailed: encodeFailures,
+        hooksFailed: hookFailures,
+        seconds: Math.round(seconds)
+      }));
+      return;
+    }
+
+    const parts = [`${count('completed')} completed`, `${count('error')} failed`];
+    if (count('cancelled') > 0) parts.push(`${count('cancelled')} cancelled`);
+    if (encodeFailures > 0) parts.push(`${encodeFailures} video(s) failed to encode`);
+    if (hookFailures > 0) parts.push(`${hookFailures} hook(s) failed`);
+    console.log(`${parts.join(', ')} in ${formatDuration(seconds)}`);
+  }
+}
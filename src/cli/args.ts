@@ -0,0 +1,103 @@
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | true>;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Split argv into positionals and `--flag value` / `--flag=value` pairs.
+ * Flags listed in `booleanFlags` never take a value.
+ */
+export const parseArgs = (argv: string[], booleanFlags: readonly string[]): ParsedArgs => {
+  const positionals: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+    if (booleanFlags.includes(name)) {
+      flags[name] = true;
+    } else if (inlineValue !== undefined) {
+      flags[name] = inlineValue;
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      flags[name] = argv[++i];
+    } else {
+      throw new UsageError(`--${name} needs a value`);
+    }
+  }
+
+  return { positionals, flags };
+};
+
+export const stringFlag = (args: ParsedArgs, name: string): string | undefined => {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
+};
+
+export const integerFlag = (args: ParsedArgs, name: string, min = 1): number | undefined => {
+  const value = stringFlag(args, name);
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new UsageError(`--${name} must be a whole number of at least ${min}`);
+  }
+  return parsed;
+};
+
+export const choiceFlag = <T extends string>(args: ParsedArgs, name: string, choices: readonly T[]): T | undefined => {
+  const value = stringFlag(args, name)?.toUpperCase();
+  if (value === undefined) return undefined;
+
+  if (!choices.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${choices.join(', ')}`);
+  }
+  return value as T;
+};
+
+/**
+ * "1-100" renders a range; "1,5,10-20" an explicit list of frames.
+ */
+export const parseFrames = (value: string): { startFrame: number; endFrame: number } | { frames: number[] } => {
+  const range = value.match(/^(-?\d+)(?:-(-?\d+))?$/);
+  if (range) {
+    const startFrame = parseInt(range[1], 10);
+    const endFrame = range[2] !== undefined ? parseInt(range[2], 10) : startFrame;
+    if (endFrame < startFrame) {
+      throw new UsageError(`Frame range ${value} ends before it starts`);
+    }
+    return { startFrame, endFrame };
+  }
+
+  const frames = new Set<number>();
+  value.split(',').forEach(part => {
+    const match = part.trim().match(/^(-?\d+)(?:-(-?\d+))?$/);
+    if (!match) {
+      throw new UsageError(`Invalid frames "${value}"; use 1-100 or 1,5,10-20`);
+    }
+    const first = parseInt(match[1], 10);
+    const last = match[2] !== undefined ? parseInt(match[2], 10) : first;
+    for (let frame = first; frame <= last; frame++) frames.add(frame);
+  });
+
+  return { frames: [...frames].sort((a, b) => a - b) };
+};
+
+export const parseResolution = (value: string): [number, number] => {
+  const match = value.match(/^(\d+)[xX](\d+)$/);
+  if (!match || parseInt(match[1], 10) === 0 || parseInt(match[2], 10) === 0) {
+    throw new UsageError(`Invalid resolution "${value}"; use WIDTHxHEIGHT, e.g. 1920x1080`);
+  }
+  return [parseInt(match[1], 10), parseInt(match[2], 10)];
+};
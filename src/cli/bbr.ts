@@ -0,0 +1,635 @@
+import { execFile } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { cpus, homedir, hostname } from 'os';
+import { join, resolve } from 'path';
+import { renderQueue, QueueItem, RetryPolicy } from '../services/RenderQueue';
+import {
+  createBlendFile,
+  createRenderJobs,
+  parseProject,
+  CYCLES_DEVICE_TYPES,
+  DEFAULT_PROJECT_SETTINGS,
+  DENOISERS,
+  ENGINES,
+  FORMATS,
+  RenderJob,
+  VIDEO_CODECS,
+  VIDEO_CONTAINERS
+} from '../services/ProjectService';
+import { formatDuration } from '../utils/renderHistory';
+import { OUTPUT_TOKENS, OutputTemplateError } from '../utils/outputTemplate';
+import { validateFileOverrides } from '../utils/propertyOverrides';
+import { isConsecutive, validateVideoOptions, withContainer } from '../utils/videoOptions';
+import { choiceFlag, integerFlag, parseArgs, parseFrames, parseResolution, ParsedArgs, stringFlag, UsageError } from './args';
+import { CoordinatorError, FarmWorker } from './FarmWorker';
+import { FileQueueJournal } from './FileQueueJournal';
+import { NodeBlenderAPI } from './NodeBlenderAPI';
+import { ProgressReporter } from './ProgressReporter';
+import { acquireRunLock, readRunLock, releaseRunLock } from './runLock';
+
+export const EXIT_CODES = {
+  OK: 0,
+  // A render failed or was cancelled, or an unexpected error occurred
+  FAILED: 1,
+  USAGE: 2,
+  BLENDER_NOT_FOUND: 3,
+  // Project or blend file missing or unreadable
+  INVALID_INPUT: 4,
+  // Another `bbr` run is rendering the queue
+  BUSY: 5,
+  INTERRUPTED: 130
+} as const;
+
+const BOOLEAN_FLAGS = ['gpu', 'skip-existing', 'encode', 'json', 'help'] as const;
+
+const USAGE = `Usage: bbr <command> [options]
+
+Commands:
+  render <project.rfp>        Queue every file of a project and render the queue
+    --only <names>            Comma-separated file names or paths to render
+  queue add <file.blend>...   Add blend files to the queue without rendering
+    --frames <1-100|1,5,9>    Frame range or list (default ${DEFAULT_PROJECT_SETTINGS.globalFrameStart}-${DEFAULT_PROJECT_SETTINGS.globalFrameEnd})
+    --engine <name>           ${ENGINES.join(', ')}
+    --samples <n>
+    --resolution <WxH>
+    --format <name>           ${FORMATS.join(', ')}
+    --scene <name>            Scene to render (default: the active scene)
+    --camera <names>          Comma-separated cameras, each rendered as its own item
+    --view-layer <names>      Comma-separated view layers, each rendered as its own item
+    --output <dir>            Output directory (default: next to the blend file)
+    --output-template <t>     File names in it (default ${DEFAULT_PROJECT_SETTINGS.outputTemplate});
+                              tokens: ${OUTPUT_TOKENS.map(({ token }) => `{${token}}`).join(' ')}
+    --chunk-size <n>          Split the range into queue items of n frames
+    --threads <n>
+    --device <type>           Cycles device type: ${CYCLES_DEVICE_TYPES.join(', ')} (default CPU)
+    --gpu                     Same as --device GPU, the first GPU backend found
+    --devices <names>         Comma-separated Cycles devices to use (default: all of the type)
+    --denoiser <name>         ${DENOISERS.join(', ')}
+    --time-limit <s>          Seconds each frame may sample for
+    --tile-size <px>          Cycles tile size; 0 renders each frame as one tile
+    --skip-existing           Only render frames missing from the output directory
+    --encode                  Encode the rendered frames to a video file next to them
+    --container <name>        Video container: ${VIDEO_CONTAINERS.join(', ')} (default MPEG4)
+    --codec <name>            Video codec: ${VIDEO_CODECS.join(', ')}
+    --crf <n>                 Constant quality, lower is better (default ${DEFAULT_PROJECT_SETTINGS.video.crf})
+    --fps <n>                 Video frame rate (default: the scene's)
+  queue run                   Render everything pending in the queue
+  queue remove <id>           Remove an item, or every chunk of a split render
+  queue clear                 Remove every item
+  status                      Show the queue and whether a render is running
+  worker                      Render items of a desktop app's queue as a farm node
+    --coordinator <url>       The app's control API, e.g. http://render-host:8765
+    --token <token>           Its access token (default: $BBR_TOKEN)
+    --name <name>             Node name shown in the app (default: host name and process id)
+    --slots <n>               Items rendered side by side (default 1)
+    --threads <n>             Threads per render (default: all cores)
+    --gpu                     Accept GPU renders even if no NVIDIA GPU is detected
+    --blender <path>
+
+Render options (render, queue run):
+  --blender <path>            Blender executable (default: $BLENDER_PATH or the usual install locations)
+  --ffmpeg <path>             ffmpeg for --encode (default: $FFMPEG_PATH or ffmpeg on the PATH)
+  --concurrency <n>           Items rendered side by side
+  --retries <n>               Attempts per item, including the first
+  --json                      Print progress as JSON Lines
+
+State is kept in $BBR_HOME (default ~/.bbr).
+
+Exit codes:
+  0 success, 1 a render failed, 2 usage error, 3 Blender not found,
+  4 missing or invalid input, 5 queue busy, 130 interrupted`;
+
+const bbrHome = () => process.env.BBR_HOME || join(homedir(), '.bbr');
+
+const paths = () => ({
+  journal: join(bbrHome(), 'queue.json'),
+  lock: join(bbrHome(), 'run.lock'),
+  settings: join(bbrHome(), 'settings.json'),
+  history: join(bbrHome(), 'render-history.jsonl')
+});
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+interface RunOptions {
+  blenderPath?: string;
+  ffmpegPath?: string;
+  maxConcurrent: number;
+  threadBudget?: number;
+  retryPolicy: Partial<RetryPolicy>;
+  json: boolean;
+  // Added to the queue once it has been restored and locked
+  jobs: RenderJob[];
+}
+
+/**
+ * Restore the shared queue, add `jobs`, and render until nothing is left
+ * pending. Interrupted items from a crashed run are resumed.
+ */
+async function runQueue(options: RunOptions): Promise<number> {
+  const { lock, journal, settings, history } = paths();
+  const locked = acquireRunLock(lock);
+  if (!locked.acquired) {
+    console.error(`The queue is already being rendered by process ${locked.pid}`);
+    return EXIT_CODES.BUSY;
+  }
+
+  try {
+    const blenderAPI = new NodeBlenderAPI(settings, history, options.blenderPath, options.ffmpegPath);
+    if (!(await blenderAPI.isBlenderAvailable())) {
+      console.error(`Blender not found at ${await blenderAPI.getBlenderPath()}; pass --blender or set BLENDER_PATH`);
+      return EXIT_CODES.BLENDER_NOT_FOUND;
+    }
+
+    // Installations registered in the desktop app are unknown here
+    const installationIds = new Set((await blenderAPI.listInstallations()).map(installation => installation.id));
+    options.jobs.forEach(job => {
+      if (job.options.installationId && !installationIds.has(job.options.installationId)) {
+        console.warn(`${job.blendFile}: Blender installation not registered for the CLI, using the default Blender`);
+        job.options = { ...job.options, installationId: undefined };
+      }
+    });
+
+    renderQueue.pauseQueue();
+    renderQueue.setBlenderAPI(blenderAPI);
+    renderQueue.setHookRunner(blenderAPI);
+    renderQueue.setJournal(new FileQueueJournal(journal));
+    renderQueue.setConcurrency(options.maxConcurrent, options.threadBudget);
+    renderQueue.setRetryPolicy(options.retryPolicy);
+    await renderQueue.restoreQueue();
+
+    options.jobs.forEach(job => {
+      renderQueue.addToQueue({ blendFile: job.blendFile, outputPath: job.outputPath, options: job.options, encode: job.encode, hooks: job.hooks, retryPolicy: job.retryPolicy }, job.chunkSize);
+    });
+    renderQueue.getQueue()
+      .filter(item => item.status === 'interrupted')
+      .forEach(item => renderQueue.resumeItem(item.id));
+
+    if (!renderQueue.getQueue().some(item => item.status === 'pending')) {
+      console.log('Nothing to render');
+      return EXIT_CODES.OK;
+    }
+
+    return await renderUntilDone(options.json);
+  } finally {
+    releaseRunLock(lock);
+  }
+}
+
+function renderUntilDone(json: boolean): Promise<number> {
+  const reporter = new ProgressReporter(json);
+  const started = Date.now();
+  // Items rendered by this run; earlier failures do not affect the exit code
+  const rendered = new Set<string>();
+
+  return new Promise(resolveRun => {
+    let interrupted = false;
+
+    const finish = (code: number) => {
+      renderQueue.removeProgressCallback(onProgress);
+      renderQueue.removeQueueCallback(onQueue);
+      process.removeListener('SIGINT', onSignal);
+      process.removeListener('SIGTERM', onSignal);
+
+      const items = renderQueue.getQueue().filter(item => rendered.has(item.id));
+      reporter.summary(items, (Date.now() - started) / 1000);
+      resolveRun(code);
+    };
+
+    const checkDone = (queue: QueueItem[]) => {
+      if (interrupted || queue.some(item =>
+        item.status === 'pending' || item.status === 'rendering' || item.encoding?.status === 'encoding' ||
+        item.hookResults?.some(result => result.status === 'pending' || result.status === 'running')
+      )) return;
+
+      // Videos are encoded, and post-render hooks run, on the item of a render that settled last
+      const failed = queue.some(item =>
+        rendered.has(item.id) && (
+          item.status !== 'completed' ||
+          (item.encoding && item.encoding.status !== 'completed') ||
+          item.hookResults?.some(result => result.status === 'error')
+        )
+      );
+      finish(failed ? EXIT_CODES.FAILED : EXIT_CODES.OK);
+    };
+
+    const onProgress = (item: QueueItem) => {
+      if (item.status === 'rendering') rendered.add(item.id);
+      reporter.report(item);
+    };
+    const onQueue = (queue: QueueItem[]) => checkDone(queue);
+
+    const onSignal = () => {
+      if (interrupted) return;
+      interrupted = true;
+      console.error('Interrupted, cancelling renders...');
+      renderQueue.stopQueue();
+      finish(EXIT_CODES.INTERRUPTED);
+    };
+
+    renderQueue.onProgressUpdate(onProgress);
+    renderQueue.onQueueUpdate(onQueue);
+    process.on('SIGINT', onSignal);
+    process.on('SIGTERM', onSignal);
+    renderQueue.startQueue();
+  });
+}
+
+// NVIDIA GPUs as listed by nvidia-smi; other vendors need --gpu
+const detectGpus = (): Promise<string[]> => new Promise(resolveGpus => {
+  execFile('nvidia-smi', ['-L'], { timeout: 5000 }, (error, stdout) => {
+    if (error) {
+      resolveGpus([]);
+      return;
+    }
+    resolveGpus(stdout.split('\n')
+      .map(line => line.match(/^GPU \d+: (.+?)(?: \(UUID:.*)?$/)?.[1])
+      .filter((name): name is string => Boolean(name)));
+  });
+});
+
+async function runWorker(args: ParsedArgs): Promise<number> {
+  const coordinator = stringFlag(args, 'coordinator');
+  const token = stringFlag(args, 'token') ?? process.env.BBR_TOKEN;
+  if (!coordinator) throw new UsageError('worker needs --coordinator');
+  if (!token) throw new UsageError('worker needs --token or $BBR_TOKEN');
+  try {
+    new URL(coordinator);
+  } catch {
+    throw new UsageError(`Invalid coordinator URL "${coordinator}"`);
+  }
+  const slots = integerFlag(args, 'slots') ?? 1;
+  const threads = integerFlag(args, 'threads');
+
+  const { settings, history } = paths();
+  const blenderAPI = new NodeBlenderAPI(settings, history, stringFlag(args, 'blender'));
+  if (!(await blenderAPI.isBlenderAvailable())) {
+    console.error(`Blender not found at ${await blenderAPI.getBlenderPath()}; pass --blender or set BLENDER_PATH`);
+    return EXIT_CODES.BLENDER_NOT_FOUND;
+  }
+
+  // Renders use the default Blender; registered installations are advertised too
+  const versions = new Set([await blenderAPI.getBlenderVersion()]);
+  (await blenderAPI.listInstallations()).forEach(installation => {
+    if (installation.version) versions.add(installation.version);
+  });
+  const gpus = await detectGpus();
+  if (gpus.length === 0 && args.flags.gpu === true) gpus.push('GPU');
+
+  const worker = new FarmWorker({
+    coordinator,
+    token,
+    threads,
+    blenderAPI,
+    info: {
+      // Unique by default so several workers can run on one host
+      name: stringFlag(args, 'name') ?? `${hostname()}-${process.pid}`,
+      platform: process.platform,
+      cores: cpus().length,
+      gpus,
+      blenderVersions: [...versions],
+      slots
+    }
+  });
+
+  return new Promise(resolveRun => {
+    let leaving = false;
+
+    const finish = (code: number) => {
+      process.removeListener('SIGINT', onSignal);
+      process.removeListener('SIGTERM', onSignal);
+      resolveRun(code);
+    };
+
+    // Stays installed while leaving so a repeated signal does not kill the worker mid-way
+    const onSignal = () => {
+      if (leaving) return;
+      leaving = true;
+      console.error('Leaving the farm...');
+      worker.stop().then(() => finish(EXIT_CODES.OK));
+    };
+    process.on('SIGINT', onSignal);
+    process.on('SIGTERM', onSignal);
+
+    worker.start().catch(error => {
+      console.error(`Cannot join the farm: ${errorMessage(error)}`);
+      finish(error instanceof CoordinatorError && error.status === 400 ? EXIT_CODES.INVALID_INPUT : EXIT_CODES.FAILED);
+    });
+  });
+}
+
+const runOptions = (args: ParsedArgs, jobs: RenderJob[], defaults: { maxConcurrent: number; threads?: number; retryPolicy: Partial<RetryPolicy> }): RunOptions => {
+  const retries = integerFlag(args, 'retries');
+  return {
+    blenderPath: stringFlag(args, 'blender'),
+    ffmpegPath: stringFlag(args, 'ffmpeg'),
+    maxConcurrent: integerFlag(args, 'concurrency') ?? defaults.maxConcurrent,
+    threadBudget: defaults.threads,
+    retryPolicy: retries !== undefined ? { ...defaults.retryPolicy, maxAttempts: retries } : defaults.retryPolicy,
+    json: args.flags.json === true,
+    jobs
+  };
+};
+
+async function renderProject(args: ParsedArgs): Promise<number> {
+  const projectPath = args.positionals[1];
+  if (!projectPath) throw new UsageError('render needs a project file');
+
+  let project;
+  try {
+    project = parseProject(readFileSync(resolve(projectPath), 'utf8'));
+  } catch (error) {
+    console.error(`Cannot read ${projectPath}: ${errorMessage(error)}`);
+    return EXIT_CODES.INVALID_INPUT;
+  }
+
+  const only = stringFlag(args, 'only')?.split(',').map(name => name.trim()).filter(Boolean);
+  const files = only
+    ? project.files.filter(file => only.includes(file.name) || only.includes(file.path))
+    : project.files;
+  if (files.length === 0) {
+    console.error(only ? `No files of the project match ${only.join(', ')}` : 'The project has no files');
+    return EXIT_CODES.INVALID_INPUT;
+  }
+
+  const missing = files.filter(file => !existsSync(file.path));
+  if (missing.length > 0) {
+    console.error(`Missing blend files:\n${missing.map(file => `  ${file.path}`).join('\n')}`);
+    return EXIT_CODES.INVALID_INPUT;
+  }
+
+  const overridden = files.filter(file => file.propertyOverrides?.length || file.pythonScripts?.length);
+  if (overridden.length > 0) {
+    const { settings, history } = paths();
+    const blenderAPI = new NodeBlenderAPI(settings, history, stringFlag(args, 'blender'));
+    if (!(await blenderAPI.isBlenderAvailable())) {
+      console.error(`Blender not found at ${await blenderAPI.getBlenderPath()}; pass --blender or set BLENDER_PATH`);
+      return EXIT_CODES.BLENDER_NOT_FOUND;
+    }
+
+    let invalid = false;
+    for (const file of overridden) {
+      const problems = await validateFileOverrides(file, blenderAPI, async scripts => scripts.filter(script => !existsSync(script)));
+      problems.forEach(problem => console.error(`${file.name}: ${problem}`));
+      invalid = invalid || problems.length > 0;
+    }
+    if (invalid) return EXIT_CODES.INVALID_INPUT;
+  }
+
+  const { settings } = project;
+  return runQueue(runOptions(args, files.flatMap(file => createRenderJobs(file, settings)), {
+    maxConcurrent: settings.maxConcurrent,
+    threads: settings.threads,
+    retryPolicy: {
+      maxAttempts: settings.maxRenderAttempts,
+      backoffSeconds: settings.retryBackoffSeconds,
+      fallbackToCPU: settings.retryOnCPUAfterGPUOutOfMemory
+    }
+  }));
+}
+
+const listFlag = (args: ParsedArgs, name: string): string[] =>
+  stringFlag(args, name)?.split(',').map(value => value.trim()).filter(Boolean) ?? [];
+
+function createVideoOptions(args: ParsedArgs) {
+  const defaults = DEFAULT_PROJECT_SETTINGS.video;
+  const container = choiceFlag(args, 'container', VIDEO_CONTAINERS);
+  const video = container ? withContainer(defaults, container) : { ...defaults };
+  video.codec = choiceFlag(args, 'codec', VIDEO_CODECS) ?? video.codec;
+  video.crf = integerFlag(args, 'crf', 0) ?? video.crf;
+  video.fps = integerFlag(args, 'fps') ?? video.fps;
+
+  const problems = validateVideoOptions(video);
+  if (problems.length > 0) throw new UsageError(problems.join('; '));
+  return video;
+}
+
+// Same defaults as a file added to a new project in the app; one job per
+// camera and view layer combination
+function createJobs(blendFile: string, args: ParsedArgs): RenderJob[] {
+  const settings = {
+    ...DEFAULT_PROJECT_SETTINGS,
+    outputTemplate: stringFlag(args, 'output-template') ?? DEFAULT_PROJECT_SETTINGS.outputTemplate,
+    threads: integerFlag(args, 'threads') ?? DEFAULT_PROJECT_SETTINGS.threads,
+    chunkSize: integerFlag(args, 'chunk-size') ?? 0,
+    skipExistingFrames: args.flags['skip-existing'] === true,
+    video: createVideoOptions(args),
+    encodeSequence: args.flags.encode === true
+  };
+  const file = createBlendFile(blendFile, settings);
+  const output = stringFlag(args, 'output');
+  const resolution = stringFlag(args, 'resolution');
+  const scene = stringFlag(args, 'scene');
+  const cameras = listFlag(args, 'camera');
+  const viewLayers = listFlag(args, 'view-layer');
+
+  if (output) file.outputPath = resolve(output);
+  file.engine = choiceFlag(args, 'engine', ENGINES) ?? file.engine;
+  file.samples = integerFlag(args, 'samples') ?? file.samples;
+  file.resolution = resolution ? parseResolution(resolution) : file.resolution;
+  file.format = choiceFlag(args, 'format', FORMATS) ?? file.format;
+  const timeLimit = integerFlag(args, 'time-limit', 0);
+  const tileSize = integerFlag(args, 'tile-size', 0);
+  file.cycles = {
+    ...file.cycles,
+    deviceType: choiceFlag(args, 'device', CYCLES_DEVICE_TYPES) ?? (args.flags.gpu === true ? 'GPU' : file.cycles.deviceType),
+    devices: listFlag(args, 'devices'),
+    denoiser: choiceFlag(args, 'denoiser', DENOISERS) ?? file.cycles.denoiser,
+    ...(timeLimit !== undefined && { timeLimit }),
+    ...(tileSize !== undefined && { tileSize })
+  };
+  if ((cameras.length > 0 || viewLayers.length > 0) && !scene) {
+    throw new UsageError('--camera and --view-layer need --scene');
+  }
+  if (scene) file.targets = [{ scene, cameras, viewLayers }];
+
+  const frames = stringFlag(args, 'frames');
+  const parsed = frames ? parseFrames(frames) : undefined;
+  if (parsed && 'frames' in parsed && settings.encodeSequence && !isConsecutive(parsed.frames)) {
+    throw new UsageError(`--encode needs consecutive frames; ${frames} skips some`);
+  }
+
+  return createRenderJobs(file, settings).map(job => {
+    if (!parsed) return job;
+    if ('frames' in parsed) {
+      // Chunks are split by range and would each render the whole list
+      const { frames: list } = parsed;
+      return { ...job, options: { ...job.options, frames: list, startFrame: list[0], endFrame: list[list.length - 1] }, chunkSize: undefined };
+    }
+    return { ...job, options: { ...job.options, ...parsed } };
+  });
+}
+
+async function addToQueue(args: ParsedArgs): Promise<number> {
+  const blendFiles = args.positionals.slice(2).map(file => resolve(file));
+  if (blendFiles.length === 0) throw new UsageError('queue add needs at least one blend file');
+
+  const missing = blendFiles.filter(file => !existsSync(file));
+  if (missing.length > 0) {
+    console.error(`Blend files not found:\n${missing.map(file => `  ${file}`).join('\n')}`);
+    return EXIT_CODES.INVALID_INPUT;
+  }
+
+  const jobs = blendFiles.flatMap(file => createJobs(file, args));
+  return editQueue(() => {
+    jobs.forEach(job => {
+      const id = renderQueue.addToQueue({ blendFile: job.blendFile, outputPath: job.outputPath, options: job.options, encode: job.encode, hooks: job.hooks, retryPolicy: job.retryPolicy }, job.chunkSize);
+      console.log(`${id}\t${job.blendFile}`);
+    });
+    return EXIT_CODES.OK;
+  });
+}
+
+/**
+ * Change the stored queue without rendering. Refused while a run owns the
+ * queue, since that run would overwrite the change with its own state.
+ */
+async function editQueue(edit: () => number): Promise<number> {
+  const { lock, journal } = paths();
+  const locked = acquireRunLock(lock);
+  if (!locked.acquired) {
+    console.error(`The queue is being rendered by process ${locked.pid}; try again when it has finished`);
+    return EXIT_CODES.BUSY;
+  }
+
+  try {
+    // Stays paused so nothing starts rendering
+    renderQueue.pauseQueue();
+    renderQueue.setJournal(new FileQueueJournal(journal));
+    await renderQueue.restoreQueue();
+    return edit();
+  } finally {
+    releaseRunLock(lock);
+  }
+}
+
+const describeItem = (item: QueueItem): string => {
+  switch (item.status) {
+    case 'rendering':
+      return item.currentFrame !== undefined
+        ? `frame ${item.currentFrame}/${item.totalFrames ?? '?'} (${item.progress}%)` +
+          (item.secondsRemaining !== undefined ? `, ${formatDuration(item.secondsRemaining)} left` : '')
+        : 'starting';
+    case 'pending':
+      return item.nextRetryAt ? `retrying at ${item.nextRetryAt.toLocaleTimeString()}` : '';
+    case 'error':
+      return item.error ?? '';
+    case 'interrupted':
+      return item.resumeFromFrame !== undefined ? `resumable from frame ${item.resumeFromFrame}` : '';
+    case 'completed':
+      return item.encoding
+        ? `video ${item.encoding.status}${item.encoding.status === 'encoding' ? ` (${item.encoding.progress}%)` : ''}` +
+          (item.encoding.error ? `: ${item.encoding.error}` : '')
+        : '';
+    default:
+      return '';
+  }
+};
+
+async function showStatus(args: ParsedArgs): Promise<number> {
+  const { lock, journal } = paths();
+  const runner = readRunLock(lock);
+  let items: QueueItem[];
+  try {
+    items = await new FileQueueJournal(journal).load();
+  } catch (error) {
+    console.error(`Cannot read the queue: ${errorMessage(error)}`);
+    return EXIT_CODES.INVALID_INPUT;
+  }
+
+  if (args.flags.json === true) {
+    console.log(JSON.stringify({ runningPid: runner, items }, null, 2));
+    return EXIT_CODES.OK;
+  }
+
+  console.log(runner !== null ? `Rendering (process ${runner})` : 'Idle');
+  if (items.length === 0) {
+    console.log('The queue is empty');
+    return EXIT_CODES.OK;
+  }
+
+  items.forEach(item => {
+    const frames = item.options.frames
+      ? `${item.options.frames.length} frames`
+      : `frames ${item.options.startFrame}-${item.options.endFrame}`;
+    // Items left "rendering" by a run that is gone will resume on the next run
+    const status = item.status === 'rendering' && runner === null ? 'interrupted' : item.status;
+    console.log([item.id, status.padEnd(11), item.blendFile, frames, describeItem(item)].filter(Boolean).join('  '));
+  });
+  return EXIT_CODES.OK;
+}
+
+async function runQueueCommand(args: ParsedArgs): Promise<number> {
+  const subcommand = args.positionals[1];
+  switch (subcommand) {
+    case 'add':
+      return addToQueue(args);
+    case 'run':
+      return runQueue(runOptions(args, [], {
+        maxConcurrent: 1,
+        threads: integerFlag(args, 'threads'),
+        retryPolicy: {}
+      }));
+    case 'remove': {
+      const id = args.positionals[2];
+      if (!id) throw new UsageError('queue remove needs an item id');
+      return editQueue(() => {
+        if (renderQueue.removeFromQueue(id)) return EXIT_CODES.OK;
+        console.error(`No queue item ${id}`);
+        return EXIT_CODES.INVALID_INPUT;
+      });
+    }
+    case 'clear':
+      return editQueue(() => {
+        renderQueue.clearQueue();
+        return EXIT_CODES.OK;
+      });
+    default:
+      throw new UsageError(subcommand ? `Unknown queue command "${subcommand}"` : 'queue needs a command');
+  }
+}
+
+export async function main(argv: string[]): Promise<number> {
+  try {
+    const args = parseArgs(argv, BOOLEAN_FLAGS);
+    const command = args.positionals[0];
+
+    if (!command || command === 'help' || args.flags.help === true) {
+      console.log(USAGE);
+      return command || args.flags.help === true ? EXIT_CODES.OK : EXIT_CODES.USAGE;
+    }
+
+    switch (command) {
+      case 'render':
+        return await renderProject(args);
+      case 'queue':
+        return await runQueueCommand(args);
+      case 'status':
+        return await showStatus(args);
+      case 'worker':
+        return await runWorker(args);
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return EXIT_CODES.USAGE;
+    }
+    if (error instanceof OutputTemplateError) {
+      console.error(error.message);
+      return EXIT_CODES.INVALID_INPUT;
+    }
+    console.error(errorMessage(error));
+    return EXIT_CODES.FAILED;
+  }
+}
+
+// Output piped into `head` and the like: stop quietly once the reader goes away
+process.stdout.on('error', error => {
+  if ((error as NodeJS.ErrnoException).code === 'EPIPE') process.exit(process.exitCode ?? EXIT_CODES.OK);
+  throw error;
+});
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
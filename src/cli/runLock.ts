@@ -0,0 +1,122 @@
+import { closeSync, existsSync, linkSync, mkdirSync, openSync, readFileSync, renameSync, statSync, unlinkSync, writeSync } from 'fs';
+import { dirname } from 'path';
+
+// A lock file without a pid may still be being written by the run that created it
+const PARTIAL_LOCK_MS = 2000;
+const MAX_ATTEMPTS = 20;
+
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: alive but owned by another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+};
+
+const sleep = (ms: number) => Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+// Creates the lock file only if there is none, so two runs cannot both succeed
+const createLock = (lockPath: string): boolean => {
+  let fd: number;
+  try {
+    fd = openSync(lockPath, 'wx');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+    throw error;
+  }
+  try {
+    writeSync(fd, String(process.pid));
+  } finally {
+    closeSync(fd);
+  }
+  return true;
+};
+
+// Contents and age of the lock file; null once it is gone
+const readLock = (lockPath: string): { content: string; ageMs: number } | null => {
+  try {
+    const { mtimeMs } = statSync(lockPath);
+    return { content: readFileSync(lockPath, 'utf8'), ageMs: Date.now() - mtimeMs };
+  } catch (error) {
+    if (isMissing(error)) return null;
+    throw error;
+  }
+};
+
+/**
+ * Move a stale lock out of the way. Only one run can rename the file, so
+ * two runs that both found it stale cannot both go on to take the lock; a
+ * lock another run created in between is put back.
+ */
+const removeStaleLock = (lockPath: string, staleContent: string): void => {
+  const moved = `${lockPath}.${process.pid}.${Date.now()}.stale`;
+  try {
+    renameSync(lockPath, moved);
+  } catch (error) {
+    if (isMissing(error)) return;
+    throw error;
+  }
+
+  try {
+    if (readFileSync(moved, 'utf8') !== staleContent) {
+      // Fails if yet another run created a lock since
+      linkSync(moved, lockPath);
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+  } finally {
+    unlinkSync(moved);
+  }
+};
+
+/**
+ * Process id of the `bbr` run holding the queue, if it is still alive.
+ * Locks left behind by a crashed run are ignored.
+ */
+export const readRunLock = (lockPath: string): number | null => {
+  if (!existsSync(lockPath)) return null;
+
+  const pid = parseInt(readFileSync(lockPath, 'utf8'), 10);
+  return Number.isInteger(pid) && isProcessAlive(pid) ? pid : null;
+};
+
+/**
+ * Take the lock for this process. Returns the pid of the current holder
+ * instead when another run is active. A lock left behind by a run that
+ * died is removed and the lock taken again, unless another run got to
+ * it first.
+ */
+export const acquireRunLock = (lockPath: string): { acquired: true } | { acquired: false; pid: number } => {
+  mkdirSync(dirname(lockPath), { recursive: true });
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    if (createLock(lockPath)) return { acquired: true };
+
+    const lock = readLock(lockPath);
+    // Released in between
+    if (!lock) continue;
+
+    const pid = parseInt(lock.content, 10);
+    if (Number.isInteger(pid)) {
+      if (pid === process.pid) return { acquired: true };
+      if (isProcessAlive(pid)) return { acquired: false, pid };
+    } else if (lock.ageMs < PARTIAL_LOCK_MS) {
+      sleep(PARTIAL_LOCK_MS / 10);
+      continue;
+    }
+
+    removeStaleLock(lockPath, lock.content);
+  }
+
+  throw new Error(`Could not take the run lock ${lockPath}`);
+};
+
+export const releaseRunLock = (lockPath: string): void => {
+  if (readRunLock(lockPath) === process.pid) {
+    unlinkSync(lockPath);
+  }
+};
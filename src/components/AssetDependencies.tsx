@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+import { AssetKind, DependencyScan } from '../types/blender';
+
+const KIND_LABELS: Record<AssetKind, string> = {
+  image: 'Texture',
+  hdri: 'HDRI',
+  library: 'Library',
+  sound: 'Sound',
+  movie: 'Movie clip',
+  font: 'Font',
+  volume: 'Volume',
+  cache: 'Cache'
+};
+
+interface AssetDependenciesProps {
+  dependencies?: DependencyScan;
+  onScan: () => Promise<void>;
+}
+
+export const AssetDependencies: React.FC<AssetDependenciesProps> = ({ dependencies, onScan }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    setError(null);
+    try {
+      await onScan();
+    } catch (scanError) {
+      setError(scanError instanceof Error ? scanError.message : String(scanError));
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const missing = dependencies?.assets.filter(asset => asset.missing) ?? [];
+
+  return (
+    <div className="mt-1 text-xs">
+      <div className="flex items-center justify-between text-slate-500">
+        {dependencies ? (
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            disabled={dependencies.assets.length === 0}
+            className="flex items-center space-x-1 hover:text-slate-700 disabled:hover:text-slate-500"
+            title={`Scanned ${new Date(dependencies.scannedAt).toLocaleString()}`}
+          >
+            <span>{dependencies.assets.length} external file(s)</span>
+            {missing.length > 0 && <span className="text-red-600 font-medium">• {missing.length} missing</span>}
+            {dependencies.assets.length > 0 && (isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />)}
+          </button>
+        ) : (
+          <span>Assets not checked</span>
+        )}
+        <button
+          onClick={handleScan}
+          disabled={isScanning}
+          className="ml-2 shrink-0 flex items-center space-x-1 text-blue-600 hover:text-blue-700 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-3 h-3 ${isScanning ? 'animate-spin' : ''}`} />
+          <span>{dependencies ? 'Rescan assets' : 'Check assets'}</span>
+        </button>
+      </div>
+
+      {error && <p className="mt-1 text-amber-600 truncate" title={error}>{error}</p>}
+
+      {isExpanded && dependencies && (
+        <ul className="mt-1 space-y-0.5 max-h-40 overflow-y-auto">
+          {/* Missing files first */}
+          {[...dependencies.assets].sort((a, b) => Number(b.missing) - Number(a.missing)).map((asset, index) => (
+            <li key={index} className={`flex space-x-2 ${asset.missing ? 'text-red-600' : 'text-slate-500'}`}>
+              <span className="w-16 shrink-0">{KIND_LABELS[asset.kind]}</span>
+              <span className="truncate" title={asset.path === asset.resolvedPath ? asset.path : `${asset.path} → ${asset.resolvedPath}`}>
+                {asset.resolvedPath}
+              </span>
+              {asset.missing && <span className="shrink-0 font-medium">missing</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
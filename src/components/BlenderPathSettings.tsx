@@ -1,18 +1,30 @@
 import React, { useState } from 'react';
-import { Settings, FolderOpen, CheckCircle, XCircle, RefreshCw } from 'lucide-react';
+import { Settings, FolderOpen, CheckCircle, XCircle, RefreshCw, Trash2, Search } from 'lucide-react';
 import { useBlenderService } from '../hooks/useBlenderService';
 import { useElectron } from '../hooks/useElectron';
 
-export const BlenderPathSettings: React.FC = () => {
+interface BlenderPathSettingsProps {
+  // Called after installations are added, removed, validated or discovered
+  onInstallationsChange?: () => void;
+}
+
+export const BlenderPathSettings: React.FC<BlenderPathSettingsProps> = ({ onInstallationsChange }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [customPath, setCustomPath] = useState('');
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [installationError, setInstallationError] = useState<string | null>(null);
   const { 
     isBlenderAvailable, 
     blenderVersion, 
     blenderPath, 
     isChecking, 
     checkBlenderAvailability, 
-    updateBlenderPath 
+    updateBlenderPath,
+    installations,
+    addInstallation,
+    removeInstallation,
+    validateInstallation,
+    discoverInstallations
   } = useBlenderService();
   const { electronAPI } = useElectron();
 
@@ -40,6 +52,25 @@ export const BlenderPathSettings: React.FC = () => {
     }
   };
 
+  const runInstallationAction = async (action: () => Promise<unknown>) => {
+    setInstallationError(null);
+    try {
+      await action();
+      onInstallationsChange?.();
+    } catch (error) {
+      setInstallationError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleAddInstallation = () =>
+    runInstallationAction(() => addInstallation(customPath.trim()));
+
+  const handleDiscover = async () => {
+    setIsDiscovering(true);
+    await runInstallationAction(discoverInstallations);
+    setIsDiscovering(false);
+  };
+
   if (!isOpen) {
     return (
       <button
@@ -54,7 +85,7 @@ export const BlenderPathSettings: React.FC = () => {
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-lg p-6 w-full max-w-md mx-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-lg font-semibold">Blender Configuration</h3>
           <button
@@ -119,12 +150,84 @@ export const BlenderPathSettings: React.FC = () => {
               </button>
             </div>
             {customPath && (
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={handleSetCustomPath}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                >
+                  Set Path
+                </button>
+                <button
+                  onClick={handleAddInstallation}
+                  className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors"
+                >
+                  Add as Installation
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Installations */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">
+                Installations
+              </label>
               <button
-                onClick={handleSetCustomPath}
-                className="mt-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                onClick={handleDiscover}
+                disabled={isDiscovering}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400"
               >
-                Set Path
+                <Search className={`w-4 h-4 ${isDiscovering ? 'animate-pulse' : ''}`} />
+                {isDiscovering ? 'Searching...' : 'Find Installations'}
               </button>
+            </div>
+            {installations.length === 0 ? (
+              <div className="p-2 text-sm text-gray-500">
+                Only the default Blender above is used. Add installations to pick a version per file.
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {installations.map(installation => (
+                  <div key={installation.id} className="flex items-center gap-2 p-2">
+                    {installation.available ? (
+                      <CheckCircle className="w-4 h-4 text-green-500 shrink-0" />
+                    ) : (
+                      <XCircle className="w-4 h-4 text-red-500 shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium truncate">
+                        {installation.name}
+                        {installation.version && (
+                          <span className="ml-2 text-gray-500 font-normal">{installation.version}</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500 font-mono truncate" title={installation.path}>
+                        {installation.path}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => runInstallationAction(() => validateInstallation(installation.id))}
+                      className="p-1 text-gray-400 hover:text-blue-600"
+                      title="Check installation"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => runInstallationAction(() => removeInstallation(installation.id))}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Remove installation"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {installationError && (
+              <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+                {installationError}
+              </div>
             )}
           </div>
 
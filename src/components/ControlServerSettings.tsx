@@ -0,0 +1,206 @@
+import React, { useState, useEffect } from 'react';
+import { Globe, Copy, RefreshCw, Eye, EyeOff, CheckCircle, XCircle } from 'lucide-react';
+import { useElectron } from '../hooks/useElectron';
+import { ControlServerConfig, ControlServerStatus } from '../types/control';
+
+interface ControlServerSettingsProps {
+  onConfigChange?: (config: ControlServerConfig) => void;
+}
+
+export const ControlServerSettings: React.FC<ControlServerSettingsProps> = ({ onConfigChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [config, setConfig] = useState<ControlServerConfig | null>(null);
+  const [status, setStatus] = useState<ControlServerStatus>({ running: false });
+  const [showToken, setShowToken] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { electronAPI } = useElectron();
+
+  useEffect(() => {
+    if (!electronAPI?.control) return;
+
+    electronAPI.control.getStatus().then(setStatus);
+    if (isOpen) {
+      electronAPI.control.getConfig().then(setConfig);
+    }
+  }, [electronAPI, isOpen]);
+
+  const handleSave = async () => {
+    if (!electronAPI?.control || !config) return;
+
+    setIsSaving(true);
+    try {
+      setStatus(await electronAPI.control.setConfig({
+        enabled: config.enabled,
+        host: config.host.trim() || '127.0.0.1',
+        port: config.port,
+        renderLocally: config.renderLocally
+      }));
+      onConfigChange?.(config);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRegenerateToken = async () => {
+    if (!electronAPI?.control || !config) return;
+    const token = await electronAPI.control.regenerateToken();
+    setConfig({ ...config, token });
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="flex items-center space-x-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+        title={status.running ? `Control API at ${status.url}` : 'Control API is off'}
+      >
+        <Globe className={`w-4 h-4 ${status.running ? 'text-green-600' : ''}`} />
+        <span className="text-sm font-medium">Remote API</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Remote Control API</h3>
+          <button
+            onClick={() => setIsOpen(false)}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            ×
+          </button>
+        </div>
+
+        {config && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
+              {status.running ? (
+                <CheckCircle className="w-5 h-5 text-green-500" />
+              ) : (
+                <XCircle className="w-5 h-5 text-slate-400" />
+              )}
+              <div className="text-sm">
+                <div className="font-medium">
+                  {status.running ? `Listening on ${status.url}` : 'Not running'}
+                </div>
+                {status.error && <div className="text-red-600">{status.error}</div>}
+              </div>
+            </div>
+
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={config.enabled}
+                onChange={(e) => setConfig({ ...config, enabled: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              <span className="text-sm font-medium text-gray-700">Enable the HTTP/WebSocket control API</span>
+            </label>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Bind address</label>
+                <input
+                  type="text"
+                  value={config.host}
+                  onChange={(e) => setConfig({ ...config, host: e.target.value })}
+                  placeholder="127.0.0.1"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Port</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={65535}
+                  value={config.port}
+                  onChange={(e) => setConfig({ ...config, port: Math.min(65535, Math.max(1, parseInt(e.target.value) || 1)) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              127.0.0.1 only accepts connections from this machine; use 0.0.0.0 to accept them from the LAN.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Access token</label>
+              <div className="flex gap-2">
+                <input
+                  type={showToken ? 'text' : 'password'}
+                  value={config.token}
+                  readOnly
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm bg-gray-50"
+                />
+                <button
+                  onClick={() => setShowToken(!showToken)}
+                  className="px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                  title={showToken ? 'Hide token' : 'Show token'}
+                >
+                  {showToken ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => navigator.clipboard.writeText(config.token)}
+                  className="px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                  title="Copy token"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={handleRegenerateToken}
+                  className="px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                  title="Generate a new token; existing clients lose access"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Send as <code>Authorization: Bearer &lt;token&gt;</code>, or <code>?token=</code> for the WebSocket at /api/events.
+              </p>
+            </div>
+
+            <div className="border-t border-gray-200 pt-4">
+              <h4 className="text-sm font-semibold text-gray-900 mb-1">Render farm</h4>
+              <p className="text-xs text-gray-500 mb-2">
+                Other machines join as render nodes with{' '}
+                <code>bbr worker --coordinator http://&lt;this-machine&gt;:{config.port} --token &lt;token&gt;</code>.
+                They need the blend files and output folders at the same paths as this machine.
+              </p>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={config.renderLocally}
+                  onChange={(e) => setConfig({ ...config, renderLocally: e.target.checked })}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-gray-700">Render on this computer too</span>
+              </label>
+            </div>
+
+            {status.running && status.url && (
+              <button
+                onClick={() => electronAPI?.openExternal(`${status.url}/api/openapi.json`)}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                View the OpenAPI document
+              </button>
+            )}
+
+            <div className="flex justify-end">
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+              >
+                {isSaving ? 'Applying...' : 'Apply'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { blenderService } from '../services/BlenderService';
+import { CYCLES_DEVICE_TYPES, DENOISERS, DENOISING_INPUTS } from '../services/ProjectService';
+import { CyclesDevice, CyclesOptions } from '../types/blender';
+import { DENOISER_LABELS, DENOISING_INPUT_LABELS, DEVICE_TYPE_LABELS } from '../utils/cyclesOptions';
+
+interface CyclesSettingsProps {
+  cycles: CyclesOptions;
+  onChange: (cycles: CyclesOptions) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export const CyclesSettings: React.FC<CyclesSettingsProps> = ({ cycles, onChange }) => {
+  // Devices of this machine, listed on request since it starts Blender
+  const [devices, setDevices] = useState<CyclesDevice[] | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<CyclesOptions>) => onChange({ ...cycles, ...changes });
+
+  const handleDetect = async () => {
+    setIsDetecting(true);
+    setError(null);
+    try {
+      setDevices(await blenderService.listDevices());
+    } catch (detectError) {
+      setError(detectError instanceof Error ? detectError.message : String(detectError));
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  // Devices a render of the chosen type can use, the CPU included
+  const choices = (devices ?? []).filter(device => device.type === 'CPU' || cycles.deviceType === 'GPU' || device.type === cycles.deviceType);
+  const names = [...new Set([...choices.map(device => device.name), ...cycles.devices])];
+
+  const toggleDevice = (name: string) => update({
+    devices: cycles.devices.includes(name) ? cycles.devices.filter(device => device !== name) : [...cycles.devices, name]
+  });
+
+  return (
+    <div className="space-y-3 p-3 bg-slate-50 rounded-lg">
+      <p className="text-sm font-medium text-slate-700">Cycles</p>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Device</label>
+        <div className="flex space-x-2">
+          <select
+            value={cycles.deviceType}
+            onChange={(e) => update({ deviceType: e.target.value as CyclesOptions['deviceType'], devices: [] })}
+            className={inputClass}
+          >
+            {CYCLES_DEVICE_TYPES.map(type => <option key={type} value={type}>{DEVICE_TYPE_LABELS[type]}</option>)}
+          </select>
+          {cycles.deviceType !== 'CPU' && (
+            <button
+              onClick={handleDetect}
+              disabled={isDetecting}
+              className="px-3 py-2 text-sm bg-slate-100 hover:bg-slate-200 disabled:opacity-50 rounded-lg transition-colors whitespace-nowrap"
+            >
+              {isDetecting ? 'Detecting...' : 'Detect'}
+            </button>
+          )}
+        </div>
+        {cycles.deviceType !== 'CPU' && (
+          <div className="mt-1 text-xs text-slate-600 space-y-0.5">
+            {names.map(name => (
+              <label key={name} className="flex items-center space-x-1">
+                <input type="checkbox" checked={cycles.devices.includes(name)} onChange={() => toggleDevice(name)} />
+                <span className="truncate">{name}</span>
+              </label>
+            ))}
+            {devices && choices.length === 0 && <p className="text-amber-600">Blender found no {DEVICE_TYPE_LABELS[cycles.deviceType]} devices</p>}
+            <p className="text-slate-500">
+              {cycles.devices.length === 0 ? 'Renders on every device of the type and the CPU' : 'Renders fail on machines missing a ticked device'}
+            </p>
+          </div>
+        )}
+        {error && <p className="mt-1 text-xs text-red-600 whitespace-pre-line">{error}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Denoiser</label>
+          <select
+            value={cycles.denoiser}
+            onChange={(e) => update({ denoiser: e.target.value as CyclesOptions['denoiser'] })}
+            className={inputClass}
+          >
+            {DENOISERS.map(denoiser => <option key={denoiser} value={denoiser}>{DENOISER_LABELS[denoiser]}</option>)}
+          </select>
+        </div>
+        {cycles.denoiser !== 'NONE' && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Denoising Passes</label>
+            <select
+              value={cycles.denoisingInput}
+              onChange={(e) => update({ denoisingInput: e.target.value as CyclesOptions['denoisingInput'] })}
+              className={inputClass}
+            >
+              {DENOISING_INPUTS.map(input => <option key={input} value={input}>{DENOISING_INPUT_LABELS[input]}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Noise Threshold</label>
+          <input
+            type="number"
+            value={cycles.adaptiveThreshold}
+            onChange={(e) => update({ adaptiveThreshold: Math.max(0, parseFloat(e.target.value) || 0) })}
+            min="0"
+            step="0.001"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Time Limit (s)</label>
+          <input
+            type="number"
+            value={cycles.timeLimit}
+            onChange={(e) => update({ timeLimit: Math.max(0, parseFloat(e.target.value) || 0) })}
+            min="0"
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">A noise threshold of 0 turns adaptive sampling off; a time limit of 0 has no limit</p>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Tile Size</label>
+        <input
+          type="number"
+          value={cycles.tileSize}
+          onChange={(e) => update({ tileSize: Math.max(0, parseInt(e.target.value) || 0) })}
+          min="0"
+          step="256"
+          className={inputClass}
+        />
+        <p className="mt-1 text-xs text-slate-500">Smaller tiles use less memory; 0 renders each frame as one tile</p>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="persistentData"
+          checked={cycles.persistentData}
+          onChange={(e) => update({ persistentData: e.target.checked })}
+          className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+        />
+        <label htmlFor="persistentData" className="text-sm font-medium text-slate-700">
+          Persistent Data
+        </label>
+      </div>
+    </div>
+  );
+};
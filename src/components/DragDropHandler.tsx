@@ -1,26 +1,51 @@
 import { useEffect } from 'react';
 import { useElectron } from '../hooks/useElectron';
+import { blenderService } from '../services/BlenderService';
+import { BlendFileInfo } from '../utils/blendFileReader';
 
 interface DragDropHandlerProps {
-  onFilesDropped: (files: string[]) => void;
+  // Receives the header of every dropped file that is a real .blend file
+  onFilesDropped: (files: string[], fileInfos: Record<string, BlendFileInfo>) => void;
 }
 
 export const DragDropHandler: React.FC<DragDropHandlerProps> = ({ onFilesDropped }) => {
-  const { dragDropAPI } = useElectron();
+  const { dragDropAPI, electronAPI } = useElectron();
 
   useEffect(() => {
     if (!dragDropAPI) return;
 
-    const handleFileDrop = (files: string[]) => {
+    const handleFileDrop = async (files: string[]) => {
       // Filter for .blend files
-      const blendFiles = files.filter(file => file.toLowerCase().endsWith('.blend'));
+      const candidates = files.filter(file => file.toLowerCase().endsWith('.blend'));
+
+      const fileInfos: Record<string, BlendFileInfo> = {};
+      const rejected: string[] = [];
+      await Promise.all(candidates.map(async file => {
+        try {
+          fileInfos[file] = await blenderService.inspectFile(file);
+        } catch (error) {
+          console.warn(`Skipping ${file}:`, error);
+          rejected.push(file);
+        }
+      }));
+
+      if (rejected.length > 0) {
+        electronAPI?.showMessageBox({
+          type: 'warning',
+          title: 'Unreadable Files Skipped',
+          message: `These files are not valid .blend files:\n${rejected.join('\n')}`,
+          buttons: ['OK']
+        });
+      }
+
+      const blendFiles = candidates.filter(file => fileInfos[file]);
       if (blendFiles.length > 0) {
-        onFilesDropped(blendFiles);
+        onFilesDropped(blendFiles, fileInfos);
       }
     };
 
     dragDropAPI.onFileDrop(handleFileDrop);
-  }, [dragDropAPI, onFilesDropped]);
+  }, [dragDropAPI, electronAPI, onFilesDropped]);
 
   return null; // This component doesn't render anything
-};
\ No newline at end of file
+};
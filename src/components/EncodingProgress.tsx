@@ -0,0 +1,39 @@
+import React from 'react';
+import { Film } from 'lucide-react';
+import { EncodingState } from '../services/RenderQueue';
+
+const LABELS: Record<EncodingState['status'], string> = {
+  encoding: 'Encoding video',
+  completed: 'Video encoded',
+  error: 'Video encoding failed',
+  cancelled: 'Video encoding cancelled'
+};
+
+const COLORS: Record<EncodingState['status'], string> = {
+  encoding: 'text-blue-600',
+  completed: 'text-green-600',
+  error: 'text-red-600',
+  cancelled: 'text-slate-500'
+};
+
+export const EncodingProgress: React.FC<{ encoding: EncodingState }> = ({ encoding }) => (
+  <div className="mt-1 text-xs">
+    <div className={`flex items-center space-x-2 ${COLORS[encoding.status]}`}>
+      <Film className="w-3 h-3" />
+      <span>{LABELS[encoding.status]}{encoding.status === 'encoding' && ` (${encoding.progress}%)`}</span>
+      {encoding.status === 'encoding' && (
+        <div className="w-24 bg-slate-200 rounded-full h-1.5">
+          <div
+            className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
+            style={{ width: `${encoding.progress}%` }}
+          ></div>
+        </div>
+      )}
+    </div>
+    {encoding.error && (
+      <div className="mt-1 p-2 bg-red-50 border border-red-200 rounded text-red-700 whitespace-pre-line">
+        {encoding.error}
+      </div>
+    )}
+  </div>
+);
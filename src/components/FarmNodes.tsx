@@ -0,0 +1,74 @@
+import React from 'react';
+import { Server, Cpu, Zap } from 'lucide-react';
+import { useFarmNodes } from '../hooks/useFarmNodes';
+import { FarmNode } from '../types/farm';
+
+const STATUS_STYLES: Record<FarmNode['status'], string> = {
+  idle: 'bg-green-100 text-green-700',
+  busy: 'bg-blue-100 text-blue-700',
+  offline: 'bg-slate-100 text-slate-500'
+};
+
+interface FarmNodesProps {
+  // Labels for the items nodes are rendering, by item id
+  describeItem: (id: string) => string;
+}
+
+export const FarmNodes: React.FC<FarmNodesProps> = ({ describeItem }) => {
+  const nodes = useFarmNodes();
+
+  if (nodes.length === 0) return null;
+
+  const online = nodes.filter(node => node.status !== 'offline').length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-slate-900">Render Nodes</h2>
+        <span className="text-sm text-slate-600">{online} of {nodes.length} online</span>
+      </div>
+
+      <div className="space-y-3">
+        {nodes.map(node => (
+          <div key={node.id} className="border border-slate-200 rounded-lg p-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 min-w-0">
+                <Server className="w-4 h-4 text-slate-500 flex-shrink-0" />
+                <span className="text-sm font-medium text-slate-900 truncate" title={node.address}>{node.name}</span>
+              </div>
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[node.status]}`}>
+                {node.status}
+              </span>
+            </div>
+
+            <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs text-slate-500">
+              <span className="flex items-center space-x-1">
+                <Cpu className="w-3 h-3" />
+                <span>{node.cores} cores</span>
+              </span>
+              {node.gpus.length > 0 && (
+                <span className="flex items-center space-x-1" title={node.gpus.join(', ')}>
+                  <Zap className="w-3 h-3" />
+                  <span>{node.gpus.length} GPU{node.gpus.length > 1 ? 's' : ''}</span>
+                </span>
+              )}
+              <span>Blender {node.blenderVersions.join(', ')}</span>
+              <span>{node.completedJobs} done{node.failedJobs > 0 && `, ${node.failedJobs} failed`}</span>
+            </div>
+
+            {node.jobs.length > 0 && (
+              <div className="mt-2 text-xs text-slate-700">
+                {node.jobs.map(id => describeItem(id)).join(' • ')}
+              </div>
+            )}
+            {node.status === 'offline' && (
+              <div className="mt-2 text-xs text-slate-500">
+                Last seen {node.lastSeen.toLocaleTimeString()}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
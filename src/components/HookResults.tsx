@@ -0,0 +1,55 @@
+import React from 'react';
+import { Workflow } from 'lucide-react';
+import { HookResult } from '../types/hooks';
+import { formatDuration } from '../utils/renderHistory';
+
+const LABELS: Record<HookResult['status'], string> = {
+  pending: 'waiting',
+  running: 'running',
+  completed: 'done',
+  error: 'failed',
+  skipped: 'skipped'
+};
+
+const COLORS: Record<HookResult['status'], string> = {
+  pending: 'text-slate-500',
+  running: 'text-blue-600',
+  completed: 'text-green-600',
+  error: 'text-red-600',
+  skipped: 'text-slate-400'
+};
+
+const duration = (result: HookResult) =>
+  result.startTime && result.endTime
+    ? ` in ${formatDuration((result.endTime.getTime() - result.startTime.getTime()) / 1000)}`
+    : '';
+
+// Pre- and post-render hook runs of a queue item, with their logs folded away
+export const HookResults: React.FC<{ results: HookResult[] }> = ({ results }) => results.length === 0 ? null : (
+  <div className="mt-1 space-y-1 text-xs">
+    {results.map(result => (
+      <div key={`${result.stage}-${result.hookId}`}>
+        <div className={`flex items-center space-x-2 ${COLORS[result.status]}`}>
+          <Workflow className="w-3 h-3" />
+          <span>
+            {result.stage === 'pre' ? 'Before' : 'After'} render: {result.name} {LABELS[result.status]}
+            {result.status !== 'running' && duration(result)}
+          </span>
+        </div>
+        {result.error && (
+          <div className="mt-1 p-2 bg-red-50 border border-red-200 rounded text-red-700 whitespace-pre-line">
+            {result.error}
+          </div>
+        )}
+        {result.log && (
+          <details className="mt-1 ml-5">
+            <summary className="cursor-pointer text-slate-500 hover:text-slate-700">Log</summary>
+            <pre className="mt-1 p-2 bg-slate-50 border border-slate-200 rounded text-slate-700 whitespace-pre-wrap break-all max-h-48 overflow-y-auto">
+              {result.log}
+            </pre>
+          </details>
+        )}
+      </div>
+    ))}
+  </div>
+);
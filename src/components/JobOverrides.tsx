@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Trash2 } from 'lucide-react';
+import { useElectron } from '../hooks/useElectron';
+import { OverrideType, PropertyOverride } from '../types/blender';
+import { checkOverride, COMMON_OVERRIDES, defaultOverrideValue } from '../utils/propertyOverrides';
+
+interface JobOverridesProps {
+  fileId: string;
+  overrides: PropertyOverride[];
+  scripts: string[];
+  onChange: (overrides: PropertyOverride[], scripts: string[]) => void;
+}
+
+const TYPES: OverrideType[] = ['boolean', 'number', 'string', 'vector'];
+
+const generateId = () => `override-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+const parseValue = (type: OverrideType, text: string): PropertyOverride['value'] => {
+  if (type === 'number') return text.trim() === '' ? NaN : Number(text);
+  if (type === 'vector') return text.split(',').map(part => (part.trim() === '' ? NaN : Number(part)));
+  return text;
+};
+
+const ValueInput: React.FC<{ override: PropertyOverride; onChange: (value: PropertyOverride['value']) => void }> = ({ override, onChange }) => {
+  // Numbers are edited as text so half-typed values like "0." survive
+  const [text, setText] = useState(Array.isArray(override.value) ? override.value.join(', ') : String(override.value));
+
+  if (override.type === 'boolean') {
+    return <input type="checkbox" checked={override.value === true} onChange={(e) => onChange(e.target.checked)} />;
+  }
+
+  return (
+    <input
+      type="text"
+      value={override.type === 'string' ? String(override.value) : text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseValue(override.type, e.target.value));
+      }}
+      placeholder={override.type === 'vector' ? '1, 0.5, 0' : ''}
+      className="w-28 px-2 py-1 border border-slate-300 rounded font-mono"
+    />
+  );
+};
+
+export const JobOverrides: React.FC<JobOverridesProps> = ({ fileId, overrides, scripts, onChange }) => {
+  const { electronAPI } = useElectron();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const updateOverride = (id: string, changes: Partial<PropertyOverride>) => {
+    onChange(overrides.map(override => (override.id === id ? { ...override, ...changes } : override)), scripts);
+  };
+
+  const handleDataPathChange = (override: PropertyOverride, dataPath: string) => {
+    // Picking a suggestion also picks its type
+    const known = COMMON_OVERRIDES.find(candidate => candidate.dataPath === dataPath);
+    updateOverride(override.id, known && known.type !== override.type
+      ? { dataPath, type: known.type, value: defaultOverrideValue(known.type) }
+      : { dataPath });
+  };
+
+  const handleAddScript = async () => {
+    if (!electronAPI) return;
+
+    const result = await electronAPI.showOpenDialog({
+      properties: ['openFile', 'multiSelections'],
+      filters: [{ name: 'Python Scripts', extensions: ['py'] }]
+    });
+    if (result.canceled || result.filePaths.length === 0) return;
+    onChange(overrides, [...scripts, ...result.filePaths.filter((path: string) => !scripts.includes(path))]);
+  };
+
+  const count = overrides.length + scripts.length;
+  const invalid = overrides.filter(override => checkOverride(override)).length;
+
+  return (
+    <div className="mt-1 text-xs">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center space-x-1 text-slate-500 hover:text-slate-700"
+      >
+        <span>
+          {count === 0 ? 'No overrides' : `${overrides.length} property override(s), ${scripts.length} script(s)`}
+        </span>
+        {invalid > 0 && <span className="text-red-600 font-medium">• {invalid} invalid</span>}
+        {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-1 p-2 bg-slate-50 rounded space-y-2">
+          <datalist id={`override-paths-${fileId}`}>
+            {COMMON_OVERRIDES.map(({ dataPath, label }) => <option key={dataPath} value={dataPath}>{label}</option>)}
+          </datalist>
+
+          {overrides.map(override => {
+            const problem = checkOverride(override);
+            return (
+              <div key={override.id}>
+                <div className="flex items-center gap-1">
+                  <input
+                    type="text"
+                    list={`override-paths-${fileId}`}
+                    value={override.dataPath}
+                    onChange={(e) => handleDataPathChange(override, e.target.value)}
+                    placeholder="scene.render.film_transparent"
+                    spellCheck={false}
+                    className={`flex-1 min-w-0 px-2 py-1 border rounded font-mono ${problem ? 'border-red-400' : 'border-slate-300'}`}
+                  />
+                  <select
+                    value={override.type}
+                    onChange={(e) => {
+                      const type = e.target.value as OverrideType;
+                      updateOverride(override.id, { type, value: defaultOverrideValue(type) });
+                    }}
+                    className="px-1 py-1 border border-slate-300 rounded"
+                  >
+                    {TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                  </select>
+                  <ValueInput
+                    key={override.type}
+                    override={override}
+                    onChange={value => updateOverride(override.id, { value })}
+                  />
+                  <button
+                    onClick={() => onChange(overrides.filter(candidate => candidate.id !== override.id), scripts)}
+                    className="p-1 text-red-600 hover:text-red-700"
+                    title="Remove override"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+                {problem && <p className="text-red-600">{problem}</p>}
+              </div>
+            );
+          })}
+
+          {scripts.map(script => (
+            <div key={script} className="flex items-center gap-1">
+              <span className="flex-1 min-w-0 truncate font-mono text-slate-600" title={script}>{script}</span>
+              <button
+                onClick={() => onChange(overrides, scripts.filter(candidate => candidate !== script))}
+                className="p-1 text-red-600 hover:text-red-700"
+                title="Remove script"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex space-x-3">
+            <button
+              onClick={() => onChange([...overrides, { id: generateId(), dataPath: '', type: 'boolean', value: true }], scripts)}
+              className="text-blue-600 hover:text-blue-700"
+            >
+              Add property override
+            </button>
+            <button onClick={handleAddScript} className="text-blue-600 hover:text-blue-700">
+              Add Python script
+            </button>
+          </div>
+          <p className="text-slate-500">
+            Applied after the render settings, then scripts run in order. Overrides are checked
+            against the file in Blender when rendering starts.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { BlendFile, OutputFormat, ProjectSettings } from '../types/project';
+import { createBlendFile, createRenderJobs } from '../services/ProjectService';
+import { OUTPUT_TOKENS, previewFramePath, validateOutputTemplate } from '../utils/outputTemplate';
+
+const EXTENSIONS: Record<OutputFormat, string> = {
+  PNG: '.png',
+  JPEG: '.jpg',
+  TIFF: '.tif',
+  EXR: '.exr',
+  FFMPEG: ''
+};
+
+interface OutputTemplateFieldProps {
+  settings: ProjectSettings;
+  // File the preview is shown for; an example file when the project has none
+  previewFile?: BlendFile;
+  onChange: (template: string) => void;
+}
+
+export const OutputTemplateField: React.FC<OutputTemplateFieldProps> = ({ settings, previewFile, onChange }) => {
+  const problems = validateOutputTemplate(settings.outputTemplate);
+  const file = previewFile ?? createBlendFile('shot010_v001.blend', settings);
+  const patterns = problems.length === 0 ? createRenderJobs(file, settings).map(job => job.outputPath) : [];
+  const [pattern] = patterns;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-700 mb-1">File Names</label>
+      <input
+        type="text"
+        value={settings.outputTemplate}
+        onChange={(e) => onChange(e.target.value)}
+        spellCheck={false}
+        className={`w-full px-3 py-2 border rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+          problems.length > 0 ? 'border-red-400' : 'border-slate-300'
+        }`}
+      />
+      <div className="mt-1 flex flex-wrap gap-1">
+        {OUTPUT_TOKENS.map(({ token, description }) => (
+          <button
+            key={token}
+            onClick={() => onChange(`${settings.outputTemplate}{${token === 'frame' ? 'frame:04' : token}}`)}
+            title={description}
+            className="px-1.5 py-0.5 text-xs font-mono bg-slate-100 hover:bg-slate-200 text-slate-600 rounded"
+          >
+            {`{${token}}`}
+          </button>
+        ))}
+      </div>
+      {pattern ? (
+        <p className="mt-2 text-xs text-slate-500 break-all" title={`Passed to Blender as ${pattern}`}>
+          {previewFile ? file.name : 'Example'}: <span className="font-mono">{previewFramePath(pattern, file.frameStart, EXTENSIONS[file.format])}</span>
+          {patterns.length > 1 && ` and ${patterns.length - 1} more render target(s)`}
+        </p>
+      ) : (
+        <ul className="mt-2 text-xs text-red-600 space-y-0.5">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
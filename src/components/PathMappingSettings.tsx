@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeftRight, Plus, Trash2 } from 'lucide-react';
+import { blenderService } from '../services/BlenderService';
+import { PathMappingRule } from '../types/blender';
+
+interface PathMappingSettingsProps {
+  // Called with the saved rules
+  onMappingsChange?: (rules: PathMappingRule[]) => void;
+}
+
+const generateId = () => `mapping-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const PathMappingSettings: React.FC<PathMappingSettingsProps> = ({ onMappingsChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rules, setRules] = useState<PathMappingRule[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      blenderService.getPathMappings().then(setRules);
+    }
+  }, [isOpen]);
+
+  const updateRule = (id: string, paths: string[]) => {
+    setRules(current => current.map(rule => (rule.id === id ? { ...rule, paths } : rule)));
+  };
+
+  const handleSave = async () => {
+    // Incomplete rules would map nothing
+    const cleaned = rules
+      .map(rule => ({ ...rule, paths: rule.paths.map(path => path.trim()).filter(Boolean) }))
+      .filter(rule => rule.paths.length >= 2);
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await blenderService.setPathMappings(cleaned);
+      setRules(cleaned);
+      onMappingsChange?.(cleaned);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="flex items-center space-x-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+        title="Map shared storage between machines"
+      >
+        <ArrowLeftRight className="w-4 h-4" />
+        <span className="text-sm font-medium">Path Mapping</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Path Mapping</h3>
+          <button
+            onClick={() => setIsOpen(false)}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            ×
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Each rule lists where the same shared storage is found on different machines, e.g.{' '}
+          <code>/mnt/projects</code> and <code>P:\projects</code>. Before a render, blend file, output and
+          asset paths under any of them are moved to the one that exists on the rendering machine.
+          Render nodes receive these rules with every job.
+        </p>
+
+        <div className="space-y-3">
+          {rules.length === 0 && (
+            <p className="text-sm text-gray-500">No rules; paths are used as they are.</p>
+          )}
+          {rules.map(rule => (
+            <div key={rule.id} className="p-3 border border-gray-200 rounded-lg space-y-2">
+              {rule.paths.map((path, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  {index > 0 && <ArrowLeftRight className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+                  <input
+                    type="text"
+                    value={path}
+                    onChange={(e) => updateRule(rule.id, rule.paths.map((old, i) => (i === index ? e.target.value : old)))}
+                    placeholder={index === 0 ? '/mnt/projects' : 'P:\\projects'}
+                    className={`flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${index === 0 ? 'ml-6' : ''}`}
+                  />
+                  {rule.paths.length > 2 && (
+                    <button
+                      onClick={() => updateRule(rule.id, rule.paths.filter((_, i) => i !== index))}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      title="Remove this location"
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <button
+                  onClick={() => updateRule(rule.id, [...rule.paths, ''])}
+                  className="text-xs text-blue-600 hover:text-blue-700 ml-6"
+                >
+                  Add another location
+                </button>
+                <button
+                  onClick={() => setRules(current => current.filter(candidate => candidate.id !== rule.id))}
+                  className="p-1 text-red-600 hover:text-red-700"
+                  title="Remove rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+
+        <div className="flex justify-between mt-4">
+          <button
+            onClick={() => setRules(current => [...current, { id: generateId(), paths: ['', ''] }])}
+            className="flex items-center gap-1 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add rule
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, Download, Trash2, RefreshCw } from 'lucide-react';
+import { useElectron } from '../hooks/useElectron';
+import { RenderHistoryFilter, RenderHistoryRecord, RenderOutcome } from '../types/history';
+import { BlenderRenderOptions } from '../types/blender';
+import { averageFrameSeconds, formatDuration, summarizeHistory } from '../utils/renderHistory';
+
+const OUTCOME_STYLES: Record<RenderOutcome, string> = {
+  completed: 'text-green-600',
+  error: 'text-red-600',
+  cancelled: 'text-slate-500'
+};
+
+const ENGINES: BlenderRenderOptions['engine'][] = ['CYCLES', 'EEVEE', 'WORKBENCH'];
+
+// Date inputs give local calendar days; the history stores ISO timestamps
+const toFilter = (search: string, outcome: string, engine: string, blenderVersion: string, from: string, to: string): RenderHistoryFilter => ({
+  search: search.trim() || undefined,
+  outcome: (outcome || undefined) as RenderOutcome | undefined,
+  engine: (engine || undefined) as BlenderRenderOptions['engine'],
+  blenderVersion: blenderVersion.trim() || undefined,
+  from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+  to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined
+});
+
+export const RenderHistory: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [records, setRecords] = useState<RenderHistoryRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [outcome, setOutcome] = useState('');
+  const [engine, setEngine] = useState('');
+  const [blenderVersion, setBlenderVersion] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const { electronAPI } = useElectron();
+
+  const filter = toFilter(search, outcome, engine, blenderVersion, from, to);
+  const filterKey = JSON.stringify(filter);
+
+  const loadHistory = useCallback(async () => {
+    if (!electronAPI?.history) return;
+
+    setIsLoading(true);
+    try {
+      setRecords(await electronAPI.history.list(JSON.parse(filterKey)));
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [electronAPI, filterKey]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadHistory();
+    }
+  }, [isOpen, loadHistory]);
+
+  const handleExportCsv = async () => {
+    if (!electronAPI?.history) return;
+
+    const result = await electronAPI.showSaveDialog({
+      filters: [{ name: 'CSV Files', extensions: ['csv'] }],
+      defaultPath: 'render-history.csv'
+    });
+    if (result.canceled || !result.filePath) return;
+
+    try {
+      await electronAPI.history.exportCsv(result.filePath, filter);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    }
+  };
+
+  const handleClear = async () => {
+    if (!electronAPI?.history) return;
+
+    const result = await electronAPI.showMessageBox({
+      type: 'warning',
+      title: 'Clear Render History',
+      message: 'Delete the statistics of every past render?',
+      buttons: ['Clear', 'Cancel'],
+      defaultId: 1,
+      cancelId: 1
+    });
+    if (result.response !== 0) return;
+
+    await electronAPI.history.clear();
+    await loadHistory();
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="flex items-center space-x-2 px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+      >
+        <History className="w-4 h-4" />
+        <span className="text-sm font-medium">History</span>
+      </button>
+    );
+  }
+
+  const summary = summarizeHistory(records);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-6xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Render History</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={loadHistory}
+              className="p-2 text-slate-400 hover:text-slate-600"
+              title="Refresh"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+            <button
+              onClick={handleExportCsv}
+              disabled={records.length === 0}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-slate-100 hover:bg-slate-200 disabled:opacity-50 rounded-lg transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </button>
+            <button
+              onClick={handleClear}
+              className="flex items-center gap-1 px-3 py-1 text-sm text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              Clear
+            </button>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="text-gray-400 hover:text-gray-600 ml-2"
+            >
+              ×
+            </button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-6 gap-2 mb-4">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search files..."
+            className="col-span-2 px-3 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <select
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value)}
+            className="px-2 py-1 text-sm border border-slate-300 rounded-lg"
+          >
+            <option value="">All outcomes</option>
+            <option value="completed">Completed</option>
+            <option value="error">Failed</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+          <select
+            value={engine}
+            onChange={(e) => setEngine(e.target.value)}
+            className="px-2 py-1 text-sm border border-slate-300 rounded-lg"
+          >
+            <option value="">All engines</option>
+            {ENGINES.map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={blenderVersion}
+            onChange={(e) => setBlenderVersion(e.target.value)}
+            placeholder="Blender version"
+            className="px-3 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="flex items-center gap-1">
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full px-1 py-1 text-xs border border-slate-300 rounded-lg"
+              title="From"
+            />
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full px-1 py-1 text-xs border border-slate-300 rounded-lg"
+              title="To"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-2 mb-4 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {/* Totals */}
+        <div className="flex items-center gap-6 mb-3 text-sm text-slate-600">
+          <span>{summary.renders} renders</span>
+          <span>Total time: {formatDuration(summary.totalSeconds)}</span>
+          <span>{summary.framesRendered} frames</span>
+          <span>
+            Average per frame: {summary.averageFrameSeconds !== null ? formatDuration(summary.averageFrameSeconds) : '-'}
+          </span>
+          {summary.peakMemory !== undefined && <span>Peak memory: {summary.peakMemory.toFixed(0)} MB</span>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto border border-slate-200 rounded-lg">
+          {records.length === 0 ? (
+            <div className="p-8 text-center text-sm text-slate-500">
+              {isLoading ? 'Loading...' : 'No renders recorded yet'}
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-left text-xs text-slate-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2">Started</th>
+                  <th className="px-3 py-2">File</th>
+                  <th className="px-3 py-2">Outcome</th>
+                  <th className="px-3 py-2">Settings</th>
+                  <th className="px-3 py-2">Blender</th>
+                  <th className="px-3 py-2 text-right">Frames</th>
+                  <th className="px-3 py-2 text-right">Duration</th>
+                  <th className="px-3 py-2 text-right">Per frame</th>
+                  <th className="px-3 py-2 text-right">Peak memory</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {records.map(record => {
+                  const average = averageFrameSeconds(record);
+                  return (
+                    <tr key={record.id} className="hover:bg-slate-50">
+                      <td className="px-3 py-2 whitespace-nowrap">{new Date(record.startTime).toLocaleString()}</td>
+                      <td className="px-3 py-2 max-w-xs truncate" title={record.blendFile}>
+                        {record.blendFile.split(/[/\\]/).pop()}
+                      </td>
+                      <td className={`px-3 py-2 ${OUTCOME_STYLES[record.outcome]}`} title={record.error}>
+                        {record.outcome}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-slate-600">
+                        {[
+                          record.engine,
+                          record.samples !== undefined ? `${record.samples} spp` : undefined,
+                          record.resolution?.join('×'),
+                          record.gpu ? 'GPU' : undefined
+                        ].filter(Boolean).join(' • ')}
+                      </td>
+                      <td className="px-3 py-2 text-slate-600">{record.blenderVersion ?? '-'}</td>
+                      <td className="px-3 py-2 text-right">
+                        {record.framesRendered}
+                        {record.skippedFrames > 0 && <span className="text-slate-400"> (+{record.skippedFrames} skipped)</span>}
+                      </td>
+                      <td className="px-3 py-2 text-right">{formatDuration(record.durationSeconds)}</td>
+                      <td className="px-3 py-2 text-right">{average !== null ? formatDuration(average) : '-'}</td>
+                      <td className="px-3 py-2 text-right">
+                        {record.peakMemory !== undefined ? `${record.peakMemory.toFixed(0)} MB` : '-'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import { HOOK_ACTION_TYPES } from '../services/ProjectService';
+import { HookAction, RenderHook } from '../types/hooks';
+import {
+  createHook,
+  DEFAULT_HOOK_TIMEOUT_SECONDS,
+  HOOK_ACTION_LABELS,
+  HOOK_RUN_ON_LABELS,
+  HOOK_VARIABLES,
+  validateHook
+} from '../utils/renderHooks';
+
+interface RenderHooksProps {
+  hooks: RenderHook[];
+  onChange: (hooks: RenderHook[]) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+const labelClass = 'block text-sm font-medium text-slate-700 mb-1';
+
+// Actions that need rendered frames
+const POST_ONLY: HookAction['type'][] = ['copy', 'contactSheet'];
+
+const ActionFields: React.FC<{ action: HookAction; onChange: (action: HookAction) => void }> = ({ action, onChange }) => {
+  switch (action.type) {
+    case 'command':
+      return (
+        <div>
+          <label className={labelClass}>Command</label>
+          <textarea
+            value={action.command}
+            onChange={(e) => onChange({ ...action, command: e.target.value })}
+            rows={2}
+            placeholder="notify-send 'Rendered {blend_name}'"
+            className={`${inputClass} font-mono text-sm`}
+          />
+          <p className="mt-1 text-xs text-slate-500">Runs in a shell from the blend file's directory; variables are quoted for it</p>
+        </div>
+      );
+    case 'copy':
+      return (
+        <div className="space-y-2">
+          <div>
+            <label className={labelClass}>Destination Directory</label>
+            <input
+              type="text"
+              value={action.destination}
+              onChange={(e) => onChange({ ...action, destination: e.target.value })}
+              placeholder="/mnt/deliveries/{blend_name}"
+              className={`${inputClass} font-mono text-sm`}
+            />
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={action.move}
+              onChange={(e) => onChange({ ...action, move: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            <span>Move instead of copying</span>
+          </label>
+        </div>
+      );
+    case 'contactSheet':
+      return (
+        <div className="space-y-2">
+          <div>
+            <label className={labelClass}>Output File</label>
+            <input
+              type="text"
+              value={action.outputFile}
+              onChange={(e) => onChange({ ...action, outputFile: e.target.value })}
+              className={`${inputClass} font-mono text-sm`}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className={labelClass}>Columns</label>
+              <input
+                type="number"
+                value={action.columns}
+                onChange={(e) => onChange({ ...action, columns: Math.max(1, parseInt(e.target.value) || 1) })}
+                min="1"
+                max="50"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Thumb Width</label>
+              <input
+                type="number"
+                value={action.thumbnailWidth}
+                onChange={(e) => onChange({ ...action, thumbnailWidth: Math.max(16, parseInt(e.target.value) || 16) })}
+                min="16"
+                step="16"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Max Frames</label>
+              <input
+                type="number"
+                value={action.maxFrames}
+                onChange={(e) => onChange({ ...action, maxFrames: Math.max(1, parseInt(e.target.value) || 1) })}
+                min="1"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">Tiles frames spread over the range with ffmpeg</p>
+        </div>
+      );
+    case 'manifest':
+      return (
+        <div>
+          <label className={labelClass}>Output File</label>
+          <input
+            type="text"
+            value={action.outputFile}
+            onChange={(e) => onChange({ ...action, outputFile: e.target.value })}
+            className={`${inputClass} font-mono text-sm`}
+          />
+        </div>
+      );
+    case 'webhook':
+      return (
+        <div>
+          <label className={labelClass}>URL</label>
+          <input
+            type="text"
+            value={action.url}
+            onChange={(e) => onChange({ ...action, url: e.target.value })}
+            placeholder="https://hooks.example.com/render"
+            className={`${inputClass} font-mono text-sm`}
+          />
+          <p className="mt-1 text-xs text-slate-500">Receives a POST with the variables as JSON</p>
+        </div>
+      );
+  }
+};
+
+export const RenderHooks: React.FC<RenderHooksProps> = ({ hooks, onChange }) => {
+  const [newType, setNewType] = useState<HookAction['type']>('command');
+  const [newStage, setNewStage] = useState<RenderHook['stage']>('post');
+
+  const update = (id: string, changes: Partial<RenderHook>) =>
+    onChange(hooks.map(hook => (hook.id === id ? { ...hook, ...changes } : hook)));
+
+  const move = (index: number, offset: number) => {
+    const reordered = [...hooks];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-3 p-3 bg-slate-50 rounded-lg">
+      <p className="text-sm font-medium text-slate-700">Render Hooks</p>
+      <p className="text-xs text-slate-500">
+        Run in order before each render, or once a render and its video finished. A failing pre-render hook fails the render.
+      </p>
+
+      {hooks.map((hook, index) => (
+        <div key={hook.id} className="p-3 bg-white border border-slate-200 rounded-lg space-y-2">
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={hook.enabled}
+              onChange={(e) => update(hook.id, { enabled: e.target.checked })}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              title="Enabled"
+            />
+            <input
+              type="text"
+              value={hook.name ?? ''}
+              onChange={(e) => update(hook.id, { name: e.target.value || undefined })}
+              placeholder={HOOK_ACTION_LABELS[hook.action.type]}
+              className="flex-1 px-2 py-1 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-50"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={index === hooks.length - 1}
+              className="p-1 text-slate-400 hover:text-slate-600 disabled:opacity-50"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onChange(hooks.filter(candidate => candidate.id !== hook.id))}
+              className="p-1 text-red-600 hover:text-red-700"
+              title="Remove hook"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={hook.stage}
+              onChange={(e) => update(hook.id, { stage: e.target.value as RenderHook['stage'] })}
+              className={inputClass}
+            >
+              <option value="pre" disabled={POST_ONLY.includes(hook.action.type)}>Before render</option>
+              <option value="post">After render</option>
+            </select>
+            {hook.stage === 'post' && (
+              <select
+                value={hook.runOn}
+                onChange={(e) => update(hook.id, { runOn: e.target.value as RenderHook['runOn'] })}
+                className={inputClass}
+              >
+                {(Object.keys(HOOK_RUN_ON_LABELS) as RenderHook['runOn'][]).map(runOn => (
+                  <option key={runOn} value={runOn}>{HOOK_RUN_ON_LABELS[runOn]}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <ActionFields action={hook.action} onChange={(action) => update(hook.id, { action })} />
+
+          {hook.action.type !== 'copy' && hook.action.type !== 'manifest' && (
+            <div>
+              <label className={labelClass}>Timeout (s)</label>
+              <input
+                type="number"
+                value={hook.timeoutSeconds ?? DEFAULT_HOOK_TIMEOUT_SECONDS}
+                onChange={(e) => update(hook.id, { timeoutSeconds: Math.max(1, parseInt(e.target.value) || DEFAULT_HOOK_TIMEOUT_SECONDS) })}
+                min="1"
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {hook.enabled && validateHook(hook).map(problem => <p key={problem} className="text-xs text-red-600">{problem}</p>)}
+        </div>
+      ))}
+
+      <div className="flex space-x-2">
+        <select
+          value={newType}
+          onChange={(e) => {
+            const type = e.target.value as HookAction['type'];
+            setNewType(type);
+            if (POST_ONLY.includes(type)) setNewStage('post');
+          }}
+          className={inputClass}
+        >
+          {HOOK_ACTION_TYPES.map(type => <option key={type} value={type}>{HOOK_ACTION_LABELS[type]}</option>)}
+        </select>
+        <select
+          value={newStage}
+          onChange={(e) => setNewStage(e.target.value as RenderHook['stage'])}
+          className={inputClass}
+        >
+          <option value="pre" disabled={POST_ONLY.includes(newType)}>Before render</option>
+          <option value="post">After render</option>
+        </select>
+        <button
+          onClick={() => onChange([...hooks, createHook(newType, newStage)])}
+          className="flex items-center gap-1 px-3 py-2 text-sm bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+          title="Add hook"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {hooks.length > 0 && (
+        <details className="text-xs text-slate-500">
+          <summary className="cursor-pointer hover:text-slate-700">Variables</summary>
+          <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-2">
+            {Object.entries(HOOK_VARIABLES).map(([name, description]) => (
+              <React.Fragment key={name}>
+                <dt className="font-mono">{`{${name}}`}</dt>
+                <dd>{description}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </details>
+      )}
+    </div>
+  );
+};
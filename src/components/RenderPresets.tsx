@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { Download, Star, Trash2, Upload } from 'lucide-react';
+import { useElectron } from '../hooks/useElectron';
+import { createPreset, mergePresets, presetService } from '../services/PresetService';
+import { PresetLibrary, RenderPreset } from '../types/preset';
+import { ProjectSettings } from '../types/project';
+import { describeCycles } from '../utils/cyclesOptions';
+
+interface RenderPresetsProps {
+  library: PresetLibrary;
+  // Current global settings, saved by "Save current settings"
+  settings: ProjectSettings;
+  onApply: (preset: RenderPreset) => void;
+  onLibraryChange: (library: PresetLibrary) => Promise<void>;
+}
+
+const describePreset = ({ settings }: RenderPreset) =>
+  `${settings.globalEngine} • ${settings.globalResolution[0]}×${settings.globalResolution[1]} • ` +
+  `${settings.globalSamples} samples • ${settings.globalFormat}` +
+  (settings.globalEngine === 'CYCLES' ? ` • ${describeCycles(settings.globalCycles)}` : '');
+
+export const RenderPresets: React.FC<RenderPresetsProps> = ({ library, settings, onApply, onLibraryChange }) => {
+  const { electronAPI } = useElectron();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const update = async (changed: PresetLibrary) => {
+    setError(null);
+    try {
+      await onLibraryChange(changed);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    }
+  };
+
+  const handleSaveCurrent = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    // Saving under an existing name updates that preset
+    const existing = library.presets.find(preset => preset.name === name);
+    const preset = { ...createPreset(name, settings), ...(existing && { id: existing.id }) };
+    await update({
+      ...library,
+      presets: existing
+        ? library.presets.map(candidate => (candidate.id === existing.id ? preset : candidate))
+        : [...library.presets, preset]
+    });
+    setNewName('');
+  };
+
+  const handleDelete = (id: string) => update({
+    presets: library.presets.filter(preset => preset.id !== id),
+    defaultPresetId: library.defaultPresetId === id ? null : library.defaultPresetId
+  });
+
+  const handleRename = (id: string, name: string) => update({
+    ...library,
+    presets: library.presets.map(preset => (preset.id === id ? { ...preset, name } : preset))
+  });
+
+  const handleToggleDefault = (id: string) => update({
+    ...library,
+    defaultPresetId: library.defaultPresetId === id ? null : id
+  });
+
+  const handleExport = async () => {
+    if (!electronAPI) return;
+
+    const result = await electronAPI.showSaveDialog({
+      filters: [{ name: 'Render Presets', extensions: ['json'] }],
+      defaultPath: 'render-presets.json'
+    });
+    if (result.canceled || !result.filePath) return;
+
+    try {
+      await presetService.exportPresets(result.filePath, library.presets);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!electronAPI) return;
+
+    const result = await electronAPI.showOpenDialog({
+      properties: ['openFile'],
+      filters: [{ name: 'Render Presets', extensions: ['json'] }]
+    });
+    if (result.canceled || result.filePaths.length === 0) return;
+
+    try {
+      const imported = await presetService.importPresets(result.filePaths[0]);
+      await update(mergePresets(library, imported));
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : String(importError));
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <select
+        value=""
+        onChange={(e) => {
+          const preset = library.presets.find(candidate => candidate.id === e.target.value);
+          if (preset) onApply(preset);
+        }}
+        className="flex-1 min-w-0 px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        <option value="" disabled>Apply a preset...</option>
+        {library.presets.map(preset => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name}{preset.id === library.defaultPresetId ? ' (default)' : ''}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="px-3 py-2 text-sm bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+      >
+        Manage
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold">Render Presets</h3>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                ×
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-600 mb-4">
+              Presets fill in the global render settings. The starred preset is used for new projects.
+            </p>
+
+            <div className="space-y-2">
+              {library.presets.length === 0 && (
+                <p className="text-sm text-gray-500">No presets yet.</p>
+              )}
+              {library.presets.map(preset => (
+                <div key={preset.id} className="flex items-center gap-2 p-2 border border-gray-200 rounded-lg">
+                  <button
+                    onClick={() => handleToggleDefault(preset.id)}
+                    className={preset.id === library.defaultPresetId ? 'text-amber-500' : 'text-gray-300 hover:text-gray-400'}
+                    title={preset.id === library.defaultPresetId ? 'Default for new projects' : 'Use for new projects'}
+                  >
+                    <Star className="w-4 h-4" fill={preset.id === library.defaultPresetId ? 'currentColor' : 'none'} />
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <input
+                      type="text"
+                      defaultValue={preset.name}
+                      onBlur={(e) => {
+                        const name = e.target.value.trim();
+                        if (name && name !== preset.name) handleRename(preset.id, name);
+                      }}
+                      className="w-full px-2 py-1 text-sm font-medium border border-transparent hover:border-gray-200 rounded focus:border-blue-500 focus:outline-none"
+                    />
+                    <p className="px-2 text-xs text-gray-500 truncate">{describePreset(preset)}</p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(preset.id)}
+                    className="p-1 text-red-600 hover:text-red-700"
+                    title="Delete preset"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2 mt-4">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveCurrent()}
+                placeholder="Preset name"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                onClick={handleSaveCurrent}
+                disabled={!newName.trim()}
+                className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+              >
+                Save current settings
+              </button>
+            </div>
+
+            {error && <div className="mt-3 text-sm text-red-600 whitespace-pre-line">{error}</div>}
+
+            <div className="flex justify-end gap-2 mt-4">
+              <button
+                onClick={handleImport}
+                className="flex items-center gap-1 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                Import
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={library.presets.length === 0}
+                className="flex items-center gap-1 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded-lg transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                Export
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React from 'react';
+import { FolderOpen, Image, X } from 'lucide-react';
+import { useElectron } from '../hooks/useElectron';
+import { useRenderPreview } from '../hooks/useRenderPreview';
+import { BlenderRenderOptions } from '../types/blender';
+
+interface RenderPreviewProps {
+  watchId: string;
+  title: string;
+  options: BlenderRenderOptions;
+  onClose: () => void;
+}
+
+export const RenderPreview: React.FC<RenderPreviewProps> = ({ watchId, title, options, onClose }) => {
+  const { electronAPI } = useElectron();
+  const { frames, current, imageUrl, error, followLatest, setFollowLatest, selectFrame } =
+    useRenderPreview(watchId, options);
+
+  const currentIndex = current ? frames.indexOf(current) : -1;
+  const totalFrames = options.frames?.length ?? (options.endFrame ?? 1) - (options.startFrame ?? 1) + 1;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200">
+      <div className="p-6 border-b border-slate-200">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900 truncate">Preview: {title}</h2>
+          <div className="flex items-center space-x-2">
+            {current && electronAPI && (
+              <button
+                onClick={() => electronAPI.showItemInFolder(current.path)}
+                className="p-1 text-slate-400 hover:text-slate-600"
+                title="Show in folder"
+              >
+                <FolderOpen className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-1 text-slate-400 hover:text-slate-600"
+              title="Close preview"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="flex items-center justify-center bg-slate-900 rounded-lg min-h-48 overflow-hidden">
+          {imageUrl ? (
+            <img src={imageUrl} alt={`Frame ${current?.frame}`} className="max-w-full max-h-96 object-contain" />
+          ) : (
+            <div className="p-8 text-center text-slate-400">
+              <Image className="w-8 h-8 mx-auto mb-2" />
+              <p className="text-sm">{frames.length === 0 ? 'No frames rendered yet' : 'Loading frame...'}</p>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+            {error}
+          </div>
+        )}
+
+        {frames.length > 0 && (
+          <div className="space-y-2">
+            <input
+              type="range"
+              min={0}
+              max={frames.length - 1}
+              value={Math.max(currentIndex, 0)}
+              onChange={(e) => selectFrame(frames[parseInt(e.target.value)].frame)}
+              className="w-full"
+            />
+            <div className="flex items-center justify-between text-xs text-slate-500">
+              <span>
+                Frame {current?.frame ?? '-'} • {frames.length} of {totalFrames} rendered
+              </span>
+              <label className="flex items-center space-x-1">
+                <input
+                  type="checkbox"
+                  checked={followLatest}
+                  onChange={(e) => setFollowLatest(e.target.checked)}
+                  className="w-3 h-3 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span>Follow latest frame</span>
+              </label>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
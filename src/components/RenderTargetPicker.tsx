@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { BlendFileMetadata } from '../types/blender';
+import { SceneSelection } from '../types/project';
+
+interface RenderTargetPickerProps {
+  metadata: BlendFileMetadata;
+  targets: SceneSelection[];
+  // Number of queue items the selection renders as
+  targetCount: number;
+  onChange: (targets: SceneSelection[]) => void;
+}
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(existing => existing !== value) : [...values, value];
+
+export const RenderTargetPicker: React.FC<RenderTargetPickerProps> = ({ metadata, targets, targetCount, onChange }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const updateScene = (scene: string, changes: Partial<SceneSelection>) => {
+    onChange(targets.map(selection => (selection.scene === scene ? { ...selection, ...changes } : selection)));
+  };
+
+  const toggleScene = (scene: string) => {
+    onChange(targets.some(selection => selection.scene === scene)
+      ? targets.filter(selection => selection.scene !== scene)
+      : [...targets, { scene, cameras: [], viewLayers: [] }]);
+  };
+
+  return (
+    <div className="mt-1 text-xs">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center space-x-1 text-slate-500 hover:text-slate-700"
+      >
+        <span>
+          {targets.length === 0
+            ? `Renders scene ${metadata.activeScene}`
+            : `Renders ${targetCount} target(s) in ${targets.map(selection => selection.scene).join(', ')}`}
+        </span>
+        {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-1 space-y-2">
+          {metadata.scenes.map(scene => {
+            const selection = targets.find(candidate => candidate.scene === scene.name);
+            return (
+              <div key={scene.name} className="p-2 bg-slate-50 rounded">
+                <label className="flex items-center space-x-2 font-medium text-slate-700">
+                  <input type="checkbox" checked={!!selection} onChange={() => toggleScene(scene.name)} />
+                  <span>{scene.name}{scene.name === metadata.activeScene ? ' (active)' : ''}</span>
+                </label>
+
+                {selection && (
+                  <div className="mt-1 ml-5 grid grid-cols-2 gap-2 text-slate-600">
+                    <div>
+                      <p className="text-slate-500">Cameras {selection.cameras.length === 0 && `(${scene.camera ?? 'none'})`}</p>
+                      {scene.cameras.map(camera => (
+                        <label key={camera} className="flex items-center space-x-1">
+                          <input
+                            type="checkbox"
+                            checked={selection.cameras.includes(camera)}
+                            onChange={() => updateScene(scene.name, { cameras: toggle(selection.cameras, camera) })}
+                          />
+                          <span className="truncate">{camera}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <div>
+                      <p className="text-slate-500">View layers {selection.viewLayers.length === 0 && '(all)'}</p>
+                      {scene.viewLayers.map(layer => (
+                        <label key={layer} className="flex items-center space-x-1">
+                          <input
+                            type="checkbox"
+                            checked={selection.viewLayers.includes(layer)}
+                            onChange={() => updateScene(scene.name, { viewLayers: toggle(selection.viewLayers, layer) })}
+                          />
+                          <span className="truncate">{layer}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-slate-500">
+            Each camera and view layer picked renders as its own queue item.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { RetryPolicy } from '../services/RenderQueue';
+
+interface RetryOverrideProps {
+  policy?: Partial<RetryPolicy>;
+  // The project's policy, which fields left out follow
+  projectPolicy: RetryPolicy;
+  onChange: (policy: Partial<RetryPolicy> | undefined) => void;
+}
+
+const describe = (policy: RetryPolicy) =>
+  policy.maxAttempts <= 1
+    ? 'no retries'
+    : `${policy.maxAttempts} attempts, ${policy.backoffSeconds}s apart${policy.fallbackToCPU ? ', CPU after GPU out of memory' : ''}`;
+
+export const RetryOverride: React.FC<RetryOverrideProps> = ({ policy, projectPolicy, onChange }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const effective = { ...projectPolicy, ...policy };
+
+  const update = (changes: Partial<RetryPolicy>) => onChange({ ...policy, ...changes });
+
+  return (
+    <div className="mt-1 text-xs">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex items-center space-x-1 text-slate-500 hover:text-slate-700"
+      >
+        <span>{policy ? `Own retries: ${describe(effective)}` : `Project retries: ${describe(projectPolicy)}`}</span>
+        {isExpanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+      </button>
+
+      {isExpanded && (
+        <div className="mt-1 p-2 bg-slate-50 rounded space-y-2">
+          <label className="flex items-center space-x-2 text-slate-700">
+            <input
+              type="checkbox"
+              checked={policy !== undefined}
+              onChange={(e) => onChange(e.target.checked ? { ...projectPolicy } : undefined)}
+            />
+            <span>Retry this file differently from the project</span>
+          </label>
+
+          {policy && (
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-1">
+                <span>Max attempts</span>
+                <input
+                  type="number"
+                  value={effective.maxAttempts}
+                  onChange={(e) => update({ maxAttempts: Math.max(1, parseInt(e.target.value) || 1) })}
+                  min="1"
+                  className="w-16 px-2 py-1 border border-slate-300 rounded"
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                <span>Delay (s)</span>
+                <input
+                  type="number"
+                  value={effective.backoffSeconds}
+                  onChange={(e) => update({ backoffSeconds: Math.max(0, parseInt(e.target.value) || 0) })}
+                  min="0"
+                  className="w-16 px-2 py-1 border border-slate-300 rounded"
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={effective.fallbackToCPU}
+                  onChange={(e) => update({ fallbackToCPU: e.target.checked })}
+                />
+                <span>CPU after GPU out of memory</span>
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import { FolderOpen } from 'lucide-react';
+import { useElectron } from '../hooks/useElectron';
+import { blenderService } from '../services/BlenderService';
+import { VIDEO_CONTAINERS } from '../services/ProjectService';
+import { VideoOptions } from '../types/blender';
+import {
+  AUDIO_CODEC_LABELS,
+  CODEC_LABELS,
+  CONTAINER_AUDIO_CODECS,
+  CONTAINER_CODECS,
+  CONTAINER_LABELS,
+  usesRateControl,
+  validateVideoOptions,
+  withContainer
+} from '../utils/videoOptions';
+
+interface VideoSettingsProps {
+  video: VideoOptions;
+  encodeSequence: boolean;
+  // Blender renders the video itself; otherwise frames are encoded afterwards
+  rendersVideo: boolean;
+  onChange: (video: VideoOptions, encodeSequence: boolean) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export const VideoSettings: React.FC<VideoSettingsProps> = ({ video, encodeSequence, rendersVideo, onChange }) => {
+  const { electronAPI } = useElectron();
+  const [ffmpegPath, setFFmpegPath] = useState('');
+
+  useEffect(() => {
+    if (!encodeSequence) return;
+    blenderService.getFFmpegPath().then(setFFmpegPath).catch(() => setFFmpegPath(''));
+  }, [encodeSequence]);
+
+  const update = (changes: Partial<VideoOptions>) => onChange({ ...video, ...changes }, encodeSequence);
+
+  const saveFFmpegPath = async (path: string) => {
+    await blenderService.setFFmpegPath(path);
+    setFFmpegPath(await blenderService.getFFmpegPath());
+  };
+
+  const handleBrowseFFmpeg = async () => {
+    if (!electronAPI) return;
+
+    const result = await electronAPI.showOpenDialog({
+      properties: ['openFile'],
+      filters: [
+        { name: 'ffmpeg Executable', extensions: ['exe', ''] },
+        { name: 'All Files', extensions: ['*'] }
+      ]
+    });
+    if (!result.canceled && result.filePaths.length > 0) {
+      await saveFFmpegPath(result.filePaths[0]);
+    }
+  };
+
+  const problems = validateVideoOptions(video);
+
+  return (
+    <div className="space-y-3 p-3 bg-slate-50 rounded-lg">
+      <p className="text-sm font-medium text-slate-700">Video</p>
+
+      {!rendersVideo && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="encodeSequence"
+            checked={encodeSequence}
+            onChange={(e) => onChange(video, e.target.checked)}
+            className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+          />
+          <label htmlFor="encodeSequence" className="text-sm font-medium text-slate-700">
+            Encode Image Sequences to Video
+          </label>
+        </div>
+      )}
+
+      {(rendersVideo || encodeSequence) && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Container</label>
+              <select
+                value={video.container}
+                onChange={(e) => onChange(withContainer(video, e.target.value as VideoOptions['container']), encodeSequence)}
+                className={inputClass}
+              >
+                {VIDEO_CONTAINERS.map(container => <option key={container} value={container}>{CONTAINER_LABELS[container]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Codec</label>
+              <select
+                value={video.codec}
+                onChange={(e) => update({ codec: e.target.value as VideoOptions['codec'] })}
+                className={inputClass}
+              >
+                {CONTAINER_CODECS[video.container].map(codec => <option key={codec} value={codec}>{CODEC_LABELS[codec]}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {usesRateControl(video.codec) && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Rate Control</label>
+                <select
+                  value={video.rateControl}
+                  onChange={(e) => update({ rateControl: e.target.value as VideoOptions['rateControl'] })}
+                  className={inputClass}
+                >
+                  <option value="CRF">Constant quality</option>
+                  <option value="BITRATE">Target bitrate</option>
+                </select>
+              </div>
+              {video.rateControl === 'CRF' ? (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Quality (CRF)</label>
+                  <input
+                    type="number"
+                    value={video.crf}
+                    onChange={(e) => update({ crf: Math.max(0, parseInt(e.target.value) || 0) })}
+                    min="0"
+                    max="51"
+                    className={inputClass}
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Bitrate (kbit/s)</label>
+                  <input
+                    type="number"
+                    value={video.bitrate}
+                    onChange={(e) => update({ bitrate: Math.max(0, parseInt(e.target.value) || 0) })}
+                    min="1"
+                    step="500"
+                    className={inputClass}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          {usesRateControl(video.codec) && video.rateControl === 'CRF' && (
+            <p className="text-xs text-slate-500">
+              Lower is better; 0 is lossless. {rendersVideo && 'Blender rounds it to its nearest quality level.'}
+            </p>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Frame Rate</label>
+            <input
+              type="number"
+              value={video.fps}
+              onChange={(e) => update({ fps: Math.max(0, parseFloat(e.target.value) || 0) })}
+              min="0"
+              step="any"
+              className={inputClass}
+            />
+            <p className="mt-1 text-xs text-slate-500">0 keeps the frame rate of each scene</p>
+          </div>
+
+          {rendersVideo && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Audio</label>
+                <select
+                  value={video.audioCodec}
+                  onChange={(e) => update({ audioCodec: e.target.value as VideoOptions['audioCodec'] })}
+                  className={inputClass}
+                >
+                  {CONTAINER_AUDIO_CODECS[video.container].map(codec => <option key={codec} value={codec}>{AUDIO_CODEC_LABELS[codec]}</option>)}
+                </select>
+              </div>
+              {video.audioCodec !== 'NONE' && video.audioCodec !== 'PCM' && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Audio Bitrate (kbit/s)</label>
+                  <input
+                    type="number"
+                    value={video.audioBitrate}
+                    onChange={(e) => update({ audioBitrate: Math.max(0, parseInt(e.target.value) || 0) })}
+                    min="1"
+                    className={inputClass}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {!rendersVideo && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">ffmpeg</label>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  value={ffmpegPath}
+                  onChange={(e) => setFFmpegPath(e.target.value)}
+                  onBlur={() => saveFFmpegPath(ffmpegPath.trim())}
+                  placeholder="ffmpeg"
+                  className={`${inputClass} font-mono text-sm`}
+                />
+                <button
+                  onClick={handleBrowseFFmpeg}
+                  className="px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                  title="Browse for ffmpeg"
+                >
+                  <FolderOpen className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-slate-500">
+                Encodes each finished sequence next to its frames; clear to use ffmpeg from the PATH
+              </p>
+            </div>
+          )}
+
+          {problems.map(problem => <p key={problem} className="text-xs text-red-600">{problem}</p>)}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { blenderService } from '../services/BlenderService';
+import { BlenderInstallation } from '../types/blender';
 import { useElectron } from './useElectron';
 
 export const useBlenderService = () => {
@@ -7,6 +8,7 @@ export const useBlenderService = () => {
   const [blenderVersion, setBlenderVersion] = useState('');
   const [blenderPath, setBlenderPath] = useState('');
   const [isChecking, setIsChecking] = useState(true);
+  const [installations, setInstallations] = useState<BlenderInstallation[]>([]);
   const { electronAPI } = useElectron();
 
   const checkBlenderAvailability = useCallback(async () => {
@@ -37,6 +39,37 @@ export const useBlenderService = () => {
     }
   }, [electronAPI]);
 
+  const refreshInstallations = useCallback(async () => {
+    if (!electronAPI) return;
+
+    try {
+      setInstallations(await blenderService.listInstallations());
+    } catch (error) {
+      console.error('Error loading Blender installations:', error);
+    }
+  }, [electronAPI]);
+
+  const addInstallation = useCallback(async (path: string, name?: string) => {
+    const installation = await blenderService.addInstallation(path, name);
+    await refreshInstallations();
+    return installation;
+  }, [refreshInstallations]);
+
+  const removeInstallation = useCallback(async (id: string) => {
+    await blenderService.removeInstallation(id);
+    await refreshInstallations();
+  }, [refreshInstallations]);
+
+  const validateInstallation = useCallback(async (id: string) => {
+    const installation = await blenderService.validateInstallation(id);
+    await refreshInstallations();
+    return installation;
+  }, [refreshInstallations]);
+
+  const discoverInstallations = useCallback(async () => {
+    setInstallations(await blenderService.discoverInstallations());
+  }, []);
+
   const updateBlenderPath = useCallback(async (newPath: string) => {
     if (!electronAPI) return;
     
@@ -47,8 +80,9 @@ export const useBlenderService = () => {
   useEffect(() => {
     if (electronAPI) {
       checkBlenderAvailability();
+      refreshInstallations();
     }
-  }, [electronAPI, checkBlenderAvailability]);
+  }, [electronAPI, checkBlenderAvailability, refreshInstallations]);
 
   return {
     isBlenderAvailable,
@@ -57,6 +91,12 @@ export const useBlenderService = () => {
     isChecking,
     checkBlenderAvailability,
     updateBlenderPath,
+    installations,
+    refreshInstallations,
+    addInstallation,
+    removeInstallation,
+    validateInstallation,
+    discoverInstallations,
     blenderService
   };
 };
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+import { workerPool } from '../services/WorkerPool';
+import { FarmNode } from '../types/farm';
+
+export const useFarmNodes = () => {
+  const [nodes, setNodes] = useState<FarmNode[]>(workerPool.getNodes());
+
+  useEffect(() => {
+    setNodes(workerPool.getNodes());
+    workerPool.onUpdate(setNodes);
+
+    return () => {
+      workerPool.removeUpdateCallback(setNodes);
+    };
+  }, []);
+
+  return nodes;
+};
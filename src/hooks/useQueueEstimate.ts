@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { QueueItem } from '../services/RenderQueue';
+import { buildFrameTimeIndex, estimateQueue, FrameTimeIndex } from '../utils/renderEstimates';
+import { useElectron } from './useElectron';
+
+// Re-estimate periodically so a stalled render pushes the finish time out
+const REFRESH_INTERVAL_MS = 30000;
+
+/**
+ * Per-item and whole-queue completion estimates, based on the running
+ * renders and on the render history of each file.
+ */
+export const useQueueEstimate = (queue: QueueItem[], maxConcurrent: number) => {
+  const [frameTimes, setFrameTimes] = useState<FrameTimeIndex>(new Map());
+  const [, setRefreshCount] = useState(0);
+  const { electronAPI } = useElectron();
+
+  // Every finished render adds a history record worth reloading
+  const finished = queue.filter(item => item.endTime !== undefined).length;
+
+  useEffect(() => {
+    if (!electronAPI?.history) return;
+
+    let cancelled = false;
+    electronAPI.history.list()
+      .then(records => {
+        if (!cancelled) setFrameTimes(buildFrameTimeIndex(records));
+      })
+      .catch(error => console.error('Failed to load render history:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [electronAPI, finished]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setRefreshCount(count => count + 1), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return estimateQueue(queue, maxConcurrent, frameTimes);
+};
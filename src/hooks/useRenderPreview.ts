@@ -0,0 +1,86 @@
+import { useState, useEffect, useMemo } from 'react';
+import { BlenderRenderOptions, RenderedFrame } from '../types/blender';
+import { useElectron } from './useElectron';
+
+const PREVIEW_WIDTH = 640;
+
+/**
+ * Watch a render's output directory and load the selected frame. Follows
+ * the most recently written frame until a frame is picked by hand.
+ */
+export const useRenderPreview = (watchId: string, options: BlenderRenderOptions) => {
+  const [frames, setFrames] = useState<RenderedFrame[]>([]);
+  const [selectedFrame, setSelectedFrame] = useState<number | null>(null);
+  const [followLatest, setFollowLatest] = useState(true);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { electronAPI } = useElectron();
+
+  // Options objects are recreated on every queue update; only restart the
+  // watch when their contents change
+  const optionsKey = JSON.stringify(options);
+  const watchedOptions = useMemo<BlenderRenderOptions>(() => JSON.parse(optionsKey), [optionsKey]);
+
+  useEffect(() => {
+    if (!electronAPI?.preview) return;
+
+    setFrames([]);
+    electronAPI.preview.watch(watchId, watchedOptions, setFrames).catch(watchError => {
+      setError(watchError instanceof Error ? watchError.message : String(watchError));
+    });
+
+    return () => {
+      electronAPI.preview.unwatch(watchId);
+    };
+  }, [electronAPI, watchId, watchedOptions]);
+
+  useEffect(() => {
+    if (!followLatest || frames.length === 0) return;
+    const latest = frames.reduce((newest, frame) => (frame.modifiedTime > newest.modifiedTime ? frame : newest));
+    setSelectedFrame(latest.frame);
+  }, [frames, followLatest]);
+
+  const current = frames.find(frame => frame.frame === selectedFrame);
+  const currentPath = current?.path;
+  // Changes when a frame is re-rendered in place
+  const currentVersion = current?.modifiedTime;
+
+  useEffect(() => {
+    if (!electronAPI?.preview || !currentPath) {
+      setImageUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    electronAPI.preview.getFrame(currentPath, PREVIEW_WIDTH)
+      .then(url => {
+        if (cancelled) return;
+        setImageUrl(url);
+        setError(null);
+      })
+      .catch(loadError => {
+        if (cancelled) return;
+        setImageUrl(null);
+        setError(loadError instanceof Error ? loadError.message : String(loadError));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [electronAPI, currentPath, currentVersion]);
+
+  const selectFrame = (frame: number) => {
+    setFollowLatest(false);
+    setSelectedFrame(frame);
+  };
+
+  return {
+    frames,
+    current,
+    imageUrl,
+    error,
+    followLatest,
+    setFollowLatest,
+    selectFrame
+  };
+};
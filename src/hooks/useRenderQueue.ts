@@ -37,7 +37,11 @@ export const useRenderQueue = () => {
   const addToQueue = useCallback((
     blendFile: string,
     outputPath: string,
-    options: any
+    options: any,
+    chunkSize?: number,
+    encode?: QueueItem['encode'],
+    hooks?: QueueItem['hooks'],
+    retryPolicy?: QueueItem['retryPolicy']
   ) => {
     return renderQueue.addToQueue({
       blendFile,
@@ -46,8 +50,11 @@ export const useRenderQueue = () => {
         blendFile,
         outputPath,
         ...options
-      }
-    });
+      },
+      encode,
+      hooks,
+      retryPolicy
+    }, chunkSize);
   }, []);
 
   const removeFromQueue = useCallback((id: string) => {
@@ -82,6 +89,10 @@ export const useRenderQueue = () => {
     return renderQueue.retryItem(id);
   }, []);
 
+  const resumeItem = useCallback((id: string) => {
+    return renderQueue.resumeItem(id);
+  }, []);
+
   return {
     queue,
     stats,
@@ -93,6 +104,7 @@ export const useRenderQueue = () => {
     stopQueue,
     moveItemUp,
     moveItemDown,
-    retryItem
+    retryItem,
+    resumeItem
   };
 };
\ No newline at end of file
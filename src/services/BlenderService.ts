@@ -1,15 +1,45 @@
-import { BlenderRenderOptions, RenderProgress } from '../types/blender';
+import {
+  AssetDependency,
+  BlendFileMetadata,
+  BlenderInstallation,
+  BlenderRenderOptions,
+  CyclesDevice,
+  EncodeProgress,
+  EncodeRequest,
+  OverrideProblem,
+  PathMappingRule,
+  PropertyOverride,
+  RenderProgress
+} from '../types/blender';
+import { BlendFileInfo, readBlendFileInfo } from '../utils/blendFileReader';
 
 export interface BlenderAPI {
   isBlenderAvailable(): Promise<boolean>;
   getBlenderVersion(): Promise<string>;
   setBlenderPath(path: string): Promise<void>;
   getBlenderPath(): Promise<string>;
+  listInstallations(): Promise<BlenderInstallation[]>;
+  addInstallation(path: string, name?: string): Promise<BlenderInstallation>;
+  removeInstallation(id: string): Promise<void>;
+  validateInstallation(id: string): Promise<BlenderInstallation>;
+  discoverInstallations(): Promise<BlenderInstallation[]>;
+  probeFile(blendFile: string, installationId?: string): Promise<BlendFileMetadata>;
+  scanDependencies(blendFile: string, installationId?: string): Promise<AssetDependency[]>;
+  listDevices(installationId?: string): Promise<CyclesDevice[]>;
+  validateOverrides(blendFile: string, overrides: PropertyOverride[], scenes?: string[], installationId?: string): Promise<OverrideProblem[]>;
+  getPathMappings(): Promise<PathMappingRule[]>;
+  setPathMappings(rules: PathMappingRule[]): Promise<void>;
   renderFile(options: BlenderRenderOptions, onProgress?: (progress: RenderProgress) => void): Promise<void>;
-  cancelRender(blendFile: string): Promise<void>;
+  cancelRender(jobId: string): Promise<void>;
   cancelAllRenders(): Promise<void>;
   getActiveRenders(): Promise<string[]>;
-  isRenderActive(blendFile: string): Promise<boolean>;
+  isRenderActive(jobId: string): Promise<boolean>;
+  // Encodes a finished image sequence; rejects when ffmpeg fails
+  encodeVideo(request: EncodeRequest, onProgress?: (progress: EncodeProgress) => void): Promise<void>;
+  cancelEncode(jobId: string): Promise<void>;
+  // Configured ffmpeg executable; an empty path restores the default
+  setFFmpegPath(path: string): Promise<void>;
+  getFFmpegPath(): Promise<string>;
 }
 
 export class BlenderService implements BlenderAPI {
@@ -52,6 +82,91 @@ export class BlenderService implements BlenderAPI {
     return this.electronAPI.blender.getBlenderPath();
   }
 
+  async listInstallations(): Promise<BlenderInstallation[]> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.listInstallations();
+  }
+
+  async addInstallation(path: string, name?: string): Promise<BlenderInstallation> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.addInstallation(path, name);
+  }
+
+  async removeInstallation(id: string): Promise<void> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.removeInstallation(id);
+  }
+
+  async validateInstallation(id: string): Promise<BlenderInstallation> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.validateInstallation(id);
+  }
+
+  async discoverInstallations(): Promise<BlenderInstallation[]> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.discoverInstallations();
+  }
+
+  async probeFile(blendFile: string, installationId?: string): Promise<BlendFileMetadata> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.probeFile(blendFile, installationId);
+  }
+
+  async scanDependencies(blendFile: string, installationId?: string): Promise<AssetDependency[]> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.scanDependencies(blendFile, installationId);
+  }
+
+  async listDevices(installationId?: string): Promise<CyclesDevice[]> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.listDevices(installationId);
+  }
+
+  async validateOverrides(blendFile: string, overrides: PropertyOverride[], scenes: string[] = [], installationId?: string): Promise<OverrideProblem[]> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.validateOverrides(blendFile, overrides, scenes, installationId);
+  }
+
+  async getPathMappings(): Promise<PathMappingRule[]> {
+    if (!this.electronAPI?.blender) {
+      return [];
+    }
+    return this.electronAPI.blender.getPathMappings();
+  }
+
+  async setPathMappings(rules: PathMappingRule[]): Promise<void> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.setPathMappings(rules);
+  }
+
+  // Header and scene names read directly from the file, without Blender
+  async inspectFile(blendFile: string): Promise<BlendFileInfo> {
+    if (!this.electronAPI) {
+      throw new Error('Electron API not available');
+    }
+    return readBlendFileInfo((offset, length) => this.electronAPI.readFileRange(blendFile, offset, length));
+  }
+
   async renderFile(
     options: BlenderRenderOptions,
     onProgress?: (progress: RenderProgress) => void
@@ -62,11 +177,11 @@ export class BlenderService implements BlenderAPI {
     return this.electronAPI.blender.renderFile(options, onProgress);
   }
 
-  async cancelRender(blendFile: string): Promise<void> {
+  async cancelRender(jobId: string): Promise<void> {
     if (!this.electronAPI?.blender) {
       throw new Error('Electron API not available');
     }
-    return this.electronAPI.blender.cancelRender(blendFile);
+    return this.electronAPI.blender.cancelRender(jobId);
   }
 
   async cancelAllRenders(): Promise<void> {
@@ -83,11 +198,42 @@ export class BlenderService implements BlenderAPI {
     return this.electronAPI.blender.getActiveRenders();
   }
 
-  async isRenderActive(blendFile: string): Promise<boolean> {
+  async isRenderActive(jobId: string): Promise<boolean> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.isRenderActive(jobId);
+  }
+
+  async encodeVideo(
+    request: EncodeRequest,
+    onProgress?: (progress: EncodeProgress) => void
+  ): Promise<void> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.encodeVideo(request, onProgress);
+  }
+
+  async cancelEncode(jobId: string): Promise<void> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.cancelEncode(jobId);
+  }
+
+  async setFFmpegPath(path: string): Promise<void> {
+    if (!this.electronAPI?.blender) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.blender.setFFmpegPath(path);
+  }
+
+  async getFFmpegPath(): Promise<string> {
     if (!this.electronAPI?.blender) {
       throw new Error('Electron API not available');
     }
-    return this.electronAPI.blender.isRenderActive(blendFile);
+    return this.electronAPI.blender.getFFmpegPath();
   }
 }
 
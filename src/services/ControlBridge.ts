@@ -0,0 +1,297 @@
+import type { ElectronAPI } from '../types/electron';
+import { BlenderRenderOptions, RenderTarget } from '../types/blender';
+import { FarmJobResult, FarmNode, FarmNodeInfo, FarmProgressReport } from '../types/farm';
+import { BlendFile, ProjectSettings } from '../types/project';
+import {
+  createBlendFile,
+  createRenderJob,
+  DEFAULT_CYCLES_OPTIONS,
+  ENGINES,
+  FORMATS,
+  RenderJob,
+  validateCyclesOptions,
+  validateRetryPolicy
+} from './ProjectService';
+import { OutputTemplateError } from '../utils/outputTemplate';
+import { isConsecutive } from '../utils/videoOptions';
+import { QueueItem, RenderQueue } from './RenderQueue';
+import { WorkerPool } from './WorkerPool';
+
+export class ControlRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ControlRequestError';
+  }
+}
+
+type OptionCheck = (value: unknown) => boolean;
+
+const isInteger: OptionCheck = value => Number.isInteger(value);
+const isPositiveInteger: OptionCheck = value => Number.isInteger(value) && (value as number) > 0;
+const isBoolean: OptionCheck = value => typeof value === 'boolean';
+
+// Any subset of the Cycles options; the rest come from the project
+const isCyclesOptions: OptionCheck = value => {
+  if (!isRecord(value) || !Object.keys(value).every(key => key in DEFAULT_CYCLES_OPTIONS)) return false;
+  const errors: string[] = [];
+  validateCyclesOptions(value, DEFAULT_CYCLES_OPTIONS, 'cycles', errors);
+  return errors.length === 0;
+};
+
+// Render options a remote client may set, with their checks
+const OPTION_CHECKS: Partial<Record<keyof BlenderRenderOptions, OptionCheck>> = {
+  startFrame: isInteger,
+  endFrame: isInteger,
+  frames: value => Array.isArray(value) && value.length > 0 && value.every(isInteger),
+  engine: value => (ENGINES as readonly unknown[]).includes(value),
+  samples: isPositiveInteger,
+  resolution: value => Array.isArray(value) && value.length === 2 && value.every(isPositiveInteger),
+  format: value => (FORMATS as readonly unknown[]).includes(value),
+  quality: value => isInteger(value) && (value as number) >= 0 && (value as number) <= 100,
+  threads: isPositiveInteger,
+  cycles: isCyclesOptions,
+  skipExistingFrames: isBoolean,
+  installationId: value => typeof value === 'string',
+  scene: value => typeof value === 'string' && value !== '',
+  camera: value => typeof value === 'string' && value !== '',
+  viewLayer: value => typeof value === 'string' && value !== ''
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Turn an API add request into queue arguments. Settings the request
+ * leaves out come from the open project, as for a file added in the app.
+ */
+export const parseAddRequest = (body: unknown, settings: ProjectSettings) => {
+  if (!isRecord(body) || typeof body.blendFile !== 'string' || !body.blendFile) {
+    throw new ControlRequestError(400, 'blendFile is required');
+  }
+  if (body.outputPath !== undefined && typeof body.outputPath !== 'string') {
+    throw new ControlRequestError(400, 'outputPath must be a string');
+  }
+  if (body.chunkSize !== undefined && !isPositiveInteger(body.chunkSize)) {
+    throw new ControlRequestError(400, 'chunkSize must be a positive integer');
+  }
+
+  const retryErrors: string[] = [];
+  const retryPolicy = body.retryPolicy === undefined ? undefined : validateRetryPolicy(body.retryPolicy, 'retryPolicy', retryErrors);
+  if (retryErrors.length > 0) {
+    throw new ControlRequestError(400, retryErrors.join('; '));
+  }
+
+  const options = body.options ?? {};
+  if (!isRecord(options)) {
+    throw new ControlRequestError(400, 'options must be an object');
+  }
+  const errors = Object.entries(options).flatMap(([key, value]) => {
+    const check = OPTION_CHECKS[key as keyof BlenderRenderOptions];
+    if (!check) return [`options.${key} is not supported`];
+    return check(value) ? [] : [`options.${key} is invalid`];
+  });
+  if (errors.length > 0) {
+    throw new ControlRequestError(400, errors.join('; '));
+  }
+
+  const file = createBlendFile(body.blendFile, settings);
+  if (body.outputPath) file.outputPath = body.outputPath as string;
+  // Decides whether the video is rendered by Blender or encoded afterwards
+  if (options.format) file.format = options.format as BlendFile['format'];
+  const target = { scene: options.scene, camera: options.camera, viewLayer: options.viewLayer } as RenderTarget;
+  let job: RenderJob;
+  try {
+    job = createRenderJob(file, settings, target);
+  } catch (error) {
+    if (error instanceof OutputTemplateError) throw new ControlRequestError(400, error.message);
+    throw error;
+  }
+  const { outputPath } = job;
+  const frames = options.frames as number[] | undefined;
+  if (frames && job.encode && !isConsecutive(frames)) {
+    throw new ControlRequestError(400, 'options.frames must be consecutive when the project encodes videos');
+  }
+  const engine = options.engine ?? job.options.engine;
+  const cycles = engine === 'CYCLES' ? { ...settings.globalCycles, ...(options.cycles as object | undefined) } : undefined;
+
+  return {
+    item: {
+      blendFile: job.blendFile,
+      outputPath,
+      options: {
+        ...job.options,
+        ...options,
+        outputPath,
+        cycles,
+        ...(frames && { startFrame: Math.min(...frames), endFrame: Math.max(...frames) })
+      } as BlenderRenderOptions,
+      encode: job.encode,
+      // Only the project's own hooks; requests cannot bring commands to run
+      hooks: job.hooks,
+      retryPolicy
+    },
+    // Chunks split the frame range and would each render a whole frame list
+    chunkSize: frames ? undefined : (body.chunkSize as number | undefined) ?? job.chunkSize
+  };
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+export const parseNodeInfo = (body: unknown): FarmNodeInfo => {
+  if (!isRecord(body) || typeof body.name !== 'string' || !body.name.trim()) {
+    throw new ControlRequestError(400, 'name is required');
+  }
+  const errors = [
+    typeof body.platform === 'string' ? '' : 'platform must be a string',
+    isPositiveInteger(body.cores) ? '' : 'cores must be a positive integer',
+    isStringArray(body.gpus) ? '' : 'gpus must be a list of names',
+    isStringArray(body.blenderVersions) ? '' : 'blenderVersions must be a list of versions',
+    body.slots === undefined || isPositiveInteger(body.slots) ? '' : 'slots must be a positive integer'
+  ].filter(Boolean);
+  if (errors.length > 0) {
+    throw new ControlRequestError(400, errors.join('; '));
+  }
+
+  return {
+    name: body.name.trim(),
+    platform: body.platform as string,
+    cores: body.cores as number,
+    gpus: body.gpus as string[],
+    blenderVersions: body.blenderVersions as string[],
+    slots: (body.slots as number | undefined) ?? 1
+  };
+};
+
+const REPORT_FIELDS = [
+  'frame', 'totalFrames', 'percentage', 'secondsRemaining', 'averageFrameSeconds', 'skippedFrames', 'sample', 'totalSamples'
+] as const;
+
+export const parseProgressReport = (body: unknown): FarmProgressReport => {
+  if (!isRecord(body) || typeof body.frame !== 'number' || typeof body.totalFrames !== 'number' || typeof body.percentage !== 'number') {
+    throw new ControlRequestError(400, 'frame, totalFrames and percentage are required');
+  }
+  const report: Record<string, number> = {};
+  REPORT_FIELDS.forEach(field => {
+    if (typeof body[field] === 'number' && Number.isFinite(body[field])) report[field] = body[field] as number;
+  });
+  return report as unknown as FarmProgressReport;
+};
+
+export const parseJobResult = (body: unknown): FarmJobResult => {
+  if (!isRecord(body) || !['completed', 'error', 'cancelled'].includes(body.status as string)) {
+    throw new ControlRequestError(400, 'status must be completed, error or cancelled');
+  }
+  return {
+    status: body.status as FarmJobResult['status'],
+    error: typeof body.error === 'string' ? body.error : undefined
+  };
+};
+
+const requireId = (params: Record<string, string>) => {
+  if (!params.id) throw new ControlRequestError(400, 'Item id is required');
+  return params.id;
+};
+
+const requireNode = <T>(result: T | null, params: Record<string, string>): T => {
+  if (result === null) throw new ControlRequestError(404, `No farm node ${params.id}; register again`);
+  return result;
+};
+
+const requireSuccess = (done: boolean, queue: RenderQueue, id: string, conflict: string) => {
+  const exists = queue.getQueue().some((item: QueueItem) => item.id === id || item.parentId === id);
+  if (!exists) throw new ControlRequestError(404, `No queue item ${id}`);
+  if (!done) throw new ControlRequestError(409, conflict);
+};
+
+/**
+ * Answer control API requests from the main process against `queue` and
+ * the farm nodes in `pool`, and forward changes to WebSocket clients.
+ * Returns a function that disconnects the bridge.
+ */
+export const connectControlBridge = (
+  electronAPI: ElectronAPI,
+  queue: RenderQueue,
+  pool: WorkerPool,
+  getSettings: () => ProjectSettings
+): (() => void) => {
+  if (!electronAPI.control) return () => {};
+
+  electronAPI.control.onRequest(async (action, params, body) => {
+    switch (action) {
+      case 'getQueue':
+        return queue.getQueue();
+      case 'getQueueStats':
+        return queue.getQueueStats();
+      case 'addToQueue': {
+        const { item, chunkSize } = parseAddRequest(body, getSettings());
+        return { id: queue.addToQueue(item, chunkSize) };
+      }
+      case 'removeFromQueue': {
+        const id = requireId(params);
+        if (!queue.removeFromQueue(id)) throw new ControlRequestError(404, `No queue item ${id}`);
+        return undefined;
+      }
+      case 'retryItem': {
+        const id = requireId(params);
+        requireSuccess(queue.retryItem(id), queue, id, 'Only failed, cancelled or interrupted items can be retried');
+        return undefined;
+      }
+      case 'moveItemUp': {
+        const id = requireId(params);
+        requireSuccess(queue.moveItemUp(id), queue, id, 'The item is already first');
+        return undefined;
+      }
+      case 'moveItemDown': {
+        const id = requireId(params);
+        requireSuccess(queue.moveItemDown(id), queue, id, 'The item is already last');
+        return undefined;
+      }
+      case 'startQueue':
+        queue.startQueue();
+        return undefined;
+      case 'pauseQueue':
+        queue.pauseQueue();
+        return undefined;
+      case 'stopQueue':
+        queue.stopQueue();
+        return undefined;
+      case 'getNodes':
+        return pool.getNodes();
+      case 'registerNode':
+        return pool.register(parseNodeInfo(body), params.clientAddress);
+      case 'unregisterNode':
+        if (!pool.unregister(params.id)) throw new ControlRequestError(404, `No farm node ${params.id}`);
+        return undefined;
+      case 'nodeHeartbeat': {
+        const running = isRecord(body) && isStringArray(body.running) ? body.running : [];
+        return requireNode(pool.heartbeat(params.id, running), params);
+      }
+      case 'claimJob':
+        return requireNode(pool.claim(params.id), params);
+      case 'reportJobProgress':
+        return requireNode(pool.reportProgress(params.id, params.itemId, parseProgressReport(body)), params);
+      case 'completeJob':
+        if (!pool.complete(params.id, params.itemId, parseJobResult(body))) {
+          throw new ControlRequestError(404, `No farm node ${params.id}; register again`);
+        }
+        return undefined;
+      default:
+        throw new ControlRequestError(404, `Unknown action ${action}`);
+    }
+  });
+
+  const publishQueue = (items: QueueItem[]) => electronAPI.control.publish({ type: 'queue', queue: items });
+  const publishProgress = (item: QueueItem) => electronAPI.control.publish({ type: 'progress', item });
+  const publishNodes = (nodes: FarmNode[]) => electronAPI.control.publish({ type: 'nodes', nodes });
+  queue.onQueueUpdate(publishQueue);
+  queue.onProgressUpdate(publishProgress);
+  pool.onUpdate(publishNodes);
+
+  return () => {
+    electronAPI.control.removeRequestHandler();
+    queue.removeQueueCallback(publishQueue);
+    queue.removeProgressCallback(publishProgress);
+    pool.removeUpdateCallback(publishNodes);
+  };
+};
@@ -0,0 +1,12 @@
+import type { ElectronAPI } from '../types/electron';
+import { HookContext, HookRunResult, RenderHook } from '../types/hooks';
+import { HookRunner } from './RenderQueue';
+
+// Hooks run by the main process, which has the shell, the files and ffmpeg
+export class ElectronHookRunner implements HookRunner {
+  constructor(private electronAPI: ElectronAPI) {}
+
+  runHook(hook: RenderHook, context: HookContext): Promise<HookRunResult> {
+    return this.electronAPI.hooks.run(hook, context);
+  }
+}
@@ -0,0 +1,172 @@
+import type { ElectronAPI } from '../types/electron';
+import { ProjectSettings } from '../types/project';
+import { PRESET_FIELDS, PresetFile, PresetLibrary, PresetSettings, RenderPreset } from '../types/preset';
+import {
+  compareVersions,
+  DEFAULT_CYCLES_OPTIONS,
+  DEFAULT_PROJECT_SETTINGS,
+  isRecord,
+  replaceUseGPU,
+  SETTINGS_SCHEMA,
+  validateCyclesOptions,
+  validateRecord
+} from './ProjectService';
+
+export const PRESET_FILE_VERSION = '1.1.0';
+
+// Starting library for a computer that has never saved presets
+export const BUILT_IN_PRESETS: RenderPreset[] = [
+  {
+    id: 'preset-preview-eevee',
+    name: 'Preview 50% EEVEE',
+    settings: {
+      globalEngine: 'EEVEE',
+      globalSamples: 16,
+      globalResolution: [960, 540],
+      globalFormat: 'JPEG',
+      globalQuality: 85,
+      globalCycles: DEFAULT_CYCLES_OPTIONS
+    }
+  },
+  {
+    id: 'preset-final-4k-cycles',
+    name: 'Final 4K Cycles 1024spp',
+    settings: {
+      globalEngine: 'CYCLES',
+      globalSamples: 1024,
+      globalResolution: [3840, 2160],
+      globalFormat: 'EXR',
+      globalQuality: 90,
+      globalCycles: { ...DEFAULT_CYCLES_OPTIONS, deviceType: 'GPU', adaptiveThreshold: 0.005 }
+    }
+  }
+];
+
+const PRESET_SCHEMA = Object.fromEntries(PRESET_FIELDS.map(field => [field, SETTINGS_SCHEMA[field]])) as
+  Record<keyof PresetSettings, (typeof SETTINGS_SCHEMA)[keyof PresetSettings]>;
+
+const generateId = () => `preset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Presets saved before 1.1.0 have a GPU on/off switch instead of Cycles options
+const upgradePreset = (preset: RenderPreset): RenderPreset => ({
+  ...preset,
+  settings: replaceUseGPU(preset.settings, 'globalUseGPU', 'globalCycles') as PresetSettings
+});
+
+const pickPresetSettings = (settings: ProjectSettings): PresetSettings =>
+  Object.fromEntries(PRESET_FIELDS.map(field => [field, settings[field]])) as PresetSettings;
+
+export const createPreset = (name: string, settings: ProjectSettings): RenderPreset => ({
+  id: generateId(),
+  name,
+  settings: pickPresetSettings(settings)
+});
+
+export const applyPreset = (settings: ProjectSettings, preset: RenderPreset): ProjectSettings => ({
+  ...settings,
+  ...preset.settings
+});
+
+// Settings of a new project: the defaults with the default preset, if any, on top
+export const newProjectSettings = (library: PresetLibrary | null): ProjectSettings => {
+  const preset = library?.presets.find(candidate => candidate.id === library.defaultPresetId);
+  return preset ? applyPreset(DEFAULT_PROJECT_SETTINGS, preset) : DEFAULT_PROJECT_SETTINGS;
+};
+
+export const serializePresets = (presets: RenderPreset[]): string => {
+  const file: PresetFile = { version: PRESET_FILE_VERSION, presets };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Read an exported presets file. Settings a preset leaves out fall back to
+ * the project defaults; imported presets get new ids.
+ */
+export const parsePresetFile = (contents: string): RenderPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`The presets file is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!isRecord(data) || typeof data.version !== 'string' || !Array.isArray(data.presets)) {
+    throw new Error('The file is not a render presets file.');
+  }
+  if (compareVersions(data.version, PRESET_FILE_VERSION) > 0) {
+    throw new Error(`These presets were exported with a newer format (${data.version}); please update.`);
+  }
+
+  const errors: string[] = [];
+  const presets = data.presets.map((preset, index): RenderPreset => {
+    const where = `presets[${index}]`;
+    if (!isRecord(preset) || typeof preset.name !== 'string' || !preset.name.trim()) {
+      errors.push(`${where}.name is required`);
+      return createPreset('', DEFAULT_PROJECT_SETTINGS);
+    }
+    const raw = replaceUseGPU(preset.settings, 'globalUseGPU', 'globalCycles');
+    const settings = validateRecord(raw, PRESET_SCHEMA, pickPresetSettings(DEFAULT_PROJECT_SETTINGS), `${where}.settings`, errors);
+    settings.globalCycles = validateCyclesOptions(settings.globalCycles, DEFAULT_CYCLES_OPTIONS, `${where}.settings.globalCycles`, errors);
+    return { id: generateId(), name: preset.name.trim(), settings };
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`The presets file is invalid:\n${errors.map(error => `- ${error}`).join('\n')}`);
+  }
+  return presets;
+};
+
+// Imported presets replace presets of the same name and are added otherwise
+export const mergePresets = (library: PresetLibrary, imported: RenderPreset[]): PresetLibrary => {
+  const presets = [...library.presets];
+  imported.forEach(preset => {
+    const index = presets.findIndex(existing => existing.name === preset.name);
+    if (index > -1) {
+      presets[index] = { ...preset, id: presets[index].id };
+    } else {
+      presets.push(preset);
+    }
+  });
+  return { ...library, presets };
+};
+
+export class PresetService {
+  private electronAPI: ElectronAPI | null = null;
+
+  setElectronAPI(electronAPI: ElectronAPI) {
+    this.electronAPI = electronAPI;
+  }
+
+  async loadLibrary(): Promise<PresetLibrary> {
+    if (!this.electronAPI?.presets) {
+      throw new Error('Electron API not available');
+    }
+    const library = await this.electronAPI.presets.load();
+    return library
+      ? { ...library, presets: library.presets.map(upgradePreset) }
+      : { presets: BUILT_IN_PRESETS, defaultPresetId: null };
+  }
+
+  async saveLibrary(library: PresetLibrary): Promise<void> {
+    if (!this.electronAPI?.presets) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.presets.save(library);
+  }
+
+  async exportPresets(filePath: string, presets: RenderPreset[]): Promise<void> {
+    if (!this.electronAPI?.presets) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.presets.exportFile(filePath, serializePresets(presets));
+  }
+
+  async importPresets(filePath: string): Promise<RenderPreset[]> {
+    if (!this.electronAPI?.presets) {
+      throw new Error('Electron API not available');
+    }
+    return parsePresetFile(await this.electronAPI.presets.importFile(filePath));
+  }
+}
+
+export const presetService = new PresetService();
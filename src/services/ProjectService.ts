@@ -0,0 +1,579 @@
+import type { ElectronAPI } from '../types/electron';
+import { BlendFile, ProjectFile, ProjectSettings } from '../types/project';
+import { BlenderRenderOptions, CyclesOptions, EncodeRequest, RenderTarget, VideoOptions } from '../types/blender';
+import { HookAction, RenderHook } from '../types/hooks';
+import { DEFAULT_OUTPUT_TEMPLATE, joinOutputPath, resolveOutputTemplate, templateForTargets } from '../utils/outputTemplate';
+import { sequenceVideoPath } from '../utils/videoOptions';
+import { createHook } from '../utils/renderHooks';
+import type { RetryPolicy } from './RenderQueue';
+
+export const PROJECT_FILE_VERSION = '1.1.0';
+
+// Blender's own defaults for a new scene, rendered on the CPU
+export const DEFAULT_CYCLES_OPTIONS: CyclesOptions = {
+  deviceType: 'CPU',
+  devices: [],
+  denoiser: 'OPENIMAGEDENOISE',
+  denoisingInput: 'RGB_ALBEDO_NORMAL',
+  adaptiveThreshold: 0.01,
+  timeLimit: 0,
+  tileSize: 2048,
+  persistentData: false
+};
+
+// H.264 in MP4 at the scene's frame rate, which plays nearly everywhere
+export const DEFAULT_VIDEO_OPTIONS: VideoOptions = {
+  container: 'MPEG4',
+  codec: 'H264',
+  rateControl: 'CRF',
+  crf: 23,
+  bitrate: 8000,
+  fps: 0,
+  audioCodec: 'AAC',
+  audioBitrate: 192
+};
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  name: 'Untitled Project',
+  outputDirectory: '',
+  outputTemplate: DEFAULT_OUTPUT_TEMPLATE,
+  globalFrameStart: 1,
+  globalFrameEnd: 250,
+  globalEngine: 'CYCLES',
+  globalSamples: 128,
+  globalResolution: [1920, 1080],
+  globalFormat: 'PNG',
+  globalQuality: 90,
+  globalCycles: DEFAULT_CYCLES_OPTIONS,
+  video: DEFAULT_VIDEO_OPTIONS,
+  encodeSequence: false,
+  threads: 4,
+  maxConcurrent: 1,
+  chunkSize: 0,
+  skipExistingFrames: false,
+  maxRenderAttempts: 1,
+  retryBackoffSeconds: 30,
+  retryOnCPUAfterGPUOutOfMemory: false,
+  preferFileSettings: true,
+  hooks: []
+};
+
+type RawProject = Record<string, unknown>;
+
+// Each entry upgrades a project from the keyed version to the next one and
+// must set `version` on the result. Chained until PROJECT_FILE_VERSION.
+const MIGRATIONS: Record<string, (project: RawProject) => RawProject> = {
+  // The GPU switch became the Cycles device type
+  '1.0.0': project => ({
+    ...project,
+    version: '1.1.0',
+    settings: replaceUseGPU(project.settings, 'globalUseGPU', 'globalCycles'),
+    files: Array.isArray(project.files)
+      ? project.files.map(file => replaceUseGPU(file, 'useGPU', 'cycles'))
+      : project.files
+  })
+};
+
+// Cycles options of settings saved with a GPU on/off switch
+const cyclesFromUseGPU = (useGPU: unknown): CyclesOptions => ({
+  ...DEFAULT_CYCLES_OPTIONS,
+  deviceType: useGPU === true ? 'GPU' : 'CPU'
+});
+
+export const replaceUseGPU = (record: unknown, from: string, to: string): unknown => {
+  if (!isRecord(record) || !(from in record)) return record;
+  const { [from]: useGPU, ...rest } = record;
+  return { ...rest, [to]: cyclesFromUseGPU(useGPU) };
+};
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'resolution' | 'object' | 'list' | readonly string[];
+
+export const ENGINES = ['CYCLES', 'EEVEE', 'WORKBENCH'] as const;
+export const FORMATS = ['PNG', 'JPEG', 'TIFF', 'EXR', 'FFMPEG'] as const;
+const SETTINGS_SOURCES = ['file', 'project'] as const;
+export const CYCLES_DEVICE_TYPES = ['CPU', 'GPU', 'CUDA', 'OPTIX', 'HIP', 'METAL', 'ONEAPI'] as const;
+export const DENOISERS = ['NONE', 'OPENIMAGEDENOISE', 'OPTIX'] as const;
+export const DENOISING_INPUTS = ['RGB', 'RGB_ALBEDO', 'RGB_ALBEDO_NORMAL'] as const;
+export const VIDEO_CONTAINERS = ['MPEG4', 'QUICKTIME', 'WEBM', 'MKV'] as const;
+export const VIDEO_CODECS = ['H264', 'H265', 'PRORES', 'VP9', 'AV1'] as const;
+export const AUDIO_CODECS = ['NONE', 'AAC', 'OPUS', 'PCM'] as const;
+export const HOOK_STAGES = ['pre', 'post'] as const;
+export const HOOK_RUN_ON = ['success', 'failure', 'always'] as const;
+export const HOOK_ACTION_TYPES = ['command', 'copy', 'contactSheet', 'manifest', 'webhook'] as const;
+
+export const SETTINGS_SCHEMA: Record<keyof ProjectSettings, FieldType> = {
+  name: 'string',
+  outputDirectory: 'string',
+  outputTemplate: 'string',
+  globalFrameStart: 'number',
+  globalFrameEnd: 'number',
+  globalEngine: ENGINES,
+  globalSamples: 'number',
+  globalResolution: 'resolution',
+  globalFormat: FORMATS,
+  globalQuality: 'number',
+  globalCycles: 'object',
+  video: 'object',
+  encodeSequence: 'boolean',
+  threads: 'number',
+  maxConcurrent: 'number',
+  chunkSize: 'number',
+  skipExistingFrames: 'boolean',
+  maxRenderAttempts: 'number',
+  retryBackoffSeconds: 'number',
+  retryOnCPUAfterGPUOutOfMemory: 'boolean',
+  preferFileSettings: 'boolean',
+  hooks: 'list'
+};
+
+const FILE_SCHEMA: Record<keyof BlendFile, FieldType> = {
+  id: 'string',
+  path: 'string',
+  name: 'string',
+  size: 'string',
+  dateModified: 'string',
+  outputPath: 'string',
+  frameStart: 'number',
+  frameEnd: 'number',
+  engine: ENGINES,
+  samples: 'number',
+  resolution: 'resolution',
+  format: FORMATS,
+  quality: 'number',
+  cycles: 'object',
+  installationId: 'string',
+  settingsSource: SETTINGS_SOURCES,
+  fileInfo: 'object',
+  metadata: 'object',
+  probeError: 'string',
+  dependencies: 'object',
+  targets: 'list',
+  propertyOverrides: 'list',
+  pythonScripts: 'list',
+  retryPolicy: 'object'
+};
+
+const CYCLES_SCHEMA: Record<keyof CyclesOptions, FieldType> = {
+  deviceType: CYCLES_DEVICE_TYPES,
+  devices: 'list',
+  denoiser: DENOISERS,
+  denoisingInput: DENOISING_INPUTS,
+  adaptiveThreshold: 'number',
+  timeLimit: 'number',
+  tileSize: 'number',
+  persistentData: 'boolean'
+};
+
+const VIDEO_SCHEMA: Record<keyof VideoOptions, FieldType> = {
+  container: VIDEO_CONTAINERS,
+  codec: VIDEO_CODECS,
+  rateControl: ['CRF', 'BITRATE'],
+  crf: 'number',
+  bitrate: 'number',
+  fps: 'number',
+  audioCodec: AUDIO_CODECS,
+  audioBitrate: 'number'
+};
+
+const RETRY_POLICY_SCHEMA: Record<keyof RetryPolicy, FieldType> = {
+  maxAttempts: 'number',
+  backoffSeconds: 'number',
+  backoffMultiplier: 'number',
+  fallbackToCPU: 'boolean'
+};
+
+const HOOK_SCHEMA: Record<keyof RenderHook, FieldType> = {
+  id: 'string',
+  name: 'string',
+  stage: HOOK_STAGES,
+  runOn: HOOK_RUN_ON,
+  enabled: 'boolean',
+  timeoutSeconds: 'number',
+  action: 'object'
+};
+
+const HOOK_ACTION_SCHEMAS: Record<HookAction['type'], Record<string, FieldType>> = {
+  command: { type: HOOK_ACTION_TYPES, command: 'string' },
+  copy: { type: HOOK_ACTION_TYPES, destination: 'string', move: 'boolean' },
+  contactSheet: { type: HOOK_ACTION_TYPES, outputFile: 'string', columns: 'number', thumbnailWidth: 'number', maxFrames: 'number' },
+  manifest: { type: HOOK_ACTION_TYPES, outputFile: 'string' },
+  webhook: { type: HOOK_ACTION_TYPES, url: 'string' }
+};
+
+export interface ProjectLoadResult {
+  project: ProjectFile;
+  missingFiles: string[];
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const matchesType = (value: unknown, type: FieldType): boolean => {
+  if (typeof type === 'object') {
+    return typeof value === 'string' && type.includes(value);
+  }
+
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'resolution':
+      return Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number' && n > 0);
+    case 'object':
+      return isRecord(value);
+    case 'list':
+      return Array.isArray(value);
+  }
+};
+
+const describeType = (type: FieldType): string =>
+  typeof type === 'object' ? `one of ${type.join(', ')}` : type;
+
+// Missing fields fall back to `defaults`; present fields of the wrong type are errors
+export function validateRecord<T extends object>(
+  value: unknown,
+  schema: Record<keyof T, FieldType>,
+  defaults: T,
+  where: string,
+  errors: string[]
+): T {
+  if (!isRecord(value)) {
+    errors.push(`${where} must be an object`);
+    return defaults;
+  }
+
+  const result = { ...defaults };
+  (Object.keys(schema) as (keyof T)[]).forEach(key => {
+    const field = value[key as string];
+    if (field === undefined) return;
+
+    if (matchesType(field, schema[key])) {
+      result[key] = field as T[keyof T];
+    } else {
+      errors.push(`${where}.${String(key)} must be ${describeType(schema[key])}`);
+    }
+  });
+
+  return result;
+}
+
+// Cycles options of a project, file or preset; missing fields take `defaults`
+export const validateCyclesOptions = (
+  value: unknown,
+  defaults: CyclesOptions,
+  where: string,
+  errors: string[]
+): CyclesOptions => {
+  const options = validateRecord(value, CYCLES_SCHEMA, defaults, where, errors);
+  if (!options.devices.every(device => typeof device === 'string')) {
+    errors.push(`${where}.devices must be a list of device names`);
+  }
+  (['adaptiveThreshold', 'timeLimit', 'tileSize'] as const).forEach(key => {
+    if (options[key] < 0) errors.push(`${where}.${key} must not be negative`);
+  });
+  return options;
+};
+
+// Video options of a project; missing fields take `defaults`
+export const validateVideoSettings = (
+  value: unknown,
+  defaults: VideoOptions,
+  where: string,
+  errors: string[]
+): VideoOptions => {
+  const options = validateRecord(value, VIDEO_SCHEMA, defaults, where, errors);
+  (['crf', 'bitrate', 'fps', 'audioBitrate'] as const).forEach(key => {
+    if (options[key] < 0) errors.push(`${where}.${key} must not be negative`);
+  });
+  return options;
+};
+
+// Retry settings of a file or API request; fields left out keep the project's
+export const validateRetryPolicy = (value: unknown, where: string, errors: string[]): Partial<RetryPolicy> => {
+  if (isRecord(value)) {
+    Object.keys(value)
+      .filter(key => !(key in RETRY_POLICY_SCHEMA))
+      .forEach(key => errors.push(`${where}.${key} is not supported`));
+  }
+  const policy = validateRecord<Partial<RetryPolicy>>(value, RETRY_POLICY_SCHEMA, {}, where, errors);
+  if (policy.maxAttempts !== undefined && !(Number.isInteger(policy.maxAttempts) && policy.maxAttempts >= 1)) {
+    errors.push(`${where}.maxAttempts must be a whole number of at least 1`);
+  }
+  if (policy.backoffSeconds !== undefined && policy.backoffSeconds < 0) {
+    errors.push(`${where}.backoffSeconds must not be negative`);
+  }
+  if (policy.backoffMultiplier !== undefined && policy.backoffMultiplier < 1) {
+    errors.push(`${where}.backoffMultiplier must be at least 1`);
+  }
+  return policy;
+};
+
+// Render hooks of a project; missing fields take the defaults of the hook's action
+export const validateHookSettings = (value: unknown, where: string, errors: string[]): RenderHook[] => {
+  if (!Array.isArray(value)) {
+    errors.push(`${where} must be a list`);
+    return [];
+  }
+
+  return value.flatMap((entry, index) => {
+    const at = `${where}[${index}]`;
+    const type = isRecord(entry) && isRecord(entry.action) ? entry.action.type : undefined;
+    if (!HOOK_ACTION_TYPES.some(actionType => actionType === type)) {
+      errors.push(`${at}.action.type must be one of ${HOOK_ACTION_TYPES.join(', ')}`);
+      return [];
+    }
+
+    const defaults = createHook(type as HookAction['type']);
+    const hook = validateRecord(entry, HOOK_SCHEMA, defaults, at, errors);
+    const schema = HOOK_ACTION_SCHEMAS[defaults.action.type] as Record<keyof HookAction, FieldType>;
+    return [{ ...hook, action: validateRecord(hook.action, schema, defaults.action, `${at}.action`, errors) }];
+  });
+};
+
+export const compareVersions = (a: string, b: string): number => {
+  const left = a.split('.').map(part => parseInt(part, 10) || 0);
+  const right = b.split('.').map(part => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+export const createBlendFile = (path: string, settings: ProjectSettings): BlendFile => {
+  const name = path.split(/[/\\]/).pop() || path;
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    path,
+    name,
+    size: 'Unknown',
+    dateModified: new Date().toLocaleDateString(),
+    outputPath: settings.outputDirectory || path.replace(/\.blend$/, '_render'),
+    frameStart: settings.globalFrameStart,
+    frameEnd: settings.globalFrameEnd,
+    engine: settings.globalEngine,
+    samples: settings.globalSamples,
+    resolution: settings.globalResolution,
+    format: settings.globalFormat,
+    quality: settings.globalQuality,
+    cycles: settings.globalCycles,
+    settingsSource: 'project'
+  };
+};
+
+export const applyProjectSettings = (file: BlendFile, settings: ProjectSettings): BlendFile => ({
+  ...file,
+  frameStart: settings.globalFrameStart,
+  frameEnd: settings.globalFrameEnd,
+  engine: settings.globalEngine,
+  samples: settings.globalSamples,
+  resolution: settings.globalResolution,
+  format: settings.globalFormat,
+  quality: settings.globalQuality,
+  cycles: settings.globalCycles,
+  outputPath: settings.outputDirectory ?
+    joinOutputPath(settings.outputDirectory, file.name.replace(/\.blend$/i, '')) :
+    file.outputPath,
+  settingsSource: 'project'
+});
+
+export interface RenderJob {
+  blendFile: string;
+  outputPath: string;
+  options: BlenderRenderOptions;
+  // Frames per queue item; undefined renders the file as one item
+  chunkSize?: number;
+  // Encode the finished image sequence to a video file
+  encode?: Omit<EncodeRequest, 'jobId' | 'source'>;
+  // Enabled pre- and post-render hooks of the project
+  hooks?: RenderHook[];
+  // The file's own retry settings on top of the queue's
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+// Every scene, camera and view layer combination picked for a file; the
+// file as saved when nothing is picked
+export const expandRenderTargets = (file: BlendFile): RenderTarget[] => {
+  const selections = file.targets ?? [];
+  if (selections.length === 0) return [{}];
+
+  return selections.flatMap(({ scene, cameras, viewLayers }) => {
+    const cameraChoices = cameras.length > 0 ? cameras : [undefined];
+    const layerChoices = viewLayers.length > 0 ? viewLayers : [undefined];
+    return cameraChoices.flatMap(camera => layerChoices.map(viewLayer => ({
+      scene,
+      ...(camera && { camera }),
+      ...(viewLayer && { viewLayer })
+    })));
+  });
+};
+
+export const describeRenderTarget = (target: RenderTarget): string =>
+  [target.scene, target.camera, target.viewLayer].filter(Boolean).join(' / ');
+
+// Frame rate of the scene a target renders, for encoding its frames
+const sceneFps = (file: BlendFile, target: RenderTarget): number => {
+  const sceneName = target.scene ?? file.metadata?.activeScene;
+  return file.metadata?.scenes.find(scene => scene.name === sceneName)?.fps ?? 24;
+};
+
+/**
+ * What the queue needs to render one target of a file. The output path is
+ * the project's output template expanded for the file; throws an
+ * OutputTemplateError when the template is invalid.
+ */
+export const createRenderJob = (file: BlendFile, settings: ProjectSettings, target: RenderTarget = {}): RenderJob => {
+  const outputPath = resolveOutputTemplate(file, settings, target);
+  const hooks = settings.hooks.filter(hook => hook.enabled);
+  return {
+    blendFile: file.path,
+    outputPath,
+    options: {
+      blendFile: file.path,
+      outputPath,
+      startFrame: file.frameStart,
+      endFrame: file.frameEnd,
+      engine: file.engine,
+      samples: file.samples,
+      resolution: file.resolution,
+      format: file.format,
+      quality: file.quality,
+      threads: settings.threads,
+      ...(file.engine === 'CYCLES' && { cycles: file.cycles }),
+      ...(file.format === 'FFMPEG' && { video: settings.video }),
+      installationId: file.installationId,
+      skipExistingFrames: settings.skipExistingFrames,
+      ...(file.propertyOverrides?.length && { propertyOverrides: file.propertyOverrides }),
+      ...(file.pythonScripts?.length && { pythonScripts: file.pythonScripts }),
+      ...target
+    },
+    // Video files cannot be split; each chunk would overwrite the movie
+    chunkSize: file.format === 'FFMPEG' ? undefined : settings.chunkSize,
+    ...(settings.encodeSequence && file.format !== 'FFMPEG' && {
+      encode: {
+        outputFile: sequenceVideoPath(outputPath, settings.video.container, file.name.replace(/\.blend$/i, '')),
+        video: settings.video,
+        sceneFps: sceneFps(file, target)
+      }
+    }),
+    ...(hooks.length > 0 && { hooks }),
+    ...(file.retryPolicy && { retryPolicy: file.retryPolicy })
+  };
+};
+
+// One job per render target of a file, each writing its own frames
+export const createRenderJobs = (file: BlendFile, settings: ProjectSettings): RenderJob[] => {
+  const targets = expandRenderTargets(file);
+  const targetSettings = { ...settings, outputTemplate: templateForTargets(settings.outputTemplate, targets) };
+  return targets.map(target => createRenderJob(file, targetSettings, target));
+};
+
+export const migrateProject = (project: RawProject): RawProject => {
+  let current = project;
+
+  while (current.version !== PROJECT_FILE_VERSION) {
+    const version = String(current.version);
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Project file version ${version} is not supported and cannot be upgraded.`);
+    }
+    current = migrate(current);
+  }
+
+  return current;
+};
+
+export const validateProject = (project: RawProject): ProjectFile => {
+  const errors: string[] = [];
+  const settings = validateRecord(project.settings, SETTINGS_SCHEMA, DEFAULT_PROJECT_SETTINGS, 'settings', errors);
+  settings.globalCycles = validateCyclesOptions(settings.globalCycles, DEFAULT_CYCLES_OPTIONS, 'settings.globalCycles', errors);
+  settings.video = validateVideoSettings(settings.video, DEFAULT_VIDEO_OPTIONS, 'settings.video', errors);
+  settings.hooks = validateHookSettings(settings.hooks, 'settings.hooks', errors);
+
+  let files: BlendFile[] = [];
+  if (!Array.isArray(project.files)) {
+    errors.push('files must be a list');
+  } else {
+    files = project.files.map((file, index) => {
+      const where = `files[${index}]`;
+      if (!isRecord(file) || typeof file.path !== 'string' || !file.path) {
+        errors.push(`${where}.path is required`);
+        return createBlendFile('', settings);
+      }
+      const validated = validateRecord(file, FILE_SCHEMA, createBlendFile(file.path, settings), where, errors);
+      return {
+        ...validated,
+        cycles: validateCyclesOptions(validated.cycles, settings.globalCycles, `${where}.cycles`, errors),
+        ...(validated.retryPolicy && { retryPolicy: validateRetryPolicy(validated.retryPolicy, `${where}.retryPolicy`, errors) })
+      };
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`The project file is invalid:\n${errors.map(error => `- ${error}`).join('\n')}`);
+  }
+
+  return { version: PROJECT_FILE_VERSION, settings, files };
+};
+
+export const parseProject = (contents: string): ProjectFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`The project file is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!isRecord(data) || typeof data.version !== 'string') {
+    throw new Error('The file is not a Render Farm project (missing version).');
+  }
+
+  if (compareVersions(data.version, PROJECT_FILE_VERSION) > 0) {
+    throw new Error(
+      `This project was saved with a newer project format (${data.version}). ` +
+      `This version of the app supports up to ${PROJECT_FILE_VERSION}; please update.`
+    );
+  }
+
+  return validateProject(migrateProject(data));
+};
+
+export const serializeProject = (settings: ProjectSettings, files: BlendFile[]): string => {
+  const project: ProjectFile = { version: PROJECT_FILE_VERSION, settings, files };
+  return JSON.stringify(project, null, 2);
+};
+
+export class ProjectService {
+  private electronAPI: ElectronAPI | null = null;
+
+  setElectronAPI(electronAPI: ElectronAPI) {
+    this.electronAPI = electronAPI;
+  }
+
+  async saveProject(filePath: string, settings: ProjectSettings, files: BlendFile[]): Promise<void> {
+    if (!this.electronAPI?.project) {
+      throw new Error('Electron API not available');
+    }
+    return this.electronAPI.project.save(filePath, serializeProject(settings, files));
+  }
+
+  async loadProject(filePath: string): Promise<ProjectLoadResult> {
+    if (!this.electronAPI?.project) {
+      throw new Error('Electron API not available');
+    }
+
+    const contents = await this.electronAPI.project.load(filePath);
+    const project = parseProject(contents);
+    const missingFiles = await this.electronAPI.project.findMissingFiles(
+      project.files.map(file => file.path)
+    );
+
+    return { project, missingFiles };
+  }
+}
+
+export const projectService = new ProjectService();
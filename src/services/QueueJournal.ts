@@ -0,0 +1,70 @@
+import type { ElectronAPI } from '../types/electron';
+import { QueueItem, QueueJournal } from './RenderQueue';
+
+const JOURNAL_VERSION = 1;
+
+interface JournalFile {
+  version: number;
+  savedAt: string;
+  items: QueueItem[];
+}
+
+const reviveDate = (value: unknown): Date | undefined =>
+  typeof value === 'string' || typeof value === 'number' ? new Date(value) : undefined;
+
+export const serializeJournal = (items: QueueItem[]): string => {
+  const journal: JournalFile = {
+    version: JOURNAL_VERSION,
+    savedAt: new Date().toISOString(),
+    items
+  };
+  return JSON.stringify(journal);
+};
+
+export const parseJournal = (contents: string): QueueItem[] => {
+  const journal = JSON.parse(contents) as Partial<JournalFile>;
+  if (journal.version !== JOURNAL_VERSION || !Array.isArray(journal.items)) {
+    console.warn('Ignoring queue journal with unsupported version:', journal.version);
+    return [];
+  }
+
+  return journal.items
+    .filter(item => item && typeof item.id === 'string' && item.options?.blendFile)
+    .map(item => ({
+      ...item,
+      startTime: reviveDate(item.startTime),
+      endTime: reviveDate(item.endTime),
+      nextRetryAt: reviveDate(item.nextRetryAt),
+      attempts: item.attempts?.map(attempt => ({
+        ...attempt,
+        startTime: reviveDate(attempt.startTime) ?? new Date(0),
+        endTime: reviveDate(attempt.endTime) ?? new Date(0)
+      })),
+      hookResults: item.hookResults?.map(result => ({
+        ...result,
+        startTime: reviveDate(result.startTime),
+        endTime: reviveDate(result.endTime)
+      }))
+    }));
+};
+
+// Journal stored in the user data directory by the main process
+export class ElectronQueueJournal implements QueueJournal {
+  constructor(private electronAPI: ElectronAPI) {}
+
+  async load(): Promise<QueueItem[]> {
+    const contents = await this.electronAPI.queue.loadJournal();
+    if (!contents) return [];
+
+    try {
+      return parseJournal(contents);
+    } catch (error) {
+      console.error('Queue journal is corrupt, starting with an empty queue:', error);
+      return [];
+    }
+  }
+
+  save(items: QueueItem[]): Promise<void> {
+    return this.electronAPI.queue.saveJournal(serializeJournal(items));
+  }
+}
@@ -1,61 +1,359 @@
 import { BlenderAPI } from './BlenderService';
-import { BlenderRenderOptions, RenderProgress } from '../types/blender';
+import { BlenderRenderOptions, EncodeProgress, EncodeRequest, RenderProgress } from '../types/blender';
+import { HookContext, HookResult, HookRunResult, RenderHook } from '../types/hooks';
+import { classifyRenderFailure, FailureKind } from '../utils/renderFailures';
+import { cyclesOnCPU, usesGPU } from '../utils/cyclesOptions';
+import { hookLabel, hookRunsFor } from '../utils/renderHooks';
+
+export interface RetryPolicy {
+  // Total attempts per render, including the first one
+  maxAttempts: number;
+  // Delay before the first automatic retry
+  backoffSeconds: number;
+  // Growth factor of the delay for each further retry
+  backoffMultiplier: number;
+  // Retry GPU out-of-memory failures with CPU rendering
+  fallbackToCPU: boolean;
+}
+
+export interface RenderAttempt {
+  number: number;
+  // Started by the retry policy rather than by the user
+  automatic: boolean;
+  device: 'CPU' | 'GPU';
+  startTime: Date;
+  endTime: Date;
+  status: 'completed' | 'error' | 'cancelled';
+  error?: string;
+  failure?: FailureKind;
+  failureReason?: string;
+  // Farm node that ran the attempt; unset for this computer
+  node?: string;
+}
+
+// The video encoded from a finished image sequence
+export interface EncodingState {
+  status: 'encoding' | 'completed' | 'error' | 'cancelled';
+  progress: number;
+  error?: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  backoffSeconds: 30,
+  backoffMultiplier: 2,
+  fallbackToCPU: false
+};
 
 export interface QueueItem {
   id: string;
   blendFile: string;
   outputPath: string;
   options: BlenderRenderOptions;
-  status: 'pending' | 'rendering' | 'completed' | 'error' | 'cancelled';
+  status: 'pending' | 'rendering' | 'completed' | 'error' | 'cancelled' | 'interrupted';
   progress: number;
   startTime?: Date;
   endTime?: Date;
   error?: string;
   currentFrame?: number;
   totalFrames?: number;
+  // Frames already on disk that were not rendered again
+  skippedFrames?: number;
+  // Frame to restart from when an interrupted render is resumed
+  resumeFromFrame?: number;
+  // Set on frame-range chunks split from one render; shared by all its chunks
+  parentId?: string;
+  chunkIndex?: number;
+  chunkCount?: number;
+  // Overrides the queue-wide retry policy for this item
+  retryPolicy?: Partial<RetryPolicy>;
+  attempts?: RenderAttempt[];
+  // Set while waiting to be retried automatically
+  nextRetryAt?: Date;
+  // Latest timing reported by the running render
+  secondsRemaining?: number;
+  averageFrameSeconds?: number;
+  // Farm node rendering, or last to render, the item; unset for this computer
+  node?: string;
+  // Encode the frames to a video once rendered; chunks encode the whole
+  // render once all of them completed
+  encode?: Omit<EncodeRequest, 'jobId' | 'source'>;
+  // Set on the item that started the encode
+  encoding?: EncodingState;
+  // Run before each render run of the item and once the render (all its
+  // chunks) completed or failed
+  hooks?: RenderHook[];
+  // Pre-render hooks of the latest run, then post-render hooks on the item
+  // that ran them
+  hookResults?: HookResult[];
+}
+
+export interface ChunkGroupSummary {
+  parentId: string;
+  blendFile: string;
+  status: QueueItem['status'];
+  progress: number;
+  total: number;
+  completed: number;
+  failed: number;
+  startFrame?: number;
+  endFrame?: number;
+  encoding?: EncodingState;
+  hookResults?: HookResult[];
+}
+
+/**
+ * Split an inclusive frame range into consecutive chunks of at most
+ * `chunkSize` frames.
+ */
+export const splitFrameRange = (
+  startFrame: number,
+  endFrame: number,
+  chunkSize: number
+): [number, number][] => {
+  const size = Math.max(1, Math.floor(chunkSize));
+  const chunks: [number, number][] = [];
+
+  for (let start = startFrame; start <= endFrame; start += size) {
+    chunks.push([start, Math.min(endFrame, start + size - 1)]);
+  }
+  return chunks;
+};
+
+const frameCount = (item: QueueItem): number =>
+  Math.max(1, (item.options.endFrame ?? item.options.startFrame ?? 1) - (item.options.startFrame ?? 1) + 1);
+
+/**
+ * Combined status and frame-weighted progress of the chunks of one render.
+ */
+export const summarizeChunks = (chunks: QueueItem[]): ChunkGroupSummary => {
+  const count = (status: QueueItem['status']) => chunks.filter(chunk => chunk.status === status).length;
+  const totalWeight = chunks.reduce((sum, chunk) => sum + frameCount(chunk), 0);
+  const progress = chunks.reduce((sum, chunk) => sum + chunk.progress * frameCount(chunk), 0) / totalWeight;
+
+  let status: QueueItem['status'];
+  if (count('rendering') > 0) status = 'rendering';
+  else if (count('completed') === chunks.length) status = 'completed';
+  else if (count('pending') > 0) status = 'pending';
+  else if (count('error') > 0) status = 'error';
+  else if (count('interrupted') > 0) status = 'interrupted';
+  else status = 'cancelled';
+
+  const starts = chunks.map(chunk => chunk.options.startFrame).filter((frame): frame is number => frame !== undefined);
+  const ends = chunks.map(chunk => chunk.options.endFrame).filter((frame): frame is number => frame !== undefined);
+
+  return {
+    parentId: chunks[0]?.parentId ?? '',
+    blendFile: chunks[0]?.blendFile ?? '',
+    status,
+    progress: Math.round(progress * 10) / 10,
+    total: chunks.length,
+    completed: count('completed'),
+    failed: count('error') + count('cancelled'),
+    startFrame: starts.length > 0 ? Math.min(...starts) : undefined,
+    endFrame: ends.length > 0 ? Math.max(...ends) : undefined,
+    encoding: chunks.find(chunk => chunk.encoding)?.encoding,
+    hookResults: chunks.find(chunk => chunk.hookResults?.some(result => result.stage === 'post'))?.hookResults
+  };
+};
+
+const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Runs renders somewhere else, e.g. on a farm node
+export type RenderExecutor = Pick<BlenderAPI, 'renderFile' | 'cancelRender'>;
+
+export interface RemoteNode {
+  name: string;
+  executor: RenderExecutor;
+}
+
+/**
+ * Rejection of a render whose node went away. The item goes back to
+ * pending for the next free node instead of counting as a failure.
+ */
+export class RenderNodeLostError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenderNodeLostError';
+  }
+}
+
+export interface QueueJournal {
+  load(): Promise<QueueItem[]>;
+  save(items: QueueItem[]): Promise<void>;
+}
+
+// Runs pre- and post-render hooks where the files are, e.g. in the main process
+export interface HookRunner {
+  runHook(hook: RenderHook, context: HookContext): Promise<HookRunResult>;
 }
 
 export class RenderQueue {
   private queue: QueueItem[] = [];
   private isProcessing = false;
   private isPaused = false;
-  private currentItem: QueueItem | null = null;
+  private runningItems = new Map<string, QueueItem>();
+  private remoteItems = new Map<string, { item: QueueItem; executor: RenderExecutor }>();
+  // Items whose video is being encoded, keyed by encode job id
+  private encodingItems = new Map<string, QueueItem>();
+  // Items encoding their video or running post-render hooks
+  private finishingItems = new Set<QueueItem>();
+  private renderLocally = true;
+  private maxConcurrent = 1;
+  private threadBudget: number | null = null;
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
   private progressCallbacks: ((item: QueueItem) => void)[] = [];
   private queueCallbacks: ((queue: QueueItem[]) => void)[] = [];
   private blenderAPI: BlenderAPI | null = null;
+  private journal: QueueJournal | null = null;
+  private hookRunner: HookRunner | null = null;
+  private isWritingJournal = false;
+  private journalDirty = false;
 
   public setBlenderAPI(blenderAPI: BlenderAPI): void {
     this.blenderAPI = blenderAPI;
   }
 
-  public addToQueue(item: Omit<QueueItem, 'id' | 'status' | 'progress'>): string {
-    const queueItem: QueueItem = {
-      ...item,
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      status: 'pending',
-      progress: 0
-    };
+  /**
+   * @param maxConcurrent Number of items rendered at the same time
+   * @param threadBudget Total CPU threads shared between running items;
+   *   when omitted each item keeps its own `threads` option
+   */
+  public setConcurrency(maxConcurrent: number, threadBudget?: number): void {
+    this.maxConcurrent = Math.max(1, Math.floor(maxConcurrent));
+    this.threadBudget = threadBudget && threadBudget > 0 ? Math.floor(threadBudget) : null;
+    this.processQueue();
+  }
 
-    this.queue.push(queueItem);
-    this.notifyQueueUpdate();
-    
-    if (!this.isProcessing && !this.isPaused) {
-      this.processQueue();
+  /**
+   * With local rendering off, items are only rendered by farm nodes that
+   * claim them.
+   */
+  public setLocalRendering(enabled: boolean): void {
+    this.renderLocally = enabled;
+    this.processQueue();
+  }
+
+  public setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...policy };
+  }
+
+  public setJournal(journal: QueueJournal): void {
+    this.journal = journal;
+  }
+
+  public setHookRunner(hookRunner: HookRunner): void {
+    this.hookRunner = hookRunner;
+  }
+
+  /**
+   * Load items journaled by a previous session. Anything that was still
+   * rendering when the app went away is marked as interrupted so it can be
+   * resumed from the frame it reached; unfinished videos and hooks can be
+   * retried.
+   */
+  public async restoreQueue(): Promise<number> {
+    if (!this.journal) return 0;
+
+    const items = await this.journal.load();
+    const restored = items.filter(item => !this.queue.some(existing => existing.id === item.id));
+
+    restored.forEach(item => {
+      item.nextRetryAt = undefined;
+      if (item.status === 'rendering') {
+        item.status = 'interrupted';
+        item.resumeFromFrame = item.currentFrame ?? item.options.startFrame;
+        item.error = undefined;
+      }
+      if (item.encoding?.status === 'encoding') {
+        item.encoding = { ...item.encoding, status: 'error', error: 'Encoding was interrupted' };
+      }
+      item.hookResults = item.hookResults?.map(result =>
+        result.status === 'pending' || result.status === 'running'
+          ? { ...result, status: 'error', error: 'Interrupted before the hook finished' }
+          : result
+      );
+    });
+
+    if (restored.length > 0) {
+      this.queue = [...restored, ...this.queue];
+      this.notifyQueueUpdate();
     }
 
-    return queueItem.id;
+    return restored.length;
   }
 
+  /**
+   * Add a render to the queue. With a `chunkSize` smaller than its frame
+   * range the render is split into one item per chunk, grouped under a
+   * shared `parentId` which is returned instead of an item id.
+   */
+  public addToQueue(item: Omit<QueueItem, 'id' | 'status' | 'progress'>, chunkSize?: number): string {
+    const { startFrame, endFrame } = item.options;
+    const chunks = chunkSize && startFrame !== undefined && endFrame !== undefined
+      ? splitFrameRange(startFrame, endFrame, chunkSize)
+      : [];
+
+    let id: string;
+    if (chunks.length > 1) {
+      id = generateId();
+      chunks.forEach(([chunkStart, chunkEnd], index) => {
+        this.queue.push({
+          ...item,
+          options: { ...item.options, startFrame: chunkStart, endFrame: chunkEnd },
+          id: generateId(),
+          status: 'pending',
+          progress: 0,
+          parentId: id,
+          chunkIndex: index,
+          chunkCount: chunks.length
+        });
+      });
+    } else {
+      id = generateId();
+      this.queue.push({
+        ...item,
+        id,
+        status: 'pending',
+        progress: 0
+      });
+    }
+
+    this.notifyQueueUpdate();
+
+    // Deferred so items added in one batch are scheduled (and share threads) together
+    queueMicrotask(() => this.processQueue());
+
+    return id;
+  }
+
+  public getChunks(parentId: string): QueueItem[] {
+    return this.queue.filter(item => item.parentId === parentId);
+  }
+
+  // Accepts an item id, or a parent id to remove every chunk of that render
   public removeFromQueue(id: string): boolean {
+    const chunks = this.getChunks(id);
+    if (chunks.length > 0) {
+      chunks.forEach(chunk => this.removeFromQueue(chunk.id));
+      return true;
+    }
+
     const index = this.queue.findIndex(item => item.id === id);
     if (index === -1) return false;
 
     const item = this.queue[index];
     
     // If item is currently rendering, cancel it
-    if (item.status === 'rendering' && this.blenderAPI) {
-      this.blenderAPI.cancelRender(item.blendFile);
+    const executor = this.remoteItems.get(item.id)?.executor ?? this.blenderAPI;
+    if (item.status === 'rendering' && executor) {
+      executor.cancelRender(item.id);
     }
+    this.runningItems.delete(item.id);
+    this.remoteItems.delete(item.id);
+    this.clearRetryTimer(item.id);
+    this.cancelEncoding(item);
 
     this.queue.splice(index, 1);
     this.notifyQueueUpdate();
@@ -67,19 +365,24 @@ export class RenderQueue {
     if (this.blenderAPI) {
       this.blenderAPI.cancelAllRenders();
     }
+    this.cancelRemoteRenders();
+    this.queue.forEach(item => this.cancelEncoding(item));
     
     // Clear the queue
     this.queue = [];
-    this.currentItem = null;
+    this.runningItems.clear();
+    this.remoteItems.clear();
+    this.encodingItems.clear();
+    this.finishingItems.clear();
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
     this.isProcessing = false;
     this.notifyQueueUpdate();
   }
 
   public startQueue(): void {
     this.isPaused = false;
-    if (!this.isProcessing) {
-      this.processQueue();
-    }
+    this.processQueue();
   }
 
   public pauseQueue(): void {
@@ -91,15 +394,27 @@ export class RenderQueue {
     if (this.blenderAPI) {
       this.blenderAPI.cancelAllRenders();
     }
+    this.cancelRemoteRenders();
     
-    // Reset current item status
-    if (this.currentItem) {
-      this.currentItem.status = 'cancelled';
-      this.currentItem.endTime = new Date();
-      this.notifyProgressUpdate(this.currentItem);
-    }
+    // Reset running item statuses
+    [...this.runningItems.values(), ...[...this.remoteItems.values()].map(({ item }) => item)].forEach(item => {
+      item.status = 'cancelled';
+      item.endTime = new Date();
+      this.notifyProgressUpdate(item);
+    });
     
-    this.currentItem = null;
+    this.runningItems.clear();
+    this.remoteItems.clear();
+    // Settled as cancelled by the encodes themselves
+    this.encodingItems.forEach(item => this.cancelEncoding(item));
+
+    // Items waiting for an automatic retry stay pending until the queue is started again
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    this.queue.forEach(item => {
+      item.nextRetryAt = undefined;
+    });
+
     this.isProcessing = false;
   }
 
@@ -114,6 +429,7 @@ export class RenderQueue {
     const completed = this.queue.filter(item => item.status === 'completed').length;
     const failed = this.queue.filter(item => item.status === 'error').length;
     const cancelled = this.queue.filter(item => item.status === 'cancelled').length;
+    const interrupted = this.queue.filter(item => item.status === 'interrupted').length;
 
     return {
       total,
@@ -122,12 +438,34 @@ export class RenderQueue {
       completed,
       failed,
       cancelled,
+      interrupted,
       isProcessing: this.isProcessing,
       isPaused: this.isPaused,
-      currentItem: this.currentItem
+      maxConcurrent: this.maxConcurrent,
+      currentItems: [...this.runningItems.values(), ...[...this.remoteItems.values()].map(({ item }) => item)]
     };
   }
 
+  /**
+   * Start the next pending item that `accepts` allows on a farm node, in
+   * queue order. Returns null when the queue is paused or has nothing for
+   * the node.
+   */
+  public claimItem(node: RemoteNode, accepts: (item: QueueItem) => boolean = () => true): QueueItem | null {
+    if (this.isPaused) return null;
+
+    const now = Date.now();
+    const item = this.queue.find(candidate =>
+      candidate.status === 'pending' &&
+      (!candidate.nextRetryAt || candidate.nextRetryAt.getTime() <= now) &&
+      accepts(candidate)
+    );
+    if (!item) return null;
+
+    this.renderItem(item, node);
+    return item;
+  }
+
   public onProgressUpdate(callback: (item: QueueItem) => void): void {
     this.progressCallbacks.push(callback);
   }
@@ -150,69 +488,382 @@ export class RenderQueue {
     }
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.isProcessing || this.isPaused || !this.blenderAPI) return;
-
-    this.isProcessing = true;
+  // Fill free render slots with pending items, in queue order
+  private processQueue(): void {
+    const now = Date.now();
 
-    while (this.queue.length > 0 && !this.isPaused) {
-      const nextItem = this.queue.find(item => item.status === 'pending');
+    while (!this.isPaused && this.renderLocally && this.blenderAPI && this.runningItems.size < this.maxConcurrent) {
+      const nextItem = this.queue.find(item =>
+        item.status === 'pending' && (!item.nextRetryAt || item.nextRetryAt.getTime() <= now)
+      );
       if (!nextItem) break;
 
-      this.currentItem = nextItem;
-      nextItem.status = 'rendering';
-      nextItem.startTime = new Date();
-      nextItem.progress = 0;
+      this.renderItem(nextItem);
+    }
 
-      this.notifyProgressUpdate(nextItem);
-      this.notifyQueueUpdate();
+    this.isProcessing = this.runningItems.size > 0 || this.remoteItems.size > 0 || this.retryTimers.size > 0 ||
+      this.encodingItems.size > 0 || this.finishingItems.size > 0;
+  }
+
+  private cancelRemoteRenders(): void {
+    this.remoteItems.forEach(({ executor }, id) => {
+      executor.cancelRender(id);
+    });
+  }
+
+  // Split the thread budget between the items that will be running side by side
+  private getThreadsPerItem(): number | undefined {
+    if (!this.threadBudget) return undefined;
+
+    const pending = this.queue.filter(item => item.status === 'pending').length;
+    const slots = Math.min(this.maxConcurrent, this.runningItems.size + pending);
+    return Math.max(1, Math.floor(this.threadBudget / Math.max(1, slots)));
+  }
+
+  private async renderItem(item: QueueItem, remote?: RemoteNode): Promise<void> {
+    const executor = remote?.executor ?? this.blenderAPI;
+    if (!executor) return;
+
+    if (remote) {
+      this.remoteItems.set(item.id, { item, executor });
+    } else {
+      this.runningItems.set(item.id, item);
+    }
+    this.clearRetryTimer(item.id);
+    const automatic = item.nextRetryAt !== undefined;
+    item.nextRetryAt = undefined;
+    item.status = 'rendering';
+    item.startTime = new Date();
+    item.progress = 0;
+    item.error = undefined;
+    item.secondsRemaining = undefined;
+    item.averageFrameSeconds = undefined;
+    item.node = remote?.name;
+
+    this.notifyProgressUpdate(item);
+    this.notifyQueueUpdate();
 
+    const options = {
+      ...item.options,
+      jobId: item.id,
+      ...(item.resumeFromFrame !== undefined && { startFrame: item.resumeFromFrame })
+    };
+    if (remote) {
+      // Nodes use their own cores and their own installation of the pinned Blender version
+      options.installationId = undefined;
+      options.threads = undefined;
+    } else {
+      const threads = this.getThreadsPerItem();
+      if (threads) {
+        options.threads = threads;
+      }
+    }
+
+    // Pre-render hooks run here, even for renders on farm nodes
+    const preHooks = this.startHooks(item, 'pre');
+    if (preHooks.length > 0 && !(await this.runHooks(item, preHooks, this.preHookContext(item)))) {
+      const failed = item.hookResults?.find(result => result.status === 'error');
+      item.status = 'error';
+      item.error = `Pre-render hook "${failed?.name}" failed: ${failed?.error ?? 'Unknown error'}`;
+      item.endTime = new Date();
+    }
+
+    // Not rendered when cancelled, removed or failed while the pre-render hooks ran
+    if (item.status === 'rendering' && this.queue.includes(item)) {
       try {
-        await this.blenderAPI.renderFile(
-          nextItem.options,
+        await executor.renderFile(
+          options,
           (progress: RenderProgress) => {
-            nextItem.progress = progress.percentage;
-            nextItem.currentFrame = progress.frame;
-            nextItem.totalFrames = progress.totalFrames;
-            
+            item.progress = progress.percentage;
+            item.currentFrame = progress.frame;
+            item.totalFrames = progress.totalFrames;
+            item.skippedFrames = progress.skippedFrames;
+            item.secondsRemaining = progress.secondsRemaining;
+            item.averageFrameSeconds = progress.averageFrameSeconds ?? item.averageFrameSeconds;
+          
             if (progress.status === 'error') {
-              nextItem.status = 'error';
-              nextItem.error = progress.message;
-              nextItem.endTime = new Date();
+              item.status = 'error';
+              item.error = progress.message;
+              item.endTime = new Date();
             } else if (progress.status === 'cancelled') {
-              nextItem.status = 'cancelled';
-              nextItem.endTime = new Date();
+              item.status = 'cancelled';
+              item.endTime = new Date();
             } else if (progress.status === 'completed') {
-              nextItem.status = 'completed';
-              nextItem.progress = 100;
-              nextItem.endTime = new Date();
+              item.status = 'completed';
+              item.progress = 100;
+              item.endTime = new Date();
             }
 
-            this.notifyProgressUpdate(nextItem);
+            this.notifyProgressUpdate(item);
           }
         );
 
-        if (nextItem.status === 'rendering') {
-          nextItem.status = 'completed';
-          nextItem.progress = 100;
-          nextItem.endTime = new Date();
+        if (item.status === 'rendering') {
+          item.status = 'completed';
+          item.progress = 100;
+          item.endTime = new Date();
+        }
+
+        if (item.status === 'completed') {
+          item.resumeFromFrame = undefined;
         }
 
       } catch (error) {
-        nextItem.status = 'error';
-        nextItem.error = error instanceof Error ? error.message : 'Unknown error';
-        nextItem.endTime = new Date();
+        if (error instanceof RenderNodeLostError) {
+          // Rendered again from the start: frames the node was writing may be partial
+          item.status = 'pending';
+          item.error = error.message;
+        } else {
+          item.status = 'error';
+          item.error = error instanceof Error ? error.message : 'Unknown error';
+          item.endTime = new Date();
+        }
       }
+    }
+
+    this.runningItems.delete(item.id);
+    this.remoteItems.delete(item.id);
 
-      this.notifyProgressUpdate(nextItem);
+    // An item removed from the queue or cleared mid-render has no history to keep
+    if (this.queue.includes(item)) {
+      this.recordAttempt(item, automatic, usesGPU(options) ? 'GPU' : 'CPU');
+      if (item.status === 'completed' || item.status === 'error') {
+        this.finishRender(item);
+      }
+    }
+
+    this.notifyProgressUpdate(item);
+    this.notifyQueueUpdate();
+    this.processQueue();
+  }
+
+  private recordAttempt(item: QueueItem, automatic: boolean, device: RenderAttempt['device']): void {
+    const attempts = item.attempts ?? [];
+    const attempt: RenderAttempt = {
+      number: attempts.length + 1,
+      automatic,
+      device,
+      startTime: item.startTime ?? new Date(),
+      endTime: item.endTime ?? new Date(),
+      status: item.status === 'completed' ? 'completed' : item.status === 'error' ? 'error' : 'cancelled',
+      error: item.error,
+      node: item.node
+    };
+    item.attempts = [...attempts, attempt];
+
+    if (item.status !== 'error') return;
+
+    const failure = classifyRenderFailure(item.error ?? '');
+    attempt.failure = failure.kind;
+    attempt.failureReason = failure.reason;
+    if (failure.kind === 'permanent') return;
+
+    // Budget counts this attempt plus the automatic retries right before it
+    const policy = { ...this.retryPolicy, ...item.retryPolicy };
+    let run = 1;
+    while (run < item.attempts.length && item.attempts[item.attempts.length - run].automatic) {
+      run++;
+    }
+    if (run >= policy.maxAttempts) return;
+
+    if (failure.gpuOutOfMemory && policy.fallbackToCPU && item.options.cycles && usesGPU(item.options)) {
+      item.options = { ...item.options, cycles: cyclesOnCPU(item.options.cycles) };
+    }
+
+    const delay = policy.backoffSeconds * 1000 * Math.pow(policy.backoffMultiplier, run - 1);
+    item.status = 'pending';
+    item.endTime = undefined;
+    item.nextRetryAt = new Date(Date.now() + delay);
+
+    this.retryTimers.set(item.id, setTimeout(() => {
+      this.retryTimers.delete(item.id);
+      this.processQueue();
+    }, delay));
+  }
+
+  /**
+   * Once every chunk of a render completed or failed, encode its video and
+   * then run its post-render hooks, on the chunk that settled last. Runs on
+   * this computer, whichever node rendered.
+   */
+  private async finishRender(item: QueueItem): Promise<void> {
+    const chunks = item.parentId ? this.getChunks(item.parentId) : [item];
+    if (this.finishingItems.has(item) || chunks.some(chunk => chunk.status !== 'completed' && chunk.status !== 'error')) return;
+
+    chunks.forEach(chunk => {
+      chunk.hookResults = chunk.hookResults?.filter(result => result.stage === 'pre');
+    });
+    // Marked pending right away so nobody sees the render as finished in between
+    const hooks = this.startHooks(item, 'post');
+    this.finishingItems.add(item);
+
+    const completed = chunks.every(chunk => chunk.status === 'completed');
+    if (completed && item.encoding?.status !== 'completed') {
+      await this.encodeVideo(item);
+    }
+
+    // A cancelled encode leaves the render unfinished, like a cancelled render
+    if (item.encoding?.status === 'cancelled') {
+      item.hookResults = item.hookResults?.filter(result => result.stage === 'pre');
+    } else if (hooks.length > 0 && this.queue.includes(item)) {
+      await this.runHooks(item, hooks, this.postHookContext(item, chunks));
+    }
+
+    this.finishingItems.delete(item);
+    if (this.queue.includes(item)) {
+      this.notifyProgressUpdate(item);
       this.notifyQueueUpdate();
-      this.currentItem = null;
+    }
+    this.processQueue();
+  }
+
+  // Mark the enabled hooks of a stage pending; pre-render hooks start a fresh run
+  private startHooks(item: QueueItem, stage: RenderHook['stage']): RenderHook[] {
+    const hooks = (item.hooks ?? []).filter(hook => hook.stage === stage && hook.enabled);
+    const kept = stage === 'pre' ? [] : (item.hookResults ?? []).filter(result => result.stage === 'pre');
+    const pending = hooks.map((hook): HookResult => ({ hookId: hook.id, name: hookLabel(hook), stage, status: 'pending' }));
+
+    item.hookResults = kept.length + pending.length > 0 ? [...kept, ...pending] : undefined;
+    return hooks;
+  }
+
+  /**
+   * Run hooks one after another, recording each result on the item. A
+   * failed pre-render hook skips the ones after it; post-render hooks all
+   * run. Resolves whether every hook that ran succeeded.
+   */
+  private async runHooks(item: QueueItem, hooks: RenderHook[], context: HookContext): Promise<boolean> {
+    let passed = true;
+
+    for (const hook of hooks) {
+      const update = (changes: Partial<HookResult>) => {
+        item.hookResults = item.hookResults?.map(result =>
+          result.hookId === hook.id && result.stage === hook.stage ? { ...result, ...changes } : result
+        );
+        this.notifyProgressUpdate(item);
+      };
 
-      // Small delay between renders
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (!hookRunsFor(hook, context.status) || (!passed && hook.stage === 'pre')) {
+        update({ status: 'skipped' });
+        continue;
+      }
+
+      update({ status: 'running', startTime: new Date() });
+      let result: HookRunResult;
+      try {
+        result = this.hookRunner
+          ? await this.hookRunner.runHook(hook, context)
+          : { status: 'error', log: '', error: 'Render hooks cannot run here' };
+      } catch (error) {
+        result = { status: 'error', log: '', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+      update({ status: result.status, endTime: new Date(), log: result.log || undefined, error: result.error });
+
+      if (result.status === 'error') {
+        passed = false;
+      }
     }
 
-    this.isProcessing = false;
+    return passed;
+  }
+
+  private preHookContext(item: QueueItem): HookContext {
+    return {
+      stage: 'pre',
+      status: 'pending',
+      itemId: item.parentId ?? item.id,
+      source: item.options,
+      startTime: item.startTime?.toISOString()
+    };
+  }
+
+  // The whole render: every chunk's frames, from the first start to the last end
+  private postHookContext(item: QueueItem, chunks: QueueItem[]): HookContext {
+    const { startFrame, endFrame } = item.parentId ? summarizeChunks(chunks) : item.options;
+    const failed = chunks.find(chunk => chunk.status === 'error');
+    const encodingFailed = item.encode && item.encoding?.status !== 'completed';
+    const startTimes = chunks.flatMap(chunk => (chunk.startTime ? [chunk.startTime.getTime()] : []));
+    const endTimes = chunks.flatMap(chunk => (chunk.endTime ? [chunk.endTime.getTime()] : []));
+
+    return {
+      stage: 'post',
+      status: failed || encodingFailed ? 'error' : 'completed',
+      itemId: item.parentId ?? item.id,
+      source: { ...item.options, startFrame, endFrame },
+      error: failed?.error ?? (encodingFailed ? `Video encoding failed: ${item.encoding?.error ?? 'Unknown error'}` : undefined),
+      videoFile: item.encoding?.status === 'completed' ? item.encode?.outputFile : undefined,
+      startTime: startTimes.length > 0 ? new Date(Math.min(...startTimes)).toISOString() : undefined,
+      endTime: endTimes.length > 0 ? new Date(Math.max(...endTimes)).toISOString() : undefined
+    };
+  }
+
+  /**
+   * Encode the frames of a completed render, or of every chunk of it once
+   * the last one completed.
+   */
+  private async encodeVideo(item: QueueItem): Promise<void> {
+    const chunks = item.parentId ? this.getChunks(item.parentId) : [item];
+    if (!item.encode || !this.blenderAPI || chunks.some(chunk => chunk.status !== 'completed')) return;
+
+    const { startFrame, endFrame } = item.parentId ? summarizeChunks(chunks) : item.options;
+    const request: EncodeRequest = {
+      ...item.encode,
+      jobId: this.encodeJobId(item),
+      source: { ...item.options, startFrame, endFrame }
+    };
+    chunks.forEach(chunk => {
+      chunk.encoding = undefined;
+    });
+    item.encoding = { status: 'encoding', progress: 0 };
+    this.encodingItems.set(request.jobId, item);
+    this.notifyProgressUpdate(item);
+
+    try {
+      await this.blenderAPI.encodeVideo(request, (progress: EncodeProgress) => {
+        item.encoding = {
+          status: progress.status,
+          progress: progress.percentage,
+          ...(progress.status === 'error' && { error: progress.message })
+        };
+        this.notifyProgressUpdate(item);
+      });
+      if (item.encoding?.status === 'encoding') {
+        item.encoding = { status: 'completed', progress: 100 };
+      }
+    } catch (error) {
+      item.encoding = {
+        status: 'error',
+        progress: item.encoding?.progress ?? 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+
+    this.encodingItems.delete(request.jobId);
+    if (this.queue.includes(item)) {
+      this.notifyProgressUpdate(item);
+      this.notifyQueueUpdate();
+    }
+    this.processQueue();
+  }
+
+  // One encode per render, whichever chunk completed last
+  private encodeJobId(item: QueueItem): string {
+    return `encode-${item.parentId ?? item.id}`;
+  }
+
+  private cancelEncoding(item: QueueItem): void {
+    const jobId = this.encodeJobId(item);
+    if (this.encodingItems.get(jobId) === item && this.blenderAPI) {
+      this.blenderAPI.cancelEncode(jobId);
+    }
+  }
+
+  private clearRetryTimer(id: string): void {
+    const timer = this.retryTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(id);
+    }
   }
 
   private notifyProgressUpdate(item: QueueItem): void {
@@ -223,6 +874,7 @@ export class RenderQueue {
         console.error('Error in progress callback:', error);
       }
     });
+    this.writeJournal();
   }
 
   private notifyQueueUpdate(): void {
@@ -233,6 +885,29 @@ export class RenderQueue {
         console.error('Error in queue callback:', error);
       }
     });
+    this.writeJournal();
+  }
+
+  // Writes are serialized; updates arriving mid-write are folded into one follow-up write
+  private async writeJournal(): Promise<void> {
+    if (!this.journal) return;
+
+    if (this.isWritingJournal) {
+      this.journalDirty = true;
+      return;
+    }
+
+    this.isWritingJournal = true;
+    try {
+      do {
+        this.journalDirty = false;
+        await this.journal.save([...this.queue]);
+      } while (this.journalDirty);
+    } catch (error) {
+      console.error('Error writing queue journal:', error);
+    } finally {
+      this.isWritingJournal = false;
+    }
   }
 
   public moveItemUp(id: string): boolean {
@@ -253,22 +928,55 @@ export class RenderQueue {
     return true;
   }
 
+  // Accepts an item id, or a parent id to retry only the chunks that did not complete
   public retryItem(id: string): boolean {
+    const chunks = this.getChunks(id);
+    if (chunks.length > 0) {
+      return chunks
+        .map(chunk => this.retryItem(chunk.id))
+        .some(Boolean);
+    }
+
     const item = this.queue.find(item => item.id === id);
-    if (!item || (item.status !== 'error' && item.status !== 'cancelled')) return false;
+    const finishFailed = item?.encoding?.status === 'error' || item?.encoding?.status === 'cancelled' ||
+      item?.hookResults?.some(result => result.stage === 'post' && result.status === 'error');
+    if (item?.status === 'completed' && finishFailed && !this.finishingItems.has(item)) {
+      // Only the video or the post-render hooks failed; the frames are there
+      this.finishRender(item);
+      this.processQueue();
+      return true;
+    }
+    if (!item || (item.status !== 'error' && item.status !== 'cancelled' && item.status !== 'interrupted')) return false;
 
     item.status = 'pending';
+    item.encoding = undefined;
+    item.hookResults = undefined;
     item.progress = 0;
     item.error = undefined;
     item.startTime = undefined;
     item.endTime = undefined;
+    item.resumeFromFrame = undefined;
+    item.nextRetryAt = undefined;
+    this.clearRetryTimer(item.id);
 
     this.notifyProgressUpdate(item);
     this.notifyQueueUpdate();
+    this.processQueue();
 
-    if (!this.isProcessing && !this.isPaused) {
-      this.processQueue();
-    }
+    return true;
+  }
+
+  public resumeItem(id: string): boolean {
+    const item = this.queue.find(item => item.id === id);
+    if (!item || item.status !== 'interrupted') return false;
+
+    item.status = 'pending';
+    item.error = undefined;
+    item.endTime = undefined;
+
+    this.notifyProgressUpdate(item);
+    this.notifyQueueUpdate();
+    this.processQueue();
 
     return true;
   }
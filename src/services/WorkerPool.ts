@@ -0,0 +1,339 @@
+import { BlenderInstallation, BlenderRenderOptions, PathMappingRule, RenderProgress } from '../types/blender';
+import { FarmJob, FarmJobResult, FarmNode, FarmNodeInfo, FarmProgressReport, FarmRegistration } from '../types/farm';
+import { QueueItem, RenderExecutor, RenderNodeLostError, RenderQueue } from './RenderQueue';
+import { usesGPU } from '../utils/cyclesOptions';
+
+export const HEARTBEAT_SECONDS = 5;
+// A node that has not been heard from for this long is offline and loses its jobs
+export const NODE_TIMEOUT_SECONDS = 20;
+
+interface RemoteJob {
+  nodeId: string;
+  blendFile: string;
+  options: BlenderRenderOptions;
+  // Latest report, repeated with the final status
+  progress: RenderProgress;
+  // Set once a claim has sent the job to its node
+  handedOut: boolean;
+  onProgress: (progress: RenderProgress) => void;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+const generateId = () => `node-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Coordinator side of the render farm. Worker nodes register, then pull
+ * queue items (or chunks of them) one at a time and report back; to the
+ * queue each node is just another place to run a render. Nodes that stop
+ * sending heartbeats are marked offline and their items are queued again.
+ */
+export class WorkerPool {
+  private nodes = new Map<string, FarmNode>();
+  private jobs = new Map<string, RemoteJob>();
+  private executors = new Map<string, RenderExecutor>();
+  private queue: RenderQueue | null = null;
+  private monitor: ReturnType<typeof setInterval> | null = null;
+  private updateCallbacks: ((nodes: FarmNode[]) => void)[] = [];
+  private pathMappings: PathMappingRule[] = [];
+  private installations: BlenderInstallation[] = [];
+
+  public attach(queue: RenderQueue): void {
+    this.queue?.removeProgressCallback(this.releaseUnstarted);
+    this.queue = queue;
+    queue.onProgressUpdate(this.releaseUnstarted);
+    if (!this.monitor) {
+      this.monitor = setInterval(() => this.checkHeartbeats(), HEARTBEAT_SECONDS * 1000);
+    }
+  }
+
+  public detach(): void {
+    if (this.monitor) {
+      clearInterval(this.monitor);
+      this.monitor = null;
+    }
+    [...this.nodes.keys()].forEach(id => this.unregister(id));
+    this.queue?.removeProgressCallback(this.releaseUnstarted);
+    this.queue = null;
+  }
+
+  // Sent with every job so nodes find shared storage where they mount it
+  public setPathMappings(rules: PathMappingRule[]): void {
+    this.pathMappings = rules;
+  }
+
+  // Resolves the installations items are pinned to into the Blender versions nodes must have
+  public setInstallations(installations: BlenderInstallation[]): void {
+    this.installations = installations;
+  }
+
+  public register(info: FarmNodeInfo, address?: string): FarmRegistration {
+    // A restarted worker comes back under a new id; forget its offline self
+    this.nodes.forEach(node => {
+      if (node.name === info.name && node.status === 'offline') this.nodes.delete(node.id);
+    });
+
+    const now = new Date();
+    const node: FarmNode = {
+      ...info,
+      id: generateId(),
+      address,
+      status: 'idle',
+      registeredAt: now,
+      lastSeen: now,
+      jobs: [],
+      completedJobs: 0,
+      failedJobs: 0
+    };
+    this.nodes.set(node.id, node);
+    this.notifyUpdate();
+
+    return { nodeId: node.id, heartbeatSeconds: HEARTBEAT_SECONDS };
+  }
+
+  /**
+   * Remove a node that is shutting down. Items it was rendering go back to
+   * the queue.
+   */
+  public unregister(nodeId: string): boolean {
+    const node = this.nodes.get(nodeId);
+    if (!node) return false;
+
+    this.nodes.delete(nodeId);
+    this.failJobs(node, `${node.name} left the farm`);
+    this.notifyUpdate();
+    return true;
+  }
+
+  /**
+   * Record that a node is alive. `running` lists the items the node is
+   * rendering; any of them it should stop (cancelled, removed, or handed
+   * to another node) are returned. Null for an unknown node, which should
+   * register again.
+   */
+  public heartbeat(nodeId: string, running: string[] = []): { cancel: string[] } | null {
+    const node = this.touch(nodeId);
+    if (!node) return null;
+    return { cancel: running.filter(id => this.jobs.get(id)?.nodeId !== nodeId) };
+  }
+
+  /**
+   * Hand the next suitable pending item to a node with a free slot. Null
+   * for an unknown node; `job` is null when there is nothing to render.
+   * An item with pre-render hooks holds a slot of the node while they run
+   * and is handed out by the first claim after they finish.
+   */
+  public claim(nodeId: string): { job: FarmJob | null } | null {
+    const node = this.touch(nodeId);
+    if (!node) return null;
+
+    const ready = node.jobs.find(id => this.jobs.get(id)?.handedOut === false);
+    if (ready) return { job: this.handOut(ready) };
+    if (!this.queue || node.jobs.length >= node.slots) return { job: null };
+
+    const item = this.queue.claimItem(
+      { name: node.name, executor: this.executorFor(node) },
+      candidate => {
+        // GPU renders only go to nodes that have one
+        if (usesGPU(candidate.options) && node.gpus.length === 0) return false;
+        const version = this.requiredVersion(candidate.options);
+        return !version || node.blenderVersions.includes(version);
+      }
+    );
+    if (!item) return { job: null };
+
+    // claimItem starts the render, which registers the job with its options
+    // unless pre-render hooks have to run first
+    if (!this.jobs.has(item.id)) {
+      node.jobs.push(item.id);
+      node.status = 'busy';
+      this.notifyUpdate();
+      return { job: null };
+    }
+    return { job: this.handOut(item.id, item) };
+  }
+
+  /**
+   * Returns `cancel: true` when the node should stop rendering the item,
+   * or null for an unknown node.
+   */
+  public reportProgress(nodeId: string, itemId: string, report: FarmProgressReport): { cancel: boolean } | null {
+    const node = this.touch(nodeId);
+    if (!node) return null;
+
+    const job = this.jobs.get(itemId);
+    if (!job || job.nodeId !== nodeId) return { cancel: true };
+
+    job.progress = { ...report, currentFile: job.blendFile, status: 'rendering' };
+    job.onProgress(job.progress);
+    return { cancel: false };
+  }
+
+  public complete(nodeId: string, itemId: string, result: FarmJobResult): boolean {
+    const node = this.touch(nodeId);
+    if (!node) return false;
+
+    const job = this.jobs.get(itemId);
+    // Late reports of items taken away from the node are ignored
+    if (!job || job.nodeId !== nodeId) return true;
+    this.removeJob(node, itemId);
+
+    if (result.status === 'completed') {
+      node.completedJobs++;
+      job.onProgress({ ...job.progress, percentage: 100, secondsRemaining: 0, status: 'completed' });
+      job.resolve();
+    } else if (result.status === 'error') {
+      node.failedJobs++;
+      job.reject(new Error(result.error || `Render failed on ${node.name}`));
+    } else {
+      // The node gave up on the item on its own, e.g. it is being shut down
+      job.reject(new RenderNodeLostError(`${node.name} stopped rendering the item`));
+    }
+
+    this.notifyUpdate();
+    return true;
+  }
+
+  public getNodes(): FarmNode[] {
+    return [...this.nodes.values()].map(node => ({ ...node, jobs: [...node.jobs] }));
+  }
+
+  public onUpdate(callback: (nodes: FarmNode[]) => void): void {
+    this.updateCallbacks.push(callback);
+  }
+
+  public removeUpdateCallback(callback: (nodes: FarmNode[]) => void): void {
+    const index = this.updateCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.updateCallbacks.splice(index, 1);
+    }
+  }
+
+  private handOut(jobId: string, item = this.queue?.getQueue().find(candidate => candidate.id === jobId)): FarmJob {
+    const job = this.jobs.get(jobId)!;
+    job.handedOut = true;
+    const options = this.pathMappings.length > 0 ? { ...job.options, pathMappings: this.pathMappings } : job.options;
+    // The queue leaves the installation to the node, so the node gets its version
+    const blenderVersion = item && this.requiredVersion(item.options);
+    return {
+      id: jobId,
+      blendFile: job.blendFile,
+      outputPath: item?.outputPath ?? job.options.outputPath,
+      options,
+      ...(blenderVersion && { blenderVersion })
+    };
+  }
+
+  // Version of the installation an item is pinned to; none when the installation's version is unknown
+  private requiredVersion(options: BlenderRenderOptions): string | undefined {
+    if (!options.installationId) return undefined;
+    return this.installations.find(installation => installation.id === options.installationId)?.version;
+  }
+
+  // Frees the slot held by an item whose pre-render hooks failed, so it never started
+  private releaseUnstarted = (item: QueueItem): void => {
+    if (item.status === 'rendering' || this.jobs.has(item.id)) return;
+
+    this.nodes.forEach(node => {
+      if (!node.jobs.includes(item.id)) return;
+      this.removeJob(node, item.id);
+      this.notifyUpdate();
+    });
+  };
+
+  private touch(nodeId: string): FarmNode | null {
+    const node = this.nodes.get(nodeId);
+    if (!node) return null;
+
+    const wasOffline = node.status === 'offline';
+    node.lastSeen = new Date();
+    if (wasOffline) {
+      node.status = node.jobs.length > 0 ? 'busy' : 'idle';
+      this.notifyUpdate();
+    }
+    return node;
+  }
+
+  // The queue sees every node as an executor that runs renders until the node reports back
+  private executorFor(node: FarmNode): RenderExecutor {
+    let executor = this.executors.get(node.id);
+    if (executor) return executor;
+
+    executor = {
+      renderFile: (options, onProgress = () => {}) => new Promise<void>((resolve, reject) => {
+        const jobId = options.jobId ?? '';
+        // The node may have left while pre-render hooks ran
+        if (this.nodes.get(node.id) !== node || node.status === 'offline') {
+          reject(new RenderNodeLostError(`${node.name} left the farm`));
+          return;
+        }
+        const progress: RenderProgress = { frame: 0, totalFrames: 0, percentage: 0, currentFile: options.blendFile, status: 'rendering' };
+        this.jobs.set(jobId, { nodeId: node.id, blendFile: options.blendFile, options, progress, handedOut: false, onProgress, resolve, reject });
+        if (!node.jobs.includes(jobId)) node.jobs.push(jobId);
+        node.status = 'busy';
+        this.notifyUpdate();
+      }),
+      cancelRender: async jobId => {
+        const job = this.jobs.get(jobId);
+        if (!job) {
+          // Cancelled while its pre-render hooks ran
+          if (node.jobs.includes(jobId)) {
+            this.removeJob(node, jobId);
+            this.notifyUpdate();
+          }
+          return;
+        }
+
+        // The node finds out with its next report or heartbeat
+        this.removeJob(node, jobId);
+        job.onProgress({ ...job.progress, status: 'cancelled' });
+        job.resolve();
+        this.notifyUpdate();
+      }
+    };
+    this.executors.set(node.id, executor);
+    return executor;
+  }
+
+  private removeJob(node: FarmNode, jobId: string): void {
+    this.jobs.delete(jobId);
+    node.jobs = node.jobs.filter(id => id !== jobId);
+    if (node.status === 'busy' && node.jobs.length === 0) node.status = 'idle';
+  }
+
+  private failJobs(node: FarmNode, reason: string): void {
+    [...node.jobs].forEach(jobId => {
+      const job = this.jobs.get(jobId);
+      this.removeJob(node, jobId);
+      job?.reject(new RenderNodeLostError(reason));
+    });
+    this.executors.delete(node.id);
+  }
+
+  private checkHeartbeats(): void {
+    const cutoff = Date.now() - NODE_TIMEOUT_SECONDS * 1000;
+    let changed = false;
+
+    this.nodes.forEach(node => {
+      if (node.status === 'offline' || node.lastSeen.getTime() >= cutoff) return;
+      node.status = 'offline';
+      this.failJobs(node, `${node.name} stopped responding`);
+      changed = true;
+    });
+
+    if (changed) this.notifyUpdate();
+  }
+
+  private notifyUpdate(): void {
+    const nodes = this.getNodes();
+    this.updateCallbacks.forEach(callback => {
+      try {
+        callback(nodes);
+      } catch (error) {
+        console.error('Error in worker pool callback:', error);
+      }
+    });
+  }
+}
+
+export const workerPool = new WorkerPool();
@@ -1,6 +1,18 @@
 export interface BlenderRenderOptions {
+  // Identifies the render for cancellation; defaults to the blend file path
+  jobId?: string;
+  // Registered installation to render with; the default Blender when unset
+  installationId?: string;
+  // Executable resolved from installationId by the main process
+  blenderPath?: string;
   blendFile: string;
   outputPath: string;
+  // Scene to render instead of the active one (Blender's --scene)
+  scene?: string;
+  // Camera object to render through instead of the scene's camera
+  camera?: string;
+  // Only render this view layer instead of every enabled one
+  viewLayer?: string;
   startFrame?: number;
   endFrame?: number;
   engine?: 'CYCLES' | 'EEVEE' | 'WORKBENCH';
@@ -9,15 +21,228 @@ export interface BlenderRenderOptions {
   format?: 'PNG' | 'JPEG' | 'TIFF' | 'EXR' | 'FFMPEG';
   quality?: number;
   threads?: number;
-  gpu?: boolean;
+  // Only sent for Cycles renders
+  cycles?: CyclesOptions;
+  // Encoding of FFMPEG renders
+  video?: VideoOptions;
+  // Explicit frames to render instead of the startFrame..endFrame range
+  frames?: number[];
+  // Only render frames missing (or empty) in the output directory
+  skipExistingFrames?: boolean;
+  // Blender properties set after the settings above, e.g. scene.render.film_transparent
+  propertyOverrides?: PropertyOverride[];
+  // Python files run after the overrides, in order
+  pythonScripts?: string[];
+  // Rules for this render on top of the machine's own, e.g. sent by a farm coordinator
+  pathMappings?: PathMappingRule[];
+  // Prefix replacements resolved from the mapping rules by the main process
+  pathRemaps?: PathRemap[];
 }
 
+// GPU picks the first GPU backend the machine has, as Blender's own preferences would
+export type CyclesDeviceType = 'CPU' | 'GPU' | 'CUDA' | 'OPTIX' | 'HIP' | 'METAL' | 'ONEAPI';
+
+export type CyclesDenoiser = 'NONE' | 'OPENIMAGEDENOISE' | 'OPTIX';
+
+// Passes the denoiser is given besides the noisy image
+export type DenoisingInput = 'RGB' | 'RGB_ALBEDO' | 'RGB_ALBEDO_NORMAL';
+
+export interface CyclesOptions {
+  deviceType: CyclesDeviceType;
+  // Names of the devices to render on, as Blender lists them; every device
+  // of the type (and the CPU) when empty
+  devices: string[];
+  denoiser: CyclesDenoiser;
+  denoisingInput: DenoisingInput;
+  // Noise level at which a pixel stops sampling; 0 disables adaptive sampling
+  adaptiveThreshold: number;
+  // Seconds a frame may sample for; 0 for no limit
+  timeLimit: number;
+  // Tile edge in pixels; 0 renders the frame as a single tile
+  tileSize: number;
+  // Keep scene data in memory between frames
+  persistentData: boolean;
+}
+
+// A Cycles device of the rendering machine
+export interface CyclesDevice {
+  id: string;
+  name: string;
+  type: CyclesDeviceType;
+}
+
+export type VideoContainer = 'MPEG4' | 'QUICKTIME' | 'WEBM' | 'MKV';
+
+export type VideoCodec = 'H264' | 'H265' | 'PRORES' | 'VP9' | 'AV1';
+
+export type AudioCodec = 'NONE' | 'AAC' | 'OPUS' | 'PCM';
+
+export interface VideoOptions {
+  container: VideoContainer;
+  codec: VideoCodec;
+  // Constant quality or a target bitrate; ProRes uses neither
+  rateControl: 'CRF' | 'BITRATE';
+  // Lower is better, 0 is lossless
+  crf: number;
+  // kbit/s
+  bitrate: number;
+  // Frames per second; 0 keeps the scene's frame rate
+  fps: number;
+  // Sound of the scene's sequencer; image sequences have none to encode
+  audioCodec: AudioCodec;
+  // kbit/s
+  audioBitrate: number;
+}
+
+// Turns the finished image sequence of a render into a video file
+export interface EncodeRequest {
+  // Identifies the encode for cancellation
+  jobId: string;
+  // The render that wrote the frames: output pattern, format and frame range
+  source: BlenderRenderOptions;
+  outputFile: string;
+  video: VideoOptions;
+  // Frame rate of the sequence when `video.fps` is 0
+  sceneFps: number;
+}
+
+export interface EncodeProgress {
+  frame: number;
+  totalFrames: number;
+  percentage: number;
+  status: 'encoding' | 'completed' | 'error' | 'cancelled';
+  message?: string;
+}
+
+export type OverrideType = 'boolean' | 'number' | 'string' | 'vector';
+
+// A Blender property set before rendering. `dataPath` starts at `scene`
+// (the scene being rendered) or `bpy.data`/`bpy.context`.
+export interface PropertyOverride {
+  id: string;
+  dataPath: string;
+  type: OverrideType;
+  value: boolean | number | string | number[];
+}
+
+// An override Blender refused while checking it against a blend file
+export interface OverrideProblem {
+  dataPath: string;
+  scene: string;
+  error: string;
+}
+
+// One scene, camera and view layer combination of a blend file; unset
+// parts render as the file is saved
+export type RenderTarget = Pick<BlenderRenderOptions, 'scene' | 'camera' | 'viewLayer'>;
+
 export interface RenderProgress {
   frame: number;
   totalFrames: number;
   percentage: number;
   timeRemaining?: string;
+  // timeRemaining in seconds, for estimates across the queue
+  secondsRemaining?: number;
+  // Mean time of the frames saved so far in this run
+  averageFrameSeconds?: number;
   currentFile: string;
+  // Frames found on disk before rendering and skipped
+  skippedFrames?: number;
+  sample?: number;
+  totalSamples?: number;
+  // Highest memory use Blender reported so far, in MB
+  peakMemory?: number;
+  // Timings of every saved frame; only sent with the final status
+  frameStats?: FrameStat[];
   status: 'rendering' | 'completed' | 'error' | 'cancelled';
   message?: string;
-}
\ No newline at end of file
+}
+
+export interface FrameStat {
+  frame: number;
+  seconds: number;
+  // Peak memory while rendering this frame, in MB
+  peakMemory?: number;
+  // Not set for video outputs, which append every frame to one file
+  path?: string;
+}
+
+// Render settings of one scene as stored in the blend file. `engine` and
+// `format` are Blender's own identifiers, e.g. BLENDER_EEVEE_NEXT or OPEN_EXR.
+export interface BlendSceneInfo {
+  name: string;
+  camera: string | null;
+  cameras: string[];
+  viewLayers: string[];
+  frameStart: number;
+  frameEnd: number;
+  frameStep: number;
+  fps: number;
+  engine: string;
+  resolution: [number, number];
+  resolutionPercentage: number;
+  samples: number | null;
+  // Cycles settings of the scene, whichever engine it renders with; absent
+  // from metadata saved by earlier versions
+  cycles?: Omit<CyclesOptions, 'deviceType' | 'devices'> & { device: 'CPU' | 'GPU' };
+  outputPath: string;
+  format: string;
+}
+
+export interface BlendFileMetadata {
+  // Blender that read the file, and the version the file was saved with
+  blenderVersion: string;
+  fileVersion: string;
+  fileSize: number;
+  modifiedTime: number;
+  activeScene: string;
+  scenes: BlendSceneInfo[];
+}
+
+// A frame found in a render's output directory
+export interface RenderedFrame {
+  frame: number;
+  path: string;
+  modifiedTime: number;
+}
+
+export interface BlenderInstallation {
+  id: string;
+  name: string;
+  path: string;
+  // Reported by `blender --version`; absent when the executable stopped working
+  version?: string;
+  available: boolean;
+  source: 'manual' | 'discovered';
+}
+
+// Locations of the same shared storage as seen from different machines,
+// e.g. /mnt/projects and P:\projects
+export interface PathMappingRule {
+  id: string;
+  paths: string[];
+}
+
+export interface PathRemap {
+  from: string;
+  to: string;
+}
+
+export type AssetKind = 'image' | 'hdri' | 'library' | 'sound' | 'movie' | 'font' | 'volume' | 'cache';
+
+// An external file a blend file references
+export interface AssetDependency {
+  kind: AssetKind;
+  // Name of the datablock using the file
+  name: string;
+  // Path as stored in the blend file, possibly blend-relative (//)
+  path: string;
+  // Absolute path on this machine, after path mapping
+  resolvedPath: string;
+  missing: boolean;
+}
+
+export interface DependencyScan {
+  scannedAt: string;
+  assets: AssetDependency[];
+}
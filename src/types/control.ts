@@ -0,0 +1,31 @@
+import { QueueItem } from '../services/RenderQueue';
+import { FarmNode } from './farm';
+
+export interface ControlServerConfig {
+  enabled: boolean;
+  // 127.0.0.1 keeps the API on this machine; 0.0.0.0 opens it to the LAN
+  host: string;
+  port: number;
+  token: string;
+  // Render queue items here as well as on farm nodes
+  renderLocally: boolean;
+}
+
+export interface ControlServerStatus {
+  running: boolean;
+  // Base URL for clients while running
+  url?: string;
+  error?: string;
+}
+
+// Messages streamed to WebSocket clients at /api/events
+export type ControlEvent =
+  | { type: 'queue'; queue: QueueItem[] }
+  | { type: 'progress'; item: QueueItem }
+  | { type: 'nodes'; nodes: FarmNode[] };
+
+export type ControlRequestHandler = (
+  action: string,
+  params: Record<string, string>,
+  body?: unknown
+) => Promise<unknown>;
@@ -1,15 +1,100 @@
-import { BlenderRenderOptions, RenderProgress } from './blender';
+import {
+  AssetDependency,
+  BlendFileMetadata,
+  BlenderInstallation,
+  BlenderRenderOptions,
+  CyclesDevice,
+  EncodeProgress,
+  EncodeRequest,
+  OverrideProblem,
+  PathMappingRule,
+  PropertyOverride,
+  RenderedFrame,
+  RenderProgress
+} from './blender';
+import { RenderHistoryFilter, RenderHistoryRecord } from './history';
+import { ControlEvent, ControlRequestHandler, ControlServerConfig, ControlServerStatus } from './control';
+import { PresetLibrary } from './preset';
+import { HookContext, HookRunResult, RenderHook } from './hooks';
 
 export interface BlenderAPI {
   isBlenderAvailable(): Promise<boolean>;
   getBlenderVersion(): Promise<string>;
   setBlenderPath(path: string): Promise<void>;
   getBlenderPath(): Promise<string>;
+  listInstallations(): Promise<BlenderInstallation[]>;
+  addInstallation(path: string, name?: string): Promise<BlenderInstallation>;
+  removeInstallation(id: string): Promise<void>;
+  validateInstallation(id: string): Promise<BlenderInstallation>;
+  discoverInstallations(): Promise<BlenderInstallation[]>;
+  probeFile(blendFile: string, installationId?: string): Promise<BlendFileMetadata>;
+  scanDependencies(blendFile: string, installationId?: string): Promise<AssetDependency[]>;
+  listDevices(installationId?: string): Promise<CyclesDevice[]>;
+  validateOverrides(blendFile: string, overrides: PropertyOverride[], scenes?: string[], installationId?: string): Promise<OverrideProblem[]>;
+  getPathMappings(): Promise<PathMappingRule[]>;
+  setPathMappings(rules: PathMappingRule[]): Promise<void>;
   renderFile(options: BlenderRenderOptions, onProgress?: (progress: RenderProgress) => void): Promise<void>;
-  cancelRender(blendFile: string): Promise<void>;
+  cancelRender(jobId: string): Promise<void>;
   cancelAllRenders(): Promise<void>;
   getActiveRenders(): Promise<string[]>;
-  isRenderActive(blendFile: string): Promise<boolean>;
+  isRenderActive(jobId: string): Promise<boolean>;
+  // Encodes a finished image sequence; rejects when ffmpeg fails
+  encodeVideo(request: EncodeRequest, onProgress?: (progress: EncodeProgress) => void): Promise<void>;
+  cancelEncode(jobId: string): Promise<void>;
+  // Configured ffmpeg executable; an empty path restores the default
+  setFFmpegPath(path: string): Promise<void>;
+  getFFmpegPath(): Promise<string>;
+}
+
+export interface ProjectAPI {
+  save: (filePath: string, contents: string) => Promise<void>;
+  load: (filePath: string) => Promise<string>;
+  findMissingFiles: (filePaths: string[]) => Promise<string[]>;
+}
+
+export interface PreviewAPI {
+  listFrames: (options: BlenderRenderOptions) => Promise<RenderedFrame[]>;
+  // PNG data URL scaled down to at most maxWidth; EXR and TIFF are tone-mapped
+  getFrame: (path: string, maxWidth: number) => Promise<string>;
+  watch: (watchId: string, options: BlenderRenderOptions, onFrames: (frames: RenderedFrame[]) => void) => Promise<void>;
+  unwatch: (watchId: string) => Promise<void>;
+}
+
+export interface QueueJournalAPI {
+  saveJournal: (contents: string) => Promise<void>;
+  loadJournal: () => Promise<string | null>;
+}
+
+export interface HistoryAPI {
+  // Newest first
+  list: (filter?: RenderHistoryFilter) => Promise<RenderHistoryRecord[]>;
+  exportCsv: (filePath: string, filter?: RenderHistoryFilter) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface PresetsAPI {
+  // Null until presets were first saved on this computer
+  load: () => Promise<PresetLibrary | null>;
+  save: (library: PresetLibrary) => Promise<void>;
+  exportFile: (filePath: string, contents: string) => Promise<void>;
+  importFile: (filePath: string) => Promise<string>;
+}
+
+export interface HooksAPI {
+  // Resolves with the hook's outcome; failures do not reject
+  run: (hook: RenderHook, context: HookContext) => Promise<HookRunResult>;
+}
+
+export interface ControlAPI {
+  getConfig: () => Promise<ControlServerConfig>;
+  getStatus: () => Promise<ControlServerStatus>;
+  // Saves the changes and starts, restarts or stops the server to match
+  setConfig: (changes: Partial<Omit<ControlServerConfig, 'token'>>) => Promise<ControlServerStatus>;
+  regenerateToken: () => Promise<string>;
+  // Errors thrown by the handler may carry an HTTP `status`
+  onRequest: (handler: ControlRequestHandler) => void;
+  removeRequestHandler: () => void;
+  publish: (event: ControlEvent) => void;
 }
 
 export interface ElectronAPI {
@@ -20,11 +105,19 @@ export interface ElectronAPI {
   showMessageBox: (options: any) => Promise<any>;
   openExternal: (url: string) => Promise<void>;
   showItemInFolder: (path: string) => Promise<void>;
+  readFileRange: (path: string, offset: number, length: number) => Promise<Uint8Array>;
   getAppVersion: () => Promise<string>;
   getPlatform: () => Promise<string>;
   onMenuAction: (callback: (action: string, data?: any) => void) => void;
   removeMenuActionListener: () => void;
   blender: BlenderAPI;
+  project: ProjectAPI;
+  preview: PreviewAPI;
+  queue: QueueJournalAPI;
+  history: HistoryAPI;
+  control: ControlAPI;
+  presets: PresetsAPI;
+  hooks: HooksAPI;
 }
 
 export interface DragDropAPI {
@@ -0,0 +1,51 @@
+import { BlenderRenderOptions, RenderProgress } from './blender';
+
+// What a worker tells the coordinator about itself when it registers
+export interface FarmNodeInfo {
+  name: string;
+  platform: string;
+  cores: number;
+  gpus: string[];
+  blenderVersions: string[];
+  // Items the node renders side by side
+  slots: number;
+}
+
+export interface FarmNode extends FarmNodeInfo {
+  id: string;
+  // Address the node connected from
+  address?: string;
+  status: 'idle' | 'busy' | 'offline';
+  registeredAt: Date;
+  lastSeen: Date;
+  // Ids of the queue items the node is rendering
+  jobs: string[];
+  completedJobs: number;
+  failedJobs: number;
+}
+
+export interface FarmRegistration {
+  nodeId: string;
+  heartbeatSeconds: number;
+}
+
+// A queue item handed to a node to render
+export interface FarmJob {
+  id: string;
+  blendFile: string;
+  outputPath: string;
+  options: BlenderRenderOptions;
+  // Version of the Blender installation the item is pinned to; the node
+  // renders with its own installation of that version
+  blenderVersion?: string;
+}
+
+export type FarmProgressReport = Pick<
+  RenderProgress,
+  'frame' | 'totalFrames' | 'percentage' | 'secondsRemaining' | 'averageFrameSeconds' | 'skippedFrames' | 'sample' | 'totalSamples'
+>;
+
+export interface FarmJobResult {
+  status: 'completed' | 'error' | 'cancelled';
+  error?: string;
+}
@@ -0,0 +1,39 @@
+import { BlenderRenderOptions, FrameStat } from './blender';
+
+export type RenderOutcome = 'completed' | 'error' | 'cancelled';
+
+// One Blender run, appended to the history when it ends
+export interface RenderHistoryRecord {
+  id: string;
+  jobId: string;
+  blendFile: string;
+  outputPath: string;
+  // ISO timestamps
+  startTime: string;
+  endTime: string;
+  durationSeconds: number;
+  outcome: RenderOutcome;
+  error?: string;
+  engine?: BlenderRenderOptions['engine'];
+  samples?: number;
+  resolution?: [number, number];
+  format?: BlenderRenderOptions['format'];
+  gpu?: boolean;
+  blenderVersion?: string;
+  framesRendered: number;
+  skippedFrames: number;
+  // Highest memory use of the run, in MB
+  peakMemory?: number;
+  frames: FrameStat[];
+}
+
+export interface RenderHistoryFilter {
+  // Case-insensitive match on the blend file path
+  search?: string;
+  outcome?: RenderOutcome;
+  engine?: BlenderRenderOptions['engine'];
+  blenderVersion?: string;
+  // ISO timestamps bounding startTime
+  from?: string;
+  to?: string;
+}
@@ -0,0 +1,61 @@
+import { BlenderRenderOptions } from './blender';
+
+// What a hook does; paths and commands may contain {variables}
+export type HookAction =
+  | { type: 'command'; command: string }
+  // Copies, or moves, the rendered frames and video into a directory
+  | { type: 'copy'; destination: string; move: boolean }
+  // One image tiling the rendered frames
+  | { type: 'contactSheet'; outputFile: string; columns: number; thumbnailWidth: number; maxFrames: number }
+  // JSON listing the rendered frames and how the render went
+  | { type: 'manifest'; outputFile: string }
+  // POSTs the render's variables as JSON
+  | { type: 'webhook'; url: string };
+
+export interface RenderHook {
+  id: string;
+  name?: string;
+  // Before each render run of an item, or once a render (all its chunks) finished
+  stage: 'pre' | 'post';
+  // Outcome of the render a post-render hook runs for; pre-render hooks always run
+  runOn: 'success' | 'failure' | 'always';
+  enabled: boolean;
+  // Limit for commands and webhooks; a default when unset
+  timeoutSeconds?: number;
+  action: HookAction;
+}
+
+// The render a hook runs for, as sent to the hook runner
+export interface HookContext {
+  stage: RenderHook['stage'];
+  // Pending before rendering; the outcome of the whole render afterwards
+  status: 'pending' | 'completed' | 'error';
+  itemId: string;
+  // Options of the whole render, chunks merged back into one frame range
+  source: BlenderRenderOptions;
+  error?: string;
+  // Encoded video of the render, when there is one
+  videoFile?: string;
+  // ISO timestamps of the render
+  startTime?: string;
+  endTime?: string;
+}
+
+export interface HookRunResult {
+  status: 'completed' | 'error';
+  // Last lines the hook wrote or reported
+  log: string;
+  error?: string;
+}
+
+// One hook's run, kept on the queue item
+export interface HookResult {
+  hookId: string;
+  name: string;
+  stage: RenderHook['stage'];
+  status: 'pending' | 'running' | 'completed' | 'error' | 'skipped';
+  startTime?: Date;
+  endTime?: Date;
+  log?: string;
+  error?: string;
+}
@@ -0,0 +1,33 @@
+import { ProjectSettings } from './project';
+
+// The global render settings a preset fills in; frame ranges and output
+// locations stay with the project
+export const PRESET_FIELDS = [
+  'globalEngine',
+  'globalSamples',
+  'globalResolution',
+  'globalFormat',
+  'globalQuality',
+  'globalCycles'
+] as const;
+
+export type PresetSettings = Pick<ProjectSettings, typeof PRESET_FIELDS[number]>;
+
+export interface RenderPreset {
+  id: string;
+  name: string;
+  settings: PresetSettings;
+}
+
+// Presets of this computer, kept in the user settings
+export interface PresetLibrary {
+  presets: RenderPreset[];
+  // Applied to new projects
+  defaultPresetId: string | null;
+}
+
+// Shape of an exported presets file
+export interface PresetFile {
+  version: string;
+  presets: RenderPreset[];
+}
@@ -0,0 +1,94 @@
+import { BlendFileMetadata, CyclesOptions, DependencyScan, PropertyOverride, VideoOptions } from './blender';
+import { BlendFileInfo } from '../utils/blendFileReader';
+import { RenderHook } from './hooks';
+import type { RetryPolicy } from '../services/RenderQueue';
+
+export type RenderEngine = 'CYCLES' | 'EEVEE' | 'WORKBENCH';
+
+export type OutputFormat = 'PNG' | 'JPEG' | 'TIFF' | 'EXR' | 'FFMPEG';
+
+// Cameras and view layers picked for one scene of a file. Empty lists
+// render the scene's own camera and all of its enabled view layers.
+export interface SceneSelection {
+  scene: string;
+  cameras: string[];
+  viewLayers: string[];
+}
+
+export interface BlendFile {
+  id: string;
+  path: string;
+  name: string;
+  size: string;
+  dateModified: string;
+  outputPath: string;
+  frameStart: number;
+  frameEnd: number;
+  engine: RenderEngine;
+  samples: number;
+  resolution: [number, number];
+  format: OutputFormat;
+  quality: number;
+  // Used when `engine` is CYCLES
+  cycles: CyclesOptions;
+  // Registered Blender installation to render with; the default Blender when unset
+  installationId?: string;
+  // Whether the render settings above came from the file's scene or the project
+  settingsSource: 'file' | 'project';
+  // Header information read without Blender; absent for files that are not .blend files
+  fileInfo?: BlendFileInfo;
+  // Scene information read from the file by Blender; absent until probed
+  metadata?: BlendFileMetadata;
+  probeError?: string;
+  // External files the blend file references; absent until scanned
+  dependencies?: DependencyScan;
+  // Scenes to render, each combination of camera and view layer as its own
+  // queue item; the active scene only when empty or absent
+  targets?: SceneSelection[];
+  propertyOverrides?: PropertyOverride[];
+  // Python files run before each render of the file
+  pythonScripts?: string[];
+  // Retry settings of this file's renders that differ from the project's
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface ProjectSettings {
+  name: string;
+  outputDirectory: string;
+  // File names inside each file's output directory, with {token} placeholders
+  outputTemplate: string;
+  globalFrameStart: number;
+  globalFrameEnd: number;
+  globalEngine: RenderEngine;
+  globalSamples: number;
+  globalResolution: [number, number];
+  globalFormat: OutputFormat;
+  globalQuality: number;
+  globalCycles: CyclesOptions;
+  // Encoding of video output, rendered directly or encoded from image sequences
+  video: VideoOptions;
+  // Encode each finished image sequence to a video file next to it
+  encodeSequence: boolean;
+  threads: number;
+  // Number of queue items rendered at the same time; `threads` is shared between them
+  maxConcurrent: number;
+  // Split each file's frame range into queue items of this many frames; 0 disables chunking
+  chunkSize: number;
+  // Only render frames missing from the output directory
+  skipExistingFrames: boolean;
+  // Automatic retries of transient failures; 1 attempt disables retrying
+  maxRenderAttempts: number;
+  retryBackoffSeconds: number;
+  retryOnCPUAfterGPUOutOfMemory: boolean;
+  // Newly added files keep their scene's render settings instead of the globals
+  preferFileSettings: boolean;
+  // Actions run before each render and after each finished render, in order
+  hooks: RenderHook[];
+}
+
+// Shape of a `.rfp` project file on disk
+export interface ProjectFile {
+  version: string;
+  settings: ProjectSettings;
+  files: BlendFile[];
+}
@@ -0,0 +1,99 @@
+import { BlendFileMetadata, BlendSceneInfo, CyclesOptions } from '../types/blender';
+import { BlendFile, OutputFormat, RenderEngine } from '../types/project';
+import { compareVersions, DENOISERS } from '../services/ProjectService';
+
+const ENGINES: Record<string, RenderEngine> = {
+  CYCLES: 'CYCLES',
+  BLENDER_EEVEE: 'EEVEE',
+  BLENDER_EEVEE_NEXT: 'EEVEE',
+  BLENDER_WORKBENCH: 'WORKBENCH'
+};
+
+const FORMATS: Record<string, OutputFormat> = {
+  PNG: 'PNG',
+  JPEG: 'JPEG',
+  TIFF: 'TIFF',
+  OPEN_EXR: 'EXR',
+  OPEN_EXR_MULTILAYER: 'EXR',
+  FFMPEG: 'FFMPEG'
+};
+
+export const formatFileSize = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+};
+
+export const getActiveScene = (metadata: BlendFileMetadata): BlendSceneInfo | undefined =>
+  metadata.scenes.find(scene => scene.name === metadata.activeScene) ?? metadata.scenes[0];
+
+// The scene's Cycles settings; its GPU setting keeps the file's backend and devices
+const sceneCycles = (file: BlendFile, scene: BlendSceneInfo): CyclesOptions => {
+  if (!scene.cycles) return file.cycles;
+
+  const { device, denoiser, ...settings } = scene.cycles;
+  return {
+    ...file.cycles,
+    ...settings,
+    deviceType: device === 'CPU' ? 'CPU' : file.cycles.deviceType === 'CPU' ? 'GPU' : file.cycles.deviceType,
+    devices: device === 'CPU' ? [] : file.cycles.devices,
+    denoiser: DENOISERS.includes(denoiser) ? denoiser : file.cycles.denoiser
+  };
+};
+
+/**
+ * Take frame range, engine, resolution, samples, Cycles settings and format
+ * from the file's active scene. Engines and formats the queue cannot render
+ * keep the file's current value.
+ */
+export const applySceneSettings = (file: BlendFile, metadata: BlendFileMetadata): BlendFile => {
+  const scene = getActiveScene(metadata);
+  if (!scene) return file;
+
+  const scale = scene.resolutionPercentage / 100;
+  return {
+    ...file,
+    frameStart: scene.frameStart,
+    frameEnd: scene.frameEnd,
+    engine: ENGINES[scene.engine] ?? file.engine,
+    samples: scene.samples ?? file.samples,
+    resolution: [Math.round(scene.resolution[0] * scale), Math.round(scene.resolution[1] * scale)],
+    format: FORMATS[scene.format] ?? file.format,
+    cycles: sceneCycles(file, scene),
+    settingsSource: 'file'
+  };
+};
+
+/**
+ * Blender version a file was saved with, as major.minor. Read from the file
+ * header, or from Blender's probe when the header could not be read;
+ * unknown until one of them succeeded.
+ */
+export const getSavedVersion = (file: BlendFile): string | undefined =>
+  file.fileInfo?.version ?? file.metadata?.fileVersion.split('.').slice(0, 2).join('.');
+
+// .blend headers only store major.minor, so patch releases never differ
+const compareToInstalled = (fileVersion: string, blenderVersion: string) =>
+  compareVersions(fileVersion, blenderVersion.split('.').slice(0, 2).join('.'));
+
+// Files from a newer Blender may lose data or fail to open
+export const isSavedWithNewerBlender = (fileVersion: string, blenderVersion: string): boolean =>
+  compareToInstalled(fileVersion, blenderVersion) > 0;
+
+/**
+ * Explain how a file's saved version differs from the installed Blender,
+ * or return null when they match at major.minor.
+ */
+export const describeVersionMismatch = (fileVersion: string, blenderVersion: string): string | null => {
+  const installed = blenderVersion.split('.').slice(0, 2).join('.');
+  const difference = compareToInstalled(fileVersion, blenderVersion);
+  if (difference === 0) return null;
+  return difference > 0
+    ? `Saved with Blender ${fileVersion}, newer than the installed ${installed}`
+    : `Saved with Blender ${fileVersion}; will be rendered with ${installed}`;
+};
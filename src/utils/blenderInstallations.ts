@@ -0,0 +1,24 @@
+import { BlenderInstallation } from '../types/blender';
+import { compareVersions } from '../services/ProjectService';
+
+const majorMinor = (version: string) => version.split('.').slice(0, 2).join('.');
+
+/**
+ * Pick the installation best suited to a file saved with `fileVersion`:
+ * the same major.minor release if registered, otherwise the oldest newer
+ * one (newer Blenders open older files, not the reverse). Returns
+ * undefined when no working installation can open the file, leaving it on
+ * the default Blender.
+ */
+export const suggestInstallation = (
+  installations: BlenderInstallation[],
+  fileVersion: string
+): BlenderInstallation | undefined => {
+  const candidates = installations
+    .filter((installation): installation is BlenderInstallation & { version: string } =>
+      installation.available && installation.version !== undefined)
+    .sort((a, b) => compareVersions(a.version, b.version));
+
+  return candidates.find(installation => majorMinor(installation.version) === fileVersion) ??
+    candidates.find(installation => compareVersions(majorMinor(installation.version), fileVersion) > 0);
+};
@@ -0,0 +1,41 @@
+import { BlenderRenderOptions, CyclesDenoiser, CyclesDeviceType, CyclesOptions, DenoisingInput } from '../types/blender';
+
+export const DEVICE_TYPE_LABELS: Record<CyclesDeviceType, string> = {
+  CPU: 'CPU',
+  GPU: 'Any GPU',
+  CUDA: 'CUDA (NVIDIA)',
+  OPTIX: 'OptiX (NVIDIA RTX)',
+  HIP: 'HIP (AMD)',
+  METAL: 'Metal (Apple)',
+  ONEAPI: 'oneAPI (Intel)'
+};
+
+export const DENOISER_LABELS: Record<CyclesDenoiser, string> = {
+  NONE: 'Off',
+  OPENIMAGEDENOISE: 'OpenImageDenoise',
+  OPTIX: 'OptiX'
+};
+
+export const DENOISING_INPUT_LABELS: Record<DenoisingInput, string> = {
+  RGB: 'Color',
+  RGB_ALBEDO: 'Color + Albedo',
+  RGB_ALBEDO_NORMAL: 'Color + Albedo + Normal'
+};
+
+// Whether a render needs a GPU, for farm scheduling and the CPU fallback
+export const usesGPU = (options: BlenderRenderOptions): boolean =>
+  !!options.cycles && options.cycles.deviceType !== 'CPU';
+
+// The same Cycles options on the CPU; the OptiX denoiser needs an NVIDIA GPU
+export const cyclesOnCPU = (cycles: CyclesOptions): CyclesOptions => ({
+  ...cycles,
+  deviceType: 'CPU',
+  devices: [],
+  denoiser: cycles.denoiser === 'OPTIX' ? 'OPENIMAGEDENOISE' : cycles.denoiser
+});
+
+export const describeCycles = (cycles: CyclesOptions): string => [
+  cycles.devices.length > 0 ? cycles.devices.join(', ') : DEVICE_TYPE_LABELS[cycles.deviceType],
+  cycles.denoiser !== 'NONE' && `${DENOISER_LABELS[cycles.denoiser]} denoising`,
+  cycles.timeLimit > 0 && `${cycles.timeLimit}s limit`
+].filter(Boolean).join(' • ');
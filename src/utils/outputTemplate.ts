@@ -0,0 +1,215 @@
+import { RenderTarget } from '../types/blender';
+import { BlendFile, ProjectSettings } from '../types/project';
+
+// Same file names as before templates existed: <blend name>_0001.png
+export const DEFAULT_OUTPUT_TEMPLATE = '{blend}_{frame:04}';
+
+export type OutputToken = 'project' | 'blend' | 'scene' | 'camera' | 'viewlayer' | 'engine' | 'date' | 'version' | 'frame';
+
+export const OUTPUT_TOKENS: { token: OutputToken; description: string }[] = [
+  { token: 'project', description: 'Project name' },
+  { token: 'blend', description: 'Blend file name without .blend' },
+  { token: 'scene', description: 'Scene being rendered' },
+  { token: 'camera', description: 'Active camera of the scene' },
+  { token: 'viewlayer', description: 'View layer' },
+  { token: 'engine', description: 'Render engine, e.g. cycles' },
+  { token: 'date', description: 'Date the render was queued, YYYY-MM-DD' },
+  { token: 'version', description: 'Version from the file name, e.g. v012 in shot_v012.blend' },
+  { token: 'frame', description: 'Frame number; {frame:04} pads it to 4 digits' }
+];
+
+export type OutputTemplateValues = Record<Exclude<OutputToken, 'frame'>, string>;
+
+export type PathPlatform = 'Windows' | 'macOS' | 'Linux';
+
+// Characters each platform refuses in a file or folder name, besides the separators
+const ILLEGAL_CHARACTERS: { isIllegal: (character: string) => boolean; platforms: PathPlatform[] }[] = [
+  { isIllegal: character => '<>"|?*'.includes(character), platforms: ['Windows'] },
+  { isIllegal: character => character === ':', platforms: ['Windows', 'macOS'] },
+  { isIllegal: character => character.charCodeAt(0) < 32, platforms: ['Windows', 'macOS', 'Linux'] }
+];
+const WINDOWS_RESERVED_NAMES = /^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])(\..*)?$/i;
+const TOKEN_PATTERN = /\{([^{}]*)\}/g;
+const FRAME_FORMAT = /^0?([1-9]\d?)$/;
+
+// Blender's fallback names for a scene it has not been asked about
+const FALLBACK_VALUES = { scene: 'Scene', camera: 'Camera', viewlayer: 'ViewLayer' };
+
+export class OutputTemplateError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid output template: ${problems.join('; ')}`);
+    this.name = 'OutputTemplateError';
+  }
+}
+
+const isAbsolute = (path: string) => /^([A-Za-z]:|[\\/])/.test(path);
+
+const describeCharacter = (character: string) =>
+  character.charCodeAt(0) < 32 ? 'control characters' : `"${character}"`;
+
+/**
+ * Problems that would stop the template from producing a usable path on
+ * any of the platforms a render might run on. Empty when it is valid.
+ */
+export const validateOutputTemplate = (template: string): string[] => {
+  const problems: string[] = [];
+  if (!template.trim()) return ['The template is empty'];
+  if (isAbsolute(template)) {
+    problems.push('The template is relative to the output directory and cannot start with a drive or separator');
+  }
+
+  const unbalanced = template.replace(TOKEN_PATTERN, '').match(/[{}]/);
+  if (unbalanced) problems.push(`Unmatched "${unbalanced[0]}"`);
+
+  let frameTokens = 0;
+  [...template.matchAll(TOKEN_PATTERN)].forEach(([, body]) => {
+    const [name, format] = body.split(':');
+    if (!OUTPUT_TOKENS.some(({ token }) => token === name)) {
+      problems.push(`Unknown token {${body}}`);
+    } else if (name === 'frame') {
+      frameTokens++;
+      if (format !== undefined && !FRAME_FORMAT.test(format)) problems.push(`{${body}}: the frame width must be 1 to 99 digits, e.g. {frame:04}`);
+    } else if (format !== undefined) {
+      problems.push(`{${body}}: only {frame} takes a format`);
+    }
+  });
+  if (frameTokens > 1) problems.push('{frame} can only be used once');
+
+  // Token values are made safe when expanded; the literal text has to be too
+  const literal = template.replace(TOKEN_PATTERN, 'x');
+  if (literal.includes('#')) problems.push('"#" is reserved for frame numbers; use {frame} instead');
+  ILLEGAL_CHARACTERS.forEach(({ isIllegal, platforms }) => {
+    const found = [...new Set([...literal.replace(/^[A-Za-z]:/, '')].filter(isIllegal).map(describeCharacter))];
+    if (found.length > 0) {
+      problems.push(`${found.join(', ')} not allowed in file names on ${platforms.join(' and ')}`);
+    }
+  });
+
+  literal.split(/[\\/]/).forEach(segment => {
+    if (segment === '..') {
+      problems.push('".." would leave the output directory');
+    } else if (WINDOWS_RESERVED_NAMES.test(segment)) {
+      problems.push(`"${segment}" is a reserved name on Windows`);
+    } else if (/[. ]$/.test(segment) && segment !== '.') {
+      problems.push(`"${segment}" ends with a dot or space, which Windows drops`);
+    }
+  });
+
+  return problems;
+};
+
+// Names from a blend file may contain anything; keep them to one valid path segment
+const sanitizeValue = (value: string) =>
+  [...value].map(character => (ILLEGAL_CHARACTERS.some(({ isIllegal }) => isIllegal(character)) ? '_' : character)).join('')
+    .replace(/[\\/#]/g, '_')
+    .replace(/[. ]+$/, '')
+    .trim();
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Token values for rendering `target` of a file. Whatever the target leaves
+ * out comes from the probed scene; before the file is probed Blender's
+ * default names stand in.
+ */
+export const outputTemplateValues = (
+  file: BlendFile,
+  settings: ProjectSettings,
+  target: RenderTarget = {},
+  date = new Date()
+): OutputTemplateValues => {
+  const sceneName = target.scene ?? file.metadata?.activeScene;
+  const scene = file.metadata?.scenes.find(candidate => candidate.name === sceneName);
+  const blend = file.name.replace(/\.blend$/i, '');
+
+  return {
+    project: settings.name,
+    blend,
+    scene: sceneName ?? FALLBACK_VALUES.scene,
+    camera: target.camera ?? scene?.camera ?? FALLBACK_VALUES.camera,
+    viewlayer: target.viewLayer ?? scene?.viewLayers[0] ?? FALLBACK_VALUES.viewlayer,
+    engine: file.engine.toLowerCase(),
+    date: formatDate(date),
+    version: blend.match(/(?:^|[_\-. ])(v\d+)(?=$|[_\-. ])/i)?.[1] ?? ''
+  };
+};
+
+/**
+ * Expand a template to a Blender output pattern: token values are filled
+ * in and {frame:NN} becomes NN `#`. Without a frame token the padding goes
+ * at the end, as Blender itself would add it.
+ */
+export const expandOutputTemplate = (template: string, values: OutputTemplateValues): string => {
+  const problems = validateOutputTemplate(template);
+  if (problems.length > 0) throw new OutputTemplateError(problems);
+
+  let hasFrame = false;
+  const expanded = template.replace(TOKEN_PATTERN, (_, body: string) => {
+    const [name, format] = body.split(':');
+    if (name !== 'frame') return sanitizeValue(values[name as keyof OutputTemplateValues]);
+
+    hasFrame = true;
+    return '#'.repeat(format ? Number(format.match(FRAME_FORMAT)?.[1]) : 4);
+  });
+  return hasFrame ? expanded : `${expanded}####`;
+};
+
+/**
+ * Join a relative path onto a directory with the directory's own
+ * separators, so Windows outputs keep backslashes.
+ */
+export const joinOutputPath = (directory: string, relative: string): string => {
+  const separator = directory.includes('\\') && !directory.includes('/') ? '\\' : '/';
+  const base = directory.length > 1 ? directory.replace(/[\\/]+$/, '') : directory;
+  const rest = relative.replace(/^[\\/]+/, '').replace(/[\\/]/g, separator);
+  return base === separator ? `${base}${rest}` : `${base}${separator}${rest}`;
+};
+
+/**
+ * Output pattern for `-o` of a file: the expanded project template inside
+ * the file's output directory. An output path that already has `#` frame
+ * padding is a complete pattern and used as it is.
+ */
+export const resolveOutputTemplate = (
+  file: BlendFile,
+  settings: ProjectSettings,
+  target: RenderTarget = {},
+  date = new Date()
+): string => {
+  if (file.outputPath.includes('#')) return file.outputPath;
+  return joinOutputPath(file.outputPath, expandOutputTemplate(settings.outputTemplate, outputTemplateValues(file, settings, target, date)));
+};
+
+const TARGET_TOKENS = [
+  ['scene', 'scene'],
+  ['camera', 'camera'],
+  ['viewlayer', 'viewLayer']
+] as const;
+
+/**
+ * Add the tokens that tell `targets` apart to a template that lacks them,
+ * so renders of different cameras or view layers do not overwrite each
+ * other's frames. They go before the frame number.
+ */
+export const templateForTargets = (template: string, targets: RenderTarget[]): string => {
+  const missing = TARGET_TOKENS
+    .filter(([token, key]) => new Set(targets.map(target => target[key])).size > 1 && !template.includes(`{${token}}`))
+    .map(([token]) => `_{${token}}`)
+    .join('');
+  if (!missing) return template;
+
+  const frame = template.match(/[_.-]?\{frame(:[^}]*)?\}/);
+  if (!frame || frame.index === undefined) return `${template}${missing}`;
+  return template.slice(0, frame.index) + missing + template.slice(frame.index);
+};
+
+/**
+ * File name Blender writes for `frame` of an output pattern, for previews.
+ */
+export const previewFramePath = (pattern: string, frame: number, extension: string): string => {
+  const match = pattern.match(/#+(?!.*#)/);
+  if (!match || match.index === undefined) return `${pattern}${extension}`;
+  const padded = String(frame).padStart(match[0].length, '0');
+  return `${pattern.slice(0, match.index)}${padded}${pattern.slice(match.index + match[0].length)}${extension}`;
+};
@@ -0,0 +1,73 @@
+import type { BlenderAPI } from '../types/electron';
+import { OverrideType, PropertyOverride } from '../types/blender';
+import { BlendFile } from '../types/project';
+
+// Same rule the main process enforces before running an override
+const DATA_PATH_PATTERN = /^(scene|bpy\.data|bpy\.context)(\.[A-Za-z_]\w*|\[(\d+|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')\])+$/;
+
+// Offered while typing a data path
+export const COMMON_OVERRIDES: { dataPath: string; type: OverrideType; label: string }[] = [
+  { dataPath: 'scene.render.film_transparent', type: 'boolean', label: 'Transparent film' },
+  { dataPath: 'scene.cycles.use_denoising', type: 'boolean', label: 'Denoise' },
+  { dataPath: 'scene.cycles.denoiser', type: 'string', label: 'Denoiser (OPTIX, OPENIMAGEDENOISE)' },
+  { dataPath: 'scene.cycles.max_bounces', type: 'number', label: 'Light paths: total bounces' },
+  { dataPath: 'scene.cycles.diffuse_bounces', type: 'number', label: 'Light paths: diffuse bounces' },
+  { dataPath: 'scene.cycles.glossy_bounces', type: 'number', label: 'Light paths: glossy bounces' },
+  { dataPath: 'scene.cycles.transparent_max_bounces', type: 'number', label: 'Light paths: transparent bounces' },
+  { dataPath: 'scene.render.use_motion_blur', type: 'boolean', label: 'Motion blur' },
+  { dataPath: 'scene.render.motion_blur_shutter', type: 'number', label: 'Motion blur shutter' },
+  { dataPath: 'scene.view_settings.view_transform', type: 'string', label: 'View transform (Standard, Filmic, AgX)' },
+  { dataPath: 'scene.view_settings.look', type: 'string', label: 'Look' },
+  { dataPath: 'scene.view_settings.exposure', type: 'number', label: 'Exposure' },
+  { dataPath: 'scene.render.use_simplify', type: 'boolean', label: 'Simplify' }
+];
+
+export const defaultOverrideValue = (type: OverrideType): PropertyOverride['value'] => {
+  switch (type) {
+    case 'boolean': return true;
+    case 'number': return 0;
+    case 'string': return '';
+    case 'vector': return [0, 0, 0];
+  }
+};
+
+/**
+ * Why an override cannot be sent to Blender as it is, or null. Whether the
+ * property exists is only known to Blender; see validateFileOverrides.
+ */
+export const checkOverride = (override: PropertyOverride): string | null => {
+  if (!DATA_PATH_PATTERN.test(override.dataPath)) {
+    return 'Data path must start with scene, bpy.data or bpy.context and only use attributes and [indices]';
+  }
+
+  const { type, value } = override;
+  const valid =
+    type === 'boolean' ? typeof value === 'boolean' :
+    type === 'number' ? typeof value === 'number' && Number.isFinite(value) :
+    type === 'string' ? typeof value === 'string' :
+    Array.isArray(value) && value.length > 0 && value.every(entry => typeof entry === 'number' && Number.isFinite(entry));
+  return valid ? null : `Value must be a ${type === 'vector' ? 'list of numbers' : type}`;
+};
+
+/**
+ * The validation pass run before a file is queued: override syntax, script
+ * files, and then every override tried by Blender on each scene the file
+ * renders. Returns readable problems; empty when the file is good to go.
+ */
+export const validateFileOverrides = async (
+  file: BlendFile,
+  blenderAPI: Pick<BlenderAPI, 'validateOverrides'>,
+  findMissingFiles: (paths: string[]) => Promise<string[]>
+): Promise<string[]> => {
+  const overrides = file.propertyOverrides ?? [];
+  const problems = overrides.flatMap(override => {
+    const problem = checkOverride(override);
+    return problem ? [`${override.dataPath || '(empty data path)'}: ${problem}`] : [];
+  });
+  (await findMissingFiles(file.pythonScripts ?? [])).forEach(path => problems.push(`Python script not found: ${path}`));
+  if (problems.length > 0 || overrides.length === 0) return problems;
+
+  const scenes = [...new Set((file.targets ?? []).map(selection => selection.scene))];
+  const refused = await blenderAPI.validateOverrides(file.path, overrides, scenes, file.installationId);
+  return refused.map(({ dataPath, scene, error }) => `${dataPath || 'Scene'} (${scene}): ${error}`);
+};
@@ -0,0 +1,183 @@
+import { QueueItem } from '../services/RenderQueue';
+import { BlenderRenderOptions } from '../types/blender';
+import { RenderHistoryRecord } from '../types/history';
+
+// Only the latest runs of a file are used; older ones may predate scene changes
+const RUNS_PER_FILE = 5;
+
+interface PastRun {
+  engine?: BlenderRenderOptions['engine'];
+  samples?: number;
+  resolution?: [number, number];
+  frameSeconds: number;
+}
+
+// Per-frame timings of past runs, keyed by blend file, newest first
+export type FrameTimeIndex = Map<string, PastRun[]>;
+
+export interface ItemEstimate {
+  secondsRemaining: number;
+  finishesAt: Date;
+}
+
+export interface QueueEstimate {
+  items: Map<string, ItemEstimate>;
+  // When the last pending or rendering item is expected to finish
+  finishesAt?: Date;
+  // Items left out of finishesAt because nothing is known about their speed,
+  // or they wait for a slot held by such an item
+  unestimated: number;
+}
+
+/**
+ * Index the frame timings of finished renders. Records are expected newest
+ * first, as returned by the history.
+ */
+export const buildFrameTimeIndex = (records: RenderHistoryRecord[]): FrameTimeIndex => {
+  const index: FrameTimeIndex = new Map();
+
+  records.forEach(record => {
+    if (record.frames.length === 0) return;
+
+    const runs = index.get(record.blendFile) ?? [];
+    if (runs.length >= RUNS_PER_FILE) return;
+
+    runs.push({
+      engine: record.engine,
+      samples: record.samples,
+      resolution: record.resolution,
+      frameSeconds: record.frames.reduce((sum, frame) => sum + frame.seconds, 0) / record.frames.length
+    });
+    index.set(record.blendFile, runs);
+  });
+
+  return index;
+};
+
+// Pixels times samples; render time grows roughly linearly with both
+const workload = (settings: Pick<BlenderRenderOptions, 'samples' | 'resolution'>): number | undefined =>
+  settings.samples !== undefined && settings.resolution
+    ? settings.samples * settings.resolution[0] * settings.resolution[1]
+    : undefined;
+
+const sameResolution = (a?: [number, number], b?: [number, number]) =>
+  a?.[0] === b?.[0] && a?.[1] === b?.[1];
+
+/**
+ * Expected seconds per frame of a render, from earlier runs of the same
+ * file. Runs with identical settings are preferred; otherwise a run with
+ * the same engine is scaled by the change in samples and resolution.
+ */
+export const estimateFrameSeconds = (
+  options: BlenderRenderOptions,
+  index: FrameTimeIndex
+): number | undefined => {
+  const runs = index.get(options.blendFile) ?? [];
+
+  const identical = runs.filter(run =>
+    run.engine === options.engine && run.samples === options.samples && sameResolution(run.resolution, options.resolution)
+  );
+  if (identical.length > 0) {
+    return identical.reduce((sum, run) => sum + run.frameSeconds, 0) / identical.length;
+  }
+
+  const target = workload(options);
+  const comparable = runs.find(run => run.engine === options.engine && workload(run) !== undefined);
+  const reference = comparable && workload(comparable);
+  if (comparable && target !== undefined && reference) {
+    return comparable.frameSeconds * (target / reference);
+  }
+
+  return runs[0]?.frameSeconds;
+};
+
+const framesInRun = (item: QueueItem): number => {
+  const { frames, startFrame = 1, endFrame = startFrame } = item.options;
+  if (frames) return frames.length;
+
+  const first = item.resumeFromFrame ?? startFrame;
+  return Math.max(1, endFrame - first + 1);
+};
+
+/**
+ * Seconds left for one item. A running render prefers its own estimate,
+ * which folds in Blender's "Remaining:" figure for the current frame,
+ * then its average frame time so far; pending items rely on history.
+ */
+export const estimateItemSeconds = (item: QueueItem, index: FrameTimeIndex): number | undefined => {
+  if (item.status === 'rendering') {
+    if (item.secondsRemaining !== undefined) return item.secondsRemaining;
+
+    const frameSeconds = item.averageFrameSeconds ?? estimateFrameSeconds(item.options, index);
+    if (frameSeconds === undefined) return undefined;
+    const total = item.totalFrames ?? framesInRun(item);
+    return frameSeconds * total * (1 - item.progress / 100);
+  }
+
+  if (item.status === 'pending') {
+    const frameSeconds = estimateFrameSeconds(item.options, index);
+    return frameSeconds !== undefined ? frameSeconds * framesInRun(item) : undefined;
+  }
+
+  return undefined;
+};
+
+/**
+ * Predict when each pending and rendering item finishes by replaying the
+ * queue's scheduling: running items keep their slots, and pending items
+ * take the earliest free slot in queue order, no earlier than a scheduled
+ * retry. A running item without an estimate holds its slot for good, so
+ * nothing is scheduled after it.
+ */
+export const estimateQueue = (
+  queue: QueueItem[],
+  maxConcurrent: number,
+  index: FrameTimeIndex,
+  now: Date = new Date()
+): QueueEstimate => {
+  const items = new Map<string, ItemEstimate>();
+  const start = now.getTime();
+  let unestimated = 0;
+  let finishesAt: number | undefined;
+
+  const finish = (item: QueueItem, from: number, seconds: number) => {
+    const end = from + seconds * 1000;
+    items.set(item.id, { secondsRemaining: (end - start) / 1000, finishesAt: new Date(end) });
+    finishesAt = Math.max(finishesAt ?? start, end);
+    return end;
+  };
+
+  const slots: number[] = [];
+  queue.filter(item => item.status === 'rendering').forEach(item => {
+    const seconds = estimateItemSeconds(item, index);
+    if (seconds === undefined) {
+      unestimated++;
+      slots.push(Infinity);
+    } else {
+      slots.push(finish(item, start, seconds));
+    }
+  });
+  while (slots.length < maxConcurrent) slots.push(start);
+
+  queue.filter(item => item.status === 'pending').forEach(item => {
+    const seconds = estimateItemSeconds(item, index);
+    if (seconds === undefined) {
+      unestimated++;
+      return;
+    }
+
+    const slot = slots.indexOf(Math.min(...slots));
+    if (slot === -1 || slots[slot] === Infinity) {
+      unestimated++;
+      return;
+    }
+    const from = Math.max(slots[slot], item.nextRetryAt?.getTime() ?? start);
+    slots[slot] = finish(item, from, seconds);
+  });
+
+  return {
+    items,
+    finishesAt: finishesAt !== undefined ? new Date(finishesAt) : undefined,
+    unestimated
+  };
+};
@@ -0,0 +1,49 @@
+export type FailureKind = 'transient' | 'permanent';
+
+export interface RenderFailure {
+  kind: FailureKind;
+  reason: string;
+  // The GPU ran out of memory; the render may still succeed on the CPU
+  gpuOutOfMemory: boolean;
+}
+
+const GPU_OUT_OF_MEMORY = [
+  /CUDA_ERROR_OUT_OF_MEMORY/i,
+  /OPTIX_ERROR_\w*(MEMORY|ALLOC)/i,
+  /hipErrorOutOfMemory/i,
+  /(CUDA|OptiX|HIP|Metal|oneAPI|GPU|device)\b.*out of memory/i,
+  /out of memory.*\b(CUDA|OptiX|HIP|Metal|oneAPI|GPU|device)/i
+];
+
+// Checked in order; the first match wins
+const RULES: { pattern: RegExp; kind: FailureKind; reason: string }[] = [
+  { pattern: /Cannot read file|No such file or directory|not a blend file|File format is not supported/i, kind: 'permanent', reason: 'Blend file could not be opened' },
+  { pattern: /Property override .* failed/, kind: 'permanent', reason: 'Property override refused by Blender' },
+  { pattern: /Cycles device type .* is not available|No Cycles GPU backend|Cycles devices not found/, kind: 'permanent', reason: 'Cycles device missing on the rendering machine' },
+  { pattern: /Video codec .* is not available/, kind: 'permanent', reason: 'Video codec missing from the Blender build' },
+  { pattern: /Render target not found/, kind: 'permanent', reason: 'Scene, camera or view layer missing from the blend file' },
+  { pattern: /Permission denied|EACCES|Read-only file system/i, kind: 'permanent', reason: 'Output is not writable' },
+  { pattern: /\b(AttributeError|KeyError|TypeError|ValueError|NameError|SyntaxError|IndexError|ImportError|ModuleNotFoundError): /, kind: 'permanent', reason: 'Python error in render setup' },
+  { pattern: /out of memory|std::bad_alloc|Killed|ENOMEM/i, kind: 'transient', reason: 'Out of memory' },
+  { pattern: /CUDA error|OPTIX_ERROR|hipError|illegal (memory )?address|device (lost|removed)|driver|TDR|Metal.*error/i, kind: 'transient', reason: 'GPU or driver error' },
+  { pattern: /ENOSPC|No space left/i, kind: 'transient', reason: 'Disk full' },
+  { pattern: /ETIMEDOUT|ECONNRESET|EAGAIN|EBUSY|Resource temporarily unavailable|Stale file handle/i, kind: 'transient', reason: 'Temporary system error' },
+  { pattern: /exited with code (134|137|139|-?1073741819)|signal|segmentation fault/i, kind: 'transient', reason: 'Blender crashed' }
+];
+
+/**
+ * Decide whether a failed render is worth retrying from its error text.
+ * Unrecognized errors are treated as transient so the retry budget, not
+ * the classifier, decides when to give up.
+ */
+export const classifyRenderFailure = (message: string): RenderFailure => {
+  const gpuOutOfMemory = GPU_OUT_OF_MEMORY.some(pattern => pattern.test(message));
+  if (gpuOutOfMemory) {
+    return { kind: 'transient', reason: 'GPU out of memory', gpuOutOfMemory };
+  }
+
+  const rule = RULES.find(({ pattern }) => pattern.test(message));
+  return rule
+    ? { kind: rule.kind, reason: rule.reason, gpuOutOfMemory }
+    : { kind: 'transient', reason: 'Unknown error', gpuOutOfMemory };
+};
@@ -0,0 +1,39 @@
+import { RenderHistoryRecord } from '../types/history';
+
+export const formatDuration = (seconds: number): string => {
+  const rounded = Math.round(seconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const secs = rounded % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${secs}s`;
+  return `${secs}s`;
+};
+
+export const averageFrameSeconds = (record: RenderHistoryRecord): number | null => {
+  if (record.frames.length === 0) return null;
+  return record.frames.reduce((sum, frame) => sum + frame.seconds, 0) / record.frames.length;
+};
+
+export interface HistorySummary {
+  renders: number;
+  totalSeconds: number;
+  framesRendered: number;
+  // Over every timed frame of the listed renders
+  averageFrameSeconds: number | null;
+  peakMemory?: number;
+}
+
+export const summarizeHistory = (records: RenderHistoryRecord[]): HistorySummary => {
+  const frames = records.flatMap(record => record.frames);
+  const memory = records.map(record => record.peakMemory).filter((value): value is number => value !== undefined);
+  return {
+    renders: records.length,
+    totalSeconds: records.reduce((sum, record) => sum + record.durationSeconds, 0),
+    framesRendered: frames.length,
+    averageFrameSeconds: frames.length > 0
+      ? frames.reduce((sum, frame) => sum + frame.seconds, 0) / frames.length
+      : null,
+    peakMemory: memory.length > 0 ? Math.max(...memory) : undefined
+  };
+};
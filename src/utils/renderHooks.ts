@@ -0,0 +1,126 @@
+import { HookAction, RenderHook } from '../types/hooks';
+
+export const HOOK_ACTION_LABELS: Record<HookAction['type'], string> = {
+  command: 'Run command',
+  copy: 'Copy outputs',
+  contactSheet: 'Contact sheet',
+  manifest: 'Manifest',
+  webhook: 'Webhook'
+};
+
+export const HOOK_RUN_ON_LABELS: Record<RenderHook['runOn'], string> = {
+  success: 'On success',
+  failure: 'On failure',
+  always: 'Always'
+};
+
+// Variables the main process fills in; commands also get them as RFP_<NAME> environment variables
+export const HOOK_VARIABLES: Record<string, string> = {
+  item_id: 'Queue item id',
+  blend_file: 'Path of the blend file',
+  blend_name: 'Blend file name without extension',
+  blend_dir: 'Directory of the blend file',
+  output_dir: 'Directory the frames are written to',
+  output_pattern: 'Blender output pattern, with # frame padding',
+  video: 'Encoded or rendered video file, if any',
+  status: 'pending, completed or error',
+  error: 'Error of a failed render',
+  frame_start: 'First frame of the render',
+  frame_end: 'Last frame of the render',
+  scene: 'Rendered scene, if picked',
+  camera: 'Rendered camera, if picked',
+  view_layer: 'Rendered view layer, if picked',
+  date: 'Date the hook runs, YYYY-MM-DD'
+};
+
+export const DEFAULT_HOOK_TIMEOUT_SECONDS = 600;
+
+const defaultActions: Record<HookAction['type'], HookAction> = {
+  command: { type: 'command', command: '' },
+  copy: { type: 'copy', destination: '', move: false },
+  contactSheet: { type: 'contactSheet', outputFile: '{output_dir}/{blend_name}_contact.jpg', columns: 6, thumbnailWidth: 320, maxFrames: 60 },
+  manifest: { type: 'manifest', outputFile: '{output_dir}/{blend_name}_manifest.json' },
+  webhook: { type: 'webhook', url: '' }
+};
+
+export const createHook = (type: HookAction['type'], stage: RenderHook['stage'] = 'post'): RenderHook => ({
+  id: `hook-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  stage,
+  runOn: stage === 'pre' ? 'always' : 'success',
+  enabled: true,
+  action: { ...defaultActions[type] }
+});
+
+export const hookLabel = (hook: RenderHook): string =>
+  hook.name?.trim() || HOOK_ACTION_LABELS[hook.action.type];
+
+// Pre-render hooks ignore runOn: they run before the outcome is known
+export const hookRunsFor = (hook: RenderHook, status: 'pending' | 'completed' | 'error'): boolean =>
+  hook.enabled && (
+    hook.stage === 'pre' ||
+    hook.runOn === 'always' ||
+    (hook.runOn === 'success' ? status === 'completed' : status === 'error')
+  );
+
+const unknownVariables = (text: string): string[] =>
+  [...text.matchAll(/\{(\w+)\}/g)]
+    .map(match => match[1])
+    .filter(name => !(name in HOOK_VARIABLES));
+
+/**
+ * Why a hook cannot run as configured; empty when it can.
+ */
+export const validateHook = (hook: RenderHook): string[] => {
+  const problems: string[] = [];
+  const label = hookLabel(hook);
+  const { action } = hook;
+
+  const required = (value: string, field: string) => {
+    if (!value.trim()) {
+      problems.push(`${label}: ${field} is required`);
+    }
+    unknownVariables(value).forEach(name => problems.push(`${label}: unknown variable {${name}}`));
+  };
+
+  switch (action.type) {
+    case 'command':
+      required(action.command, 'a command');
+      break;
+    case 'copy':
+      required(action.destination, 'a destination');
+      break;
+    case 'contactSheet':
+      required(action.outputFile, 'an output file');
+      if (!(Number.isInteger(action.columns) && action.columns >= 1 && action.columns <= 50)) {
+        problems.push(`${label}: columns must be a whole number from 1 to 50`);
+      }
+      if (!(Number.isInteger(action.thumbnailWidth) && action.thumbnailWidth >= 16)) {
+        problems.push(`${label}: thumbnail width must be at least 16 pixels`);
+      }
+      if (!(Number.isInteger(action.maxFrames) && action.maxFrames >= 1)) {
+        problems.push(`${label}: at least one frame must be shown`);
+      }
+      break;
+    case 'manifest':
+      required(action.outputFile, 'an output file');
+      break;
+    case 'webhook':
+      required(action.url, 'a URL');
+      if (action.url.trim() && !/^https?:\/\//i.test(action.url.trim())) {
+        problems.push(`${label}: the URL must start with http:// or https://`);
+      }
+      break;
+  }
+
+  if (hook.stage === 'pre' && (action.type === 'copy' || action.type === 'contactSheet')) {
+    problems.push(`${label}: only runs after rendering, when there are frames`);
+  }
+  if (hook.timeoutSeconds !== undefined && !(hook.timeoutSeconds > 0)) {
+    problems.push(`${label}: the timeout must be above 0 seconds`);
+  }
+
+  return problems;
+};
+
+export const validateHooks = (hooks: RenderHook[]): string[] =>
+  hooks.filter(hook => hook.enabled).flatMap(validateHook);
@@ -0,0 +1,113 @@
+import { AudioCodec, VideoCodec, VideoContainer, VideoOptions } from '../types/blender';
+
+export const CONTAINER_LABELS: Record<VideoContainer, string> = {
+  MPEG4: 'MP4',
+  QUICKTIME: 'QuickTime (.mov)',
+  WEBM: 'WebM',
+  MKV: 'Matroska (.mkv)'
+};
+
+export const CODEC_LABELS: Record<VideoCodec, string> = {
+  H264: 'H.264',
+  H265: 'H.265 / HEVC',
+  PRORES: 'Apple ProRes 422 HQ',
+  VP9: 'VP9',
+  AV1: 'AV1'
+};
+
+export const AUDIO_CODEC_LABELS: Record<AudioCodec, string> = {
+  NONE: 'No audio',
+  AAC: 'AAC',
+  OPUS: 'Opus',
+  PCM: 'PCM (uncompressed)'
+};
+
+// Codecs each container can hold
+export const CONTAINER_CODECS: Record<VideoContainer, VideoCodec[]> = {
+  MPEG4: ['H264', 'H265', 'AV1'],
+  QUICKTIME: ['H264', 'H265', 'PRORES'],
+  WEBM: ['VP9', 'AV1'],
+  MKV: ['H264', 'H265', 'PRORES', 'VP9', 'AV1']
+};
+
+export const CONTAINER_AUDIO_CODECS: Record<VideoContainer, AudioCodec[]> = {
+  MPEG4: ['NONE', 'AAC'],
+  QUICKTIME: ['NONE', 'AAC', 'PCM'],
+  WEBM: ['NONE', 'OPUS'],
+  MKV: ['NONE', 'AAC', 'OPUS', 'PCM']
+};
+
+const EXTENSIONS: Record<VideoContainer, string> = {
+  MPEG4: '.mp4',
+  QUICKTIME: '.mov',
+  WEBM: '.webm',
+  MKV: '.mkv'
+};
+
+export const videoExtension = (container: VideoContainer): string => EXTENSIONS[container];
+
+// ProRes picks its quality by profile, not by rate control
+export const usesRateControl = (codec: VideoCodec): boolean => codec !== 'PRORES';
+
+// ffmpeg reads image sequences up to their first gap, so lists such as
+// 1,5,9 cannot be encoded to a video
+export const isConsecutive = (frames: number[]): boolean => {
+  const unique = new Set(frames);
+  return Math.max(...unique) - Math.min(...unique) + 1 === unique.size;
+};
+
+/**
+ * Switch the container, keeping the codecs when it can hold them and
+ * otherwise falling back to its first ones.
+ */
+export const withContainer = (video: VideoOptions, container: VideoContainer): VideoOptions => ({
+  ...video,
+  container,
+  codec: CONTAINER_CODECS[container].includes(video.codec) ? video.codec : CONTAINER_CODECS[container][0],
+  audioCodec: CONTAINER_AUDIO_CODECS[container].includes(video.audioCodec) ? video.audioCodec : 'NONE'
+});
+
+/**
+ * Why video options cannot be encoded as they are; empty when they can.
+ */
+export const validateVideoOptions = (video: VideoOptions): string[] => {
+  const problems: string[] = [];
+
+  if (!CONTAINER_CODECS[video.container].includes(video.codec)) {
+    problems.push(`${CONTAINER_LABELS[video.container]} cannot hold ${CODEC_LABELS[video.codec]} video`);
+  }
+  if (!CONTAINER_AUDIO_CODECS[video.container].includes(video.audioCodec)) {
+    problems.push(`${CONTAINER_LABELS[video.container]} cannot hold ${AUDIO_CODEC_LABELS[video.audioCodec]} audio`);
+  }
+  if (usesRateControl(video.codec)) {
+    if (video.rateControl === 'CRF' && !(Number.isInteger(video.crf) && video.crf >= 0 && video.crf <= 51)) {
+      problems.push('Quality (CRF) must be a whole number from 0 to 51');
+    }
+    if (video.rateControl === 'BITRATE' && !(video.bitrate > 0)) {
+      problems.push('Video bitrate must be above 0 kbit/s');
+    }
+  }
+  if (!(video.fps >= 0) || video.fps > 1000) {
+    problems.push('Frame rate must be from 0 (scene rate) to 1000');
+  }
+  if (video.audioCodec !== 'NONE' && video.audioCodec !== 'PCM' && !(video.audioBitrate > 0)) {
+    problems.push('Audio bitrate must be above 0 kbit/s');
+  }
+
+  return problems;
+};
+
+/**
+ * The video file an image sequence is encoded to: the output pattern with
+ * its frame number placeholder and the separator next to it removed, named
+ * after the blend file when nothing else is left.
+ */
+export const sequenceVideoPath = (outputPath: string, container: VideoContainer, fallbackName: string): string => {
+  const slash = Math.max(outputPath.lastIndexOf('/'), outputPath.lastIndexOf('\\'));
+  const directory = outputPath.slice(0, slash + 1);
+  const name = outputPath
+    .slice(slash + 1)
+    .replace(/[_.\- ]*#+[_.\- ]*/g, match => (/^[_.\- ]/.test(match) && /[_.\- ]$/.test(match) ? match[0] : ''))
+    .replace(/^[_.\- ]+|[_.\- ]+$/g, '');
+  return `${directory}${name || fallbackName}${videoExtension(container)}`;
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { gzipSync } from 'zlib';
+import { readBlendFileInfo } from '../src/utils/blendFileReader';
+import { getSavedVersion } from '../src/utils/blendMetadata';
+import { createBlendFile, DEFAULT_PROJECT_SETTINGS } from '../src/services/ProjectService';
+import { BlendFileMetadata } from '../src/types/blender';
+
+const SCENE_POINTER = Buffer.from('0011223344556677', 'hex');
+
+// Legacy 64-bit little-endian block: code, length, old pointer, SDNA index, count
+const block = (code: string, data: Buffer, pointer = Buffer.alloc(8)) => {
+  const header = Buffer.alloc(24);
+  header.write(code, 0, 'ascii');
+  header.writeInt32LE(data.length, 4);
+  pointer.copy(header, 8);
+  return Buffer.concat([header, data]);
+};
+
+const blendFile = (version: string) => {
+  const scene = Buffer.alloc(64);
+  scene.write('SCShot 010\0', 32, 'ascii');
+  const global = Buffer.alloc(40);
+  global.writeInt16LE(3, 4);
+  SCENE_POINTER.copy(global, 24);
+  return Buffer.concat([
+    Buffer.from(`BLENDER-v${version}`, 'ascii'),
+    block('GLOB', global),
+    block('SC\0\0', scene, SCENE_POINTER),
+    block('ENDB', Buffer.alloc(0))
+  ]);
+};
+
+// zstd frame holding its data as one raw block, so no compressor is needed
+const zstdFrame = (data: Buffer) => {
+  const blockHeader = Buffer.alloc(3);
+  blockHeader.writeUIntLE((data.length << 3) | 1, 0, 3);
+  // Frame header: no content size or checksum, 2 MB window
+  return Buffer.concat([Buffer.from([0x28, 0xb5, 0x2f, 0xfd, 0x00, 0x58]), blockHeader, data]);
+};
+
+// Skippable frame, where Blender keeps the seek table of its zstd files
+const skippableFrame = (data: Buffer) => {
+  const header = Buffer.alloc(8);
+  header.writeUInt32LE(0x184d2a5e, 0);
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data]);
+};
+
+const reader = (bytes: Buffer) => async (offset: number, length: number) =>
+  new Uint8Array(bytes.subarray(offset, offset + length));
+
+const metadata = (fileVersion: string): BlendFileMetadata => ({
+  blenderVersion: '4.2.3',
+  fileVersion,
+  fileSize: 1024,
+  modifiedTime: 0,
+  activeScene: 'Shot 010',
+  scenes: []
+});
+
+describe('readBlendFileInfo', () => {
+  it('reads the header and scenes of an uncompressed file', async () => {
+    await expect(readBlendFileInfo(reader(blendFile('402')))).resolves.toEqual({
+      compression: 'none',
+      version: '4.2',
+      subversion: 3,
+      pointerSize: 8,
+      littleEndian: true,
+      scenes: ['Shot 010'],
+      activeScene: 'Shot 010'
+    });
+  });
+
+  it('inflates gzip files', async () => {
+    await expect(readBlendFileInfo(reader(gzipSync(blendFile('293'))))).resolves.toMatchObject({
+      compression: 'gzip',
+      version: '2.93',
+      scenes: ['Shot 010']
+    });
+  });
+
+  it('decompresses zstd files frame by frame', async () => {
+    const file = blendFile('360');
+    const zstd = Buffer.concat([
+      zstdFrame(file.subarray(0, 50)),
+      zstdFrame(file.subarray(50)),
+      skippableFrame(Buffer.alloc(16))
+    ]);
+
+    await expect(readBlendFileInfo(reader(zstd))).resolves.toEqual({
+      compression: 'zstd',
+      version: '3.60',
+      subversion: 3,
+      pointerSize: 8,
+      littleEndian: true,
+      scenes: ['Shot 010'],
+      activeScene: 'Shot 010'
+    });
+  });
+
+  it('rejects truncated zstd files', async () => {
+    const zstd = zstdFrame(blendFile('402')).subarray(0, 40);
+    await expect(readBlendFileInfo(reader(zstd))).rejects.toThrow();
+  });
+});
+
+describe('getSavedVersion', () => {
+  const file = createBlendFile('/projects/shot.blend', DEFAULT_PROJECT_SETTINGS);
+
+  it("prefers the file header's version", () => {
+    expect(getSavedVersion({ ...file, fileInfo: { compression: 'none', version: '4.1', scenes: [] }, metadata: metadata('4.2.3') })).toBe('4.1');
+  });
+
+  it("falls back to the probe's major.minor when the header was not read", () => {
+    expect(getSavedVersion({ ...file, metadata: metadata('4.2.3') })).toBe('4.2');
+  });
+
+  it('is unknown until the header or the probe was read', () => {
+    expect(getSavedVersion(file)).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { BlenderManager } from '../electron/blenderManager.js';
+import type { RenderProgress } from '../src/types/blender';
+
+const FAKE_BLENDER = fileURLToPath(new URL('./fixtures/fake-blender.mjs', import.meta.url));
+
+describe('BlenderManager against a fake Blender', () => {
+  let dir: string;
+  let manager: BlenderManager;
+
+  const render = (options: Record<string, unknown> = {}) => {
+    const progress: RenderProgress[] = [];
+    const done = manager.renderFile(
+      { blendFile: join(dir, 'shot.blend'), outputPath: join(dir, 'frames', 'shot_####'), startFrame: 1, endFrame: 3, ...options },
+      update => progress.push(update)
+    );
+    return { progress, done };
+  };
+
+  const readArgs = (): string[] => JSON.parse(readFileSync(process.env.FAKE_BLENDER_ARGS!, 'utf8'));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rfp-blender-'));
+    writeFileSync(join(dir, 'shot.blend'), 'BLENDER-v402');
+    process.env.FAKE_BLENDER_MODE = 'ok';
+    process.env.FAKE_BLENDER_ARGS = join(dir, 'args.json');
+    manager = new BlenderManager({ blenderPath: FAKE_BLENDER });
+  });
+
+  afterEach(() => {
+    manager.cancelAllRenders();
+    delete process.env.FAKE_BLENDER_MODE;
+    delete process.env.FAKE_BLENDER_ARGS;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads the version', async () => {
+    await expect(manager.getBlenderVersion()).resolves.toBe('4.1.1');
+    await expect(manager.isBlenderAvailable()).resolves.toBe(true);
+    await expect(new BlenderManager({ blenderPath: join(dir, 'missing') }).isBlenderAvailable()).resolves.toBe(false);
+  });
+
+  it('renders the frame range and reports progress', async () => {
+    const { progress, done } = render();
+    await done;
+
+    const args = readArgs();
+    expect(args.slice(0, 2)).toEqual(['-b', join(dir, 'shot.blend')]);
+    expect(args.slice(args.indexOf('-o'), args.indexOf('-o') + 2)).toEqual(['-o', join(dir, 'frames', 'shot_####')]);
+    expect(args.slice(-5)).toEqual(['-s', '1', '-e', '3', '-a']);
+
+    const rendering = progress.filter(update => update.status === 'rendering');
+    expect(rendering.length).toBeGreaterThan(3);
+    expect(rendering.some(update => update.sample === 32 && update.totalSamples === 64)).toBe(true);
+    expect(rendering.map(update => update.frame)).toEqual([...rendering.map(update => update.frame)].sort());
+
+    const last = progress[progress.length - 1];
+    expect(last.status).toBe('completed');
+    expect(last.percentage).toBe(100);
+    expect(last.frameStats?.map(stat => stat.frame)).toEqual([1, 2, 3]);
+    expect(last.frameStats?.every(stat => stat.seconds === 0.75)).toBe(true);
+    expect(existsSync(join(dir, 'frames', 'shot_0003.png'))).toBe(true);
+  });
+
+  it('only renders missing frames when asked to skip existing ones', async () => {
+    await render({ endFrame: 2 }).done;
+    const { progress, done } = render({ skipExistingFrames: true, format: 'PNG' });
+    await done;
+
+    expect(readArgs()).toContain('-f');
+    expect(readArgs()[readArgs().indexOf('-f') + 1]).toBe('3');
+    const last = progress[progress.length - 1];
+    expect(last).toMatchObject({ status: 'completed', skippedFrames: 2, totalFrames: 3 });
+
+    const again = render({ skipExistingFrames: true, format: 'PNG' });
+    await again.done;
+    expect(again.progress).toEqual([expect.objectContaining({ status: 'completed', message: 'All frames already rendered' })]);
+  });
+
+  it('does not start Blender when cancelled while scanning for existing frames', async () => {
+    const { progress, done } = render({ skipExistingFrames: true, format: 'PNG' });
+
+    expect(manager.cancelRender(join(dir, 'shot.blend'))).toBe(true);
+    await done;
+    expect(progress).toEqual([expect.objectContaining({ status: 'cancelled', message: 'Render cancelled' })]);
+    expect(existsSync(process.env.FAKE_BLENDER_ARGS!)).toBe(false);
+    expect(manager.getActiveRenders()).toEqual([]);
+  });
+
+  it("fails with Blender's error even though it exits 0", async () => {
+    process.env.FAKE_BLENDER_MODE = 'error';
+    const { progress, done } = render();
+
+    await expect(done).rejects.toThrow('Cannot read file "/missing/texture.png"');
+    expect(progress[progress.length - 1].status).toBe('error');
+    expect(manager.getActiveRenders()).toEqual([]);
+  });
+
+  it('fails with stderr when Blender crashes', async () => {
+    process.env.FAKE_BLENDER_MODE = 'crash';
+    const { progress, done } = render();
+
+    await expect(done).rejects.toThrow('Segmentation fault');
+    expect(progress[progress.length - 1]).toMatchObject({ status: 'error', frameStats: [expect.objectContaining({ frame: 1 })] });
+  });
+
+  it('tracks and cancels running renders', async () => {
+    process.env.FAKE_BLENDER_MODE = 'hang';
+    const { progress, done } = render({ jobId: 'job-1' });
+    await expect.poll(() => progress.length).toBeGreaterThan(0);
+
+    expect(manager.isRenderActive('job-1')).toBe(true);
+    expect(manager.isRenderActive(join(dir, 'shot.blend'))).toBe(true);
+    expect(manager.getActiveRenders()).toEqual([join(dir, 'shot.blend')]);
+    await expect(render({ jobId: 'job-1' }).done).rejects.toThrow('Render job-1 is already running');
+
+    expect(manager.cancelRender('job-1')).toBe(true);
+    await done;
+
+    expect(progress[progress.length - 1]).toMatchObject({ status: 'cancelled', message: 'Render cancelled' });
+    expect(manager.isRenderActive('job-1')).toBe(false);
+    expect(manager.cancelRender('job-1')).toBe(false);
+  });
+});
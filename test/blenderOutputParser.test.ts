@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import {
+  BlenderOutputParser,
+  formatDuration,
+  parseBlenderLine,
+  parseBlenderTime
+} from '../electron/blenderOutputParser.js';
+
+const readLog = (name: string) => readFileSync(new URL(`./fixtures/blender-output/${name}`, import.meta.url), 'utf8');
+
+// Feed a log the way stdout delivers it: in chunks that split lines
+const parseLog = (name: string, options: ConstructorParameters<typeof BlenderOutputParser>[0]) => {
+  const parser = new BlenderOutputParser(options);
+  const log = readLog(name);
+  const events = [];
+  for (let offset = 0; offset < log.length; offset += 13) {
+    events.push(...parser.write(log.slice(offset, offset + 13)));
+  }
+  events.push(...parser.end());
+  return { parser, events };
+};
+
+describe('parseBlenderLine', () => {
+  it('reads Cycles status lines', () => {
+    expect(parseBlenderLine(
+      'Fra:1 Mem:87.40M (Peak 87.40M) | Time:00:00.63 | Remaining:00:13.51 | Mem:28.01M, Peak:28.01M | Scene, View Layer | Rendered 1/135 Tiles, Sample 32/128'
+    )).toEqual({ type: 'status', frame: 1, elapsed: 0.63, remaining: 13.51, memory: 87.4, peakMemory: 87.4, sample: 32, totalSamples: 128 });
+
+    expect(parseBlenderLine(
+      'Fra:2 Mem:1.21G (Peak 1.25G) | Time:00:00.95 | Remaining:01:02:03.50 | Mem:1.02G, Peak:1.02G | Scene, ViewLayer | Path Tracing Sample 2/4096'
+    )).toMatchObject({ frame: 2, remaining: 3723.5, peakMemory: 1280, sample: 2, totalSamples: 4096 });
+  });
+
+  it('reads EEVEE sample counts and status lines without samples', () => {
+    expect(parseBlenderLine('Fra:10 Mem:152.31M (Peak 152.31M) | Time:00:00.61 | Rendering 32 / 64 samples'))
+      .toEqual({ type: 'status', frame: 10, elapsed: 0.61, memory: 152.31, peakMemory: 152.31, sample: 32, totalSamples: 64 });
+    expect(parseBlenderLine('Fra:24 Mem:22.70M (Peak 22.82M) | Time:00:00.05 | Syncing Suzanne'))
+      .toEqual({ type: 'status', frame: 24, elapsed: 0.05, memory: 22.7, peakMemory: 22.82 });
+  });
+
+  it('reads saved files, appended video frames, frame times and errors', () => {
+    expect(parseBlenderLine("Saved: '/renders/shot 1/frame_0001.png'")).toEqual({ type: 'saved', path: '/renders/shot 1/frame_0001.png' });
+    expect(parseBlenderLine('Append frame 12')).toEqual({ type: 'appended', frame: 12 });
+    expect(parseBlenderLine(' Time: 00:04.12 (Saving: 00:00.09)')).toEqual({ type: 'frameTime', seconds: 4.12 });
+    expect(parseBlenderLine('Time: 01:00:05.03 (Saving: 00:00.07)')).toEqual({ type: 'frameTime', seconds: 3605.03 });
+    expect(parseBlenderLine('Error: ')).toEqual({ type: 'error', message: 'Unknown Blender error' });
+  });
+
+  it('ignores lines without render information', () => {
+    [
+      'Blender 4.1.1 (hash e1743a0317bc built 2024-04-16 00:47:12)',
+      'Read blend: "/projects/shot030/shot030.blend"',
+      'Warning: Unable to open font "/usr/share/fonts/missing.ttf"',
+      'Blender quit',
+      ''
+    ].forEach(line => expect(parseBlenderLine(line)).toBeNull());
+  });
+});
+
+describe('duration helpers', () => {
+  it('converts Blender times to seconds and back', () => {
+    expect(parseBlenderTime('00:04.12')).toBeCloseTo(4.12);
+    expect(parseBlenderTime('01:02:03.50')).toBe(3723.5);
+    expect(formatDuration(65.4)).toBe('01:05');
+    expect(formatDuration(3723.5)).toBe('1:02:04');
+    expect(formatDuration(-3)).toBe('00:00');
+  });
+});
+
+describe('BlenderOutputParser with real logs', () => {
+  it('follows a Blender 2.93 Cycles tile render', () => {
+    const { parser, events } = parseLog('blender-2.93-cycles.txt', { blendFile: 'shot010.blend', startFrame: 1, endFrame: 2 });
+
+    expect(events.filter(event => event.type === 'saved')).toHaveLength(2);
+    expect(parser.errors).toEqual([]);
+    expect(parser.frameStats).toEqual([
+      { frame: 1, seconds: 4.12, peakMemory: 87.4, path: '/renders/shot010/shot010_0001.png' },
+      { frame: 2, seconds: 3.97, peakMemory: 91.02, path: '/renders/shot010/shot010_0002.png' }
+    ]);
+    expect(parser.toProgress('completed')).toMatchObject({
+      frame: 2, totalFrames: 2, percentage: 100, averageFrameSeconds: 4.045, peakMemory: 91.02, status: 'completed'
+    });
+  });
+
+  it('reports sample progress in the middle of a frame', () => {
+    const parser = new BlenderOutputParser({ blendFile: 'shot010.blend', startFrame: 1, endFrame: 2 });
+    const lines = readLog('blender-2.93-cycles.txt').split('\n');
+    parser.write(lines.slice(0, lines.findIndex(line => line.includes('Sample 32/128')) + 1).join('\n') + '\n');
+
+    const progress = parser.toProgress('rendering');
+    expect(progress).toMatchObject({ frame: 1, sample: 32, totalSamples: 128, percentage: 12.5, status: 'rendering' });
+    // Blender's estimate for this frame, then this frame's full time for the next one
+    expect(progress.secondsRemaining).toBeCloseTo(13.51 + 0.63 + 13.51);
+  });
+
+  it('handles Windows line endings and paths from Blender 2.92 EEVEE', () => {
+    const { parser } = parseLog('blender-2.92-eevee-windows.txt', { blendFile: 'logo.blend', startFrame: 10, endFrame: 11 });
+
+    expect(parser.savedFiles).toEqual(['C:\\Renders\\logo\\logo_0010.png', 'C:\\Renders\\logo\\logo_0011.png']);
+    expect(parser.frameStats.map(stat => [stat.frame, stat.seconds])).toEqual([[10, 1.31], [11, 1.25]]);
+    expect(parser.getPercentage()).toBe(100);
+  });
+
+  it('follows a Blender 3.6 Cycles render that is still running', () => {
+    const { parser } = parseLog('blender-3.6-cycles.txt', { blendFile: 'shot020.blend', startFrame: 1, endFrame: 2 });
+
+    expect(parser.frameStats).toEqual([{ frame: 1, seconds: 5.7, peakMemory: 58.85, path: '/renders/shot020/shot020_0001.exr' }]);
+    expect(parser.toProgress('rendering')).toMatchObject({
+      frame: 2,
+      sample: 2,
+      totalSamples: 4096,
+      percentage: 50,
+      secondsRemaining: 3723.5,
+      timeRemaining: '1:02:04',
+      peakMemory: 1280,
+      frameStats: undefined
+    });
+  });
+
+  it('counts appended frames of a Blender 3.6 EEVEE video render', () => {
+    const { parser, events } = parseLog('blender-3.6-eevee-video.txt', { blendFile: 'titles.blend', startFrame: 1, endFrame: 2 });
+
+    expect(events.filter(event => event.type === 'appended')).toHaveLength(2);
+    expect(parser.framesDone).toBe(2);
+    expect(parser.savedFiles).toEqual([]);
+    expect(parser.frameStats).toEqual([
+      { frame: 1, seconds: 1.41, peakMemory: 190.71, path: undefined },
+      { frame: 2, seconds: 1.22, peakMemory: 190.71, path: undefined }
+    ]);
+    expect(parser.toProgress('completed')).toMatchObject({ percentage: 100, averageFrameSeconds: 1.315 });
+  });
+
+  it('follows Blender 4.1 Cycles with denoising and unindented frame times', () => {
+    const { parser } = parseLog('blender-4.1-cycles.txt', { blendFile: 'shot030.blend', startFrame: 24, endFrame: 25 });
+
+    expect(parser.frameStats.map(stat => [stat.frame, stat.seconds])).toEqual([[24, 5.03], [25, 4.95]]);
+    expect(parser.peakMemory).toBe(101.48);
+    expect(parser.errors).toEqual([]);
+  });
+
+  it('follows Blender 4.2 EEVEE, skipping shader compilation lines', () => {
+    const { parser, events } = parseLog('blender-4.2-eevee.txt', { blendFile: 'titles.blend' });
+
+    const samples = events.flatMap(event => (event.type === 'status' && event.sample !== undefined ? [event.sample] : []));
+    expect(samples).toEqual([1, 32, 64]);
+    expect(parser.frameStats).toEqual([{ frame: 1, seconds: 3.59, peakMemory: 260.11, path: '/renders/titles/titles_0001.png' }]);
+  });
+
+  it('collects the error of a missing blend file', () => {
+    const { parser } = parseLog('blender-4.1-missing-file.txt', { blendFile: 'missing.blend' });
+
+    expect(parser.errors).toEqual(['Cannot read file "/projects/missing/missing.blend": No such file or directory']);
+    expect(parser.savedFiles).toEqual([]);
+  });
+
+  it('reduces a Python traceback to its exception', () => {
+    const { parser, events } = parseLog('blender-3.6-python-error.txt', { blendFile: 'shot020.blend' });
+
+    expect(events).toEqual([
+      { type: 'error', message: 'TypeError: bpy_struct: item.attr = val: RenderSettings.fps expected an int type, not str' },
+      { type: 'error', message: 'Python script failed, check the message in the system console' }
+    ]);
+    expect(parser.errors).toHaveLength(2);
+  });
+
+  it('flushes a traceback cut off by the end of the output', () => {
+    const parser = new BlenderOutputParser({ blendFile: 'shot.blend' });
+    parser.write('Traceback (most recent call last):\n  File "<string>", line 1, in <module>\n');
+
+    expect(parser.errors).toEqual([]);
+    expect(parser.end()).toEqual([{ type: 'error', message: 'File "<string>", line 1, in <module>' }]);
+  });
+});
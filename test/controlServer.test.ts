@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { ControlEvent } from '../src/types/control';
+import type { FarmJob, FarmRegistration } from '../src/types/farm';
+import type { QueueItem } from '../src/services/RenderQueue';
+import { Coordinator, startCoordinator } from './helpers/coordinator';
+import { connectEvents, EventClient } from './helpers/webSocketClient';
+
+const NODE = { name: 'render-01', platform: 'linux', cores: 8, gpus: [], blenderVersions: ['4.1.1'] };
+
+describe('control API over HTTP', () => {
+  let coordinator: Coordinator;
+  let events: EventClient | null;
+
+  beforeEach(async () => {
+    coordinator = await startCoordinator({ outputDirectory: '/renders' });
+    events = null;
+  });
+
+  afterEach(async () => {
+    events?.close();
+    await coordinator.close();
+  });
+
+  it('needs the token for everything but the API description', async () => {
+    expect((await coordinator.request('GET', '/api/queue', { token: null })).status).toBe(401);
+    expect((await coordinator.request('GET', '/api/queue', { token: 'wrong' })).status).toBe(401);
+    expect((await coordinator.request('GET', '/api/openapi.json', { token: null })).status).toBe(200);
+    expect(await coordinator.request('GET', '/api/queue')).toEqual({ status: 200, body: [] });
+  });
+
+  it('answers unknown paths, wrong methods and malformed escapes with client errors', async () => {
+    expect((await coordinator.request('GET', '/api/nothing')).status).toBe(404);
+    expect((await coordinator.request('PUT', '/api/queue')).status).toBe(405);
+    expect(await coordinator.request('DELETE', '/api/queue/%E0')).toEqual({ status: 400, body: { error: 'Malformed path' } });
+    expect((await coordinator.request('POST', '/api/nodes/%zz/claim')).status).toBe(400);
+  });
+
+  it('adds, lists and removes queue items', async () => {
+    const added = await coordinator.request<{ id: string }>('POST', '/api/queue', {
+      body: { blendFile: '/projects/shot.blend', options: { startFrame: 1, endFrame: 10 } }
+    });
+    expect(added.status).toBe(200);
+
+    const { body: queue } = await coordinator.request<QueueItem[]>('GET', '/api/queue');
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ id: added.body.id, blendFile: '/projects/shot.blend', status: 'pending' });
+
+    expect((await coordinator.request('POST', '/api/queue', { body: { outputPath: '/renders' } })).body)
+      .toEqual({ error: 'blendFile is required' });
+    expect((await coordinator.request('POST', `/api/queue/${added.body.id}/move-up`)).status).toBe(409);
+    expect((await coordinator.request('DELETE', `/api/queue/${encodeURIComponent(added.body.id)}`)).status).toBe(200);
+    expect((await coordinator.request('DELETE', `/api/queue/${added.body.id}`)).status).toBe(404);
+  });
+
+  it('refuses frame lists that skip frames when the project encodes videos', async () => {
+    const encoding = await startCoordinator({ outputDirectory: '/renders', encodeSequence: true });
+    try {
+      const add = (frames: number[]) => encoding.request('POST', '/api/queue', { body: { blendFile: '/projects/shot.blend', options: { frames } } });
+
+      expect(await add([1, 5, 9])).toEqual({ status: 400, body: { error: 'options.frames must be consecutive when the project encodes videos' } });
+      expect((await add([3, 1, 2])).status).toBe(200);
+    } finally {
+      await encoding.close();
+    }
+  });
+
+  it('rejects bodies that are not JSON', async () => {
+    const response = await fetch(`${coordinator.url}/api/queue`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${coordinator.token}` },
+      body: '{"blendFile":'
+    });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Request body is not valid JSON' });
+  });
+
+  it('hands queue items to a farm node and takes its results', async () => {
+    const { body: added } = await coordinator.request<{ id: string }>('POST', '/api/queue', {
+      body: { blendFile: '/projects/shot.blend', options: { startFrame: 1, endFrame: 4 } }
+    });
+    const { body: registration } = await coordinator.request<FarmRegistration>('POST', '/api/nodes', { body: NODE });
+
+    const { body: claimed } = await coordinator.request<{ job: FarmJob | null }>('POST', `/api/nodes/${registration.nodeId}/claim`);
+    expect(claimed.job).toMatchObject({ id: added.id, blendFile: '/projects/shot.blend' });
+    // One slot, so nothing more until the job is done
+    expect((await coordinator.request('POST', `/api/nodes/${registration.nodeId}/claim`)).body).toEqual({ job: null });
+
+    const progress = await coordinator.request('POST', `/api/nodes/${registration.nodeId}/jobs/${added.id}/progress`, {
+      body: { frame: 2, totalFrames: 4, percentage: 50 }
+    });
+    expect(progress.body).toEqual({ cancel: false });
+    expect(coordinator.queue.getQueue()[0]).toMatchObject({ status: 'rendering', progress: 50, node: 'render-01' });
+
+    await coordinator.request('POST', `/api/nodes/${registration.nodeId}/jobs/${added.id}/complete`, { body: { status: 'completed' } });
+    await expect.poll(() => coordinator.queue.getQueue()[0].status).toBe('completed');
+    expect(coordinator.pool.getNodes()[0]).toMatchObject({ status: 'idle', jobs: [], completedJobs: 1 });
+
+    expect((await coordinator.request('POST', '/api/nodes/unknown/claim')).status).toBe(404);
+  });
+
+  describe('event stream', () => {
+    it('refuses clients without the token', async () => {
+      await expect(connectEvents(`${coordinator.url}/api/events`)).rejects.toThrow('Upgrade refused with 401');
+    });
+
+    it('starts with the queue and follows changes made through the API', async () => {
+      events = await connectEvents(`${coordinator.url}/api/events?token=${coordinator.token}`);
+      expect(await events.next<ControlEvent>()).toEqual({ type: 'queue', queue: [] });
+
+      const { body: added } = await coordinator.request<{ id: string }>('POST', '/api/queue', {
+        body: { blendFile: '/projects/shot.blend', options: { startFrame: 1, endFrame: 10 } }
+      });
+      const update = await events.next<ControlEvent>(event => event.type === 'queue');
+      expect(update.type === 'queue' && update.queue.map(item => item.id)).toEqual([added.id]);
+
+      await coordinator.request('POST', '/api/nodes', { body: NODE });
+      const nodes = await events.next<ControlEvent>(event => event.type === 'nodes');
+      expect(nodes.type === 'nodes' && nodes.nodes.map(node => node.name)).toEqual(['render-01']);
+    });
+  });
+});
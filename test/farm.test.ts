@@ -0,0 +1,99 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { ChildProcess, spawn } from 'child_process';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { buildForNode } from './helpers/buildForNode';
+import { Coordinator, startCoordinator } from './helpers/coordinator';
+
+const FAKE_BLENDER = fileURLToPath(new URL('./fixtures/fake-blender.mjs', import.meta.url));
+
+describe('render farm', () => {
+  let bbr: string;
+  let dir: string;
+  let coordinator: Coordinator;
+  let workers: ChildProcess[];
+
+  // A `bbr worker` process joining the coordinator
+  const startWorker = (name: string, sampleMs: number) => {
+    const worker = spawn(process.execPath, [
+      bbr, 'worker', '--coordinator', coordinator.url, '--token', coordinator.token, '--name', name, '--blender', FAKE_BLENDER
+    ], {
+      env: { ...process.env, BBR_HOME: join(dir, name), FAKE_BLENDER_SAMPLE_MS: String(sampleMs) },
+      stdio: 'ignore'
+    });
+    workers.push(worker);
+    return worker;
+  };
+
+  // Leaves the farm the way Ctrl+C does
+  const stopWorker = (worker: ChildProcess) => new Promise(resolve => {
+    if (worker.exitCode !== null || worker.signalCode !== null) {
+      resolve(undefined);
+      return;
+    }
+    worker.once('exit', resolve);
+    worker.kill('SIGTERM');
+  });
+
+  const addShot = async (name: string, endFrame: number) => {
+    writeFileSync(join(dir, `${name}.blend`), 'BLENDER-v401');
+    const { body } = await coordinator.request<{ id: string }>('POST', '/api/queue', {
+      body: { blendFile: join(dir, `${name}.blend`), options: { startFrame: 1, endFrame } }
+    });
+    return body.id;
+  };
+
+  const waitForNodes = (count: number) =>
+    expect.poll(() => coordinator.pool.getNodes().filter(node => node.status !== 'offline').length, { timeout: 15000 }).toBe(count);
+
+  beforeAll(async () => {
+    bbr = await buildForNode('src/cli/bbr.ts');
+  }, 60000);
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'rfp-farm-'));
+    coordinator = await startCoordinator({ outputDirectory: join(dir, 'renders') });
+    workers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(workers.map(stopWorker));
+    await coordinator.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('spreads the queue over every worker', async () => {
+    ['node-a', 'node-b', 'node-c'].forEach(name => startWorker(name, 150));
+    await waitForNodes(3);
+
+    const ids = [];
+    for (let shot = 1; shot <= 6; shot++) ids.push(await addShot(`shot${shot}`, 3));
+
+    await expect.poll(() => coordinator.queue.getQueue().map(item => item.status), { timeout: 30000 })
+      .toEqual(ids.map(() => 'completed'));
+
+    const nodes = coordinator.pool.getNodes();
+    expect(nodes.map(node => node.completedJobs).reduce((sum, count) => sum + count, 0)).toBe(6);
+    nodes.forEach(node => expect(node.completedJobs).toBeGreaterThan(0));
+    expect(new Set(coordinator.queue.getQueue().map(item => item.node))).toEqual(new Set(['node-a', 'node-b', 'node-c']));
+    // Three frames of each shot
+    expect(readdirSync(join(dir, 'renders'), { recursive: true }).filter(file => String(file).endsWith('.png'))).toHaveLength(18);
+  }, 60000);
+
+  it('hands the item of a worker that leaves mid-render to another one', async () => {
+    const leaving = startWorker('node-a', 300);
+    await waitForNodes(1);
+    const id = await addShot('shot', 5);
+
+    // Left once it has reported a frame
+    await expect.poll(() => coordinator.queue.getQueue()[0].currentFrame, { timeout: 15000 }).toBeGreaterThan(0);
+    startWorker('node-b', 20);
+    await stopWorker(leaving);
+    expect(coordinator.pool.getNodes().map(node => node.name)).not.toContain('node-a');
+
+    await expect.poll(() => coordinator.queue.getQueue()[0], { timeout: 30000 })
+      .toMatchObject({ id, status: 'completed', node: 'node-b' });
+  }, 60000);
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FarmWorker } from '../src/cli/FarmWorker';
+import type { BlenderAPI } from '../src/services/BlenderService';
+import type { BlenderInstallation, BlenderRenderOptions } from '../src/types/blender';
+import { Coordinator, startCoordinator } from './helpers/coordinator';
+
+const installation = (id: string, version: string): BlenderInstallation => ({
+  id,
+  name: `Blender ${version}`,
+  path: `/opt/${id}/blender`,
+  version,
+  available: true,
+  source: 'manual'
+});
+
+describe('FarmWorker', () => {
+  let coordinator: Coordinator;
+  let worker: FarmWorker | null;
+  let rendered: BlenderRenderOptions[];
+
+  // A node whose default Blender is 4.1.1, with 3.6.5 registered as well
+  const startWorker = (blenderVersions: string[]) => {
+    const blenderAPI = {
+      getBlenderVersion: async () => '4.1.1',
+      listInstallations: async () => [installation('node-36', '3.6.5')],
+      renderFile: async (options: BlenderRenderOptions) => {
+        rendered.push(options);
+      },
+      cancelRender: async () => true
+    } as unknown as BlenderAPI;
+
+    worker = new FarmWorker({
+      coordinator: coordinator.url,
+      token: coordinator.token,
+      blenderAPI,
+      info: { name: 'render-01', platform: 'linux', cores: 8, gpus: [], blenderVersions, slots: 1 },
+      log: () => {}
+    });
+    return worker.start();
+  };
+
+  const add = (blendFile: string, installationId?: string) =>
+    coordinator.request<{ id: string }>('POST', '/api/queue', {
+      body: { blendFile, options: { startFrame: 1, endFrame: 1, ...(installationId && { installationId }) } }
+    }).then(({ body }) => body.id);
+
+  const status = (id: string) => coordinator.queue.getQueue().find(item => item.id === id);
+
+  beforeEach(async () => {
+    coordinator = await startCoordinator({ outputDirectory: '/renders' });
+    coordinator.pool.setInstallations([installation('app-36', '3.6.5'), installation('app-293', '2.93.18')]);
+    worker = null;
+    rendered = [];
+  });
+
+  afterEach(async () => {
+    await worker?.stop();
+    await coordinator.close();
+  });
+
+  it('renders pinned items with its own installation of the version', async () => {
+    const pinned = await add('/projects/old.blend', 'app-36');
+    const latest = await add('/projects/new.blend');
+    const unsupported = await add('/projects/ancient.blend', 'app-293');
+    await startWorker(['4.1.1', '3.6.5']);
+
+    // The second item comes with the next claim, a couple of seconds later
+    await expect.poll(() => [status(pinned)?.status, status(latest)?.status], { timeout: 10000 }).toEqual(['completed', 'completed']);
+    expect(rendered.map(options => [options.blendFile, options.installationId])).toEqual([
+      ['/projects/old.blend', 'node-36'],
+      ['/projects/new.blend', undefined]
+    ]);
+    // No node has Blender 2.93
+    expect(status(unsupported)?.status).toBe('pending');
+  });
+
+  it('fails a pinned item it has no Blender for', async () => {
+    const id = await add('/projects/ancient.blend', 'app-293');
+    // Advertises a version it cannot render with
+    await startWorker(['4.1.1', '2.93.18']);
+
+    await expect.poll(() => status(id)?.status).toBe('error');
+    expect(status(id)?.error).toBe('Blender 2.93.18 is not installed on render-01');
+    expect(rendered).toEqual([]);
+  });
+});
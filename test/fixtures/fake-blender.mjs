@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+// Stands in for `blender -b`: prints the console output of a render of the
+// requested frames. FAKE_BLENDER_MODE picks how it ends:
+//   ok (default)  every frame is saved
+//   error         Blender reports an error and exits 0, like it does
+//   crash         exits with code 3 after one frame
+//   hang          keeps rendering the first frame until it is killed
+// FAKE_BLENDER_SAMPLE_MS sets how long each sample takes (default 5).
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+const args = process.argv.slice(2);
+const mode = process.env.FAKE_BLENDER_MODE || 'ok';
+const sampleMs = Number(process.env.FAKE_BLENDER_SAMPLE_MS || 5);
+
+if (process.env.FAKE_BLENDER_ARGS) {
+  writeFileSync(process.env.FAKE_BLENDER_ARGS, JSON.stringify(args));
+}
+
+if (args.includes('--version')) {
+  console.log('Blender 4.1.1');
+  console.log('\tbuild date: 2024-04-16');
+  process.exit(0);
+}
+
+const option = flag => {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const frames = [];
+if (option('-f')) {
+  option('-f').split(',').forEach(part => {
+    const [start, end = start] = part.split('..').map(Number);
+    for (let frame = start; frame <= end; frame++) frames.push(frame);
+  });
+} else {
+  for (let frame = Number(option('-s') ?? 1); frame <= Number(option('-e') ?? 1); frame++) frames.push(frame);
+}
+
+const pattern = option('-o') ?? '/tmp/####';
+const outputFile = frame => `${pattern.replace(/#+/, hashes => String(frame).padStart(hashes.length, '0'))}.png`;
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+console.log('Blender 4.1.1 (hash e1743a0317bc built 2024-04-16 00:47:12)');
+console.log(`Read blend: "${option('-b')}"`);
+
+if (mode === 'error') {
+  console.log('Error: Cannot read file "/missing/texture.png": No such file or directory');
+  console.log('');
+  console.log('Blender quit');
+  process.exit(0);
+}
+
+if (mode === 'hang') {
+  for (let sample = 1; ; sample++) {
+    console.log(`Fra:${frames[0]} Mem:120.50M (Peak 130.00M) | Time:00:0${sample % 10}.00 | Remaining:00:10.00 | Mem:40.00M, Peak:50.00M | Scene, ViewLayer | Sample ${sample}/1000`);
+    await sleep(50);
+  }
+}
+
+for (const [index, frame] of frames.entries()) {
+  for (const sample of [32, 64]) {
+    console.log(`Fra:${frame} Mem:120.50M (Peak 130.00M) | Time:00:00.${sample} | Remaining:00:00.10 | Mem:40.00M, Peak:50.00M | Scene, ViewLayer | Sample ${sample}/64`);
+    await sleep(sampleMs);
+  }
+  mkdirSync(dirname(outputFile(frame)), { recursive: true });
+  writeFileSync(outputFile(frame), 'fake frame');
+  console.log(`Saved: '${outputFile(frame)}'`);
+  console.log(' Time: 00:00.75 (Saving: 00:00.01)');
+  console.log('');
+
+  if (mode === 'crash' && index === 0) {
+    console.error('Segmentation fault');
+    process.exit(3);
+  }
+}
+
+console.log('');
+console.log('Blender quit');
@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+// Stands in for ffmpeg encoding an image sequence: checks that every frame
+// the `-i` pattern names exists, reports `-progress` lines and writes the
+// output file. FAKE_FFMPEG_MODE picks how it ends:
+//   ok (default)  the video is written
+//   error         fails after the first frame, as on a broken input
+//   hang          keeps encoding the first frame until it is killed
+import { existsSync, writeFileSync } from 'fs';
+
+const args = process.argv.slice(2);
+const mode = process.env.FAKE_FFMPEG_MODE || 'ok';
+
+if (process.env.FAKE_FFMPEG_ARGS) {
+  writeFileSync(process.env.FAKE_FFMPEG_ARGS, JSON.stringify(args));
+}
+
+const option = flag => {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const pattern = option('-i');
+const startNumber = Number(option('-start_number') ?? 0);
+const frameCount = Number(option('-frames:v'));
+const outputFile = args[args.length - 1];
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+const inputFile = frame => pattern
+  .replace(/%0(\d+)d/, (_match, width) => String(frame).padStart(Number(width), '0'))
+  .replace(/%%/g, '%');
+
+for (let index = 0; index < frameCount; index++) {
+  if (!existsSync(inputFile(startNumber + index))) {
+    console.error(`${pattern}: No such file or directory`);
+    process.exit(1);
+  }
+}
+
+if (mode === 'hang') {
+  for (;;) {
+    console.log('frame=0\nprogress=continue');
+    await sleep(50);
+  }
+}
+
+for (let frame = 1; frame <= frameCount; frame++) {
+  console.log(`frame=${frame}\nfps=24.0\nout_time=00:00:00.${String(frame).padStart(2, '0')}\nprogress=continue`);
+  await sleep(5);
+
+  if (mode === 'error') {
+    console.error(`[libx264 @ 0x55d5] broken frame ${frame}`);
+    console.error('Conversion failed!');
+    process.exit(1);
+  }
+}
+
+writeFileSync(outputFile, 'fake video');
+console.log(`frame=${frameCount}\nprogress=end`);
@@ -0,0 +1,12 @@
+// Takes the run lock as soon as every runner has started, then reports the result
+import { acquireRunLock } from '../../src/cli/runLock';
+
+const [lockPath, startAt] = process.argv.slice(2);
+
+setTimeout(() => {
+  const result = acquireRunLock(lockPath);
+  process.stdout.write(`${JSON.stringify({ pid: process.pid, ...result })}\n`);
+  // Holds the lock until the test has every result and closes stdin
+  process.stdin.resume();
+  process.stdin.on('end', () => process.exit(0));
+}, Math.max(0, Number(startAt) - Date.now()));
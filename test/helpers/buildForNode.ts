@@ -0,0 +1,21 @@
+import { join, parse } from 'path';
+import { fileURLToPath } from 'url';
+import { build } from 'vite';
+
+const ROOT = fileURLToPath(new URL('../..', import.meta.url));
+
+/**
+ * Bundle a TypeScript entry for plain `node`, the way `build:cli` does, so
+ * tests can run it in child processes. The output stays inside the project
+ * so its dependencies resolve from node_modules.
+ */
+export const buildForNode = async (entry: string): Promise<string> => {
+  const { name } = parse(entry);
+  const outDir = join(ROOT, 'node_modules', '.cache', 'rfp-tests', name);
+  await build({
+    root: ROOT,
+    logLevel: 'silent',
+    build: { ssr: join(ROOT, entry), outDir, emptyOutDir: true }
+  });
+  return join(outDir, `${name}.js`);
+};
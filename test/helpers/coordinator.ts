@@ -0,0 +1,92 @@
+import { request as httpRequest } from 'http';
+import { randomBytes } from 'crypto';
+import { ControlServer } from '../../electron/controlServer.js';
+import { connectControlBridge } from '../../src/services/ControlBridge';
+import { DEFAULT_PROJECT_SETTINGS } from '../../src/services/ProjectService';
+import { RenderQueue } from '../../src/services/RenderQueue';
+import { WorkerPool } from '../../src/services/WorkerPool';
+import type { ControlEvent, ControlRequestHandler } from '../../src/types/control';
+import type { ElectronAPI } from '../../src/types/electron';
+import type { ProjectSettings } from '../../src/types/project';
+
+export interface Coordinator {
+  url: string;
+  token: string;
+  queue: RenderQueue;
+  pool: WorkerPool;
+  request: <T = unknown>(
+    method: string,
+    path: string,
+    options?: { body?: unknown; token?: string | null }
+  ) => Promise<{ status: number; body: T }>;
+  close: () => Promise<void>;
+}
+
+/**
+ * The app's side of the control API without Electron: a control server on
+ * a free local port, answered by a queue and worker pool through the same
+ * bridge the renderer uses. The queue does not render locally.
+ */
+export const startCoordinator = async (settings: Partial<ProjectSettings> = {}): Promise<Coordinator> => {
+  const queue = new RenderQueue();
+  queue.setLocalRendering(false);
+  const pool = new WorkerPool();
+  pool.attach(queue);
+
+  let handler: ControlRequestHandler | null = null;
+  const server = new ControlServer((action, params, body) => {
+    if (!handler) return Promise.reject(Object.assign(new Error('The app is not ready'), { status: 503 }));
+    return handler(action, params, body);
+  });
+  const electronAPI = {
+    control: {
+      onRequest: (callback: ControlRequestHandler) => {
+        handler = callback;
+      },
+      removeRequestHandler: () => {
+        handler = null;
+      },
+      publish: (event: ControlEvent) => server.broadcast(event)
+    }
+  } as unknown as ElectronAPI;
+  const disconnect = connectControlBridge(electronAPI, queue, pool, () => ({ ...DEFAULT_PROJECT_SETTINGS, ...settings }));
+
+  const token = randomBytes(16).toString('hex');
+  await server.start({ enabled: true, host: '127.0.0.1', port: 0, token, renderLocally: false });
+  const url = server.getUrl()!;
+
+  const request: Coordinator['request'] = <T,>(method: string, path: string, { body, token: presented = token }: { body?: unknown; token?: string | null } = {}) =>
+    new Promise<{ status: number; body: T }>((resolve, reject) => {
+      const text = body === undefined ? undefined : JSON.stringify(body);
+      const req = httpRequest(`${url}${path}`, {
+        method,
+        headers: {
+          ...(presented && { Authorization: `Bearer ${presented}` }),
+          ...(text !== undefined && { 'Content-Type': 'application/json' })
+        }
+      }, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('end', () => {
+          const raw = Buffer.concat(chunks).toString('utf8');
+          resolve({ status: res.statusCode ?? 0, body: raw ? JSON.parse(raw) : undefined });
+        });
+      });
+      req.on('error', reject);
+      req.end(text);
+    });
+
+  return {
+    url,
+    token,
+    queue,
+    pool,
+    request,
+    close: async () => {
+      disconnect();
+      pool.detach();
+      queue.stopQueue();
+      await server.stop();
+    }
+  };
+};
@@ -0,0 +1,81 @@
+import { request as httpRequest } from 'http';
+import { randomBytes } from 'crypto';
+import type { Socket } from 'net';
+
+export interface EventClient {
+  // Resolves with the next text message that `matches`, parsed as JSON
+  next: <T = unknown>(matches?: (message: T) => boolean) => Promise<T>;
+  close: () => void;
+}
+
+/**
+ * Just enough of a WebSocket client for the control API's event stream:
+ * the server only sends unfragmented text and control frames, unmasked.
+ */
+export const connectEvents = (url: string): Promise<EventClient> =>
+  new Promise((resolve, reject) => {
+    const req = httpRequest(url, {
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Version': '13',
+        'Sec-WebSocket-Key': randomBytes(16).toString('base64')
+      }
+    });
+    req.on('error', reject);
+    req.on('response', response => reject(new Error(`Upgrade refused with ${response.statusCode}`)));
+    req.on('upgrade', (_response, socket: Socket, head: Buffer) => {
+      const messages: unknown[] = [];
+      const waiting: { matches: (message: unknown) => boolean; resolve: (message: unknown) => void }[] = [];
+      let buffer = head;
+
+      const deliver = (message: unknown) => {
+        const index = waiting.findIndex(waiter => waiter.matches(message));
+        if (index === -1) {
+          messages.push(message);
+        } else {
+          waiting.splice(index, 1)[0].resolve(message);
+        }
+      };
+
+      const readFrames = () => {
+        while (buffer.length >= 2) {
+          const opcode = buffer[0] & 0x0f;
+          let length = buffer[1] & 0x7f;
+          let offset = 2;
+          if (length === 126) {
+            if (buffer.length < 4) return;
+            length = buffer.readUInt16BE(2);
+            offset = 4;
+          } else if (length === 127) {
+            if (buffer.length < 10) return;
+            length = Number(buffer.readBigUInt64BE(2));
+            offset = 10;
+          }
+          if (buffer.length < offset + length) return;
+
+          const payload = buffer.subarray(offset, offset + length);
+          buffer = buffer.subarray(offset + length);
+          if (opcode === 0x1) deliver(JSON.parse(payload.toString('utf8')));
+        }
+      };
+
+      socket.on('data', chunk => {
+        buffer = Buffer.concat([buffer, chunk]);
+        readFrames();
+      });
+      readFrames();
+
+      resolve({
+        next: <T,>(matches: (message: T) => boolean = () => true) => {
+          const index = messages.findIndex(message => matches(message as T));
+          if (index !== -1) return Promise.resolve(messages.splice(index, 1)[0] as T);
+          return new Promise<T>(resolveMessage => {
+            waiting.push({ matches: message => matches(message as T), resolve: message => resolveMessage(message as T) });
+          });
+        },
+        close: () => socket.destroy()
+      });
+    });
+    req.end();
+  });
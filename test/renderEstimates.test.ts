@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { QueueItem } from '../src/services/RenderQueue';
+import { RenderHistoryRecord } from '../src/types/history';
+import {
+  buildFrameTimeIndex,
+  estimateFrameSeconds,
+  estimateItemSeconds,
+  estimateQueue
+} from '../src/utils/renderEstimates';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+// A finished run of a file with the given per-frame times
+const run = (
+  blendFile: string,
+  frameSeconds: number[],
+  settings: Partial<RenderHistoryRecord> = {}
+): RenderHistoryRecord => ({
+  id: `${blendFile}-${Math.random()}`,
+  jobId: blendFile,
+  blendFile,
+  outputPath: '/renders',
+  startTime: NOW.toISOString(),
+  endTime: NOW.toISOString(),
+  durationSeconds: frameSeconds.reduce((sum, seconds) => sum + seconds, 0),
+  outcome: 'completed',
+  engine: 'CYCLES',
+  samples: 128,
+  resolution: [1920, 1080],
+  framesRendered: frameSeconds.length,
+  skippedFrames: 0,
+  frames: frameSeconds.map((seconds, index) => ({ frame: index + 1, seconds })),
+  ...settings
+});
+
+const item = (id: string, blendFile: string, changes: Partial<QueueItem> = {}): QueueItem => ({
+  id,
+  blendFile,
+  outputPath: '/renders',
+  options: { blendFile, outputPath: '/renders', startFrame: 1, endFrame: 10, engine: 'CYCLES', samples: 128, resolution: [1920, 1080] },
+  status: 'pending',
+  progress: 0,
+  ...changes
+});
+
+const secondsFromNow = (date?: Date) => (date ? (date.getTime() - NOW.getTime()) / 1000 : undefined);
+
+describe('estimateFrameSeconds', () => {
+  it('averages earlier runs with the same settings', () => {
+    const index = buildFrameTimeIndex([
+      run('a.blend', [10, 12, 14]),
+      run('a.blend', [8, 8]),
+      run('a.blend', [100], { samples: 4096 })
+    ]);
+    expect(estimateFrameSeconds(item('1', 'a.blend').options, index)).toBe(10);
+  });
+
+  it('scales a run of the same engine by samples and resolution', () => {
+    const index = buildFrameTimeIndex([run('a.blend', [20, 20], { samples: 64, resolution: [960, 540] })]);
+    expect(estimateFrameSeconds(item('1', 'a.blend').options, index)).toBe(20 * 2 * 4);
+  });
+
+  it('only keeps the latest runs of each file', () => {
+    const index = buildFrameTimeIndex([
+      ...[1, 2, 3, 4, 5].map(() => run('a.blend', [6])),
+      run('a.blend', [600]),
+      run('b.blend', []),
+      run('c.blend', [3])
+    ]);
+    expect(index.get('a.blend')).toHaveLength(5);
+    expect(estimateFrameSeconds(item('1', 'a.blend').options, index)).toBe(6);
+    expect(index.has('b.blend')).toBe(false);
+  });
+
+  it('knows nothing about files that never rendered', () => {
+    expect(estimateFrameSeconds(item('1', 'new.blend').options, new Map())).toBeUndefined();
+  });
+});
+
+describe('estimateItemSeconds', () => {
+  const index = buildFrameTimeIndex([run('a.blend', [10, 10, 10])]);
+
+  it("uses the running render's own estimate first", () => {
+    expect(estimateItemSeconds(item('1', 'a.blend', { status: 'rendering', secondsRemaining: 42, averageFrameSeconds: 5 }), index)).toBe(42);
+    expect(estimateItemSeconds(item('1', 'a.blend', { status: 'rendering', progress: 40, averageFrameSeconds: 5 }), index)).toBe(30);
+    expect(estimateItemSeconds(item('1', 'a.blend', { status: 'rendering', progress: 50 }), index)).toBe(50);
+  });
+
+  it('counts the frames left of pending and resumed items', () => {
+    expect(estimateItemSeconds(item('1', 'a.blend'), index)).toBe(100);
+    expect(estimateItemSeconds(item('1', 'a.blend', { resumeFromFrame: 8 }), index)).toBe(30);
+    expect(estimateItemSeconds(item('1', 'a.blend', { options: { ...item('1', 'a.blend').options, frames: [1, 5] } }), index)).toBe(20);
+    expect(estimateItemSeconds(item('1', 'a.blend', { status: 'completed' }), index)).toBeUndefined();
+  });
+});
+
+describe('estimateQueue', () => {
+  const index = buildFrameTimeIndex([run('a.blend', [10]), run('b.blend', [30])]);
+
+  it('fills the earliest free slot in queue order', () => {
+    const estimate = estimateQueue([
+      item('running', 'a.blend', { status: 'rendering', secondsRemaining: 50 }),
+      item('first', 'b.blend'),
+      item('second', 'a.blend'),
+      item('third', 'a.blend')
+    ], 2, index, NOW);
+
+    expect(secondsFromNow(estimate.items.get('running')?.finishesAt)).toBe(50);
+    expect(secondsFromNow(estimate.items.get('first')?.finishesAt)).toBe(300);
+    expect(secondsFromNow(estimate.items.get('second')?.finishesAt)).toBe(150);
+    expect(secondsFromNow(estimate.items.get('third')?.finishesAt)).toBe(250);
+    expect(secondsFromNow(estimate.finishesAt)).toBe(300);
+    expect(estimate.unestimated).toBe(0);
+  });
+
+  it('waits for scheduled retries', () => {
+    const estimate = estimateQueue([
+      item('retry', 'a.blend', { nextRetryAt: new Date(NOW.getTime() + 60000) })
+    ], 1, index, NOW);
+
+    expect(estimate.items.get('retry')?.secondsRemaining).toBe(160);
+  });
+
+  it('skips pending items without timing data', () => {
+    const estimate = estimateQueue([item('unknown', 'new.blend'), item('known', 'a.blend')], 1, index, NOW);
+
+    expect(estimate.items.has('unknown')).toBe(false);
+    expect(secondsFromNow(estimate.finishesAt)).toBe(100);
+    expect(estimate.unestimated).toBe(1);
+  });
+
+  it('does not free the slot of a running item without an estimate', () => {
+    const estimate = estimateQueue([
+      item('unknown', 'new.blend', { status: 'rendering' }),
+      item('running', 'a.blend', { status: 'rendering', secondsRemaining: 20 }),
+      item('next', 'a.blend')
+    ], 2, index, NOW);
+
+    // Only the slot of the estimated render frees up
+    expect(secondsFromNow(estimate.items.get('next')?.finishesAt)).toBe(120);
+    expect(estimate.unestimated).toBe(1);
+  });
+
+  it('cannot schedule anything while every slot renders for an unknown time', () => {
+    const estimate = estimateQueue([
+      item('unknown', 'new.blend', { status: 'rendering' }),
+      item('next', 'a.blend')
+    ], 1, index, NOW);
+
+    expect(estimate.items.size).toBe(0);
+    expect(estimate.finishesAt).toBeUndefined();
+    expect(estimate.unestimated).toBe(2);
+  });
+});
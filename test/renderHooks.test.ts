@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { expandTemplate, runRenderHook, shellQuote } from '../electron/renderHooks.js';
+import type { HookContext, RenderHook } from '../src/types/hooks';
+
+const withPlatform = (platform: NodeJS.Platform, run: () => void) => {
+  const original = Object.getOwnPropertyDescriptor(process, 'platform')!;
+  Object.defineProperty(process, 'platform', { ...original, value: platform });
+  try {
+    run();
+  } finally {
+    Object.defineProperty(process, 'platform', original);
+  }
+};
+
+describe('shellQuote', () => {
+  it('keeps POSIX shells from expanding anything', () => {
+    withPlatform('linux', () => {
+      expect(shellQuote("it's $HOME")).toBe(`'it'\\''s $HOME'`);
+    });
+  });
+
+  it('keeps cmd.exe from expanding %VAR%', () => {
+    withPlatform('win32', () => {
+      expect(shellQuote('C:\\Renders\\Shot 1')).toBe('"C:\\Renders\\Shot 1"');
+      expect(shellQuote('say "hi"')).toBe('"say ""hi"""');
+      expect(shellQuote('100% %USERNAME%')).toBe('"100"^%" "^%"USERNAME"^%""');
+    });
+  });
+});
+
+describe('expandTemplate', () => {
+  it('quotes known variables and leaves the rest', () => {
+    expect(expandTemplate('cp {blend_file} {nope}', { blend_file: 'a b.blend' }, value => `<${value}>`))
+      .toBe('cp <a b.blend> {nope}');
+  });
+});
+
+describe('command hooks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rfp-hooks-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.skipIf(process.platform === 'win32')('pass variables to the shell as they are', async () => {
+    const name = "it's $HOME %PATH% `id`";
+    const hook: RenderHook = {
+      id: 'echo',
+      stage: 'pre',
+      runOn: 'always',
+      enabled: true,
+      action: { type: 'command', command: 'printf "%s|%s" {blend_name} "$RFP_BLEND_NAME"' }
+    };
+    const context: HookContext = {
+      stage: 'pre',
+      status: 'pending',
+      itemId: 'item-1',
+      source: { blendFile: join(dir, `${name}.blend`), outputPath: join(dir, 'renders') }
+    };
+
+    expect(await runRenderHook(hook, context, { ffmpegPath: 'ffmpeg' })).toEqual({ status: 'completed', log: `${name}|${name}` });
+  });
+});
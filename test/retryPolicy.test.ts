@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createBlendFile,
+  createRenderJob,
+  DEFAULT_PROJECT_SETTINGS,
+  parseProject,
+  serializeProject
+} from '../src/services/ProjectService';
+import { ControlRequestError, parseAddRequest } from '../src/services/ControlBridge';
+
+const settings = { ...DEFAULT_PROJECT_SETTINGS, outputDirectory: '/renders', maxRenderAttempts: 2 };
+
+describe('per-file retry policy', () => {
+  it('is saved with the project and loaded back', () => {
+    const file = { ...createBlendFile('/projects/shot.blend', settings), retryPolicy: { maxAttempts: 5, fallbackToCPU: true } };
+    const loaded = parseProject(serializeProject(settings, [file, createBlendFile('/projects/other.blend', settings)]));
+
+    expect(loaded.files[0].retryPolicy).toEqual({ maxAttempts: 5, fallbackToCPU: true });
+    expect(loaded.files[1].retryPolicy).toBeUndefined();
+  });
+
+  it('rejects invalid policies in a project file', () => {
+    const project = JSON.parse(serializeProject(settings, [createBlendFile('/projects/shot.blend', settings)]));
+    project.files[0].retryPolicy = { maxAttempts: 0, backoffSeconds: 'soon', retries: 3 };
+
+    expect(() => parseProject(JSON.stringify(project))).toThrow(
+      /files\[0\]\.retryPolicy\.retries is not supported\n- files\[0\]\.retryPolicy\.backoffSeconds must be number\n- files\[0\]\.retryPolicy\.maxAttempts must be a whole number of at least 1/
+    );
+  });
+
+  it('is carried into the render job', () => {
+    const file = { ...createBlendFile('/projects/shot.blend', settings), retryPolicy: { maxAttempts: 4 } };
+
+    expect(createRenderJob(file, settings).retryPolicy).toEqual({ maxAttempts: 4 });
+    expect(createRenderJob(createBlendFile('/projects/shot.blend', settings), settings)).not.toHaveProperty('retryPolicy');
+  });
+
+  it('can be set by control API requests', () => {
+    const { item } = parseAddRequest({ blendFile: '/projects/shot.blend', retryPolicy: { maxAttempts: 3, backoffSeconds: 5 } }, settings);
+    expect(item.retryPolicy).toEqual({ maxAttempts: 3, backoffSeconds: 5 });
+
+    expect(parseAddRequest({ blendFile: '/projects/shot.blend' }, settings).item.retryPolicy).toBeUndefined();
+    expect(() => parseAddRequest({ blendFile: '/projects/shot.blend', retryPolicy: { backoffMultiplier: 0.5 } }, settings))
+      .toThrow(new ControlRequestError(400, 'retryPolicy.backoffMultiplier must be at least 1'));
+    expect(() => parseAddRequest({ blendFile: '/projects/shot.blend', retryPolicy: 3 }, settings))
+      .toThrow('retryPolicy must be an object');
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { ChildProcess, spawn } from 'child_process';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { acquireRunLock, readRunLock, releaseRunLock } from '../src/cli/runLock';
+import { buildForNode } from './helpers/buildForNode';
+
+// Beyond Linux's pid_max, so never a live process
+const DEAD_PID = 2 ** 30;
+
+describe('run lock', () => {
+  let dir: string;
+  let lockPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rfp-lock-'));
+    lockPath = join(dir, 'state', 'run.lock');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('is taken once and released by its holder', () => {
+    expect(acquireRunLock(lockPath)).toEqual({ acquired: true });
+    expect(readFileSync(lockPath, 'utf8')).toBe(String(process.pid));
+    expect(readRunLock(lockPath)).toBe(process.pid);
+    expect(acquireRunLock(lockPath)).toEqual({ acquired: true });
+
+    releaseRunLock(lockPath);
+    expect(existsSync(lockPath)).toBe(false);
+    expect(readRunLock(lockPath)).toBeNull();
+  });
+
+  it('reports the pid of a live holder and leaves its lock alone', () => {
+    acquireRunLock(lockPath);
+    writeFileSync(lockPath, String(process.ppid));
+
+    expect(acquireRunLock(lockPath)).toEqual({ acquired: false, pid: process.ppid });
+    releaseRunLock(lockPath);
+    expect(readFileSync(lockPath, 'utf8')).toBe(String(process.ppid));
+  });
+
+  it('takes over a lock left by a run that died', () => {
+    acquireRunLock(lockPath);
+    writeFileSync(lockPath, String(DEAD_PID));
+    expect(readRunLock(lockPath)).toBeNull();
+
+    expect(acquireRunLock(lockPath)).toEqual({ acquired: true });
+    expect(readFileSync(lockPath, 'utf8')).toBe(String(process.pid));
+    // The stale lock is moved aside, then deleted
+    expect(readdirSync(join(dir, 'state'))).toEqual(['run.lock']);
+  });
+
+  it('waits for a fresh lock without a pid, then treats an old one as stale', () => {
+    acquireRunLock(lockPath);
+    writeFileSync(lockPath, '');
+    const old = new Date(Date.now() - 60000);
+    utimesSync(lockPath, old, old);
+
+    expect(acquireRunLock(lockPath)).toEqual({ acquired: true });
+    expect(readFileSync(lockPath, 'utf8')).toBe(String(process.pid));
+  });
+
+  describe('between processes', () => {
+    let runner: string;
+
+    const readResult = (child: ChildProcess) =>
+      new Promise<{ pid: number; acquired: boolean }>((resolve, reject) => {
+        createInterface({ input: child.stdout! }).once('line', line => resolve(JSON.parse(line)));
+        child.once('exit', code => reject(new Error(`Lock runner exited with ${code}`)));
+      });
+
+    beforeAll(async () => {
+      runner = await buildForNode('test/fixtures/lock-runner.ts');
+    }, 60000);
+
+    it('lets exactly one of several runs starting together take it', async () => {
+      acquireRunLock(lockPath);
+      writeFileSync(lockPath, String(DEAD_PID));
+
+      const startAt = Date.now() + 1500;
+      const runners = [1, 2, 3, 4].map(() => spawn(process.execPath, [runner, lockPath, String(startAt)]));
+      // pid is the runner's own when it took the lock, the holder's otherwise
+      const results = await Promise.all(runners.map(readResult));
+      await Promise.all(runners.map(child => new Promise(resolve => {
+        child.once('exit', resolve);
+        child.stdin?.end();
+      })));
+
+      const winners = results.filter(result => result.acquired);
+      expect(winners).toHaveLength(1);
+      expect(results.map(result => result.pid)).toEqual(results.map(() => winners[0].pid));
+      expect(readFileSync(lockPath, 'utf8')).toBe(String(winners[0].pid));
+      expect(readdirSync(join(dir, 'state'))).toEqual(['run.lock']);
+    }, 30000);
+  });
+});
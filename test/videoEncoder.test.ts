@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { findDefaultFFmpegPath, VideoEncoder } from '../electron/videoEncoder.js';
+import { DEFAULT_VIDEO_OPTIONS } from '../src/services/ProjectService';
+import type { EncodeProgress, EncodeRequest } from '../src/types/blender';
+
+const FAKE_FFMPEG = fileURLToPath(new URL('./fixtures/fake-ffmpeg.mjs', import.meta.url));
+
+describe('VideoEncoder against a fake ffmpeg', () => {
+  let dir: string;
+  let framesDir: string;
+  let encoder: VideoEncoder;
+
+  const request = (changes: Partial<EncodeRequest> = {}): EncodeRequest => ({
+    jobId: 'job-1',
+    source: { blendFile: join(dir, 'shot.blend'), outputPath: join(framesDir, 'shot_####'), startFrame: 1, endFrame: 3 },
+    outputFile: join(dir, 'video', 'shot.mp4'),
+    video: DEFAULT_VIDEO_OPTIONS,
+    sceneFps: 24,
+    ...changes
+  });
+
+  const encode = (changes: Partial<EncodeRequest> = {}) => {
+    const progress: EncodeProgress[] = [];
+    const done = encoder.encode(request(changes), update => progress.push(update));
+    return { progress, done };
+  };
+
+  const readArgs = (): string[] => JSON.parse(readFileSync(process.env.FAKE_FFMPEG_ARGS!, 'utf8'));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rfp-ffmpeg-'));
+    // ffmpeg patterns treat % specially
+    framesDir = join(dir, '100% final');
+    mkdirSync(framesDir);
+    [1, 2, 3].forEach(frame => writeFileSync(join(framesDir, `shot_000${frame}.png`), 'fake frame'));
+    process.env.FFMPEG_PATH = FAKE_FFMPEG;
+    process.env.FAKE_FFMPEG_MODE = 'ok';
+    process.env.FAKE_FFMPEG_ARGS = join(dir, 'args.json');
+    encoder = new VideoEncoder();
+  });
+
+  afterEach(() => {
+    encoder.cancelAll();
+    delete process.env.FFMPEG_PATH;
+    delete process.env.FAKE_FFMPEG_MODE;
+    delete process.env.FAKE_FFMPEG_ARGS;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('uses FFMPEG_PATH, then ffmpeg from the PATH', () => {
+    expect(findDefaultFFmpegPath()).toBe(FAKE_FFMPEG);
+    expect(encoder.getFFmpegPath()).toBe(FAKE_FFMPEG);
+
+    delete process.env.FFMPEG_PATH;
+    expect(findDefaultFFmpegPath()).toBe('ffmpeg');
+  });
+
+  it('encodes the sequence and reports progress', async () => {
+    const { progress, done } = encode();
+    await done;
+
+    expect(readFileSync(join(dir, 'video', 'shot.mp4'), 'utf8')).toBe('fake video');
+    expect(progress[0]).toEqual({ frame: 0, totalFrames: 3, percentage: 0, status: 'encoding' });
+    expect(progress.filter(update => update.status === 'encoding').map(update => update.frame)).toEqual([0, 1, 2, 3]);
+    expect(progress[progress.length - 1]).toEqual({ frame: 3, totalFrames: 3, percentage: 100, status: 'completed' });
+
+    const args = readArgs();
+    expect(args).toEqual(expect.arrayContaining(['-framerate', '24', '-start_number', '1', '-frames:v', '3', '-c:v', 'libx264']));
+    expect(args[args.indexOf('-i') + 1]).toBe(join(dir, '100%% final', 'shot_%04d.png'));
+    expect(args.slice(-3)).toEqual(['-f', 'mp4', join(dir, 'video', 'shot.mp4')]);
+  });
+
+  it('refuses sequences with missing frames without running ffmpeg', async () => {
+    rmSync(join(framesDir, 'shot_0002.png'));
+
+    await expect(encode().done).rejects.toThrow('Cannot encode the sequence: 1 frame(s) missing');
+    expect(existsSync(process.env.FAKE_FFMPEG_ARGS!)).toBe(false);
+  });
+
+  it('encodes a consecutive frame list and refuses one that skips frames', async () => {
+    const list = (frames: number[]) => ({
+      source: { ...request().source, frames, startFrame: frames[0], endFrame: frames[frames.length - 1] }
+    });
+
+    await encode(list([2, 3])).done;
+    expect(readArgs()).toEqual(expect.arrayContaining(['-start_number', '2', '-frames:v', '2']));
+
+    await expect(encode({ ...list([1, 3]), jobId: 'job-2' }).done).rejects.toThrow('Cannot encode frames 1,3: a video needs consecutive frames');
+    rmSync(join(framesDir, 'shot_0003.png'));
+    await expect(encode({ ...list([1, 2, 3]), jobId: 'job-3' }).done).rejects.toThrow('1 frame(s) missing');
+  });
+
+  it("fails with ffmpeg's last error lines", async () => {
+    process.env.FAKE_FFMPEG_MODE = 'error';
+    const { progress, done } = encode();
+
+    await expect(done).rejects.toThrow('[libx264 @ 0x55d5] broken frame 1\nConversion failed!');
+    expect(progress[progress.length - 1]).toMatchObject({ status: 'error', frame: 1 });
+    expect(existsSync(join(dir, 'video', 'shot.mp4'))).toBe(false);
+  });
+
+  it('stops a running encode when cancelled', async () => {
+    process.env.FAKE_FFMPEG_MODE = 'hang';
+    const { progress, done } = encode();
+    await expect.poll(() => existsSync(process.env.FAKE_FFMPEG_ARGS!)).toBe(true);
+
+    expect(encoder.cancel('job-1')).toBe(true);
+    await done;
+    expect(progress[progress.length - 1]).toMatchObject({ status: 'cancelled', message: 'Encoding cancelled' });
+    expect(encoder.cancel('job-1')).toBe(false);
+  });
+
+  it('explains a missing ffmpeg', async () => {
+    encoder.setFFmpegPath(join(dir, 'no-ffmpeg'));
+
+    await expect(encode().done).rejects.toThrow(`ffmpeg not found at ${join(dir, 'no-ffmpeg')}`);
+  });
+});
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { HookRunner, RenderQueue } from '../src/services/RenderQueue';
+import { WorkerPool } from '../src/services/WorkerPool';
+import type { HookRunResult, RenderHook } from '../src/types/hooks';
+
+const NODE = { name: 'render-01', platform: 'linux', cores: 8, gpus: [], blenderVersions: ['4.1.1'], slots: 1 };
+
+const PRE_HOOK: RenderHook = {
+  id: 'sync',
+  name: 'Sync assets',
+  stage: 'pre',
+  runOn: 'always',
+  enabled: true,
+  action: { type: 'command', command: 'sync-assets' }
+};
+
+// Pre-render hooks that finish when the test says so
+class ManualHookRunner implements HookRunner {
+  private pending: ((result: HookRunResult) => void)[] = [];
+
+  runHook(): Promise<HookRunResult> {
+    return new Promise(resolve => this.pending.push(resolve));
+  }
+
+  finish(result: HookRunResult = { status: 'completed', log: '' }): Promise<void> {
+    this.pending.splice(0).forEach(resolve => resolve(result));
+    // Let the queue move on to the render
+    return new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
+
+describe('WorkerPool claims', () => {
+  let queue: RenderQueue;
+  let pool: WorkerPool;
+  let hooks: ManualHookRunner;
+
+  const add = (withHook = true) => queue.addToQueue({
+    blendFile: '/projects/shot.blend',
+    outputPath: '/renders/shot_####',
+    options: { blendFile: '/projects/shot.blend', outputPath: '/renders/shot_####', startFrame: 1, endFrame: 4 },
+    ...(withHook && { hooks: [PRE_HOOK] })
+  });
+
+  const item = (id: string) => queue.getQueue().find(candidate => candidate.id === id);
+
+  beforeEach(() => {
+    queue = new RenderQueue();
+    queue.setLocalRendering(false);
+    hooks = new ManualHookRunner();
+    queue.setHookRunner(hooks);
+    pool = new WorkerPool();
+    pool.attach(queue);
+  });
+
+  afterEach(() => {
+    pool.detach();
+    queue.stopQueue();
+  });
+
+  it('hands out an item without hooks right away', () => {
+    const id = add(false);
+    const { nodeId } = pool.register(NODE);
+
+    expect(pool.claim(nodeId)?.job).toMatchObject({ id, blendFile: '/projects/shot.blend', outputPath: '/renders/shot_####' });
+    expect(pool.getNodes()[0]).toMatchObject({ status: 'busy', jobs: [id] });
+  });
+
+  it('only hands items pinned to a Blender installation to nodes with its version', () => {
+    pool.setInstallations([
+      { id: 'blender-36', name: 'Blender 3.6', path: '/opt/blender-3.6/blender', version: '3.6.5', available: true, source: 'manual' }
+    ]);
+    const id = queue.addToQueue({
+      blendFile: '/projects/old.blend',
+      outputPath: '/renders/old_####',
+      options: { blendFile: '/projects/old.blend', outputPath: '/renders/old_####', installationId: 'blender-36' }
+    });
+    const current = pool.register(NODE);
+    const legacy = pool.register({ ...NODE, name: 'render-02', blenderVersions: ['4.1.1', '3.6.5'] });
+
+    expect(pool.claim(current.nodeId)).toEqual({ job: null });
+    const { job } = pool.claim(legacy.nodeId)!;
+    expect(job).toMatchObject({ id, blenderVersion: '3.6.5' });
+    expect(job?.options.installationId).toBeUndefined();
+  });
+
+  it('hands out an item once its pre-render hooks finished', async () => {
+    const id = add();
+    add(false);
+    const { nodeId } = pool.register(NODE);
+
+    // The hook holds the node's only slot
+    expect(pool.claim(nodeId)).toEqual({ job: null });
+    expect(item(id)).toMatchObject({ status: 'rendering', node: 'render-01' });
+    expect(pool.getNodes()[0]).toMatchObject({ status: 'busy', jobs: [id] });
+    expect(pool.claim(nodeId)).toEqual({ job: null });
+
+    await hooks.finish();
+    expect(pool.claim(nodeId)?.job).toMatchObject({ id, options: { startFrame: 1, endFrame: 4, jobId: id } });
+    expect(pool.getNodes()[0].jobs).toEqual([id]);
+
+    expect(pool.complete(nodeId, id, { status: 'completed' })).toBe(true);
+    await expect.poll(() => item(id)?.status).toBe('completed');
+    expect(pool.getNodes()[0]).toMatchObject({ status: 'idle', jobs: [], completedJobs: 1 });
+  });
+
+  it('frees the slot when a pre-render hook fails', async () => {
+    const id = add();
+    const next = add(false);
+    const { nodeId } = pool.register(NODE);
+
+    expect(pool.claim(nodeId)).toEqual({ job: null });
+    await hooks.finish({ status: 'error', log: '', error: 'exit code 1' });
+
+    expect(item(id)).toMatchObject({ status: 'error', error: 'Pre-render hook "Sync assets" failed: exit code 1' });
+    expect(pool.getNodes()[0]).toMatchObject({ status: 'idle', jobs: [] });
+    expect(pool.claim(nodeId)?.job?.id).toBe(next);
+  });
+
+  it('frees the slot when the item is removed while its hooks run', async () => {
+    const id = add();
+    const { nodeId } = pool.register(NODE);
+
+    pool.claim(nodeId);
+    queue.removeFromQueue(id);
+    expect(pool.getNodes()[0]).toMatchObject({ status: 'idle', jobs: [] });
+
+    await hooks.finish();
+    expect(pool.claim(nodeId)).toEqual({ job: null });
+    expect(pool.getNodes()[0].jobs).toEqual([]);
+  });
+
+  it('queues the item again when its node leaves while the hooks run', async () => {
+    const id = add();
+    const first = pool.register(NODE);
+
+    pool.claim(first.nodeId);
+    pool.unregister(first.nodeId);
+    await hooks.finish();
+    expect(item(id)).toMatchObject({ status: 'pending' });
+
+    const second = pool.register({ ...NODE, name: 'render-02' });
+    expect(pool.claim(second.nodeId)).toEqual({ job: null });
+    await hooks.finish();
+    expect(pool.claim(second.nodeId)?.job?.id).toBe(id);
+  });
+});